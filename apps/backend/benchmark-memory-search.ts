@@ -0,0 +1,180 @@
+/**
+ * Memory search benchmark: recall and latency of the HNSW indexes against an
+ * exact search, at several ef_search values.
+ *
+ *   bun benchmark-memory-search.ts [--user <id>] [--synthetic <cards>] [--dimensions 1536]
+ *     [--metric cosine|dotProduct|l2] [--queries 50] [--limit 10] [--ef 40,100,200]
+ *
+ * The queries are embeddings of the user's own cards (each search leaves its
+ * own card out), so no embedding API is called. Without --user the user with
+ * the most embedded cards is benchmarked. --synthetic adds a throwaway user with
+ * that many random cards, deleted afterwards; random vectors are the hardest
+ * case for HNSW, so their recall is a lower bound.
+ */
+import { performance } from 'node:perf_hooks';
+import { prisma } from './src/lib/database';
+import { parseVectorFromPg } from './src/lib/embeddings';
+import { listEmbeddingSpaces, type DistanceMetric } from './src/lib/memory-search';
+import { ensureVectorIndexes, vectorIndexName } from './src/lib/vector-indexes';
+import {
+  searchSimilarMemoryCards,
+  searchSimilarMemoryCardsDotProduct,
+  searchSimilarMemoryCardsL2,
+  type SimilaritySearchOptions,
+} from './src/lib/vector-search';
+
+const searchByMetric = {
+  cosine: searchSimilarMemoryCards,
+  dotProduct: searchSimilarMemoryCardsDotProduct,
+  l2: searchSimilarMemoryCardsL2,
+};
+
+// Thresholds every card passes, so only the rankings are compared
+const NO_THRESHOLD: Record<DistanceMetric, number> = {
+  cosine: -1,
+  dotProduct: -Number.MAX_VALUE,
+  l2: Number.MAX_VALUE,
+};
+
+const SYNTHETIC_BATCH = 5000;
+
+function option(name: string, fallback?: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : fallback;
+}
+
+function percentile(sorted: number[], p: number): number {
+  return sorted[Math.min(sorted.length - 1, Math.floor(sorted.length * p))] ?? 0;
+}
+
+async function createSyntheticCards(userId: string, cards: number, dimensions: number) {
+  console.log(`Creating ${cards} synthetic cards with ${dimensions}-dimension embeddings...`);
+  for (let first = 1; first <= cards; first += SYNTHETIC_BATCH) {
+    // The correlated WHERE makes Postgres draw a new vector for every row
+    await prisma.$executeRawUnsafe(`
+      INSERT INTO "memory_cards" ("id", "userId", "title", "content", "embedding", "embeddingModel", "embeddingDimensions", "embeddingStatus", "updatedAt")
+      SELECT $1 || '-' || n, $1, 'Benchmark card ' || n, 'Synthetic card for the memory search benchmark',
+        (SELECT array_agg(random() - 0.5)::vector FROM generate_series(1, $2::int) WHERE n > 0),
+        'benchmark:random', $2::int, 'ready', NOW()
+      FROM generate_series($3::int, $4::int) n
+    `, userId, dimensions, first, Math.min(cards, first + SYNTHETIC_BATCH - 1));
+  }
+  await prisma.$executeRawUnsafe('ANALYZE "memory_cards"');
+  await ensureVectorIndexes(prisma);
+}
+
+async function benchmarkMemorySearch() {
+  const metric = option('metric', 'cosine') as DistanceMetric;
+  const queryCount = parseInt(option('queries', '50')!);
+  const limit = parseInt(option('limit', '10')!);
+  const efValues = option('ef', '40,100,200')!.split(',').map(value => parseInt(value));
+  const synthetic = option('synthetic');
+  let userId = option('user');
+
+  if (!(metric in searchByMetric)) {
+    throw new Error(`Unknown metric ${metric}; use cosine, dotProduct or l2`);
+  }
+
+  try {
+    if (synthetic) {
+      userId = `benchmark-${Date.now()}`;
+      await createSyntheticCards(userId, parseInt(synthetic), parseInt(option('dimensions', '1536')!));
+    } else if (!userId) {
+      const [busiest] = await prisma.$queryRawUnsafe(`
+        SELECT "userId", COUNT(*) as cards
+        FROM "memory_cards"
+        WHERE "embedding" IS NOT NULL
+        GROUP BY "userId"
+        ORDER BY cards DESC
+        LIMIT 1
+      `) as any[];
+      userId = busiest?.userId;
+    }
+    if (!userId) {
+      throw new Error('No embedded memory cards to benchmark');
+    }
+
+    // The space most of the user's cards are in
+    const [space] = (await listEmbeddingSpaces(userId, prisma)).sort((a, b) => b.cards - a.cards);
+    if (!space) {
+      throw new Error(`User ${userId} has no embedded memory cards`);
+    }
+    console.log(`User ${userId}: ${space.cards} cards embedded with ${space.embeddingModel} (${space.embeddingDimensions} dimensions)`);
+
+    const indexName = vectorIndexName(metric, space.embeddingDimensions);
+    const [index] = await prisma.$queryRawUnsafe(
+      `SELECT indexname FROM pg_indexes WHERE tablename = 'memory_cards' AND indexname = $1`,
+      indexName
+    ) as any[];
+    console.log(index ? `Index: ${indexName}` : `⚠️ No ${indexName}: every search is a sequential scan`);
+
+    const samples = await prisma.$queryRawUnsafe(`
+      SELECT "id", "embedding"::text as embedding
+      FROM "memory_cards"
+      WHERE "userId" = $1 AND "embeddingModel" = $2 AND "embeddingDimensions" = $3
+      ORDER BY random()
+      LIMIT $4
+    `, userId, space.embeddingModel, space.embeddingDimensions, queryCount) as Array<{ id: string; embedding: string }>;
+    const queries = samples.map(sample => ({ id: sample.id, embedding: parseVectorFromPg(sample.embedding) }));
+
+    const search = async (query: { id: string; embedding: number[] }, settings: Partial<SimilaritySearchOptions>) => {
+      const started = performance.now();
+      const results = await searchByMetric[metric](query.embedding, {
+        userId: userId!,
+        limit,
+        threshold: NO_THRESHOLD[metric],
+        excludeIds: [query.id],
+        embeddingModel: space.embeddingModel,
+        ...settings,
+      });
+      return { ids: results.map(result => result.id), ms: performance.now() - started };
+    };
+
+    // Warm the caches so the first setting measured isn't penalised
+    for (const query of queries.slice(0, 5)) {
+      await search(query, {});
+    }
+
+    console.log(`\n${queries.length} queries, top ${limit} by ${metric}\n`);
+
+    const exact: string[][] = [];
+    const rows: Array<Record<string, string | number>> = [];
+    for (const efSearch of [null, ...efValues]) {
+      const latencies: number[] = [];
+      let found = 0;
+      let expected = 0;
+
+      for (const [i, query] of queries.entries()) {
+        const { ids, ms } = await search(query, efSearch === null ? { exact: true } : { efSearch });
+        latencies.push(ms);
+        if (efSearch === null) {
+          exact.push(ids);
+        } else {
+          const truth = new Set(exact[i]);
+          found += ids.filter(id => truth.has(id)).length;
+          expected += truth.size;
+        }
+      }
+
+      latencies.sort((a, b) => a - b);
+      rows.push({
+        ef_search: efSearch === null ? 'exact' : efSearch,
+        recall: efSearch === null ? '100.0%' : `${(expected === 0 ? 100 : (found / expected) * 100).toFixed(1)}%`,
+        'p50 ms': Number(percentile(latencies, 0.5).toFixed(2)),
+        'p95 ms': Number(percentile(latencies, 0.95).toFixed(2)),
+        'mean ms': Number((latencies.reduce((sum, ms) => sum + ms, 0) / latencies.length).toFixed(2)),
+      });
+    }
+
+    console.table(rows);
+  } catch (error) {
+    console.error('Error benchmarking memory search:', error);
+  } finally {
+    if (synthetic && userId) {
+      await prisma.$executeRawUnsafe(`DELETE FROM "memory_cards" WHERE "userId" = $1`, userId);
+    }
+    await prisma.$disconnect();
+  }
+}
+
+benchmarkMemorySearch();
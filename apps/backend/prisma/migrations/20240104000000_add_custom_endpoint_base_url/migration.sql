@@ -0,0 +1,2 @@
+-- Add base URL for self-hosted OpenAI-compatible endpoints (provider = 'custom')
+ALTER TABLE "user_api_keys" ADD COLUMN "baseUrl" TEXT;
@@ -0,0 +1,2 @@
+-- Add ordered provider/model fallback chain for single-model chat
+ALTER TABLE "users" ADD COLUMN "fallbackChain" JSONB;
@@ -0,0 +1,40 @@
+-- Add per-call token usage and cost ledger (chat messages, Trinity agents and orchestrator)
+
+-- CreateTable
+CREATE TABLE "usage_records" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "threadId" TEXT,
+    "messageId" TEXT,
+    "source" TEXT NOT NULL,
+    "agentType" TEXT,
+    "preset" TEXT,
+    "provider" TEXT NOT NULL,
+    "model" TEXT NOT NULL,
+    "promptTokens" INTEGER NOT NULL DEFAULT 0,
+    "completionTokens" INTEGER NOT NULL DEFAULT 0,
+    "totalTokens" INTEGER NOT NULL DEFAULT 0,
+    "costUsd" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "estimated" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "usage_records_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "usage_records_userId_createdAt_idx" ON "usage_records"("userId", "createdAt" DESC);
+
+-- CreateIndex
+CREATE INDEX "usage_records_threadId_idx" ON "usage_records"("threadId");
+
+-- CreateIndex
+CREATE INDEX "usage_records_messageId_idx" ON "usage_records"("messageId");
+
+-- AddForeignKey
+ALTER TABLE "usage_records" ADD CONSTRAINT "usage_records_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "usage_records" ADD CONSTRAINT "usage_records_threadId_fkey" FOREIGN KEY ("threadId") REFERENCES "threads"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "usage_records" ADD CONSTRAINT "usage_records_messageId_fkey" FOREIGN KEY ("messageId") REFERENCES "messages"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- Add monthly spend and token caps, global and per provider
+ALTER TABLE "users" ADD COLUMN "spendLimits" JSONB;
@@ -0,0 +1,2 @@
+-- Record which memory tool linked a card to a message
+ALTER TABLE "message_memory_cards" ADD COLUMN "toolName" TEXT;
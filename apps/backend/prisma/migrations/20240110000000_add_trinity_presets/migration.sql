@@ -0,0 +1,26 @@
+-- Add saved per-user Trinity presets and default presets per user and thread
+
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "defaultTrinityPreset" TEXT;
+
+-- AlterTable
+ALTER TABLE "threads" ADD COLUMN "defaultTrinityPreset" TEXT;
+
+-- CreateTable
+CREATE TABLE "trinity_presets" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "config" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "trinity_presets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "trinity_presets_userId_name_key" ON "trinity_presets"("userId", "name");
+
+-- AddForeignKey
+ALTER TABLE "trinity_presets" ADD CONSTRAINT "trinity_presets_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,7 @@
+-- Mark assistant messages the user stopped before they finished
+
+-- CreateEnum
+CREATE TYPE "MessageStatus" AS ENUM ('complete', 'stopped');
+
+-- AlterTable
+ALTER TABLE "messages" ADD COLUMN "status" "MessageStatus" NOT NULL DEFAULT 'complete';
@@ -0,0 +1,47 @@
+-- Add Trinity evaluation prompt sets and recorded evaluation runs
+
+-- CreateTable
+CREATE TABLE "trinity_eval_prompt_sets" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "description" TEXT,
+    "prompts" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "trinity_eval_prompt_sets_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "trinity_eval_runs" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "promptSetId" TEXT NOT NULL,
+    "replayOfId" TEXT,
+    "configs" JSONB NOT NULL,
+    "results" JSONB NOT NULL,
+    "summary" JSONB NOT NULL,
+    "recording" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "trinity_eval_runs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "trinity_eval_prompt_sets_userId_name_key" ON "trinity_eval_prompt_sets"("userId", "name");
+
+-- CreateIndex
+CREATE INDEX "trinity_eval_runs_userId_createdAt_idx" ON "trinity_eval_runs"("userId", "createdAt" DESC);
+
+-- CreateIndex
+CREATE INDEX "trinity_eval_runs_promptSetId_idx" ON "trinity_eval_runs"("promptSetId");
+
+-- AddForeignKey
+ALTER TABLE "trinity_eval_prompt_sets" ADD CONSTRAINT "trinity_eval_prompt_sets_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "trinity_eval_runs" ADD CONSTRAINT "trinity_eval_runs_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "trinity_eval_runs" ADD CONSTRAINT "trinity_eval_runs_promptSetId_fkey" FOREIGN KEY ("promptSetId") REFERENCES "trinity_eval_prompt_sets"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,20 @@
+-- Record which model made each memory card embedding, so vectors from different
+-- models (and of different lengths) are never compared
+
+-- Any length: the model, not the column, decides the dimensions
+ALTER TABLE "memory_cards" ALTER COLUMN "embedding" TYPE vector;
+
+-- AlterTable
+ALTER TABLE "memory_cards" ADD COLUMN "embeddingModel" TEXT,
+ADD COLUMN "embeddingDimensions" INTEGER;
+
+-- Which model made existing embeddings depended on EMBEDDING_MODEL, which SQL can't
+-- read, so they are labelled 'legacy': searches skip them and the re-embedding
+-- migration counts them as stale
+UPDATE "memory_cards"
+SET "embeddingModel" = 'legacy',
+    "embeddingDimensions" = vector_dims("embedding")
+WHERE "embedding" IS NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "memory_cards_userId_embeddingModel_embeddingDimensions_idx" ON "memory_cards"("userId", "embeddingModel", "embeddingDimensions");
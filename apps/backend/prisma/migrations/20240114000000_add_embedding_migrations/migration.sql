@@ -0,0 +1,26 @@
+-- Track background re-embedding of memory cards with a new embedding model
+
+-- CreateTable
+CREATE TABLE "embedding_migrations" (
+    "id" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "targetModel" TEXT NOT NULL,
+    "targetDimensions" INTEGER NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'running',
+    "cursor" TEXT,
+    "total" INTEGER NOT NULL,
+    "processed" INTEGER NOT NULL DEFAULT 0,
+    "failed" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "completedAt" TIMESTAMP(3),
+
+    CONSTRAINT "embedding_migrations_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "embedding_migrations_userId_createdAt_idx" ON "embedding_migrations"("userId", "createdAt" DESC);
+
+-- AddForeignKey
+ALTER TABLE "embedding_migrations" ADD CONSTRAINT "embedding_migrations_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,40 @@
+-- Queue memory card embeddings in the database and track each card's embedding status
+
+-- AlterTable
+ALTER TABLE "memory_cards" ADD COLUMN "embeddingStatus" TEXT;
+
+UPDATE "memory_cards" SET "embeddingStatus" = 'ready' WHERE "embedding" IS NOT NULL;
+
+-- CreateTable
+CREATE TABLE "embedding_jobs" (
+    "id" TEXT NOT NULL,
+    "memoryCardId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "runAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "lockedAt" TIMESTAMP(3),
+    "failedAt" TIMESTAMP(3),
+    "lastError" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "embedding_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "embedding_jobs_memoryCardId_key" ON "embedding_jobs"("memoryCardId");
+
+-- CreateIndex
+CREATE INDEX "embedding_jobs_runAt_idx" ON "embedding_jobs"("runAt");
+
+-- AddForeignKey
+ALTER TABLE "embedding_jobs" ADD CONSTRAINT "embedding_jobs_memoryCardId_fkey" FOREIGN KEY ("memoryCardId") REFERENCES "memory_cards"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Auto-created memories never had their embedding stored; queue them
+INSERT INTO "embedding_jobs" ("id", "memoryCardId", "userId", "updatedAt")
+SELECT gen_random_uuid()::text, "id", "userId", CURRENT_TIMESTAMP
+FROM "memory_cards"
+WHERE "embedding" IS NULL AND "metadata"->>'autoGenerated' = 'true';
+
+UPDATE "memory_cards" SET "embeddingStatus" = 'pending'
+WHERE "embedding" IS NULL AND "metadata"->>'autoGenerated' = 'true';
@@ -0,0 +1,12 @@
+-- Full-text search over memory cards, for keyword matches that embeddings miss
+-- (ticket numbers, names, code symbols). Kept up to date by Postgres.
+
+-- AlterTable
+ALTER TABLE "memory_cards" ADD COLUMN "searchVector" tsvector GENERATED ALWAYS AS (
+    setweight(to_tsvector('english', coalesce("title", '')), 'A') ||
+    setweight(to_tsvector('english', coalesce("summary", '')), 'B') ||
+    setweight(to_tsvector('english', coalesce("content", '')), 'C')
+) STORED;
+
+-- CreateIndex
+CREATE INDEX "memory_cards_searchVector_idx" ON "memory_cards" USING GIN ("searchVector");
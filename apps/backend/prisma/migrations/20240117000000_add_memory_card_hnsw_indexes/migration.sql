@@ -0,0 +1,26 @@
+-- HNSW indexes for memory card similarity search, one per distance metric
+-- (cosine, inner product, L2) for each common embedding length. The embedding
+-- column takes any length and HNSW needs a fixed one, so each index casts it to
+-- one length and only covers cards of that length; the queries in
+-- vector-search.ts spell the column the same way. Other lengths get their
+-- indexes at startup (see ensureVectorIndexes).
+
+-- CreateIndex: 384 dimensions
+CREATE INDEX "memory_cards_embedding_384_cosine_idx" ON "memory_cards" USING hnsw (("embedding"::vector(384)) vector_cosine_ops) WHERE "embeddingDimensions" = 384;
+CREATE INDEX "memory_cards_embedding_384_ip_idx" ON "memory_cards" USING hnsw (("embedding"::vector(384)) vector_ip_ops) WHERE "embeddingDimensions" = 384;
+CREATE INDEX "memory_cards_embedding_384_l2_idx" ON "memory_cards" USING hnsw (("embedding"::vector(384)) vector_l2_ops) WHERE "embeddingDimensions" = 384;
+
+-- CreateIndex: 768 dimensions
+CREATE INDEX "memory_cards_embedding_768_cosine_idx" ON "memory_cards" USING hnsw (("embedding"::vector(768)) vector_cosine_ops) WHERE "embeddingDimensions" = 768;
+CREATE INDEX "memory_cards_embedding_768_ip_idx" ON "memory_cards" USING hnsw (("embedding"::vector(768)) vector_ip_ops) WHERE "embeddingDimensions" = 768;
+CREATE INDEX "memory_cards_embedding_768_l2_idx" ON "memory_cards" USING hnsw (("embedding"::vector(768)) vector_l2_ops) WHERE "embeddingDimensions" = 768;
+
+-- CreateIndex: 1024 dimensions
+CREATE INDEX "memory_cards_embedding_1024_cosine_idx" ON "memory_cards" USING hnsw (("embedding"::vector(1024)) vector_cosine_ops) WHERE "embeddingDimensions" = 1024;
+CREATE INDEX "memory_cards_embedding_1024_ip_idx" ON "memory_cards" USING hnsw (("embedding"::vector(1024)) vector_ip_ops) WHERE "embeddingDimensions" = 1024;
+CREATE INDEX "memory_cards_embedding_1024_l2_idx" ON "memory_cards" USING hnsw (("embedding"::vector(1024)) vector_l2_ops) WHERE "embeddingDimensions" = 1024;
+
+-- CreateIndex: 1536 dimensions
+CREATE INDEX "memory_cards_embedding_1536_cosine_idx" ON "memory_cards" USING hnsw (("embedding"::vector(1536)) vector_cosine_ops) WHERE "embeddingDimensions" = 1536;
+CREATE INDEX "memory_cards_embedding_1536_ip_idx" ON "memory_cards" USING hnsw (("embedding"::vector(1536)) vector_ip_ops) WHERE "embeddingDimensions" = 1536;
+CREATE INDEX "memory_cards_embedding_1536_l2_idx" ON "memory_cards" USING hnsw (("embedding"::vector(1536)) vector_l2_ops) WHERE "embeddingDimensions" = 1536;
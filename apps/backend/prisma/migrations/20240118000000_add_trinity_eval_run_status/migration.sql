@@ -0,0 +1,14 @@
+-- Run evaluations in the background with their progress stored, and record the
+-- attribution embeddings so replays don't embed the same sentences again
+
+-- AlterTable
+ALTER TABLE "trinity_eval_runs" ADD COLUMN "status" TEXT NOT NULL DEFAULT 'completed',
+ADD COLUMN "total" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "processed" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "lastError" TEXT,
+ADD COLUMN "embeddings" JSONB NOT NULL DEFAULT '{}',
+ADD COLUMN "completedAt" TIMESTAMP(3);
+
+-- Existing runs finished before they were saved; new ones start out running
+UPDATE "trinity_eval_runs" SET "completedAt" = "createdAt";
+ALTER TABLE "trinity_eval_runs" ALTER COLUMN "status" SET DEFAULT 'running';
@@ -7,6 +7,12 @@ import { appRouter } from './trpc/router.js';
 import { createContext } from './trpc/init.js';
 import { streamingRouter } from './routes/streaming.js';
 import { websocket } from './lib/streaming.js';
+import { prisma } from './lib/database.js';
+import { embeddingMigrations } from './lib/embedding-migration.js';
+import { embeddingQueue } from './lib/embedding-queue.js';
+import { ensureVectorIndexes } from './lib/vector-indexes.js';
+import { failInterruptedEvalRuns } from './lib/trinity-eval.js';
+import { deleteUnsentAttachments } from './lib/attachments.js';
 
 const app = new Hono();
 
@@ -60,6 +66,45 @@ console.log(`📡 tRPC endpoint available at http://localhost:${port}/trpc`);
 console.log(`🌊 Streaming endpoints available at http://localhost:${port}/stream`);
 console.log(`🔗 Health check at http://localhost:${port}/health`);
 
+// Embed queued memory cards in the background
+embeddingQueue.start(prisma);
+
+// Pick up embedding migrations a restart cut off
+embeddingMigrations.resumeInterrupted(prisma).catch((error) => {
+  console.error('Failed to resume embedding migrations:', error);
+});
+
+// Evaluations a restart cut off can't continue
+failInterruptedEvalRuns(prisma).catch((error) => {
+  console.error('Failed to mark interrupted evaluation runs:', error);
+});
+
+// Uploads never sent with a message are deleted, hourly
+const cleanUpUnsentAttachments = () => {
+  deleteUnsentAttachments(prisma)
+    .then((deleted) => {
+      if (deleted > 0) {
+        console.log(`🧹 Deleted ${deleted} unsent attachments`);
+      }
+    })
+    .catch((error) => {
+      console.error('Failed to delete unsent attachments:', error);
+    });
+};
+cleanUpUnsentAttachments();
+setInterval(cleanUpUnsentAttachments, 60 * 60 * 1000);
+
+// Index memory card embeddings of lengths the migrations don't cover
+ensureVectorIndexes(prisma)
+  .then((built) => {
+    if (built.length > 0) {
+      console.log(`🧭 Built vector indexes: ${built.join(', ')}`);
+    }
+  })
+  .catch((error) => {
+    console.error('Failed to build vector indexes:', error);
+  });
+
 export default {
   port,
   fetch: app.fetch,
@@ -0,0 +1,317 @@
+import { randomUUID } from 'node:crypto';
+import { DeleteObjectCommand, GetObjectCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+import { getSignedUrl } from '@aws-sdk/s3-request-presigner';
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import type { ContextMessage } from './context-builder.js';
+import type { LLMContentPart, LLMMessage } from './llm.js';
+
+// Attachment storage configuration; any S3-compatible store works (MinIO locally)
+const S3_BUCKET = process.env['S3_BUCKET'] || 'trichat-attachments';
+const UPLOAD_URL_TTL = 15 * 60; // Seconds a presigned upload stays valid
+const DOWNLOAD_URL_TTL = 60 * 60;
+export const MAX_ATTACHMENT_BYTES = parseInt(process.env['ATTACHMENT_MAX_BYTES'] || String(10 * 1024 * 1024));
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5;
+const MAX_CONTEXT_ATTACHMENTS = 5; // Newest attachments whose contents go to the model; older ones are named only
+const MAX_TEXT_ATTACHMENT_CHARS = 50000;
+const UNSENT_ATTACHMENT_TTL = 24 * 60 * 60 * 1000; // Milliseconds an upload may wait for a message
+const UNSENT_CLEANUP_BATCH = 100;
+
+// Accepted types and how each reaches the model
+export const ATTACHMENT_TYPES = {
+  'image/png': 'image',
+  'image/jpeg': 'image',
+  'image/gif': 'image',
+  'image/webp': 'image',
+  'application/pdf': 'file',
+  'text/plain': 'text',
+  'text/markdown': 'text',
+  'text/csv': 'text',
+  'application/json': 'text',
+} as const;
+
+export type AttachmentMimeType = keyof typeof ATTACHMENT_TYPES;
+
+export const AttachmentUploadSchema = z.object({
+  filename: z.string().min(1).max(255),
+  mimeType: z.enum(Object.keys(ATTACHMENT_TYPES) as [AttachmentMimeType, ...AttachmentMimeType[]]),
+  size: z.number().int().positive().max(MAX_ATTACHMENT_BYTES),
+});
+
+export type AttachmentUpload = z.infer<typeof AttachmentUploadSchema>;
+
+/**
+ * Stored attachment metadata, as returned to clients
+ */
+export interface AttachmentInfo {
+  id: string;
+  filename: string;
+  mimeType: string;
+  size: number;
+}
+
+const ATTACHMENT_SELECT = { id: true, key: true, messageId: true, filename: true, mimeType: true, size: true } as const;
+
+/**
+ * Create S3 client from the environment. A custom endpoint implies path-style
+ * addressing, which MinIO and most self-hosted stores need.
+ */
+function createS3Client(): S3Client {
+  const endpoint = process.env['S3_ENDPOINT'];
+  const accessKeyId = process.env['S3_ACCESS_KEY_ID'];
+  const secretAccessKey = process.env['S3_SECRET_ACCESS_KEY'];
+
+  return new S3Client({
+    region: process.env['S3_REGION'] || 'us-east-1',
+    ...(endpoint && { endpoint, forcePathStyle: process.env['S3_FORCE_PATH_STYLE'] !== 'false' }),
+    ...(accessKeyId && secretAccessKey && { credentials: { accessKeyId, secretAccessKey } }),
+  });
+}
+
+/**
+ * Register an attachment and return a presigned URL the browser uploads it to.
+ * The upload must use the declared Content-Type.
+ */
+export async function createAttachmentUpload(
+  prisma: any,
+  userId: string,
+  upload: AttachmentUpload
+): Promise<{ attachment: AttachmentInfo; uploadUrl: string; expiresIn: number }> {
+  const key = `${userId}/${randomUUID()}/${sanitizeFilename(upload.filename)}`;
+
+  const uploadUrl = await getSignedUrl(
+    createS3Client(),
+    new PutObjectCommand({
+      Bucket: S3_BUCKET,
+      Key: key,
+      ContentType: upload.mimeType,
+      ContentLength: upload.size,
+    }),
+    { expiresIn: UPLOAD_URL_TTL }
+  );
+
+  const attachment = await prisma.attachment.create({
+    data: {
+      userId,
+      key,
+      filename: upload.filename,
+      mimeType: upload.mimeType,
+      size: upload.size,
+    },
+    select: { id: true, filename: true, mimeType: true, size: true },
+  });
+
+  return { attachment, uploadUrl, expiresIn: UPLOAD_URL_TTL };
+}
+
+/**
+ * Presigned download URL for one of the user's attachments
+ */
+export async function getAttachmentDownloadUrl(prisma: any, userId: string, id: string): Promise<string> {
+  const attachment = await prisma.attachment.findFirst({
+    where: { id, userId },
+    select: { key: true, filename: true },
+  });
+  if (!attachment) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Attachment not found' });
+  }
+
+  return getSignedUrl(
+    createS3Client(),
+    new GetObjectCommand({
+      Bucket: S3_BUCKET,
+      Key: attachment.key,
+      ResponseContentDisposition: `inline; filename="${sanitizeFilename(attachment.filename)}"`,
+    }),
+    { expiresIn: DOWNLOAD_URL_TTL }
+  );
+}
+
+/**
+ * Delete an attachment that was uploaded but never sent, along with its object
+ */
+export async function discardAttachment(prisma: any, userId: string, id: string): Promise<boolean> {
+  const attachment = await prisma.attachment.findFirst({
+    where: { id, userId, messageId: null },
+    select: { key: true },
+  });
+  if (!attachment) {
+    return false;
+  }
+
+  await createS3Client().send(new DeleteObjectCommand({ Bucket: S3_BUCKET, Key: attachment.key }));
+  await prisma.attachment.delete({ where: { id } });
+  return true;
+}
+
+/**
+ * Attach uploaded, not yet sent attachments to a message
+ */
+export async function linkAttachments(
+  prisma: any,
+  userId: string,
+  messageId: string,
+  attachmentIds: string[]
+): Promise<void> {
+  if (attachmentIds.length === 0) {
+    return;
+  }
+
+  const { count } = await prisma.attachment.updateMany({
+    where: { id: { in: attachmentIds }, userId, messageId: null },
+    data: { messageId },
+  });
+
+  if (count !== new Set(attachmentIds).size) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Attachment not found or already sent' });
+  }
+}
+
+/**
+ * Add attachment parts to the user turns in a thread's history. Contents of the
+ * newest attachments are loaded from storage; older ones, and images or
+ * documents the model can't read, are mentioned by name only.
+ */
+export async function withAttachmentParts(
+  prisma: any,
+  history: ContextMessage[],
+  options: { vision: boolean }
+): Promise<ContextMessage[]> {
+  const messageIds = history.flatMap(msg => (msg.id && msg.role === 'user' ? [msg.id] : []));
+  if (messageIds.length === 0) {
+    return history;
+  }
+
+  const attachments: Array<AttachmentInfo & { key: string; messageId: string }> = await prisma.attachment.findMany({
+    where: { messageId: { in: messageIds } },
+    orderBy: { createdAt: 'desc' },
+    select: ATTACHMENT_SELECT,
+  });
+  if (attachments.length === 0) {
+    return history;
+  }
+
+  const client = createS3Client();
+  const parts = await Promise.all(attachments.map((attachment, index) =>
+    index < MAX_CONTEXT_ATTACHMENTS
+      ? loadAttachmentPart(client, attachment, options)
+      : Promise.resolve(attachmentNote(attachment, 'not included'))
+  ));
+
+  const partsByMessage = new Map<string, LLMContentPart[]>();
+  attachments.forEach((attachment, index) => {
+    const list = partsByMessage.get(attachment.messageId) ?? [];
+    list.unshift(parts[index]!);
+    partsByMessage.set(attachment.messageId, list);
+  });
+
+  return history.map(msg => {
+    const messageParts = msg.id ? partsByMessage.get(msg.id) : undefined;
+    return messageParts ? { ...msg, parts: messageParts } : msg;
+  });
+}
+
+/**
+ * Content part for an attachment's bytes: images and documents as binary parts
+ * for models that can read them, text files inline
+ */
+export function toAttachmentPart(
+  attachment: Pick<AttachmentInfo, 'filename' | 'mimeType'>,
+  bytes: Uint8Array,
+  options: { vision: boolean }
+): LLMContentPart {
+  const kind = ATTACHMENT_TYPES[attachment.mimeType as AttachmentMimeType];
+
+  if (kind === 'text') {
+    const text = new TextDecoder().decode(bytes);
+    const body = text.length > MAX_TEXT_ATTACHMENT_CHARS ? `${text.slice(0, MAX_TEXT_ATTACHMENT_CHARS)}\n[truncated]` : text;
+    return { type: 'text', text: `Attached file ${attachment.filename}:\n\n${body}` };
+  }
+  if (!kind || !options.vision) {
+    return attachmentNote(attachment, 'this model cannot read it');
+  }
+
+  const data = Buffer.from(bytes).toString('base64');
+  return kind === 'image'
+    ? { type: 'image', mimeType: attachment.mimeType, data, filename: attachment.filename }
+    : { type: 'file', mimeType: attachment.mimeType, data, filename: attachment.filename };
+}
+
+/**
+ * Messages as a model gets them: without vision, image and document parts
+ * become notes naming the file. Lets one history, loaded for the most capable
+ * model tried, serve every model in a fallback chain.
+ */
+export function forModelCapabilities(messages: LLMMessage[], options: { vision: boolean }): LLMMessage[] {
+  if (options.vision) {
+    return messages;
+  }
+
+  return messages.map(msg => (
+    msg.role === 'user' && typeof msg.content !== 'string'
+      ? { ...msg, content: msg.content.map(part => (part.type === 'text' ? part : attachmentNote(part, 'this model cannot read it'))) }
+      : msg
+  ));
+}
+
+/**
+ * Delete uploads that were never sent with a message once their time is up,
+ * along with their objects. Resolves with how many were deleted.
+ */
+export async function deleteUnsentAttachments(prisma: any, now = new Date()): Promise<number> {
+  const unsent: Array<{ id: string; key: string }> = await prisma.attachment.findMany({
+    where: { messageId: null, createdAt: { lt: new Date(now.getTime() - UNSENT_ATTACHMENT_TTL) } },
+    select: { id: true, key: true },
+    take: UNSENT_CLEANUP_BATCH,
+  });
+  if (unsent.length === 0) {
+    return 0;
+  }
+
+  // Row first, so a message can no longer claim it once its object is gone;
+  // one a message claimed in the meantime is left alone
+  const client = createS3Client();
+  const deleted = await Promise.all(unsent.map(async attachment => {
+    const { count } = await prisma.attachment.deleteMany({ where: { id: attachment.id, messageId: null } });
+    if (count === 0) {
+      return false;
+    }
+
+    await client.send(new DeleteObjectCommand({ Bucket: S3_BUCKET, Key: attachment.key })).catch(error => {
+      console.error(`Failed to delete the object of unsent attachment ${attachment.id}:`, error);
+    });
+    return true;
+  }));
+  return deleted.filter(Boolean).length;
+}
+
+async function loadAttachmentPart(
+  client: S3Client,
+  attachment: AttachmentInfo & { key: string },
+  options: { vision: boolean }
+): Promise<LLMContentPart> {
+  // Don't fetch what the model can't use
+  if (!options.vision && ATTACHMENT_TYPES[attachment.mimeType as AttachmentMimeType] !== 'text') {
+    return attachmentNote(attachment, 'this model cannot read it');
+  }
+
+  try {
+    const object = await client.send(new GetObjectCommand({ Bucket: S3_BUCKET, Key: attachment.key }));
+    if (!object.Body) {
+      throw new Error('Empty object body');
+    }
+    return toAttachmentPart(attachment, await object.Body.transformToByteArray(), options);
+  } catch (error) {
+    console.error(`Failed to load attachment ${attachment.id}:`, error);
+    return attachmentNote(attachment, 'unavailable');
+  }
+}
+
+function attachmentNote(attachment: Pick<AttachmentInfo, 'filename'>, reason: string): LLMContentPart {
+  return { type: 'text', text: `[Attachment ${attachment.filename} omitted: ${reason}]` };
+}
+
+// Keep object keys and Content-Disposition headers to safe characters
+function sanitizeFilename(filename: string): string {
+  return filename.replace(/[^\w.-]+/g, '_').slice(0, 100) || 'file';
+}
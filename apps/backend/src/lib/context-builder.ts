@@ -0,0 +1,260 @@
+import type { LLMContentPart, LLMMessage, LLMProvider } from './llm.js';
+import { modelRegistry } from './model-registry.js';
+import type { TrinityConfig } from './trinity-mode.js';
+
+// Context window configuration
+const HISTORY_FETCH_LIMIT = parseInt(process.env['CONTEXT_HISTORY_LIMIT'] || '200');
+const DEFAULT_CONTEXT_WINDOW = 8192; // Custom endpoints and unlisted models
+const MESSAGE_OVERHEAD_TOKENS = 4; // Role markers and separators per message
+const SAFETY_MARGIN = 0.05; // Headroom for estimation error
+const SUMMARY_BUDGET_RATIO = 0.1; // Share of the budget older turns may use as a summary
+const SUMMARY_SNIPPET_CHARS = 160;
+const ATTACHMENT_TOKENS = 1600; // Rough cost of an image or document part; providers bill by size or pages
+
+// Approximate characters per token by tokenizer family. Lower is more conservative.
+const CHARS_PER_TOKEN: Record<string, number> = {
+  openai: 4,
+  openrouter: 3.5, // Routes to arbitrary tokenizers
+  anthropic: 3.5,
+  google: 4,
+  mistral: 3.2,
+};
+const DEFAULT_CHARS_PER_TOKEN = 3.2; // Custom endpoints and unknown providers
+
+function charsPerTokenFor(provider: LLMProvider): number {
+  return CHARS_PER_TOKEN[provider] ?? DEFAULT_CHARS_PER_TOKEN;
+}
+
+/**
+ * A model the context has to fit. Trinity passes one target per agent.
+ */
+export interface ContextTarget {
+  provider: LLMProvider;
+  model: string;
+  maxTokens?: number; // Output tokens to reserve
+}
+
+/**
+ * A stored thread message, in chronological order
+ */
+export interface ContextMessage {
+  id?: string;
+  role: 'user' | 'assistant' | 'system';
+  content: string;
+  parts?: LLMContentPart[]; // Attachments sent after the text of a user turn
+}
+
+/**
+ * Options for building a context window
+ */
+export interface ContextBuildOptions {
+  targets: ContextTarget[];
+  history: ContextMessage[];
+  systemPrompt?: string; // System and memory prompt, always kept
+  contextWindow?: number; // Override the registry's context window
+}
+
+/**
+ * Result of building a context window
+ */
+export interface ContextBuildResult {
+  messages: LLMMessage[];
+  includedMessageIds: string[];
+  droppedMessageIds: string[];
+  summarized: boolean;
+  truncated: boolean;
+  tokenCount: number;
+  budget: number;
+}
+
+/**
+ * Estimate the token count of a text for a provider
+ */
+export function estimateTokens(text: string, provider: LLMProvider): number {
+  return Math.ceil(text.length / charsPerTokenFor(provider));
+}
+
+/**
+ * Input token budget shared by all targets: the smallest context window minus
+ * the largest output reservation and a safety margin
+ */
+export function getContextBudget(targets: ContextTarget[], contextWindow?: number): number {
+  const budgets = targets.map(target => {
+    const window = contextWindow
+      ?? modelRegistry.get(target.provider, target.model)?.contextWindow
+      ?? DEFAULT_CONTEXT_WINDOW;
+    return window - (target.maxTokens ?? 0);
+  });
+
+  return Math.max(0, Math.floor(Math.min(...budgets) * (1 - SAFETY_MARGIN)));
+}
+
+/**
+ * Context targets for the enabled Trinity agents. Each agent prepends its own
+ * system prompt, so that is reserved alongside its output tokens. In debate
+ * mode later rounds also carry every agent's previous answer.
+ */
+export function getTrinityContextTargets(config: TrinityConfig): ContextTarget[] {
+  const enabled = config.agents.filter(agent => agent.enabled);
+  const agents = enabled.length > 0 ? enabled : config.agents;
+  const debateTokens = config.executionMode === 'debate'
+    ? agents.reduce((sum, agent) => sum + agent.maxTokens + MESSAGE_OVERHEAD_TOKENS, 0)
+    : 0;
+
+  return agents.map(agent => {
+    const provider = agent.provider as LLMProvider;
+    return {
+      provider,
+      model: agent.model,
+      maxTokens: agent.maxTokens + estimateTokens(agent.systemPrompt, provider) + MESSAGE_OVERHEAD_TOKENS + debateTokens,
+    };
+  });
+}
+
+/**
+ * Assemble the messages sent to the model: the system prompt first, then as
+ * many of the newest turns as fit. Older turns that don't fit are replaced by
+ * a short summary, and the latest turn is truncated if it alone is too long.
+ */
+export function buildContextWindow(options: ContextBuildOptions): ContextBuildResult {
+  const { targets, history, systemPrompt } = options;
+  if (targets.length === 0) {
+    throw new Error('At least one context target is required');
+  }
+
+  const budget = getContextBudget(targets, options.contextWindow);
+  const charsPerToken = Math.min(...targets.map(target => charsPerTokenFor(target.provider)));
+  const countMessage = (content: string) =>
+    Math.max(...targets.map(target => estimateTokens(content, target.provider))) + MESSAGE_OVERHEAD_TOKENS;
+  const countTurn = (turn: ContextMessage) =>
+    countMessage(turn.content) + (turn.parts ?? []).reduce((sum, part) =>
+      sum + (part.type === 'text' ? countMessage(part.text) : ATTACHMENT_TOKENS), 0);
+  const charsFor = (tokens: number) => Math.max(0, Math.floor((tokens - MESSAGE_OVERHEAD_TOKENS) * charsPerToken));
+
+  let remaining = budget;
+  let truncated = false;
+
+  // System and memory prompt are kept, truncated only if they exceed the whole budget
+  let systemContent = systemPrompt ?? '';
+  if (systemContent) {
+    if (countMessage(systemContent) > remaining) {
+      systemContent = systemContent.slice(0, charsFor(remaining));
+      truncated = true;
+    }
+    remaining -= countMessage(systemContent);
+  }
+
+  // Newest turns first, stopping at the first turn that doesn't fit
+  const turns = history.filter(msg => msg.content.trim() || msg.parts?.length);
+  const kept: ContextMessage[] = [];
+  let cutoff = turns.length;
+
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const turn = turns[i]!;
+    const tokens = countTurn(turn);
+
+    if (tokens <= remaining) {
+      kept.unshift(turn);
+      remaining -= tokens;
+      cutoff = i;
+      continue;
+    }
+
+    // Never drop the latest turn; cut it down to size instead
+    if (kept.length === 0 && remaining > MESSAGE_OVERHEAD_TOKENS) {
+      // Attachments are dropped along with the rest of the turn that doesn't fit
+      const content = turn.content.slice(0, charsFor(remaining));
+      kept.unshift({ ...(turn.id && { id: turn.id }), role: turn.role, content });
+      remaining -= countMessage(content);
+      cutoff = i;
+      truncated = true;
+    }
+    break;
+  }
+
+  // Some providers require the conversation to open with a user turn
+  while (cutoff < turns.length && kept.length > 1 && kept[0]!.role !== 'user') {
+    remaining += countTurn(kept.shift()!);
+    cutoff++;
+  }
+
+  // Older turns are folded into the system message, since some providers only read one
+  const dropped = turns.slice(0, cutoff);
+  let summarized = false;
+
+  if (dropped.length > 0) {
+    const summaryTokens = Math.min(remaining, Math.floor(budget * SUMMARY_BUDGET_RATIO));
+    const summary = summarizeTurns(dropped, charsFor(summaryTokens));
+    if (summary) {
+      remaining -= countMessage(summary) - (systemContent ? MESSAGE_OVERHEAD_TOKENS : 0);
+      systemContent = systemContent ? `${systemContent}\n\n${summary}` : summary;
+      summarized = true;
+    }
+  }
+
+  const messages: LLMMessage[] = [
+    ...(systemContent ? [{ role: 'system' as const, content: systemContent }] : []),
+    ...kept.map(toLLMMessage),
+  ];
+
+  return {
+    messages,
+    includedMessageIds: kept.flatMap(turn => (turn.id ? [turn.id] : [])),
+    droppedMessageIds: dropped.flatMap(turn => (turn.id ? [turn.id] : [])),
+    summarized,
+    truncated,
+    tokenCount: budget - remaining,
+    budget,
+  };
+}
+
+function toLLMMessage(turn: ContextMessage): LLMMessage {
+  if (turn.role === 'user' && turn.parts?.length) {
+    return {
+      role: 'user',
+      content: [...(turn.content ? [{ type: 'text' as const, text: turn.content }] : []), ...turn.parts],
+    };
+  }
+  return { role: turn.role, content: turn.content };
+}
+
+// Extractive summary of older turns: the opening of each, keeping the most recent
+// ones when they don't all fit. Returns an empty string if nothing fits.
+function summarizeTurns(turns: ContextMessage[], maxChars: number): string {
+  const header = 'Summary of earlier messages in this conversation (omitted for length):';
+  const lines: string[] = [];
+  let length = header.length;
+
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const turn = turns[i]!;
+    const text = turn.content.replace(/\s+/g, ' ').trim();
+    const snippet = text.length > SUMMARY_SNIPPET_CHARS ? `${text.slice(0, SUMMARY_SNIPPET_CHARS)}…` : text;
+    const line = `- ${turn.role}: ${snippet}`;
+
+    if (length + line.length + 1 > maxChars) {
+      break;
+    }
+    lines.unshift(line);
+    length += line.length + 1;
+  }
+
+  return lines.length > 0 ? `${header}\n${lines.join('\n')}` : '';
+}
+
+/**
+ * Load the most recent messages of a thread, returned in chronological order
+ */
+export async function loadRecentThreadMessages(
+  prisma: any,
+  threadId: string,
+  limit: number = HISTORY_FETCH_LIMIT
+): Promise<ContextMessage[]> {
+  const messages = await prisma.message.findMany({
+    where: { threadId },
+    orderBy: { createdAt: 'desc' },
+    take: limit,
+    select: { id: true, role: true, content: true },
+  });
+
+  return messages.reverse();
+}
@@ -0,0 +1,97 @@
+import { lookup } from 'node:dns/promises';
+import { isIP } from 'node:net';
+import { TRPCError } from '@trpc/server';
+
+// Where users' custom endpoints may point. By default only public addresses, so a
+// user can't make the server call internal services or cloud metadata.
+//   CUSTOM_ENDPOINT_ALLOWED_HOSTS: comma-separated hostnames allowed whatever they resolve to
+//   CUSTOM_ENDPOINT_ALLOW_PRIVATE=true: also allow private and loopback addresses
+//     (a self-hosted, single-user install running Ollama or vLLM next to the server)
+// Link-local addresses, which is where metadata services live, need the allowlist.
+function allowedHosts(): string[] {
+  return (process.env['CUSTOM_ENDPOINT_ALLOWED_HOSTS'] || '')
+    .split(',')
+    .map(host => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+type AddressScope = 'public' | 'private' | 'link-local';
+
+function ipv4Scope(address: string): AddressScope {
+  const [a = 0, b = 0] = address.split('.').map(Number);
+  if (a === 169 && b === 254) return 'link-local';
+  if (
+    a === 0 || a === 10 || a === 127 || a >= 224
+    || (a === 100 && b >= 64 && b < 128) // Carrier-grade NAT
+    || (a === 172 && b >= 16 && b < 32)
+    || (a === 192 && b === 168)
+    || (a === 198 && (b === 18 || b === 19))
+  ) {
+    return 'private';
+  }
+  return 'public';
+}
+
+function addressScope(address: string): AddressScope {
+  if (isIP(address) === 4) {
+    return ipv4Scope(address);
+  }
+
+  const ipv6 = address.toLowerCase();
+  const mapped = ipv6.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return ipv4Scope(mapped[1]!);
+  // URL parsing writes mapped addresses in hex: [::ffff:10.0.0.5] becomes ::ffff:a00:5
+  const mappedHex = ipv6.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/);
+  if (mappedHex) {
+    const [high, low] = [parseInt(mappedHex[1]!, 16), parseInt(mappedHex[2]!, 16)];
+    return ipv4Scope(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`);
+  }
+  if (/^fe[89ab]/.test(ipv6)) return 'link-local';
+  if (ipv6 === '::' || ipv6 === '::1' || /^f[cd]/.test(ipv6) || ipv6.startsWith('ff')) return 'private';
+  return 'public';
+}
+
+/**
+ * Why a custom endpoint URL may not be used, or null if it may. Hostnames are
+ * resolved and every address they resolve to has to pass.
+ */
+export async function customEndpointRejection(baseUrl: string): Promise<string | null> {
+  let url: URL;
+  try {
+    url = new URL(baseUrl);
+  } catch {
+    return 'Custom endpoint URL is invalid';
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    return 'Custom endpoints must use http or https';
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+  if (allowedHosts().includes(hostname)) {
+    return null;
+  }
+
+  let addresses: string[];
+  try {
+    addresses = isIP(hostname) ? [hostname] : (await lookup(hostname, { all: true })).map(entry => entry.address);
+  } catch {
+    return `Custom endpoint host ${hostname} could not be resolved`;
+  }
+
+  const allowPrivate = process.env['CUSTOM_ENDPOINT_ALLOW_PRIVATE'] === 'true';
+  const blocked = addresses.some(address => {
+    const scope = addressScope(address);
+    return scope === 'link-local' || (scope === 'private' && !allowPrivate);
+  });
+  return blocked ? `Custom endpoint host ${hostname} is on a network this server doesn't allow` : null;
+}
+
+/**
+ * Reject a custom endpoint URL the server may not call
+ */
+export async function assertCustomEndpointAllowed(baseUrl: string): Promise<void> {
+  const rejection = await customEndpointRejection(baseUrl);
+  if (rejection) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: rejection });
+  }
+}
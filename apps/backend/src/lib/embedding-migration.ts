@@ -0,0 +1,367 @@
+import { generateEmbeddingsBatch } from './embeddings.js';
+import {
+  embeddingModelId,
+  embeddingProviderForModel,
+  resolveEmbeddingProvider,
+  type EmbeddingProvider,
+} from './embedding-providers.js';
+import { streamingUtils } from './streaming.js';
+import { batchUpdateEmbeddings } from './vector-search.js';
+
+export type EmbeddingMigrationStatus = 'running' | 'paused' | 'completed' | 'failed';
+
+/**
+ * Where a re-embedding migration stands, as sent over the streaming channel
+ */
+export interface EmbeddingMigrationProgress {
+  migrationId: string;
+  status: EmbeddingMigrationStatus;
+  targetModel: string;
+  targetDimensions: number;
+  total: number;
+  processed: number;
+  failed: number;
+  lastError: string | null;
+}
+
+export interface EmbeddingMigrationRunnerOptions {
+  batchSize?: number;
+  // Consecutive failed batches after which the migration stops as failed
+  maxConsecutiveFailures?: number;
+  // The user's current provider, or the one behind `target` when resuming
+  provider?: (
+    userId: string,
+    prisma: EmbeddingMigrationDatabase,
+    target?: { embeddingModel: string; embeddingDimensions: number }
+  ) => Promise<EmbeddingProvider | null>;
+  notify?: (userId: string, progress: EmbeddingMigrationProgress) => void;
+}
+
+// An embedding_migrations row
+interface EmbeddingMigrationRecord {
+  id: string;
+  userId: string;
+  targetModel: string;
+  targetDimensions: number;
+  status: string;
+  cursor: string | null;
+  total: number;
+  processed: number;
+  failed: number;
+  lastError: string | null;
+}
+
+// The tables a migration reads and writes, as the Prisma client has them
+interface EmbeddingMigrationDatabase {
+  embeddingMigration: {
+    findFirst(args: object): Promise<EmbeddingMigrationRecord | null>;
+    findMany(args: object): Promise<EmbeddingMigrationRecord[]>;
+    create(args: object): Promise<EmbeddingMigrationRecord>;
+    update(args: object): Promise<EmbeddingMigrationRecord>;
+  };
+  memoryCard: {
+    count(args: object): Promise<number>;
+    findMany(args: object): Promise<Array<{ id: string; content: string; summary: string | null }>>;
+  };
+}
+
+interface MigrationJob {
+  userId: string;
+  paused: boolean;
+  done: Promise<void>;
+}
+
+const DEFAULT_BATCH_SIZE = 32;
+const MAX_CONSECUTIVE_FAILURES = 3;
+
+function defaultProvider(
+  userId: string,
+  prisma: EmbeddingMigrationDatabase,
+  target?: { embeddingModel: string; embeddingDimensions: number }
+): Promise<EmbeddingProvider | null> {
+  return target
+    ? embeddingProviderForModel(target.embeddingModel, target.embeddingDimensions, userId, prisma)
+    : resolveEmbeddingProvider(userId, prisma);
+}
+
+function sendProgress(userId: string, progress: EmbeddingMigrationProgress): void {
+  streamingUtils.sendToUser(userId, {
+    type: 'embedding_migration_progress',
+    id: `embedding_migration_${progress.migrationId}_${progress.processed + progress.failed}`,
+    userId,
+    data: progress,
+    timestamp: Date.now(),
+  });
+}
+
+// The progress fields of a migration record
+export function migrationProgress(migration: EmbeddingMigrationRecord): EmbeddingMigrationProgress {
+  return {
+    migrationId: migration.id,
+    status: migration.status as EmbeddingMigrationStatus,
+    targetModel: migration.targetModel,
+    targetDimensions: migration.targetDimensions,
+    total: migration.total,
+    processed: migration.processed,
+    failed: migration.failed,
+    lastError: migration.lastError ?? null,
+  };
+}
+
+/**
+ * A user's cards not yet embedded with the target model: never embedded, or
+ * embedded with another model or at another length
+ */
+export function staleMemoryCardsWhere(userId: string, targetModel: string, targetDimensions: number) {
+  return {
+    userId,
+    OR: [
+      { embeddingModel: null },
+      { embeddingModel: { not: targetModel } },
+      { embeddingDimensions: { not: targetDimensions } },
+    ],
+  };
+}
+
+/**
+ * Re-embeds a user's memory cards with their current embedding provider, one
+ * batch at a time in id order. The migration record keeps the cursor, so a
+ * paused or interrupted migration picks up after the last card it handled.
+ * Until it completes, cards sit in two embedding spaces and search covers
+ * both (see searchMemoryCards).
+ */
+export class EmbeddingMigrationRunner {
+  private readonly jobs = new Map<string, MigrationJob>();
+  private readonly batchSize: number;
+  private readonly maxConsecutiveFailures: number;
+  private readonly provider: NonNullable<EmbeddingMigrationRunnerOptions['provider']>;
+  private readonly notify: NonNullable<EmbeddingMigrationRunnerOptions['notify']>;
+
+  constructor(options: EmbeddingMigrationRunnerOptions = {}) {
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.maxConsecutiveFailures = options.maxConsecutiveFailures ?? MAX_CONSECUTIVE_FAILURES;
+    this.provider = options.provider ?? defaultProvider;
+    this.notify = options.notify ?? sendProgress;
+  }
+
+  /**
+   * Start moving a user's cards to their current provider. An unfinished
+   * migration is continued instead of starting a second one.
+   */
+  async start(userId: string, prisma: EmbeddingMigrationDatabase): Promise<EmbeddingMigrationProgress> {
+    const unfinished = await prisma.embeddingMigration.findFirst({
+      where: { userId, status: { in: ['running', 'paused'] } },
+      orderBy: { createdAt: 'desc' },
+    });
+    if (unfinished) {
+      return this.jobs.has(unfinished.id) && unfinished.status === 'running'
+        ? migrationProgress(unfinished)
+        : (await this.resume(unfinished.id, userId, prisma))!;
+    }
+
+    const provider = await this.provider(userId, prisma);
+    if (!provider) {
+      throw new Error('No embedding provider available');
+    }
+
+    // The model's output length, which only an embedding tells
+    const probe = await provider.embed(['dimension probe']);
+    const targetModel = embeddingModelId(provider);
+    const targetDimensions = probe.embeddings[0]?.length;
+    if (!targetDimensions) {
+      throw new Error(`No embedding returned from ${provider.id}`);
+    }
+
+    const total = await prisma.memoryCard.count({
+      where: staleMemoryCardsWhere(userId, targetModel, targetDimensions),
+    });
+    const migration = await prisma.embeddingMigration.create({
+      data: {
+        userId,
+        targetModel,
+        targetDimensions,
+        total,
+        ...(total === 0 && { status: 'completed', completedAt: new Date() }),
+      },
+    });
+
+    if (total > 0) {
+      this.launch(migration, provider, prisma);
+    }
+    return migrationProgress(migration);
+  }
+
+  /**
+   * Stop after the batch in flight. Null if the migration isn't the user's or
+   * isn't running.
+   */
+  async pause(migrationId: string, userId: string, prisma: EmbeddingMigrationDatabase): Promise<EmbeddingMigrationProgress | null> {
+    const migration = await prisma.embeddingMigration.findFirst({ where: { id: migrationId, userId } });
+    if (!migration || migration.status !== 'running') {
+      return null;
+    }
+
+    const job = this.jobs.get(migrationId);
+    if (job) {
+      job.paused = true;
+    }
+    const paused = await prisma.embeddingMigration.update({
+      where: { id: migrationId },
+      data: { status: 'paused' },
+    });
+    return migrationProgress(paused);
+  }
+
+  /**
+   * Continue a paused, failed or interrupted migration from its cursor. A
+   * failed one starts over from the first card, so skipped cards get another
+   * try. Null if the migration isn't the user's or has completed.
+   */
+  async resume(migrationId: string, userId: string, prisma: EmbeddingMigrationDatabase): Promise<EmbeddingMigrationProgress | null> {
+    const migration = await prisma.embeddingMigration.findFirst({ where: { id: migrationId, userId } });
+    if (!migration || migration.status === 'completed') {
+      return null;
+    }
+
+    // Let a paused run finish its last batch before a new one takes over
+    const previous = this.jobs.get(migrationId);
+    if (previous) {
+      if (!previous.paused) {
+        return migrationProgress(migration);
+      }
+      await previous.done;
+    }
+
+    const provider = await this.provider(userId, prisma, {
+      embeddingModel: migration.targetModel,
+      embeddingDimensions: migration.targetDimensions,
+    });
+    if (!provider) {
+      const failed = await prisma.embeddingMigration.update({
+        where: { id: migrationId },
+        data: { status: 'failed', lastError: `No API key or endpoint for ${migration.targetModel}` },
+      });
+      this.notify(userId, migrationProgress(failed));
+      return migrationProgress(failed);
+    }
+
+    const resumed = await prisma.embeddingMigration.update({
+      where: { id: migrationId },
+      data: {
+        status: 'running',
+        ...(migration.status === 'failed' && { cursor: null, failed: 0 }),
+      },
+    });
+    this.launch(resumed, provider, prisma);
+    return migrationProgress(resumed);
+  }
+
+  /**
+   * Pick up migrations a server restart cut off. Called once at startup.
+   */
+  async resumeInterrupted(prisma: EmbeddingMigrationDatabase): Promise<void> {
+    const interrupted = await prisma.embeddingMigration.findMany({ where: { status: 'running' } });
+    for (const migration of interrupted) {
+      if (this.jobs.has(migration.id)) {
+        continue;
+      }
+      try {
+        await this.resume(migration.id, migration.userId, prisma);
+      } catch (error) {
+        console.error(`Failed to resume embedding migration ${migration.id}:`, error);
+      }
+    }
+  }
+
+  /**
+   * Settles when the migration's current run stops (completed, paused or failed)
+   */
+  wait(migrationId: string): Promise<void> {
+    return this.jobs.get(migrationId)?.done ?? Promise.resolve();
+  }
+
+  private launch(migration: EmbeddingMigrationRecord, provider: EmbeddingProvider, prisma: EmbeddingMigrationDatabase): void {
+    const job: MigrationJob = { userId: migration.userId, paused: false, done: Promise.resolve() };
+    job.done = this.run(job, migration, provider, prisma)
+      .catch(async error => {
+        const message = error instanceof Error ? error.message : 'Unknown error';
+        console.error(`Embedding migration ${migration.id} stopped:`, message);
+        const failed = await prisma.embeddingMigration.update({
+          where: { id: migration.id },
+          data: { status: 'failed', lastError: message },
+        }).catch(() => null);
+        if (failed) {
+          this.notify(job.userId, migrationProgress(failed));
+        }
+      })
+      .finally(() => {
+        if (this.jobs.get(migration.id) === job) {
+          this.jobs.delete(migration.id);
+        }
+      });
+    this.jobs.set(migration.id, job);
+  }
+
+  private async run(job: MigrationJob, migration: EmbeddingMigrationRecord, provider: EmbeddingProvider, prisma: EmbeddingMigrationDatabase): Promise<void> {
+    const where = staleMemoryCardsWhere(migration.userId, migration.targetModel, migration.targetDimensions);
+    let current = migration;
+    let consecutiveFailures = 0;
+
+    while (!job.paused) {
+      const cards = await prisma.memoryCard.findMany({
+        where: { ...where, ...(current.cursor && { id: { gt: current.cursor } }) },
+        orderBy: { id: 'asc' },
+        take: this.batchSize,
+        select: { id: true, content: true, summary: true },
+      });
+
+      if (cards.length === 0) {
+        if (job.paused) break;
+        current = await prisma.embeddingMigration.update({
+          where: { id: migration.id },
+          data: { status: 'completed', completedAt: new Date() },
+        });
+        this.notify(job.userId, migrationProgress(current));
+        return;
+      }
+
+      const cursor = cards[cards.length - 1]!.id;
+      try {
+        const batch = await generateEmbeddingsBatch(cards.map(card => card.summary || card.content), provider);
+        await batchUpdateEmbeddings(batch.results.map(result => ({
+          id: cards[result.index]!.id,
+          embedding: result.embedding,
+          embeddingModel: batch.embeddingModel,
+        })));
+
+        consecutiveFailures = 0;
+        current = await prisma.embeddingMigration.update({
+          where: { id: migration.id },
+          data: { cursor, processed: { increment: cards.length } },
+        });
+      } catch (error) {
+        // Skip the batch so one bad card can't hold up the rest; a rerun retries it
+        consecutiveFailures++;
+        const lastError = error instanceof Error ? error.message : 'Unknown error';
+        const stop = consecutiveFailures >= this.maxConsecutiveFailures;
+        current = await prisma.embeddingMigration.update({
+          where: { id: migration.id },
+          data: {
+            cursor,
+            failed: { increment: cards.length },
+            lastError,
+            ...(stop && { status: 'failed' }),
+          },
+        });
+        if (stop) {
+          this.notify(job.userId, migrationProgress(current));
+          return;
+        }
+      }
+
+      this.notify(job.userId, migrationProgress(current));
+    }
+  }
+}
+
+export const embeddingMigrations = new EmbeddingMigrationRunner();
@@ -0,0 +1,268 @@
+import { OpenAI } from 'openai';
+import { getUserApiKey, getUserCustomEndpoint } from './llm.js';
+import { getEnvApiKey } from './server-keys.js';
+
+export type EmbeddingProviderId = 'openai' | 'google' | 'mistral' | 'custom' | 'local';
+
+export const EMBEDDING_PROVIDER_IDS: EmbeddingProviderId[] = ['openai', 'google', 'mistral', 'custom', 'local'];
+
+/**
+ * Vectors for a batch of texts, in input order
+ */
+export interface EmbeddingBatch {
+  embeddings: number[][];
+  totalTokens: number;
+}
+
+/**
+ * A model that turns texts into vectors. Vectors from different providers or
+ * models live in different spaces and must never be compared.
+ */
+export interface EmbeddingProvider {
+  readonly id: EmbeddingProviderId;
+  readonly model: string;
+  embed(texts: string[]): Promise<EmbeddingBatch>;
+}
+
+// Default models, overridable per provider
+const OPENAI_EMBEDDING_MODEL = process.env['EMBEDDING_MODEL'] || 'text-embedding-3-small';
+const OPENAI_EMBEDDING_DIMENSIONS = parseInt(process.env['EMBEDDING_DIMENSIONS'] || '1536');
+const GOOGLE_EMBEDDING_MODEL = process.env['GOOGLE_EMBEDDING_MODEL'] || 'text-embedding-004';
+const MISTRAL_EMBEDDING_MODEL = process.env['MISTRAL_EMBEDDING_MODEL'] || 'mistral-embed';
+const CUSTOM_EMBEDDING_MODEL = process.env['CUSTOM_EMBEDDING_MODEL'] || 'nomic-embed-text';
+const LOCAL_EMBEDDING_MODEL = process.env['LOCAL_EMBEDDING_MODEL'] || 'Xenova/all-MiniLM-L6-v2';
+const EMBEDDING_REQUEST_TIMEOUT_MS = 60 * 1000;
+
+/**
+ * Provider-qualified model id stored with each embedding, e.g. "openai:text-embedding-3-small"
+ */
+export function embeddingModelId(provider: Pick<EmbeddingProvider, 'id' | 'model'>): string {
+  return `${provider.id}:${provider.model}`;
+}
+
+// OpenAI embeddings through the SDK; OPENAI_BASE_URL is honoured by the client
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly id = 'openai';
+  private readonly client: OpenAI;
+
+  constructor(
+    apiKey?: string,
+    readonly model = OPENAI_EMBEDDING_MODEL,
+    private readonly dimensions = OPENAI_EMBEDDING_DIMENSIONS
+  ) {
+    const key = apiKey || process.env['OPENAI_API_KEY'];
+    if (!key) {
+      throw new Error('OpenAI API key not provided');
+    }
+    this.client = new OpenAI({ apiKey: key });
+  }
+
+  async embed(texts: string[]): Promise<EmbeddingBatch> {
+    const response = await this.client.embeddings.create({
+      model: this.model,
+      input: texts,
+      dimensions: this.dimensions,
+    });
+
+    return {
+      embeddings: response.data.map((item: any) => item.embedding),
+      totalTokens: response.usage?.total_tokens ?? 0,
+    };
+  }
+}
+
+// Gemini embeddings (batchEmbedContents); the API reports no token usage
+export class GoogleEmbeddingProvider implements EmbeddingProvider {
+  readonly id = 'google';
+
+  constructor(private readonly apiKey: string, readonly model = GOOGLE_EMBEDDING_MODEL) {}
+
+  async embed(texts: string[]): Promise<EmbeddingBatch> {
+    const response = await fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models/${this.model}:batchEmbedContents?key=${this.apiKey}`,
+      {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          requests: texts.map(text => ({
+            model: `models/${this.model}`,
+            content: { parts: [{ text }] },
+          })),
+        }),
+      }
+    );
+
+    if (!response.ok) {
+      throw new Error(`Google embeddings error: ${response.status} ${await response.text()}`);
+    }
+
+    const data = await response.json();
+    return {
+      embeddings: (data.embeddings ?? []).map((item: { values: number[] }) => item.values),
+      totalTokens: 0,
+    };
+  }
+}
+
+// Any server with an OpenAI-style POST {baseUrl}/embeddings: Mistral, Ollama, vLLM, LM Studio, ...
+export class OpenAICompatibleEmbeddingProvider implements EmbeddingProvider {
+  constructor(
+    readonly id: 'mistral' | 'custom',
+    private readonly baseUrl: string,
+    private readonly apiKey: string,
+    readonly model: string
+  ) {}
+
+  async embed(texts: string[]): Promise<EmbeddingBatch> {
+    const response = await fetch(`${this.baseUrl.replace(/\/+$/, '')}/embeddings`, {
+      method: 'POST',
+      signal: AbortSignal.timeout(EMBEDDING_REQUEST_TIMEOUT_MS),
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.apiKey && { 'Authorization': `Bearer ${this.apiKey}` }),
+      },
+      body: JSON.stringify({ model: this.model, input: texts }),
+    });
+
+    if (!response.ok) {
+      // Not the body: for custom endpoints it is whatever the user's server sent back
+      throw new Error(`${this.id} embeddings error: ${response.status} ${response.statusText}`.trim());
+    }
+
+    const data = await response.json();
+    return {
+      embeddings: [...(data.data ?? [])]
+        .sort((a: { index?: number }, b: { index?: number }) => (a.index ?? 0) - (b.index ?? 0))
+        .map((item: { embedding: number[] }) => item.embedding),
+      totalTokens: data.usage?.total_tokens ?? 0,
+    };
+  }
+}
+
+export function mistralEmbeddingProvider(apiKey: string, model = MISTRAL_EMBEDDING_MODEL): OpenAICompatibleEmbeddingProvider {
+  return new OpenAICompatibleEmbeddingProvider(
+    'mistral',
+    process.env['MISTRAL_BASE_URL'] || 'https://api.mistral.ai/v1',
+    apiKey,
+    model
+  );
+}
+
+// Mean-pooled, normalised sentence vectors for a batch of texts
+export type LocalFeatureExtractor = (texts: string[]) => Promise<number[][]>;
+
+const localExtractors = new Map<string, Promise<LocalFeatureExtractor>>();
+
+// Loads an ONNX sentence-transformer once per model; weights are downloaded on first use and cached
+function loadLocalExtractor(model: string): Promise<LocalFeatureExtractor> {
+  let extractor = localExtractors.get(model);
+  if (!extractor) {
+    extractor = (async () => {
+      let transformers: typeof import('@huggingface/transformers');
+      try {
+        transformers = await import('@huggingface/transformers');
+      } catch {
+        throw new Error('Local embeddings need the optional @huggingface/transformers package');
+      }
+      const pipe = await transformers.pipeline('feature-extraction', model);
+      return async (texts: string[]) => {
+        const output = await pipe(texts, { pooling: 'mean', normalize: true });
+        return output.tolist() as number[][];
+      };
+    })();
+    // A failed load is retried on the next call
+    extractor.catch(() => localExtractors.delete(model));
+    localExtractors.set(model, extractor);
+  }
+  return extractor;
+}
+
+// On-CPU embeddings (MiniLM, BGE, ...): no key, no network after the first download
+export class LocalEmbeddingProvider implements EmbeddingProvider {
+  readonly id = 'local';
+
+  constructor(
+    readonly model = LOCAL_EMBEDDING_MODEL,
+    private readonly load: (model: string) => Promise<LocalFeatureExtractor> = loadLocalExtractor
+  ) {}
+
+  async embed(texts: string[]): Promise<EmbeddingBatch> {
+    const extract = await this.load(this.model);
+    return { embeddings: await extract(texts), totalTokens: 0 };
+  }
+}
+
+// The provider's default model unless `space` names one (and, for OpenAI, a length)
+async function providerFor(
+  id: EmbeddingProviderId,
+  userId: string,
+  prisma: any,
+  space?: { model: string; dimensions: number }
+): Promise<EmbeddingProvider | null> {
+  switch (id) {
+    case 'openai':
+    case 'google':
+    case 'mistral': {
+      const apiKey = await getUserApiKey(userId, id, prisma)
+        ?? (process.env['EMBEDDING_PROVIDER'] === id ? getEnvApiKey(id) : undefined);
+      if (!apiKey) {
+        return null;
+      }
+      if (id === 'openai') return new OpenAIEmbeddingProvider(apiKey, space?.model, space?.dimensions);
+      if (id === 'google') return new GoogleEmbeddingProvider(apiKey, space?.model);
+      return mistralEmbeddingProvider(apiKey, space?.model);
+    }
+    case 'custom': {
+      const endpoint = await getUserCustomEndpoint(userId, prisma);
+      return endpoint && new OpenAICompatibleEmbeddingProvider('custom', endpoint.baseUrl, endpoint.apiKey, space?.model ?? CUSTOM_EMBEDDING_MODEL);
+    }
+    case 'local':
+      return new LocalEmbeddingProvider(space?.model);
+  }
+}
+
+/**
+ * Rebuild the provider behind stored embeddings from their model id and length,
+ * to embed queries in the same space. Null when the user no longer has a key for it.
+ */
+export async function embeddingProviderForModel(
+  embeddingModel: string,
+  dimensions: number,
+  userId: string,
+  prisma: any
+): Promise<EmbeddingProvider | null> {
+  const separator = embeddingModel.indexOf(':');
+  const id = embeddingModel.slice(0, separator) as EmbeddingProviderId;
+  if (separator < 0 || !EMBEDDING_PROVIDER_IDS.includes(id)) {
+    return null;
+  }
+  return providerFor(id, userId, prisma, { model: embeddingModel.slice(separator + 1), dimensions });
+}
+
+/**
+ * Pick the embedding provider for a user's memory cards. EMBEDDING_PROVIDER pins
+ * one for the whole server, which may then use the server's key for it; otherwise
+ * the first provider the user has a key or endpoint for is used, in the order of
+ * EMBEDDING_PROVIDER_IDS, ending with the local model, which needs none.
+ */
+export async function resolveEmbeddingProvider(userId: string, prisma: any): Promise<EmbeddingProvider> {
+  const pinned = process.env['EMBEDDING_PROVIDER'] as EmbeddingProviderId | undefined;
+  if (pinned) {
+    if (!EMBEDDING_PROVIDER_IDS.includes(pinned)) {
+      throw new Error(`Unknown EMBEDDING_PROVIDER: ${pinned}`);
+    }
+    const provider = await providerFor(pinned, userId, prisma);
+    if (!provider) {
+      throw new Error(`No API key or endpoint for embedding provider ${pinned}`);
+    }
+    return provider;
+  }
+
+  for (const id of EMBEDDING_PROVIDER_IDS.filter(id => id !== 'local')) {
+    const provider = await providerFor(id, userId, prisma);
+    if (provider) {
+      return provider;
+    }
+  }
+  return new LocalEmbeddingProvider();
+}
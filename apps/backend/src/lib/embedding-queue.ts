@@ -0,0 +1,238 @@
+import { generateEmbedding } from './embeddings.js';
+import {
+  embeddingModelId,
+  resolveEmbeddingProvider,
+  type EmbeddingProvider,
+} from './embedding-providers.js';
+import { streamingUtils } from './streaming.js';
+import { updateMemoryCardEmbedding } from './vector-search.js';
+
+// Stored on each memory card; null when no embedding was asked for
+export type EmbeddingStatus = 'pending' | 'ready' | 'failed';
+
+export interface EmbeddingQueueOptions {
+  batchSize?: number;
+  maxAttempts?: number;
+  // Delay before the first retry; doubles with every further attempt
+  backoffMs?: number;
+  pollIntervalMs?: number;
+  // A job locked this long belongs to a worker that died and is handed out again
+  lockTimeoutMs?: number;
+  provider?: (userId: string, prisma: EmbeddingQueueDatabase) => Promise<EmbeddingProvider>;
+  notify?: (userId: string, memoryCardId: string, status: EmbeddingStatus) => void;
+}
+
+interface EmbeddingJob {
+  id: string;
+  memoryCardId: string;
+  userId: string;
+  attempts: number;
+  lockedAt: Date | null;
+}
+
+// The tables the queue reads and writes, as the Prisma client has them
+interface EmbeddingQueueDatabase {
+  embeddingJob: {
+    upsert(args: object): Promise<unknown>;
+    findMany(args: object): Promise<EmbeddingJob[]>;
+    updateMany(args: object): Promise<{ count: number }>;
+    deleteMany(args: object): Promise<{ count: number }>;
+  };
+  memoryCard: {
+    update(args: object): Promise<unknown>;
+    findUnique(args: object): Promise<{ content: string; summary: string | null } | null>;
+  };
+}
+
+const DEFAULT_BATCH_SIZE = 16;
+const DEFAULT_MAX_ATTEMPTS = 5;
+const DEFAULT_BACKOFF_MS = 10_000;
+const DEFAULT_POLL_INTERVAL_MS = 5_000;
+const DEFAULT_LOCK_TIMEOUT_MS = 5 * 60_000;
+
+function sendStatus(userId: string, memoryCardId: string, status: EmbeddingStatus): void {
+  streamingUtils.sendToUser(userId, {
+    type: 'memory_embedding_status',
+    id: `embedding_status_${memoryCardId}_${Date.now()}`,
+    userId,
+    data: { memoryCardId, embeddingStatus: status },
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Database-backed queue of memory cards waiting for an embedding. Creating or
+ * editing a card only records a job, so a provider outage or a restart never
+ * loses one; the worker embeds each card with its owner's provider, retrying
+ * with exponential backoff until it runs out of attempts and marks the card
+ * failed. The next edit queues it again.
+ */
+export class EmbeddingQueue {
+  private readonly batchSize: number;
+  private readonly maxAttempts: number;
+  private readonly backoffMs: number;
+  private readonly pollIntervalMs: number;
+  private readonly lockTimeoutMs: number;
+  private readonly provider: NonNullable<EmbeddingQueueOptions['provider']>;
+  private readonly notify: (userId: string, memoryCardId: string, status: EmbeddingStatus) => void;
+  private timer: ReturnType<typeof setInterval> | null = null;
+  private workerPrisma: EmbeddingQueueDatabase | null = null;
+  private draining: Promise<number> | null = null;
+
+  constructor(options: EmbeddingQueueOptions = {}) {
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    this.maxAttempts = options.maxAttempts ?? DEFAULT_MAX_ATTEMPTS;
+    this.backoffMs = options.backoffMs ?? DEFAULT_BACKOFF_MS;
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    this.lockTimeoutMs = options.lockTimeoutMs ?? DEFAULT_LOCK_TIMEOUT_MS;
+    this.provider = options.provider ?? resolveEmbeddingProvider;
+    this.notify = options.notify ?? sendStatus;
+  }
+
+  /**
+   * Queue a card for (re-)embedding from its current summary or content. An
+   * earlier job for the card, failed or not, starts over.
+   */
+  async enqueue(memoryCardId: string, userId: string, prisma: EmbeddingQueueDatabase): Promise<void> {
+    const reset = { attempts: 0, runAt: new Date(), lockedAt: null, failedAt: null, lastError: null };
+    await prisma.embeddingJob.upsert({
+      where: { memoryCardId },
+      create: { memoryCardId, userId },
+      update: reset,
+    });
+    await prisma.memoryCard.update({
+      where: { id: memoryCardId },
+      data: { embeddingStatus: 'pending' },
+    });
+
+    if (this.workerPrisma) {
+      this.kick();
+    }
+  }
+
+  /**
+   * Run the worker: poll for due jobs, and pick up new ones right away
+   */
+  start(prisma: EmbeddingQueueDatabase): void {
+    if (this.timer) return;
+    this.workerPrisma = prisma;
+    this.timer = setInterval(() => this.kick(), this.pollIntervalMs);
+    this.kick();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+    }
+    this.timer = null;
+    this.workerPrisma = null;
+  }
+
+  /**
+   * Work through every job that is due. Resolves with how many were attempted.
+   */
+  drain(prisma: EmbeddingQueueDatabase): Promise<number> {
+    if (!this.draining) {
+      this.draining = this.processDue(prisma).finally(() => {
+        this.draining = null;
+      });
+    }
+    return this.draining;
+  }
+
+  private kick(): void {
+    if (!this.workerPrisma) return;
+    this.drain(this.workerPrisma).catch(error => {
+      console.error('Embedding queue worker error:', error);
+    });
+  }
+
+  private async processDue(prisma: EmbeddingQueueDatabase): Promise<number> {
+    let attempted = 0;
+    for (;;) {
+      const jobs = await this.claim(prisma);
+      if (jobs.length === 0) {
+        return attempted;
+      }
+      for (const job of jobs) {
+        await this.process(job, prisma);
+        attempted++;
+      }
+    }
+  }
+
+  // Lock due jobs; one another worker locked first is left to it
+  private async claim(prisma: EmbeddingQueueDatabase): Promise<EmbeddingJob[]> {
+    const now = new Date();
+    const due = await prisma.embeddingJob.findMany({
+      where: {
+        failedAt: null,
+        runAt: { lte: now },
+        OR: [{ lockedAt: null }, { lockedAt: { lt: new Date(now.getTime() - this.lockTimeoutMs) } }],
+      },
+      orderBy: { runAt: 'asc' },
+      take: this.batchSize,
+    });
+
+    const claimed: EmbeddingJob[] = [];
+    for (const job of due) {
+      const { count } = await prisma.embeddingJob.updateMany({
+        where: { id: job.id, lockedAt: job.lockedAt },
+        data: { lockedAt: now },
+      });
+      if (count === 1) {
+        claimed.push({ ...job, lockedAt: now });
+      }
+    }
+    return claimed;
+  }
+
+  private async process(job: EmbeddingJob, prisma: EmbeddingQueueDatabase): Promise<void> {
+    // Deleting the card deletes its job, so a card that vanished mid-run is left alone
+    const card = await prisma.memoryCard.findUnique({
+      where: { id: job.memoryCardId },
+      select: { content: true, summary: true },
+    });
+    if (!card) return;
+
+    // Matches only while nobody re-queued the card since it was claimed
+    const unchanged = { id: job.id, lockedAt: job.lockedAt };
+
+    try {
+      const provider = await this.provider(job.userId, prisma);
+      const embedding = await generateEmbedding(card.summary || card.content, provider);
+      await updateMemoryCardEmbedding(job.memoryCardId, embedding, embeddingModelId(provider));
+
+      const { count } = await prisma.embeddingJob.deleteMany({ where: unchanged });
+      if (count === 0) {
+        // Edited while embedding: the newer job still has to run
+        await prisma.memoryCard.update({ where: { id: job.memoryCardId }, data: { embeddingStatus: 'pending' } });
+      } else {
+        this.notify(job.userId, job.memoryCardId, 'ready');
+      }
+    } catch (error) {
+      const attempts = job.attempts + 1;
+      const lastError = error instanceof Error ? error.message : 'Unknown error';
+      const failed = attempts >= this.maxAttempts;
+
+      const { count } = await prisma.embeddingJob.updateMany({
+        where: unchanged,
+        data: {
+          attempts,
+          lastError,
+          lockedAt: null,
+          ...(failed
+            ? { failedAt: new Date() }
+            : { runAt: new Date(Date.now() + this.backoffMs * 2 ** (attempts - 1)) }),
+        },
+      });
+      if (failed && count === 1) {
+        console.error(`Giving up embedding memory card ${job.memoryCardId} after ${attempts} attempts:`, lastError);
+        await prisma.memoryCard.update({ where: { id: job.memoryCardId }, data: { embeddingStatus: 'failed' } });
+        this.notify(job.userId, job.memoryCardId, 'failed');
+      }
+    }
+  }
+}
+
+export const embeddingQueue = new EmbeddingQueue();
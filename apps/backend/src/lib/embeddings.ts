@@ -1,4 +1,8 @@
-import { OpenAI } from 'openai';
+import {
+  OpenAIEmbeddingProvider,
+  embeddingModelId,
+  type EmbeddingProvider,
+} from './embedding-providers.js';
 
 // Configuration for embeddings
 const EMBEDDING_MODEL = process.env['EMBEDDING_MODEL'] || 'text-embedding-3-small';
@@ -23,39 +27,32 @@ export interface BatchEmbeddingResult {
   results: EmbeddingResult[];
   totalTokens: number;
   model: string;
+  embeddingModel: string; // Provider-qualified, as stored on memory cards
 }
 
 /**
- * Create OpenAI client with the provided API key
+ * The provider to embed with: a provider, or an OpenAI key (defaults to the env var)
  */
-function createOpenAIClient(apiKey?: string): OpenAI {
-  const key = apiKey || process.env['OPENAI_API_KEY'];
-  if (!key) {
-    throw new Error('OpenAI API key not provided');
-  }
-  return new OpenAI({ apiKey: key });
+function toEmbeddingProvider(provider?: EmbeddingProvider | string): EmbeddingProvider {
+  return typeof provider === 'object' ? provider : new OpenAIEmbeddingProvider(provider);
 }
 
 /**
  * Generate embeddings for a single text
  * @param text - The text to embed
- * @param apiKey - Optional API key to use (defaults to env var)
+ * @param provider - Embedding provider, or an OpenAI API key (defaults to OpenAI with the env var)
  * @returns Promise<number[]> - The embedding vector
  */
-export async function generateEmbedding(text: string, apiKey?: string): Promise<number[]> {
+export async function generateEmbedding(text: string, provider?: EmbeddingProvider | string): Promise<number[]> {
   try {
-    const openai = createOpenAIClient(apiKey);
-    const response = await openai.embeddings.create({
-      model: EMBEDDING_MODEL,
-      input: text,
-      dimensions: EMBEDDING_DIMENSIONS,
-    });
-
-    if (!response.data[0]?.embedding) {
-      throw new Error('No embedding returned from OpenAI API');
+    const embedder = toEmbeddingProvider(provider);
+    const { embeddings } = await embedder.embed([text]);
+
+    if (!embeddings[0]) {
+      throw new Error(`No embedding returned from ${embedder.id}`);
     }
 
-    return response.data[0].embedding;
+    return embeddings[0];
   } catch (error) {
     console.error('Error generating embedding:', error);
     throw new Error(`Failed to generate embedding: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -65,25 +62,32 @@ export async function generateEmbedding(text: string, apiKey?: string): Promise<
 /**
  * Generate embeddings for multiple texts in batches
  * @param texts - Array of texts to embed
- * @param apiKey - Optional API key to use (defaults to env var)
+ * @param provider - Embedding provider, or an OpenAI API key (defaults to OpenAI with the env var)
  * @returns Promise<BatchEmbeddingResult> - The batch embedding results
  */
-export async function generateEmbeddingsBatch(texts: string[], apiKey?: string): Promise<BatchEmbeddingResult> {
+export async function generateEmbeddingsBatch(
+  texts: string[],
+  provider?: EmbeddingProvider | string
+): Promise<BatchEmbeddingResult> {
   if (texts.length === 0) {
+    // Nothing to send, so no client (or key) is needed
+    const embedder = typeof provider === 'object' ? provider : { id: 'openai' as const, model: EMBEDDING_MODEL };
     return {
       results: [],
       totalTokens: 0,
-      model: EMBEDDING_MODEL,
+      model: embedder.model,
+      embeddingModel: embeddingModelId(embedder),
     };
   }
 
+  const embedder = toEmbeddingProvider(provider);
   const results: EmbeddingResult[] = [];
   let totalTokens = 0;
 
   // Process texts in batches
   for (let i = 0; i < texts.length; i += BATCH_SIZE) {
     const batch = texts.slice(i, i + BATCH_SIZE);
-    const batchResult = await generateEmbeddingsBatchInternal(batch, i, apiKey);
+    const batchResult = await generateEmbeddingsBatchInternal(batch, i, embedder);
     
     results.push(...batchResult.results);
     totalTokens += batchResult.totalTokens;
@@ -92,7 +96,8 @@ export async function generateEmbeddingsBatch(texts: string[], apiKey?: string):
   return {
     results,
     totalTokens,
-    model: EMBEDDING_MODEL,
+    model: embedder.model,
+    embeddingModel: embeddingModelId(embedder),
   };
 }
 
@@ -100,35 +105,31 @@ export async function generateEmbeddingsBatch(texts: string[], apiKey?: string):
  * Internal function to process a single batch of texts
  * @param texts - Batch of texts to embed
  * @param startIndex - Starting index for the batch
- * @param apiKey - Optional API key to use
+ * @param embedder - Provider to embed with
  * @returns Promise<BatchEmbeddingResult> - The batch results
  */
 async function generateEmbeddingsBatchInternal(
   texts: string[], 
   startIndex: number,
-  apiKey?: string
+  embedder: EmbeddingProvider
 ): Promise<BatchEmbeddingResult> {
   let lastError: Error | null = null;
-  const openai = createOpenAIClient(apiKey);
 
   for (let attempt = 0; attempt < MAX_RETRIES; attempt++) {
     try {
-      const response = await openai.embeddings.create({
-        model: EMBEDDING_MODEL,
-        input: texts,
-        dimensions: EMBEDDING_DIMENSIONS,
-      });
+      const response = await embedder.embed(texts);
 
-      const results: EmbeddingResult[] = response.data.map((item: any, index: number) => ({
+      const results: EmbeddingResult[] = response.embeddings.map((embedding, index) => ({
         text: texts[index] || '',
-        embedding: item.embedding,
+        embedding,
         index: startIndex + index,
       }));
 
       return {
         results,
-        totalTokens: response.usage.total_tokens,
-        model: EMBEDDING_MODEL,
+        totalTokens: response.totalTokens,
+        model: embedder.model,
+        embeddingModel: embeddingModelId(embedder),
       };
     } catch (error) {
       lastError = error instanceof Error ? error : new Error('Unknown error');
@@ -217,12 +218,13 @@ export function parseVectorFromPg(vectorString: string): number[] {
 /**
  * Validate embedding dimensions
  * @param embedding - The embedding to validate
+ * @param dimensions - Expected length (defaults to the OpenAI EMBEDDING_DIMENSIONS)
  * @returns boolean - Whether the embedding is valid
  */
-export function validateEmbedding(embedding: number[]): boolean {
+export function validateEmbedding(embedding: number[], dimensions = EMBEDDING_DIMENSIONS): boolean {
   return (
     Array.isArray(embedding) &&
-    embedding.length === EMBEDDING_DIMENSIONS &&
+    embedding.length === dimensions &&
     embedding.every(val => typeof val === 'number' && !isNaN(val))
   );
 }
@@ -0,0 +1,114 @@
+import { streamingUtils } from './streaming.js';
+
+// Abort reason for a generation the user stopped
+export class GenerationStoppedError extends Error {
+  constructor() {
+    super('Generation stopped');
+    this.name = 'GenerationStoppedError';
+  }
+}
+
+interface Generation {
+  userId: string;
+  controller: AbortController;
+}
+
+/**
+ * Generations still writing, keyed by the assistant message they write to.
+ * Every provider call for a message (single model, Trinity agents and the
+ * orchestrator) shares the signal from `start`, so stopping the message
+ * aborts them all.
+ */
+export class GenerationRegistry {
+  private readonly generations = new Map<string, Generation>();
+
+  /**
+   * Track a generation and return the signal to abort its provider calls on.
+   * A `linked` signal, such as the request's own, stops it as well.
+   */
+  start(messageId: string, userId: string, linked?: AbortSignal): AbortSignal {
+    const controller = new AbortController();
+    if (linked?.aborted) {
+      controller.abort(linked.reason);
+    } else {
+      linked?.addEventListener('abort', () => controller.abort(linked.reason), { once: true });
+    }
+
+    this.generations.set(messageId, { userId, controller });
+    return controller.signal;
+  }
+
+  finish(messageId: string): void {
+    this.generations.delete(messageId);
+  }
+
+  /**
+   * Stop a user's generation. False if it already finished or belongs to
+   * someone else.
+   */
+  cancel(messageId: string, userId: string): boolean {
+    const generation = this.generations.get(messageId);
+    if (!generation || generation.userId !== userId) {
+      return false;
+    }
+
+    generation.controller.abort(new GenerationStoppedError());
+    this.generations.delete(messageId);
+    return true;
+  }
+
+  isRunning(messageId: string): boolean {
+    return this.generations.has(messageId);
+  }
+}
+
+export const generationRegistry = new GenerationRegistry();
+
+/**
+ * Tell the user's tabs which message a generation writes to, for requests that
+ * only return once it is done, so the stop button can cancel it by that ID
+ */
+export function announceGeneration(message: { id: string; threadId: string; userId: string }): void {
+  streamingUtils.sendToUser(message.userId, {
+    type: 'generation_started',
+    id: `started_${message.id}`,
+    threadId: message.threadId,
+    userId: message.userId,
+    data: {
+      messageId: message.id,
+    },
+    timestamp: Date.now(),
+  });
+}
+
+/**
+ * Keep what a stopped generation wrote so far, mark the message stopped and
+ * tell the user's other tabs
+ */
+export async function persistStoppedGeneration(
+  prisma: any,
+  message: { id: string; threadId: string; userId: string },
+  content: string
+): Promise<void> {
+  await prisma.message.update({
+    where: { id: message.id },
+    data: {
+      content,
+      status: 'stopped',
+      updatedAt: new Date(),
+    },
+  });
+
+  streamingUtils.sendToUser(message.userId, {
+    type: 'generation_stopped',
+    id: `stopped_${message.id}`,
+    threadId: message.threadId,
+    userId: message.userId,
+    data: {
+      messageId: message.id,
+      content,
+      status: 'stopped',
+    },
+    timestamp: Date.now(),
+  });
+}
@@ -1,5 +1,9 @@
 import { z } from 'zod';
 import * as crypto from 'crypto';
+import { AsyncLocalStorage } from 'async_hooks';
+import { TRPCError } from '@trpc/server';
+import { modelRegistry } from './model-registry.js';
+import { customEndpointRejection } from './custom-endpoint-policy.js';
 
 // Decryption helper (should match the one in auth.ts)
 const getEncryptionKey = () => {
@@ -31,11 +35,39 @@ function decrypt(text: string): string {
 }
 
 // LLM Provider types  
-export type LLMProvider = 'openai' | 'anthropic' | 'google' | 'mistral' | 'openrouter';
+export type LLMProvider = 'openai' | 'anthropic' | 'google' | 'mistral' | 'openrouter' | 'custom';
 
-export interface LLMMessage {
-  role: 'system' | 'user' | 'assistant';
-  content: string;
+// A tool invocation requested by the model
+export interface LLMToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+// Part of a multimodal user message; binary data is base64-encoded
+export type LLMContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image'; mimeType: string; data: string; filename: string }
+  | { type: 'file'; mimeType: string; data: string; filename: string };
+
+export type LLMMessage =
+  | { role: 'system'; content: string }
+  | { role: 'user'; content: string | LLMContentPart[] }
+  | { role: 'assistant'; content: string; toolCalls?: LLMToolCall[] } // toolCalls: tools the model asked for
+  | { role: 'tool'; content: string; toolCallId: string; name: string }; // Result of one tool call
+
+// Text of a message, ignoring any attachment parts
+export function messageText(content: string | LLMContentPart[]): string {
+  return typeof content === 'string'
+    ? content
+    : content.flatMap(part => (part.type === 'text' ? [part.text] : [])).join('\n\n');
+}
+
+// JSON object in a model's reply, checked against a schema. Models often wrap JSON
+// in a code fence or a sentence, so everything outside the outermost braces is
+// ignored. Throws if there is no such object or it doesn't match.
+export function parseJsonReply<T>(content: string, schema: z.ZodType<T, z.ZodTypeDef, unknown>): T {
+  return schema.parse(JSON.parse(content.slice(content.indexOf('{'), content.lastIndexOf('}') + 1)));
 }
 
 export interface LLMResponse {
@@ -48,6 +80,8 @@ export interface LLMResponse {
     totalTokens: number;
   };
   finishReason?: 'stop' | 'length' | 'content_filter' | 'tool_calls';
+  toolCalls?: LLMToolCall[];
+  logprobs?: number[]; // Log probability of each completion token, when requested and the provider reports them
 }
 
 export interface LLMStreamChunk {
@@ -56,16 +90,32 @@ export interface LLMStreamChunk {
   isComplete: boolean;
   usage?: LLMResponse['usage'];
   finishReason?: LLMResponse['finishReason'];
+  toolCalls?: LLMToolCall[]; // Set on the final chunk, assembled from streamed deltas
+  logprobs?: number[]; // Set on the final chunk
 }
 
+// Provider-neutral tool definition; `parameters` is a JSON Schema object
+export const LLMToolDefinitionSchema = z.object({
+  name: z.string().regex(/^[a-zA-Z0-9_-]{1,64}$/),
+  description: z.string(),
+  parameters: z.record(z.unknown()),
+});
+
+export type LLMToolDefinition = z.infer<typeof LLMToolDefinitionSchema>;
+
 // LLM Configuration schema
 export const LLMConfigSchema = z.object({
   model: z.string(),
-  provider: z.enum(['openai', 'anthropic', 'google', 'mistral', 'openrouter']),
+  provider: z.enum(['openai', 'anthropic', 'google', 'mistral', 'openrouter', 'custom']),
   apiKey: z.string(),
+  baseUrl: z.string().url().optional(), // Only used by the custom (OpenAI-compatible) provider
   maxTokens: z.number().default(2048),
   temperature: z.number().min(0).max(2).default(0.7),
   stream: z.boolean().default(true),
+  tools: z.array(LLMToolDefinitionSchema).optional(), // Offered to the model for function calling
+  toolChoice: z.enum(['auto', 'none', 'required']).optional(),
+  logprobs: z.boolean().optional(), // Ask for token log probabilities; only chat-completions providers other than Mistral return them
+  signal: z.instanceof(AbortSignal).optional(), // Aborts the provider request, e.g. when the user stops the generation
 });
 
 export type LLMConfig = z.infer<typeof LLMConfigSchema>;
@@ -92,16 +142,19 @@ class OpenAIService implements LLMService {
 
     const response = await fetch('https://api.openai.com/v1/chat/completions', {
       method: 'POST',
+      ...(config.signal && { signal: config.signal }),
       headers: {
         'Authorization': `Bearer ${config.apiKey}`,
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
         model: config.model,
-        messages,
+        messages: toChatCompletionMessages(messages),
         max_tokens: config.maxTokens,
         temperature: config.temperature,
         stream: false,
+        ...toChatCompletionTools(config),
+        ...toChatCompletionLogprobs(config),
       }),
     });
 
@@ -126,22 +179,28 @@ class OpenAIService implements LLMService {
         totalTokens: data.usage?.total_tokens || 0,
       },
       finishReason: data.choices[0]?.finish_reason || 'stop',
+      ...withToolCalls(parseChatCompletionToolCalls(data.choices[0]?.message?.tool_calls)),
+      ...withLogprobs(parseChatCompletionLogprobs(data.choices[0]?.logprobs)),
     };
   }
 
   async* generateStreamResponse(messages: LLMMessage[], config: LLMConfig): AsyncGenerator<LLMStreamChunk> {
     const response = await fetch('https://api.openai.com/v1/chat/completions', {
       method: 'POST',
+      ...(config.signal && { signal: config.signal }),
       headers: {
         'Authorization': `Bearer ${config.apiKey}`,
         'Content-Type': 'application/json',
       },
       body: JSON.stringify({
         model: config.model,
-        messages,
+        messages: toChatCompletionMessages(messages),
         max_tokens: config.maxTokens,
         temperature: config.temperature,
         stream: true,
+        stream_options: { include_usage: true }, // Final chunk reports token usage
+        ...toChatCompletionTools(config),
+        ...toChatCompletionLogprobs(config),
       }),
     });
 
@@ -153,55 +212,7 @@ class OpenAIService implements LLMService {
       throw new Error('No response body from OpenAI API');
     }
 
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder();
-    let content = '';
-
-    try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n').filter(line => line.trim());
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6);
-            if (data === '[DONE]') {
-              yield {
-                content,
-                delta: '',
-                isComplete: true,
-              };
-              return;
-            }
-
-            try {
-              const parsed = JSON.parse(data);
-              const delta = parsed.choices[0]?.delta?.content || '';
-              content += delta;
-
-              yield {
-                content,
-                delta,
-                isComplete: false,
-                usage: parsed.usage ? {
-                  promptTokens: parsed.usage.prompt_tokens || 0,
-                  completionTokens: parsed.usage.completion_tokens || 0,
-                  totalTokens: parsed.usage.total_tokens || 0,
-                } : undefined,
-                finishReason: parsed.choices[0]?.finish_reason,
-              };
-            } catch (error) {
-              console.warn('Failed to parse OpenAI streaming chunk:', error);
-            }
-          }
-        }
-      }
-    } finally {
-      reader.releaseLock();
-    }
+    yield* readChatCompletionStream(response.body, 'OpenAI');
   }
 }
 
@@ -210,6 +221,7 @@ class OpenRouterService implements LLMService {
   async generateResponse(messages: LLMMessage[], config: LLMConfig): Promise<LLMResponse> {
     const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
       method: 'POST',
+      ...(config.signal && { signal: config.signal }),
       headers: {
         'Authorization': `Bearer ${config.apiKey}`,
         'Content-Type': 'application/json',
@@ -218,10 +230,12 @@ class OpenRouterService implements LLMService {
       },
       body: JSON.stringify({
         model: config.model,
-        messages,
+        messages: toChatCompletionMessages(messages),
         max_tokens: config.maxTokens,
         temperature: config.temperature,
         stream: false,
+        ...toChatCompletionTools(config),
+        ...toChatCompletionLogprobs(config),
       }),
     });
 
@@ -241,12 +255,15 @@ class OpenRouterService implements LLMService {
         totalTokens: data.usage?.total_tokens || 0,
       },
       finishReason: data.choices[0]?.finish_reason || 'stop',
+      ...withToolCalls(parseChatCompletionToolCalls(data.choices[0]?.message?.tool_calls)),
+      ...withLogprobs(parseChatCompletionLogprobs(data.choices[0]?.logprobs)),
     };
   }
 
   async* generateStreamResponse(messages: LLMMessage[], config: LLMConfig): AsyncGenerator<LLMStreamChunk> {
     const response = await fetch('https://openrouter.ai/api/v1/chat/completions', {
       method: 'POST',
+      ...(config.signal && { signal: config.signal }),
       headers: {
         'Authorization': `Bearer ${config.apiKey}`,
         'Content-Type': 'application/json',
@@ -255,10 +272,12 @@ class OpenRouterService implements LLMService {
       },
       body: JSON.stringify({
         model: config.model,
-        messages,
+        messages: toChatCompletionMessages(messages),
         max_tokens: config.maxTokens,
         temperature: config.temperature,
         stream: true,
+        ...toChatCompletionTools(config),
+        ...toChatCompletionLogprobs(config),
       }),
     });
 
@@ -270,55 +289,7 @@ class OpenRouterService implements LLMService {
       throw new Error('No response body from OpenRouter API');
     }
 
-    const reader = response.body.getReader();
-    const decoder = new TextDecoder();
-    let content = '';
-
-    try {
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n').filter(line => line.trim());
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            const data = line.slice(6);
-            if (data === '[DONE]') {
-              yield {
-                content,
-                delta: '',
-                isComplete: true,
-              };
-              return;
-            }
-
-            try {
-              const parsed = JSON.parse(data);
-              const delta = parsed.choices[0]?.delta?.content || '';
-              content += delta;
-
-              yield {
-                content,
-                delta,
-                isComplete: false,
-                usage: parsed.usage ? {
-                  promptTokens: parsed.usage.prompt_tokens || 0,
-                  completionTokens: parsed.usage.completion_tokens || 0,
-                  totalTokens: parsed.usage.total_tokens || 0,
-                } : undefined,
-                finishReason: parsed.choices[0]?.finish_reason,
-              };
-            } catch (error) {
-              console.warn('Failed to parse OpenRouter streaming chunk:', error);
-            }
-          }
-        }
-      }
-    } finally {
-      reader.releaseLock();
-    }
+    yield* readChatCompletionStream(response.body, 'OpenRouter');
   }
 }
 
@@ -326,13 +297,7 @@ class OpenRouterService implements LLMService {
 class AnthropicService implements LLMService {
   async generateResponse(messages: LLMMessage[], config: LLMConfig): Promise<LLMResponse> {
     // Convert messages to Anthropic format
-    const systemMessage = messages.find(m => m.role === 'system')?.content || '';
-    const anthropicMessages = messages
-      .filter(m => m.role !== 'system')
-      .map(m => ({
-        role: m.role === 'assistant' ? 'assistant' : 'user',
-        content: m.content
-      }));
+    const { system: systemMessage, messages: anthropicMessages } = toAnthropicMessages(messages);
 
     console.log(`\n--- Calling Anthropic (${config.model}) ---`);
     console.log('Messages:', JSON.stringify(anthropicMessages.slice(0, 2), null, 2));
@@ -340,6 +305,7 @@ class AnthropicService implements LLMService {
 
     const response = await fetch('https://api.anthropic.com/v1/messages', {
       method: 'POST',
+      ...(config.signal && { signal: config.signal }),
       headers: {
         'x-api-key': config.apiKey,
         'Content-Type': 'application/json',
@@ -351,6 +317,7 @@ class AnthropicService implements LLMService {
         max_tokens: config.maxTokens,
         temperature: config.temperature,
         system: systemMessage,
+        ...toAnthropicTools(config),
       }),
     });
 
@@ -364,9 +331,13 @@ class AnthropicService implements LLMService {
 
     const data = await response.json();
     console.log('Anthropic Response Data:', JSON.stringify(data.content?.[0], null, 2));
-    
+
+    // Text and tool_use blocks can be interleaved
+    const blocks: AnthropicResponseBlock[] = data.content ?? [];
+    const finishReason = mapAnthropicStopReason(data.stop_reason);
+
     return {
-      content: data.content[0]?.text || '',
+      content: blocks.flatMap(block => block.type === 'text' ? [block.text] : []).join(''),
       model: config.model,
       provider: 'anthropic',
       usage: {
@@ -374,21 +345,19 @@ class AnthropicService implements LLMService {
         completionTokens: data.usage?.output_tokens || 0,
         totalTokens: (data.usage?.input_tokens || 0) + (data.usage?.output_tokens || 0),
       },
-      finishReason: data.stop_reason === 'end_turn' ? 'stop' : data.stop_reason,
+      ...(finishReason && { finishReason }),
+      ...withToolCalls(blocks.flatMap(block =>
+        block.type === 'tool_use' ? [{ id: block.id, name: block.name, arguments: block.input ?? {} }] : []
+      )),
     };
   }
 
   async* generateStreamResponse(messages: LLMMessage[], config: LLMConfig): AsyncGenerator<LLMStreamChunk> {
-    const systemMessage = messages.find(m => m.role === 'system')?.content || '';
-    const anthropicMessages = messages
-      .filter(m => m.role !== 'system')
-      .map(m => ({
-        role: m.role === 'assistant' ? 'assistant' : 'user',
-        content: m.content
-      }));
+    const { system: systemMessage, messages: anthropicMessages } = toAnthropicMessages(messages);
 
     const response = await fetch('https://api.anthropic.com/v1/messages', {
       method: 'POST',
+      ...(config.signal && { signal: config.signal }),
       headers: {
         'x-api-key': config.apiKey,
         'Content-Type': 'application/json',
@@ -401,6 +370,7 @@ class AnthropicService implements LLMService {
         temperature: config.temperature,
         system: systemMessage,
         stream: true,
+        ...toAnthropicTools(config),
       }),
     });
 
@@ -417,14 +387,21 @@ class AnthropicService implements LLMService {
     const reader = response.body.getReader();
     const decoder = new TextDecoder();
     let content = '';
+    let buffer = '';
+    let promptTokens = 0;
+    let completionTokens = 0;
+    let finishReason: LLMResponse['finishReason'];
+    // tool_use blocks by content block index; their input arrives as partial JSON
+    const toolBlocks = new Map<number, { id: string; name: string; json: string }>();
 
     try {
       while (true) {
         const { done, value } = await reader.read();
         if (done) break;
 
-        const chunk = decoder.decode(value);
-        const lines = chunk.split('\n').filter(line => line.trim());
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
 
         for (const line of lines) {
           if (line.startsWith('data: ')) {
@@ -433,7 +410,16 @@ class AnthropicService implements LLMService {
             try {
               const parsed = JSON.parse(data);
               
-              if (parsed.type === 'content_block_delta') {
+              if (parsed.type === 'message_start') {
+                promptTokens = parsed.message?.usage?.input_tokens || 0;
+              } else if (parsed.type === 'content_block_start' && parsed.content_block?.type === 'tool_use') {
+                toolBlocks.set(parsed.index, { id: parsed.content_block.id, name: parsed.content_block.name, json: '' });
+              } else if (parsed.type === 'content_block_delta' && parsed.delta?.type === 'input_json_delta') {
+                const block = toolBlocks.get(parsed.index);
+                if (block) {
+                  block.json += parsed.delta.partial_json || '';
+                }
+              } else if (parsed.type === 'content_block_delta') {
                 const delta = parsed.delta?.text || '';
                 content += delta;
 
@@ -442,16 +428,25 @@ class AnthropicService implements LLMService {
                   delta,
                   isComplete: false,
                 };
+              } else if (parsed.type === 'message_delta') {
+                finishReason = mapAnthropicStopReason(parsed.delta?.stop_reason) || finishReason;
+                completionTokens = parsed.usage?.output_tokens ?? completionTokens;
               } else if (parsed.type === 'message_stop') {
                 yield {
                   content,
                   delta: '',
                   isComplete: true,
-                  usage: parsed.usage ? {
-                    promptTokens: parsed.usage.input_tokens || 0,
-                    completionTokens: parsed.usage.output_tokens || 0,
-                    totalTokens: (parsed.usage.input_tokens || 0) + (parsed.usage.output_tokens || 0),
-                  } : undefined,
+                  usage: {
+                    promptTokens,
+                    completionTokens,
+                    totalTokens: promptTokens + completionTokens,
+                  },
+                  ...(finishReason && { finishReason }),
+                  ...withToolCalls([...toolBlocks.values()].map(block => ({
+                    id: block.id,
+                    name: block.name,
+                    arguments: parseToolArguments(block.json),
+                  }))),
                 };
               }
             } catch (error) {
@@ -470,16 +465,7 @@ class AnthropicService implements LLMService {
 class GoogleService implements LLMService {
   async generateResponse(messages: LLMMessage[], config: LLMConfig): Promise<LLMResponse> {
     // Convert messages to Gemini format
-    const contents = messages.map(m => ({
-      role: m.role === 'assistant' ? 'model' : 'user',
-      parts: [{ text: m.content }]
-    }));
-
-    // Handle system message by prepending to first user message
-    const systemMessage = messages.find(m => m.role === 'system');
-    if (systemMessage && contents.length > 0 && contents[0] && contents[0].parts && contents[0].parts[0]) {
-      contents[0].parts[0].text = `${systemMessage.content}\n\n${contents[0].parts[0].text}`;
-    }
+    const contents = toGeminiContents(messages);
 
     console.log(`\n--- Calling Google (${config.model}) ---`);
     console.log('Messages:', JSON.stringify(contents.slice(0, 2), null, 2));
@@ -490,6 +476,7 @@ class GoogleService implements LLMService {
       `https://generativelanguage.googleapis.com/v1beta/models/${modelName}:generateContent?key=${config.apiKey}`,
       {
         method: 'POST',
+        ...(config.signal && { signal: config.signal }),
         headers: {
           'Content-Type': 'application/json',
         },
@@ -499,6 +486,7 @@ class GoogleService implements LLMService {
             temperature: config.temperature,
             maxOutputTokens: config.maxTokens,
           },
+          ...toGeminiTools(config),
         }),
       }
     );
@@ -513,9 +501,15 @@ class GoogleService implements LLMService {
 
     const data = await response.json();
     console.log('Google Response Data:', JSON.stringify(data.candidates?.[0], null, 2));
-    
+
+    // Gemini doesn't assign ids to function calls, so number them
+    const parts: GeminiPart[] = data.candidates[0]?.content?.parts ?? [];
+    const toolCalls: LLMToolCall[] = parts
+      .flatMap(part => part.functionCall ? [part.functionCall] : [])
+      .map((call, index) => ({ id: `call_${index}`, name: call.name, arguments: call.args ?? {} }));
+
     return {
-      content: data.candidates[0]?.content?.parts[0]?.text || '',
+      content: parts.filter(part => typeof part.text === 'string').map(part => part.text).join(''),
       model: config.model,
       provider: 'google',
       usage: {
@@ -523,7 +517,10 @@ class GoogleService implements LLMService {
         completionTokens: data.usageMetadata?.candidatesTokenCount || 0,
         totalTokens: data.usageMetadata?.totalTokenCount || 0,
       },
-      finishReason: data.candidates[0]?.finishReason === 'STOP' ? 'stop' : data.candidates[0]?.finishReason,
+      finishReason: toolCalls.length > 0
+        ? 'tool_calls'
+        : data.candidates[0]?.finishReason === 'STOP' ? 'stop' : data.candidates[0]?.finishReason,
+      ...withToolCalls(toolCalls),
     };
   }
 
@@ -537,6 +534,7 @@ class GoogleService implements LLMService {
     let content = '';
     
     for (let i = 0; i < words.length; i++) {
+      config.signal?.throwIfAborted();
       const word = words[i];
       const delta = (i > 0 ? ' ' : '') + word;
       content += delta;
@@ -547,6 +545,7 @@ class GoogleService implements LLMService {
         isComplete: i === words.length - 1,
         usage: i === words.length - 1 ? response.usage : undefined,
         finishReason: i === words.length - 1 ? response.finishReason : undefined,
+        ...(i === words.length - 1 && response.toolCalls && { toolCalls: response.toolCalls }),
       };
       
       // Small delay to simulate streaming
@@ -555,10 +554,604 @@ class GoogleService implements LLMService {
   }
 }
 
+// Mistral Service Implementation
+export class MistralService implements LLMService {
+  private readonly baseUrl: string;
+
+  constructor(baseUrl?: string) {
+    this.baseUrl = baseUrl || process.env['MISTRAL_BASE_URL'] || 'https://api.mistral.ai/v1';
+  }
+
+  async generateResponse(messages: LLMMessage[], config: LLMConfig): Promise<LLMResponse> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      ...(config.signal && { signal: config.signal }),
+      headers: {
+        'Authorization': `Bearer ${config.apiKey}`,
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+      },
+      body: JSON.stringify({
+        model: config.model,
+        messages: toChatCompletionMessages(messages),
+        max_tokens: config.maxTokens,
+        temperature: config.temperature,
+        stream: false,
+        ...toChatCompletionTools(config),
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Mistral API Error:', errorText);
+      throw new Error(`Mistral API error: ${response.status} ${errorText}`);
+    }
+
+    return parseChatCompletion(await response.json(), config, 'mistral');
+  }
+
+  async* generateStreamResponse(messages: LLMMessage[], config: LLMConfig): AsyncGenerator<LLMStreamChunk> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      ...(config.signal && { signal: config.signal }),
+      headers: {
+        'Authorization': `Bearer ${config.apiKey}`,
+        'Content-Type': 'application/json',
+        'Accept': 'text/event-stream',
+      },
+      body: JSON.stringify({
+        model: config.model,
+        messages: toChatCompletionMessages(messages),
+        max_tokens: config.maxTokens,
+        temperature: config.temperature,
+        stream: true,
+        ...toChatCompletionTools(config),
+      }),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error('Mistral API Error:', errorText);
+      throw new Error(`Mistral API error: ${response.status} ${errorText}`);
+    }
+
+    if (!response.body) {
+      throw new Error('No response body from Mistral API');
+    }
+
+    yield* readChatCompletionStream(response.body, 'Mistral');
+  }
+}
+
+// Custom Endpoint Service for self-hosted OpenAI-compatible servers
+// (Ollama, vLLM, llama.cpp server, LM Studio, ...)
+const CUSTOM_ENDPOINT_TIMEOUT_MS = parseInt(process.env['CUSTOM_ENDPOINT_TIMEOUT_MS'] || String(5 * 60 * 1000)); // Whole request, streaming included
+
+export class CustomEndpointService implements LLMService {
+  async generateResponse(messages: LLMMessage[], config: LLMConfig): Promise<LLMResponse> {
+    const response = await fetch(`${requireBaseUrl(config)}/chat/completions`, {
+      method: 'POST',
+      signal: customEndpointSignal(config.signal),
+      headers: buildCustomEndpointHeaders(config.apiKey),
+      body: JSON.stringify({
+        model: config.model,
+        messages: toChatCompletionMessages(messages),
+        max_tokens: config.maxTokens,
+        temperature: config.temperature,
+        stream: false,
+        ...toChatCompletionTools(config),
+        ...toChatCompletionLogprobs(config),
+      }),
+    });
+
+    if (!response.ok) {
+      throw await customEndpointError(response);
+    }
+
+    return parseChatCompletion(await response.json(), config, 'custom');
+  }
+
+  async* generateStreamResponse(messages: LLMMessage[], config: LLMConfig): AsyncGenerator<LLMStreamChunk> {
+    const response = await fetch(`${requireBaseUrl(config)}/chat/completions`, {
+      method: 'POST',
+      signal: customEndpointSignal(config.signal),
+      headers: buildCustomEndpointHeaders(config.apiKey),
+      body: JSON.stringify({
+        model: config.model,
+        messages: toChatCompletionMessages(messages),
+        max_tokens: config.maxTokens,
+        temperature: config.temperature,
+        stream: true,
+        ...toChatCompletionTools(config),
+        ...toChatCompletionLogprobs(config),
+      }),
+    });
+
+    if (!response.ok) {
+      throw await customEndpointError(response);
+    }
+
+    if (!response.body) {
+      throw new Error('No response body from custom endpoint');
+    }
+
+    yield* readChatCompletionStream(response.body, 'custom endpoint');
+  }
+}
+
+// Bounds a request to a user's endpoint, on top of the caller's own signal
+function customEndpointSignal(signal?: AbortSignal): AbortSignal {
+  const timeout = AbortSignal.timeout(CUSTOM_ENDPOINT_TIMEOUT_MS);
+  return signal ? AbortSignal.any([signal, timeout]) : timeout;
+}
+
+// The body is logged, not passed on: it is whatever the user's server sent back
+async function customEndpointError(response: Response): Promise<Error> {
+  console.error('Custom endpoint error:', response.status, (await response.text()).slice(0, 500));
+  return new Error(`Custom endpoint error: ${response.status} ${response.statusText}`.trim());
+}
+
+function requireBaseUrl(config: LLMConfig): string {
+  if (!config.baseUrl) {
+    throw new Error('Custom endpoint requires a base URL');
+  }
+  return normalizeBaseUrl(config.baseUrl);
+}
+
+function normalizeBaseUrl(baseUrl: string): string {
+  return baseUrl.replace(/\/+$/, '');
+}
+
+// Self-hosted servers usually run without auth, so only send a key when one was configured
+function buildCustomEndpointHeaders(apiKey: string): Record<string, string> {
+  const headers: Record<string, string> = {
+    'Content-Type': 'application/json',
+  };
+  if (apiKey) {
+    headers['Authorization'] = `Bearer ${apiKey}`;
+  }
+  return headers;
+}
+
+// Translate messages to the OpenAI chat-completions wire format
+function toChatCompletionMessages(messages: LLMMessage[]): unknown[] {
+  return messages.map(message => {
+    if (message.role === 'tool') {
+      return { role: 'tool', tool_call_id: message.toolCallId, name: message.name, content: message.content };
+    }
+    if (message.role === 'assistant' && message.toolCalls?.length) {
+      return {
+        role: 'assistant',
+        content: message.content || null,
+        tool_calls: message.toolCalls.map(call => ({
+          id: call.id,
+          type: 'function',
+          function: { name: call.name, arguments: JSON.stringify(call.arguments) },
+        })),
+      };
+    }
+    if (message.role === 'user' && Array.isArray(message.content)) {
+      return { role: 'user', content: message.content.map(toChatCompletionPart) };
+    }
+    return { role: message.role, content: message.content };
+  });
+}
+
+function toChatCompletionPart(part: LLMContentPart): unknown {
+  switch (part.type) {
+    case 'text':
+      return { type: 'text', text: part.text };
+    case 'image':
+      return { type: 'image_url', image_url: { url: `data:${part.mimeType};base64,${part.data}` } };
+    case 'file':
+      return { type: 'file', file: { filename: part.filename, file_data: `data:${part.mimeType};base64,${part.data}` } };
+  }
+}
+
+// Tool fields of a chat-completions request body; empty when no tools are offered
+function toChatCompletionTools(config: LLMConfig): Record<string, unknown> {
+  if (!config.tools?.length) {
+    return {};
+  }
+
+  return {
+    tools: config.tools.map(tool => ({
+      type: 'function',
+      function: { name: tool.name, description: tool.description, parameters: tool.parameters },
+    })),
+    ...(config.toolChoice && { tool_choice: config.toolChoice }),
+  };
+}
+
+// The parts of a chat-completions response read here
+interface ChatCompletionToolCall {
+  id?: string;
+  function?: { name?: string; arguments?: unknown };
+}
+
+interface ChatCompletionLogprobs {
+  content?: Array<{ logprob?: unknown }> | null;
+}
+
+interface ChatCompletion {
+  model?: string;
+  choices?: Array<{
+    message?: { content?: string | null; tool_calls?: ChatCompletionToolCall[] };
+    finish_reason?: string | null;
+    logprobs?: ChatCompletionLogprobs | null;
+  }>;
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number };
+}
+
+function parseChatCompletionToolCalls(toolCalls: ChatCompletionToolCall[] | undefined): LLMToolCall[] {
+  return (toolCalls ?? []).map((call, index) => ({
+    id: call.id || `call_${index}`,
+    name: call.function?.name || '',
+    arguments: parseToolArguments(call.function?.arguments),
+  }));
+}
+
+// Tool arguments arrive as a JSON string; malformed JSON leaves the tool to reject empty arguments
+function parseToolArguments(raw: unknown): Record<string, unknown> {
+  if (raw && typeof raw === 'object') {
+    return raw as Record<string, unknown>;
+  }
+  if (typeof raw !== 'string' || !raw.trim()) {
+    return {};
+  }
+
+  try {
+    const parsed = JSON.parse(raw);
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {};
+  } catch {
+    console.warn('Failed to parse tool call arguments:', raw);
+    return {};
+  }
+}
+
+function withToolCalls(toolCalls: LLMToolCall[]): { toolCalls?: LLMToolCall[] } {
+  return toolCalls.length > 0 ? { toolCalls } : {};
+}
+
+function toChatCompletionLogprobs(config: LLMConfig): Record<string, unknown> {
+  return config.logprobs ? { logprobs: true } : {};
+}
+
+// Token log probabilities from a chat-completions choice's `logprobs.content`
+function parseChatCompletionLogprobs(logprobs: ChatCompletionLogprobs | null | undefined): number[] {
+  return (logprobs?.content ?? []).flatMap(token =>
+    typeof token?.logprob === 'number' ? [token.logprob] : []
+  );
+}
+
+function withLogprobs(logprobs: number[]): { logprobs?: number[] } {
+  return logprobs.length > 0 ? { logprobs } : {};
+}
+
+// Parse a non-streaming response in the OpenAI chat-completions wire format
+function parseChatCompletion(data: ChatCompletion, config: LLMConfig, provider: LLMProvider): LLMResponse {
+  const choice = data.choices?.[0];
+  const result: LLMResponse = {
+    content: choice?.message?.content || '',
+    model: data.model || config.model,
+    provider,
+    usage: {
+      promptTokens: data.usage?.prompt_tokens || 0,
+      completionTokens: data.usage?.completion_tokens || 0,
+      totalTokens: data.usage?.total_tokens || 0,
+    },
+  };
+
+  const finishReason = mapChatCompletionFinishReason(choice?.finish_reason);
+  if (finishReason) {
+    result.finishReason = finishReason;
+  }
+
+  const toolCalls = parseChatCompletionToolCalls(choice?.message?.tool_calls);
+  if (toolCalls.length > 0) {
+    result.toolCalls = toolCalls;
+  }
+
+  const logprobs = parseChatCompletionLogprobs(choice?.logprobs);
+  if (logprobs.length > 0) {
+    result.logprobs = logprobs;
+  }
+
+  return result;
+}
+
+// Read an SSE stream in the OpenAI chat-completions wire format
+async function* readChatCompletionStream(
+  body: ReadableStream<Uint8Array>,
+  source: string
+): AsyncGenerator<LLMStreamChunk> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let content = '';
+  let buffer = '';
+  let usage: LLMResponse['usage'];
+  let finishReason: LLMResponse['finishReason'];
+  // Tool calls stream as fragments keyed by index: id and name first, then the arguments JSON
+  const toolCallParts = new Map<number, { id: string; name: string; arguments: string }>();
+  const logprobs: number[] = [];
+
+  const finalChunk = (): LLMStreamChunk => {
+    const chunk: LLMStreamChunk = { content, delta: '', isComplete: true };
+    if (usage) chunk.usage = usage;
+    if (finishReason) chunk.finishReason = finishReason;
+    if (logprobs.length > 0) chunk.logprobs = logprobs;
+    if (toolCallParts.size > 0) {
+      chunk.toolCalls = [...toolCallParts.entries()]
+        .sort(([a], [b]) => a - b)
+        .map(([index, part]) => ({
+          id: part.id || `call_${index}`,
+          name: part.name,
+          arguments: parseToolArguments(part.arguments),
+        }));
+    }
+    return chunk;
+  };
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      // SSE events can be split across network chunks, so keep the trailing partial line
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() || '';
+
+      for (const line of lines) {
+        if (!line.startsWith('data: ')) continue;
+
+        const data = line.slice(6).trim();
+        if (data === '[DONE]') {
+          yield finalChunk();
+          return;
+        }
+
+        try {
+          const parsed = JSON.parse(data);
+          const choice = parsed.choices?.[0];
+          const delta = choice?.delta?.content || '';
+          content += delta;
+
+          if (parsed.usage) {
+            usage = {
+              promptTokens: parsed.usage.prompt_tokens || 0,
+              completionTokens: parsed.usage.completion_tokens || 0,
+              totalTokens: parsed.usage.total_tokens || 0,
+            };
+          }
+          finishReason = mapChatCompletionFinishReason(choice?.finish_reason) || finishReason;
+          logprobs.push(...parseChatCompletionLogprobs(choice?.logprobs));
+
+          for (const fragment of choice?.delta?.tool_calls ?? []) {
+            const index = fragment.index ?? 0;
+            const part = toolCallParts.get(index) ?? { id: '', name: '', arguments: '' };
+            part.id = fragment.id || part.id;
+            part.name += fragment.function?.name || '';
+            part.arguments += fragment.function?.arguments || '';
+            toolCallParts.set(index, part);
+          }
+
+          if (delta) {
+            yield { content, delta, isComplete: false };
+          }
+        } catch (error) {
+          console.warn(`Failed to parse ${source} streaming chunk:`, error);
+        }
+      }
+    }
+  } finally {
+    reader.releaseLock();
+  }
+
+  // Stream ended without a [DONE] marker
+  yield finalChunk();
+}
+
+// Mistral reports `model_length` when the context window is exhausted; anything
+// unrecognised (e.g. Mistral's `error`) has no LLMResponse equivalent
+function mapChatCompletionFinishReason(reason: string | null | undefined): LLMResponse['finishReason'] {
+  switch (reason) {
+    case 'stop':
+      return 'stop';
+    case 'length':
+    case 'model_length':
+      return 'length';
+    case 'content_filter':
+      return 'content_filter';
+    case 'tool_calls':
+      return 'tool_calls';
+    default:
+      return undefined;
+  }
+}
+
+// Anthropic content blocks, as sent and as read back from a response
+type AnthropicBlock = { type: string } & Record<string, unknown>;
+
+type AnthropicResponseBlock =
+  | { type: 'text'; text: string }
+  | { type: 'tool_use'; id: string; name: string; input?: Record<string, unknown> };
+
+interface AnthropicMessage {
+  role: 'user' | 'assistant';
+  content: string | AnthropicBlock[];
+}
+
+// Translate messages to Anthropic's format: the system prompt goes separately, tool
+// calls become tool_use blocks and their results tool_result blocks in one user turn
+function toAnthropicMessages(messages: LLMMessage[]): { system: string; messages: AnthropicMessage[] } {
+  const system = messages.find(m => m.role === 'system')?.content || '';
+  const anthropicMessages: AnthropicMessage[] = [];
+
+  for (const message of messages) {
+    if (message.role === 'system') {
+      continue;
+    }
+
+    if (message.role === 'tool') {
+      const block = { type: 'tool_result', tool_use_id: message.toolCallId, content: message.content };
+      const previous = anthropicMessages.at(-1);
+      if (previous?.role === 'user' && Array.isArray(previous.content) && previous.content[0]?.type === 'tool_result') {
+        previous.content.push(block);
+      } else {
+        anthropicMessages.push({ role: 'user', content: [block] });
+      }
+    } else if (message.role === 'assistant' && message.toolCalls?.length) {
+      anthropicMessages.push({
+        role: 'assistant',
+        content: [
+          ...(message.content ? [{ type: 'text', text: message.content }] : []),
+          ...message.toolCalls.map(call => ({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments })),
+        ],
+      });
+    } else if (message.role === 'user' && Array.isArray(message.content)) {
+      anthropicMessages.push({ role: 'user', content: message.content.map(toAnthropicBlock) });
+    } else {
+      anthropicMessages.push({ role: message.role, content: message.content });
+    }
+  }
+
+  return { system, messages: anthropicMessages };
+}
+
+function toAnthropicBlock(part: LLMContentPart): AnthropicBlock {
+  switch (part.type) {
+    case 'text':
+      return { type: 'text', text: part.text };
+    case 'image':
+      return { type: 'image', source: { type: 'base64', media_type: part.mimeType, data: part.data } };
+    case 'file':
+      return { type: 'document', source: { type: 'base64', media_type: part.mimeType, data: part.data }, title: part.filename };
+  }
+}
+
+const ANTHROPIC_TOOL_CHOICE = {
+  auto: { type: 'auto' },
+  none: { type: 'none' },
+  required: { type: 'any' },
+} as const;
+
+function toAnthropicTools(config: LLMConfig): Record<string, unknown> {
+  if (!config.tools?.length) {
+    return {};
+  }
+
+  return {
+    tools: config.tools.map(tool => ({ name: tool.name, description: tool.description, input_schema: tool.parameters })),
+    ...(config.toolChoice && { tool_choice: ANTHROPIC_TOOL_CHOICE[config.toolChoice] }),
+  };
+}
+
+function mapAnthropicStopReason(reason: string | null | undefined): LLMResponse['finishReason'] {
+  switch (reason) {
+    case 'end_turn':
+    case 'stop_sequence':
+      return 'stop';
+    case 'max_tokens':
+      return 'length';
+    case 'tool_use':
+      return 'tool_calls';
+    case 'refusal':
+      return 'content_filter';
+    default:
+      return undefined;
+  }
+}
+
+// A Gemini content part, as sent and as read back from a response
+interface GeminiPart {
+  text?: string;
+  inlineData?: { mimeType: string; data: string };
+  functionCall?: { name: string; args?: Record<string, unknown> };
+  functionResponse?: { name: string; response: { content: string } };
+}
+
+interface GeminiContent {
+  role: 'user' | 'model';
+  parts: GeminiPart[];
+}
+
+// Translate messages to Gemini contents: the system prompt is prepended to the first
+// turn, tool calls become functionCall parts and their results functionResponse parts
+function toGeminiContents(messages: LLMMessage[]): GeminiContent[] {
+  const contents: GeminiContent[] = [];
+
+  for (const message of messages) {
+    if (message.role === 'system') {
+      continue;
+    }
+
+    if (message.role === 'tool') {
+      const part = { functionResponse: { name: message.name, response: { content: message.content } } };
+      const previous = contents.at(-1);
+      if (previous?.role === 'user' && previous.parts[0]?.functionResponse) {
+        previous.parts.push(part);
+      } else {
+        contents.push({ role: 'user', parts: [part] });
+      }
+    } else if (message.role === 'assistant') {
+      contents.push({
+        role: 'model',
+        parts: [
+          ...(message.content ? [{ text: message.content }] : []),
+          ...(message.toolCalls ?? []).map(call => ({ functionCall: { name: call.name, args: call.arguments } })),
+        ],
+      });
+    } else if (Array.isArray(message.content)) {
+      contents.push({
+        role: 'user',
+        parts: message.content.map(part =>
+          part.type === 'text' ? { text: part.text } : { inlineData: { mimeType: part.mimeType, data: part.data } }
+        ),
+      });
+    } else {
+      contents.push({ role: 'user', parts: [{ text: message.content }] });
+    }
+  }
+
+  const systemMessage = messages.find(m => m.role === 'system');
+  const firstPart = contents[0]?.parts[0];
+  if (systemMessage && typeof firstPart?.text === 'string') {
+    firstPart.text = `${systemMessage.content}\n\n${firstPart.text}`;
+  }
+
+  return contents;
+}
+
+const GEMINI_FUNCTION_CALLING_MODE = {
+  auto: 'AUTO',
+  none: 'NONE',
+  required: 'ANY',
+} as const;
+
+function toGeminiTools(config: LLMConfig): Record<string, unknown> {
+  if (!config.tools?.length) {
+    return {};
+  }
+
+  return {
+    tools: [{
+      functionDeclarations: config.tools.map(tool => ({
+        name: tool.name,
+        description: tool.description,
+        parameters: tool.parameters,
+      })),
+    }],
+    ...(config.toolChoice && {
+      toolConfig: { functionCallingConfig: { mode: GEMINI_FUNCTION_CALLING_MODE[config.toolChoice] } },
+    }),
+  };
+}
+
 // Mock Service for testing and unsupported providers
 class MockLLMService implements LLMService {
   async generateResponse(messages: LLMMessage[], config: LLMConfig): Promise<LLMResponse> {
-    const lastMessage = messages[messages.length - 1]?.content || '';
+    const lastMessage = messageText(messages[messages.length - 1]?.content ?? '');
     const response = `Mock response to: "${lastMessage}" using ${config.model}`;
     
     return {
@@ -575,7 +1168,7 @@ class MockLLMService implements LLMService {
   }
 
   async* generateStreamResponse(messages: LLMMessage[], config: LLMConfig): AsyncGenerator<LLMStreamChunk> {
-    const lastMessage = messages[messages.length - 1]?.content || '';
+    const lastMessage = messageText(messages[messages.length - 1]?.content ?? '');
     const words = `Mock streaming response to "${lastMessage}" using ${config.model}`.split(' ');
     
     let content = '';
@@ -602,17 +1195,117 @@ class MockLLMService implements LLMService {
   }
 }
 
+// Responses recorded from real provider calls, by request (see llmRequestKey)
+export type LLMRecording = Record<string, LLMResponse>;
+
+// What identifies a request for replay: the model and everything sent to it.
+// Streaming and non-streaming requests share a key.
+export function llmRequestKey(messages: LLMMessage[], config: LLMConfig): string {
+  return crypto.createHash('sha256').update(JSON.stringify({
+    provider: config.provider,
+    model: config.model,
+    temperature: config.temperature,
+    maxTokens: config.maxTokens,
+    tools: config.tools ?? null,
+    toolChoice: config.toolChoice ?? null,
+    messages,
+  })).digest('hex');
+}
+
+/**
+ * Replays recorded responses. A request that wasn't recorded goes to `fallback`
+ * and is added to the recording; without a fallback it fails, so a recording
+ * can be replayed with no network at all.
+ */
+export class RecordedLLMService implements LLMService {
+  // Provider calls made for requests that weren't recorded
+  readonly liveCalls: LLMResponse[] = [];
+
+  constructor(
+    readonly recording: LLMRecording = {},
+    private readonly fallback?: (provider: LLMProvider) => LLMService
+  ) {}
+
+  private liveService(messages: LLMMessage[], config: LLMConfig): LLMService {
+    if (!this.fallback) {
+      throw new Error(`No recorded response for ${config.provider}/${config.model} request ${llmRequestKey(messages, config).slice(0, 12)}`);
+    }
+    return this.fallback(config.provider);
+  }
+
+  private record(key: string, response: LLMResponse): void {
+    this.recording[key] = response;
+    this.liveCalls.push(response);
+  }
+
+  async generateResponse(messages: LLMMessage[], config: LLMConfig): Promise<LLMResponse> {
+    const key = llmRequestKey(messages, config);
+    const recorded = this.recording[key];
+    if (recorded) {
+      return { ...recorded };
+    }
+
+    const response = await this.liveService(messages, config).generateResponse(messages, config);
+    this.record(key, response);
+    return response;
+  }
+
+  async* generateStreamResponse(messages: LLMMessage[], config: LLMConfig): AsyncGenerator<LLMStreamChunk> {
+    const key = llmRequestKey(messages, config);
+    const recorded = this.recording[key];
+    if (recorded) {
+      yield {
+        content: recorded.content,
+        delta: recorded.content,
+        isComplete: true,
+        ...(recorded.usage && { usage: recorded.usage }),
+        ...(recorded.finishReason && { finishReason: recorded.finishReason }),
+        ...(recorded.toolCalls && { toolCalls: recorded.toolCalls }),
+        ...(recorded.logprobs && { logprobs: recorded.logprobs }),
+      };
+      return;
+    }
+
+    let last: LLMStreamChunk | undefined;
+    for await (const chunk of this.liveService(messages, config).generateStreamResponse(messages, config)) {
+      last = chunk;
+      yield chunk;
+    }
+
+    if (last) {
+      this.record(key, {
+        content: last.content,
+        model: config.model,
+        provider: config.provider,
+        ...(last.usage && { usage: last.usage }),
+        ...(last.finishReason && { finishReason: last.finishReason }),
+        ...(last.toolCalls && { toolCalls: last.toolCalls }),
+        ...(last.logprobs && { logprobs: last.logprobs }),
+      });
+    }
+  }
+}
+
 // Service Factory
 export class LLMServiceFactory {
+  // Replaces every provider's service for calls made inside runWith
+  private static override = new AsyncLocalStorage<LLMService>();
+
   private static services: Map<LLMProvider, LLMService> = new Map([
     ['openai', new OpenAIService()],
     ['anthropic', new AnthropicService()],
     ['google', new GoogleService()],
-    ['mistral', new MockLLMService()], // TODO: Implement Mistral
+    ['mistral', new MistralService()],
     ['openrouter', new OpenRouterService()],
+    ['custom', new CustomEndpointService()],
   ]);
 
   static getService(provider: LLMProvider): LLMService {
+    return this.override.getStore() ?? this.getProviderService(provider);
+  }
+
+  // The provider's real service, ignoring any runWith override
+  static getProviderService(provider: LLMProvider): LLMService {
     const service = this.services.get(provider);
     if (!service) {
       throw new Error(`LLM service not implemented for provider: ${provider}`);
@@ -623,6 +1316,12 @@ export class LLMServiceFactory {
   static getMockService(): LLMService {
     return new MockLLMService();
   }
+
+  // Route every LLM call made by `fn`, and anything it starts, to `service`.
+  // Other requests running at the same time are unaffected.
+  static runWith<T>(service: LLMService, fn: () => T): T {
+    return this.override.run(service, fn);
+  }
 }
 
 // Main LLM function for easy usage
@@ -642,11 +1341,115 @@ export async function* generateLLMStreamResponse(
   yield* service.generateStreamResponse(messages, config);
 }
 
+// Provider failover
+
+export interface FailoverTarget {
+  provider: LLMProvider;
+  model: string;
+}
+
+export interface FailoverEvent {
+  from: FailoverTarget;
+  to: FailoverTarget;
+  error: string;
+}
+
+export type FailoverStreamChunk = LLMStreamChunk & FailoverTarget;
+
+export const FallbackChainSchema = z.array(z.object({
+  provider: LLMConfigSchema.shape.provider,
+  model: z.string().min(1),
+})).max(5);
+
+// Stream from the first target that succeeds. A target is abandoned only if it fails
+// before yielding anything; errors after tokens have streamed, or from an aborted
+// request, are rethrown as-is.
+// Configs are resolved lazily so unused fallbacks cost nothing. Messages may be
+// built per target, e.g. for what each model can read.
+export async function* generateLLMStreamWithFailover(
+  messages: LLMMessage[] | ((target: FailoverTarget) => LLMMessage[]),
+  targets: FailoverTarget[],
+  resolveConfig: (target: FailoverTarget) => Promise<LLMConfig>,
+  onFailover?: (event: FailoverEvent) => void
+): AsyncGenerator<FailoverStreamChunk> {
+  const failures: string[] = [];
+  const errors: unknown[] = [];
+  let lastError: unknown = new Error('No providers configured');
+
+  for (let i = 0; i < targets.length; i++) {
+    const target = targets[i]!;
+    let streamed = false;
+    let signal: AbortSignal | undefined;
+
+    try {
+      const config = await resolveConfig(target);
+      signal = config.signal;
+      const targetMessages = typeof messages === 'function' ? messages(target) : messages;
+      for await (const chunk of generateLLMStreamResponse(targetMessages, config)) {
+        streamed = true;
+        yield { ...chunk, provider: target.provider, model: target.model };
+      }
+      return;
+    } catch (error) {
+      // A stopped generation shouldn't move on to the next provider either
+      if (streamed || signal?.aborted) {
+        throw error;
+      }
+
+      lastError = error;
+      errors.push(error);
+      const message = error instanceof Error ? error.message : String(error);
+      failures.push(`${target.provider}/${target.model}: ${message}`);
+
+      const next = targets[i + 1];
+      if (next) {
+        console.warn(`Provider ${target.provider}/${target.model} failed, falling back to ${next.provider}/${next.model}:`, message);
+        onFailover?.({ from: target, to: next, error: message });
+      }
+    }
+  }
+
+  // Every target over a spend cap: keep the PAYMENT_REQUIRED error and its limit details
+  const overLimit = (error: unknown) => error instanceof TRPCError && error.code === 'PAYMENT_REQUIRED';
+  if (errors.length > 0 && errors.every(overLimit)) {
+    throw errors[0];
+  }
+  if (failures.length > 1) {
+    throw new Error(`All providers failed: ${failures.join('; ')}`);
+  }
+  throw lastError;
+}
+
+// The tables the key and fallback chain lookups read, as the Prisma client has them
+interface UserSettingsDatabase {
+  user: {
+    findUnique(args: object): Promise<{ fallbackChain: unknown } | null>;
+  };
+  userApiKey: {
+    findFirst(args: object): Promise<{ encrypted: string; baseUrl?: string | null } | null>;
+  };
+}
+
+// Helper function to get the user's provider fallback chain
+export async function getUserFallbackChain(
+  userId: string,
+  prisma: Pick<UserSettingsDatabase, 'user'>
+): Promise<FailoverTarget[]> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { fallbackChain: true },
+  });
+
+  const parsed = FallbackChainSchema.safeParse(user?.fallbackChain ?? []);
+  return parsed.success ? parsed.data : [];
+}
+
 // Helper function to get user's API key for a provider
 export async function getUserApiKey(
   userId: string,
   provider: LLMProvider,
-  prisma: any
+  prisma: Pick<UserSettingsDatabase, 'userApiKey'>,
+  keyName?: string // One of several keys for the provider; any of them when left out
 ): Promise<string | null> {
   console.log(`Getting API key for user ${userId}, provider ${provider}`);
   
@@ -654,6 +1457,7 @@ export async function getUserApiKey(
     where: {
       userId,
       provider,
+      ...(keyName && { keyName }),
     },
     select: {
       encrypted: true,
@@ -683,40 +1487,54 @@ export async function getUserApiKey(
   }
 }
 
-// Helper to validate model for provider
-export function validateModelForProvider(provider: LLMProvider, model: string): boolean {
-  const providerModels: Record<LLMProvider, string[]> = {
-    openai: ['gpt-4o', 'gpt-4o-mini', 'gpt-3.5-turbo', 'gpt-4', 'gpt-4-turbo'],
-    anthropic: ['claude-3-5-sonnet-20241022', 'claude-3-5-haiku-20241022', 'claude-3-opus-20240229'],
-    google: ['gemini-1.5-pro', 'gemini-1.5-flash', 'gemini-pro'],
-    mistral: ['mistral-large-latest', 'mistral-medium-latest', 'mistral-small-latest'],
-    openrouter: [
-      // OpenAI models via OpenRouter
-      'openai/gpt-4o',
-      'openai/gpt-4o-mini', 
-      'openai/gpt-4-turbo',
-      'openai/gpt-3.5-turbo',
-      // Anthropic models via OpenRouter
-      'anthropic/claude-3-5-sonnet',
-      'anthropic/claude-3-5-haiku',
-      'anthropic/claude-3-opus',
-      // Google models via OpenRouter
-      'google/gemini-pro-1.5',
-      'google/gemini-flash-1.5',
-      // Other providers via OpenRouter
-      'meta-llama/llama-3-70b-instruct',
-      'meta-llama/llama-3-8b-instruct',
-      'mistralai/mistral-7b-instruct',
-      'mistralai/mixtral-8x7b-instruct',
-      'microsoft/wizardlm-2-8x22b',
-      'cohere/command-r-plus',
-      'perplexity/llama-3-sonar-large-32k-online',
-      // Specialized models
-      'openai/o1-preview',
-      'openai/o1-mini',
-      'qwen/qwen-2-72b-instruct',
-    ],
-  };
+// Helper to get user's self-hosted endpoint (base URL plus optional key)
+export async function getUserCustomEndpoint(
+  userId: string,
+  prisma: Pick<UserSettingsDatabase, 'userApiKey'>
+): Promise<{ baseUrl: string; apiKey: string } | null> {
+  const endpoint = await prisma.userApiKey.findFirst({
+    where: {
+      userId,
+      provider: 'custom',
+      baseUrl: { not: null },
+    },
+    select: {
+      encrypted: true,
+      baseUrl: true,
+    },
+  });
+
+  if (!endpoint?.baseUrl) {
+    console.log(`No custom endpoint found for user ${userId}`);
+    return null;
+  }
+
+  // Saved before the operator narrowed where endpoints may point
+  const rejection = await customEndpointRejection(endpoint.baseUrl);
+  if (rejection) {
+    console.warn(`Ignoring custom endpoint of user ${userId}: ${rejection}`);
+    return null;
+  }
 
-  return providerModels[provider]?.includes(model) || false;
+  try {
+    return {
+      baseUrl: normalizeBaseUrl(endpoint.baseUrl),
+      apiKey: decrypt(endpoint.encrypted),
+    };
+  } catch (error) {
+    console.error('Failed to decrypt custom endpoint key:', error);
+    return null;
+  }
+}
+
+// Helper to list the models served by an OpenAI-compatible endpoint (GET {baseUrl}/models),
+// cached per endpoint and key by the model registry
+export async function listCustomEndpointModels(baseUrl: string, apiKey = ''): Promise<string[]> {
+  return (await modelRegistry.customEndpointModels(normalizeBaseUrl(baseUrl), apiKey)).map(model => model.id);
+}
+
+// Helper to validate model for provider against the model registry.
+// Custom endpoints are not listed; validate with listCustomEndpointModels instead.
+export function validateModelForProvider(provider: LLMProvider, model: string): boolean {
+  return modelRegistry.has(provider, model);
 }
@@ -1,5 +1,8 @@
-import { generateEmbedding } from './embeddings.js';
-import { searchSimilarMemoryCards, createMemoryCard } from './vector-search.js';
+import { embeddingQueue } from './embedding-queue.js';
+import type { EmbeddingProvider } from './embedding-providers.js';
+import type { MemoryReranker } from './memory-rerank.js';
+import { hybridSearchMemoryCards, type MemoryMatch } from './memory-search.js';
+import { createMemoryCard } from './vector-search.js';
 import type { LLMMessage } from './llm.js';
 import { prisma } from './database.js';
 
@@ -12,7 +15,8 @@ export interface MemoryRetrievalOptions {
   limit?: number;
   threshold?: number;
   excludeThreadId?: string;
-  apiKey?: string;
+  embeddingProvider?: EmbeddingProvider; // Resolved from the user's keys when left out
+  reranker?: MemoryReranker;
 }
 
 /**
@@ -26,6 +30,8 @@ export interface ContextualMemoryResult {
     summary?: string;
     similarity: number;
     relevance: 'high' | 'medium' | 'low';
+    match: MemoryMatch;
+    explanation: string;
   }>;
   contextPrompt: string;
   memoryCount: number;
@@ -55,36 +61,27 @@ export async function retrieveContextualMemories(
     query,
     limit = 5,
     threshold = 0.75,
-    apiKey,
   } = options;
 
   try {
-    // Generate embedding for the query
-    const queryEmbedding = await generateEmbedding(query, apiKey);
-
-    // Search for similar memory cards
-    const searchResults = await searchSimilarMemoryCards(queryEmbedding, {
+    // Keyword and vector search, in every space the user's cards are embedded in
+    const searchResults = await hybridSearchMemoryCards(query, {
       userId,
       limit,
       threshold,
-    });
+      ...(options.embeddingProvider && { embeddingProvider: options.embeddingProvider }),
+      ...(options.reranker && { reranker: options.reranker }),
+    }, prisma);
 
-    // Process and categorize memories by relevance
     const memories = searchResults.map(result => {
-      let relevance: 'high' | 'medium' | 'low' = 'low';
-      
-      if (result.similarity >= 0.7) {
-        relevance = 'high';
-      } else if (result.similarity >= 0.5) {
-        relevance = 'medium';
-      }
-
       const memory: ContextualMemoryResult['memories'][0] = {
         id: result.id,
         title: result.title,
         content: result.content,
         similarity: result.similarity,
-        relevance,
+        relevance: result.relevance,
+        match: result.match,
+        explanation: result.explanation,
       };
       
       // Only add summary if it exists
@@ -152,7 +149,11 @@ function generateContextPrompt(memories: ContextualMemoryResult['memories']): st
         : memory.content;
       contextPrompt += `Content: ${truncatedContent}\n`;
     }
-    contextPrompt += `Relevance: ${memory.relevance} (${(memory.similarity * 100).toFixed(1)}% match)\n\n`;
+    const matchedBy = [
+      ...(memory.match.keyword ? ['keyword match'] : []),
+      ...(memory.match.semantic ? [`${(memory.similarity * 100).toFixed(1)}% semantic match`] : []),
+    ];
+    contextPrompt += `Relevance: ${memory.relevance} (${matchedBy.join(', ')})\n\n`;
   });
 
   contextPrompt += 'Please use these memories to provide more contextual and personalized responses.\n';
@@ -283,16 +284,11 @@ export async function createMemoryFromConversation(
       },
     });
     
-    // Generate embeddings for the memory card
+    // Queue the embedding; the worker uses the user's keys and retries until it's stored
     try {
-      const embedding = await generateEmbedding(analysis.memoryContent);
-      
-      // PgVector doesn't support direct update of vector fields via Prisma
-      // We need to use raw SQL or handle it differently
-      console.log('Embedding generated for memory card:', memoryCard.id);
-      // TODO: Update embedding using raw SQL or vector-search service
+      await embeddingQueue.enqueue(memoryCard.id, userId, prisma);
     } catch (embeddingError) {
-      console.error('Error generating embedding for memory card:', embeddingError);
+      console.error('Error queueing embedding for memory card:', embeddingError);
       // Continue without embedding - it can be generated later
     }
     
@@ -0,0 +1,170 @@
+import { z } from 'zod';
+import { generateLLMResponse, getUserApiKey, parseJsonReply, type LLMProvider } from './llm.js';
+import { estimateTokens } from './context-builder.js';
+import type { PlannedCall } from './spend-limits.js';
+import { resolveUsage, type UsageEntry } from './usage-ledger.js';
+
+export interface RerankCandidate {
+  id: string;
+  title: string;
+  content: string;
+  summary: string | null;
+}
+
+/**
+ * Second-pass scorer for search candidates. Scores run from 0 to 1, one per
+ * candidate in input order.
+ */
+export interface MemoryReranker {
+  readonly name: string;
+  rerank(query: string, candidates: RerankCandidate[]): Promise<number[]>;
+}
+
+// Enough of a card to judge it without paying for all of it
+const MAX_CANDIDATE_CHARS = 600;
+
+// Cheap models that score well enough, in the order they are tried
+export const RERANK_MODELS: Array<{ provider: LLMProvider; model: string }> = [
+  { provider: 'openai', model: 'gpt-4o-mini' },
+  { provider: 'google', model: 'gemini-1.5-flash' },
+  { provider: 'mistral', model: 'mistral-small-latest' },
+  { provider: 'anthropic', model: 'claude-3-5-haiku-20241022' },
+  { provider: 'openrouter', model: 'openai/gpt-4o-mini' },
+];
+
+// Upper bounds for the instructions, and for one candidate's number, title and text
+const PROMPT_TOKENS = 150;
+const CANDIDATE_TOKENS = 250;
+
+// Room for one `{"memory": n, "score": n}` entry per candidate
+function replyTokens(candidates: number): number {
+  return 50 + candidates * 15;
+}
+
+/**
+ * LLM reranker: one call rates every candidate's usefulness for the query,
+ * which catches relevance that neither keywords nor embeddings see
+ */
+export class LLMReranker implements MemoryReranker {
+  readonly name = 'llm';
+
+  // Tokens each call used, for the usage ledger
+  readonly usage: Array<{ promptTokens: number; completionTokens: number; estimated: boolean }> = [];
+
+  constructor(private readonly config: {
+    model: string;
+    provider: LLMProvider;
+    apiKey: string;
+    maxTokens?: number;
+  }) {}
+
+  /**
+   * The most a rerank of this many candidates can use, for checking spend
+   * limits before searching
+   */
+  plannedCall(candidates: number): PlannedCall {
+    return {
+      provider: this.config.provider,
+      model: this.config.model,
+      promptTokens: PROMPT_TOKENS + candidates * CANDIDATE_TOKENS,
+      maxTokens: this.config.maxTokens ?? replyTokens(candidates),
+    };
+  }
+
+  usageEntries(userId: string): UsageEntry[] {
+    return this.usage.map(usage => ({
+      userId,
+      source: 'memory_rerank',
+      provider: this.config.provider,
+      model: this.config.model,
+      ...usage,
+    }));
+  }
+
+  async rerank(query: string, candidates: RerankCandidate[]): Promise<number[]> {
+    if (candidates.length === 0) return [];
+
+    const systemPrompt = `You rank a user's saved memories by how useful each one is for the search query.
+
+Score each memory from 0 to 10: 10 if it answers the query directly, 0 if it is unrelated. Exact identifiers in the query (ticket numbers, names, code symbols) only count when the memory is about them.
+
+Query: ${query}
+
+Memories:
+${candidates.map((candidate, index) => `
+[${index + 1}] ${candidate.title}
+${(candidate.summary || candidate.content).slice(0, MAX_CANDIDATE_CHARS)}
+`).join('\n')}
+
+Reply with JSON only, one entry per memory number, in this shape:
+{"scores": [{"memory": 1, "score": 7}]}`;
+
+    const response = await generateLLMResponse([
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: 'Score the memories.' },
+    ], {
+      model: this.config.model,
+      provider: this.config.provider,
+      apiKey: this.config.apiKey,
+      temperature: 0,
+      maxTokens: this.config.maxTokens ?? replyTokens(candidates.length),
+      stream: false,
+    });
+    this.usage.push(resolveUsage(response.usage, {
+      provider: this.config.provider,
+      promptTokens: estimateTokens(systemPrompt, this.config.provider),
+      content: response.content,
+    }));
+
+    const scores = parseRerankScores(response.content, candidates.length);
+    if (!scores) {
+      throw new Error('Reranker did not score every memory');
+    }
+    return scores;
+  }
+}
+
+/**
+ * An LLM reranker on the first provider in RERANK_MODELS the user has a key
+ * for, or null if they have none
+ */
+export async function resolveMemoryReranker(userId: string, prisma: any): Promise<LLMReranker | null> {
+  for (const { provider, model } of RERANK_MODELS) {
+    const apiKey = await getUserApiKey(userId, provider, prisma);
+    if (apiKey) {
+      return new LLMReranker({ model, provider, apiKey });
+    }
+  }
+  return null;
+}
+
+// What the LLM reranker is asked to reply with
+const RerankReplySchema = z.object({
+  scores: z.array(z.object({
+    memory: z.coerce.number().int(),
+    score: z.number().min(0).max(10),
+  })),
+});
+
+/**
+ * Scores from 0 to 1 for `count` numbered candidates, or null if the reply is
+ * unreadable or leaves any out
+ */
+export function parseRerankScores(content: string, count: number): number[] | null {
+  let reply: z.infer<typeof RerankReplySchema>;
+  try {
+    reply = parseJsonReply(content, RerankReplySchema);
+  } catch {
+    return null;
+  }
+
+  const scores: number[] = [];
+  for (let memory = 1; memory <= count; memory++) {
+    const entry = reply.scores.find(score => score.memory === memory);
+    if (!entry) {
+      return null;
+    }
+    scores.push(entry.score / 10);
+  }
+  return scores;
+}
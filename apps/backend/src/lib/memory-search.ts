@@ -0,0 +1,255 @@
+import { generateEmbedding } from './embeddings.js';
+import {
+  embeddingModelId,
+  embeddingProviderForModel,
+  resolveEmbeddingProvider,
+  type EmbeddingProvider,
+} from './embedding-providers.js';
+import type { MemoryReranker } from './memory-rerank.js';
+import {
+  searchMemoryCardsFullText,
+  searchSimilarMemoryCards,
+  searchSimilarMemoryCardsDotProduct,
+  searchSimilarMemoryCardsL2,
+  type KeywordSearchResult,
+  type MemoryCardSearchResult,
+  type SimilaritySearchOptions,
+} from './vector-search.js';
+
+export type DistanceMetric = 'cosine' | 'dotProduct' | 'l2';
+
+/**
+ * A model and vector length a user's cards are embedded with
+ */
+export interface EmbeddingSpace {
+  embeddingModel: string;
+  embeddingDimensions: number;
+  cards: number;
+}
+
+export interface MemorySearchOptions {
+  userId: string;
+  limit?: number;
+  threshold?: number;
+  excludeIds?: string[];
+  metric?: DistanceMetric;
+  embeddingProvider?: EmbeddingProvider; // Resolved from the user's keys when left out
+}
+
+export interface HybridSearchOptions extends MemorySearchOptions {
+  reranker?: MemoryReranker; // Reorders the fused candidates when given
+  candidates?: number; // How many each retriever contributes; a few times the limit by default
+}
+
+/**
+ * Why a card was found: its place in each list that had it
+ */
+export interface MemoryMatch {
+  keyword?: { rank: number; score: number; snippet: string };
+  semantic?: { rank: number; similarity: number };
+  rerank?: { score: number };
+  fusedScore: number;
+}
+
+export interface HybridSearchResult extends MemoryCardSearchResult {
+  score: number; // The reranker's score if reranked, the fused score otherwise
+  relevance: 'high' | 'medium' | 'low';
+  match: MemoryMatch;
+  explanation: string;
+}
+
+// Reciprocal-rank fusion constant; damps the lead of the very top ranks
+const RRF_K = 60;
+
+const searchByMetric = {
+  cosine: searchSimilarMemoryCards,
+  dotProduct: searchSimilarMemoryCardsDotProduct,
+  l2: searchSimilarMemoryCardsL2,
+};
+
+/**
+ * How many of the fused results a reranker scores for a search of `limit` cards
+ */
+export function rerankCandidates(limit: number): number {
+  return Math.max(limit * 2, 10);
+}
+
+/**
+ * The embedding spaces a user's cards are spread over: one normally, more while
+ * an embedding migration is moving them to a new model
+ */
+export async function listEmbeddingSpaces(userId: string, prisma: any): Promise<EmbeddingSpace[]> {
+  const groups = await prisma.memoryCard.groupBy({
+    by: ['embeddingModel', 'embeddingDimensions'],
+    where: { userId, embeddingModel: { not: null }, embeddingDimensions: { not: null } },
+    _count: { _all: true },
+  });
+
+  return groups.map((group: any) => ({
+    embeddingModel: group.embeddingModel,
+    embeddingDimensions: group.embeddingDimensions,
+    cards: group._count._all,
+  }));
+}
+
+/**
+ * Vector search over a user's memory cards. The query is embedded with the user's
+ * current provider and, so that cards not yet re-embedded stay findable, with the
+ * provider of every other space their cards are in, as far as the user still has
+ * keys for them. Results from all spaces are merged by similarity.
+ */
+export async function searchMemoryCards(
+  query: string,
+  options: MemorySearchOptions,
+  prisma: any
+): Promise<MemoryCardSearchResult[]> {
+  const { userId, limit = 5, metric = 'cosine' } = options;
+  const current = options.embeddingProvider ?? await resolveEmbeddingProvider(userId, prisma);
+  const currentModel = embeddingModelId(current);
+
+  const others = (await listEmbeddingSpaces(userId, prisma))
+    .filter(space => space.embeddingModel !== currentModel);
+  const providers = [
+    current,
+    ...(await Promise.all(others.map(space =>
+      embeddingProviderForModel(space.embeddingModel, space.embeddingDimensions, userId, prisma)
+    ))).filter((provider): provider is EmbeddingProvider => provider !== null),
+  ];
+
+  const results = await Promise.all(providers.map(async provider => {
+    const searchOptions: SimilaritySearchOptions = {
+      userId,
+      limit,
+      embeddingModel: embeddingModelId(provider),
+      ...(options.threshold !== undefined && { threshold: options.threshold }),
+      ...(options.excludeIds && { excludeIds: options.excludeIds }),
+    };
+    try {
+      return await searchByMetric[metric](await generateEmbedding(query, provider), searchOptions);
+    } catch (error) {
+      // An older space that can't be searched shouldn't hide the current one
+      if (provider === current) throw error;
+      console.warn(`Skipping memory search in ${searchOptions.embeddingModel}:`, error instanceof Error ? error.message : error);
+      return [];
+    }
+  }));
+
+  return results.flat()
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit);
+}
+
+/**
+ * Hybrid search over a user's memory cards: Postgres full-text search finds exact
+ * terms (names, ticket numbers) that embeddings blur, vector search finds cards
+ * that mean the same in other words. The two lists are fused by reciprocal rank,
+ * so neither score scale has to be calibrated against the other, then optionally
+ * reordered by a reranker. If one retriever fails the other's results still count.
+ */
+export async function hybridSearchMemoryCards(
+  query: string,
+  options: HybridSearchOptions,
+  prisma: any
+): Promise<HybridSearchResult[]> {
+  const { userId, limit = 5, reranker } = options;
+  const candidates = options.candidates ?? Math.max(limit * 4, 20);
+  const shared = {
+    userId,
+    limit: candidates,
+    ...(options.excludeIds && { excludeIds: options.excludeIds }),
+  };
+
+  const [keyword, semantic] = await Promise.allSettled([
+    searchMemoryCardsFullText(query, shared),
+    searchMemoryCards(query, {
+      ...shared,
+      ...(options.threshold !== undefined && { threshold: options.threshold }),
+      ...(options.metric && { metric: options.metric }),
+      ...(options.embeddingProvider && { embeddingProvider: options.embeddingProvider }),
+    }, prisma),
+  ]);
+  if (keyword.status === 'rejected' && semantic.status === 'rejected') {
+    throw semantic.reason;
+  }
+  for (const [name, outcome] of [['Keyword', keyword], ['Semantic', semantic]] as const) {
+    if (outcome.status === 'rejected') {
+      console.warn(`${name} memory search failed, using the other results only:`, outcome.reason instanceof Error ? outcome.reason.message : outcome.reason);
+    }
+  }
+
+  const fused = new Map<string, { card: KeywordSearchResult | MemoryCardSearchResult; match: MemoryMatch }>();
+  const entry = (card: KeywordSearchResult | MemoryCardSearchResult) => {
+    const existing = fused.get(card.id) ?? { card, match: { fusedScore: 0 } };
+    fused.set(card.id, existing);
+    return existing;
+  };
+  (keyword.status === 'fulfilled' ? keyword.value : []).forEach((card, index) => {
+    const { match } = entry(card);
+    match.keyword = { rank: index + 1, score: card.rank, snippet: card.snippet };
+    match.fusedScore += 1 / (RRF_K + index + 1);
+  });
+  (semantic.status === 'fulfilled' ? semantic.value : []).forEach((card, index) => {
+    const { match } = entry(card);
+    match.semantic = { rank: index + 1, similarity: card.similarity };
+    match.fusedScore += 1 / (RRF_K + index + 1);
+  });
+
+  let ranked = [...fused.values()].sort((a, b) => b.match.fusedScore - a.match.fusedScore);
+
+  if (reranker && ranked.length > 0) {
+    // Only the head of the list can make the cut, so only it is worth scoring
+    const head = ranked.slice(0, rerankCandidates(limit));
+    try {
+      const scores = await reranker.rerank(query, head.map(({ card }) => card));
+      head.forEach((item, index) => {
+        item.match.rerank = { score: scores[index] ?? 0 };
+      });
+      ranked = head.sort((a, b) =>
+        b.match.rerank!.score - a.match.rerank!.score || b.match.fusedScore - a.match.fusedScore
+      );
+    } catch (error) {
+      console.warn(`Memory reranker ${reranker.name} failed, keeping the fused order:`, error instanceof Error ? error.message : error);
+    }
+  }
+
+  return ranked.slice(0, limit).map(({ card, match }) => ({
+    id: card.id,
+    userId: card.userId,
+    title: card.title,
+    content: card.content,
+    summary: card.summary,
+    similarity: match.semantic?.similarity ?? 0,
+    score: match.rerank?.score ?? match.fusedScore,
+    relevance: matchRelevance(match),
+    match,
+    explanation: explainMatch(match),
+    createdAt: card.createdAt,
+    updatedAt: card.updatedAt,
+  }));
+}
+
+function matchRelevance(match: MemoryMatch): 'high' | 'medium' | 'low' {
+  if (match.rerank) {
+    return match.rerank.score >= 0.7 ? 'high' : match.rerank.score >= 0.4 ? 'medium' : 'low';
+  }
+  const similarity = match.semantic?.similarity ?? 0;
+  if ((match.keyword && match.semantic) || similarity >= 0.7) {
+    return 'high';
+  }
+  return match.keyword || similarity >= 0.5 ? 'medium' : 'low';
+}
+
+// One line saying which retrievers found the card and how well
+function explainMatch(match: MemoryMatch): string {
+  const reasons: string[] = [];
+  if (match.keyword) {
+    reasons.push(`Keyword match (#${match.keyword.rank})${match.keyword.snippet ? `: ${match.keyword.snippet}` : ''}`);
+  }
+  if (match.semantic) {
+    reasons.push(`Semantic match (#${match.semantic.rank}, ${Math.round(match.semantic.similarity * 100)}% similar)`);
+  }
+  if (match.rerank) {
+    reasons.push(`Reranked (${Math.round(match.rerank.score * 100)}% relevant)`);
+  }
+  return reasons.join('; ');
+}
@@ -0,0 +1,183 @@
+import { z } from 'zod';
+import { embeddingQueue } from './embedding-queue.js';
+import { searchMemoryCards } from './memory-search.js';
+import { toolRegistry, type Tool, type ToolContext } from './tools.js';
+import { createMemoryCard } from './vector-search.js';
+
+// Longest card content returned to the model per search result
+const MAX_RESULT_CONTENT_LENGTH = 1000;
+
+export const MEMORY_TOOL_NAMES = {
+  search: 'search_memories',
+  create: 'create_memory',
+  update: 'update_memory',
+} as const;
+
+// Tools that change the user's memory cards, offered only with auto-memory on
+export const MEMORY_WRITE_TOOLS: string[] = [MEMORY_TOOL_NAMES.create, MEMORY_TOOL_NAMES.update];
+
+/**
+ * System prompt for models that are given the memory tools instead of
+ * pre-fetched memories
+ */
+export function memoryToolsPrompt(canWrite: boolean): string {
+  const write = canWrite
+    ? ` When the user shares something durable about themselves (preferences, goals, projects, facts they will expect you to remember), save it with ${MEMORY_TOOL_NAMES.create}, or correct an existing card with ${MEMORY_TOOL_NAMES.update}. Do not store small talk or one-off requests.`
+    : '';
+
+  return `You are a helpful AI assistant with access to the user's personal memory cards. Call ${MEMORY_TOOL_NAMES.search} when the user's message might depend on something they told you before, and use what you find to personalise your answer.${write}`;
+}
+
+const SearchMemoriesInput = z.object({
+  query: z.string().min(1),
+  limit: z.number().int().min(1).max(10).default(5),
+  threshold: z.number().min(0).max(1).default(0.3),
+});
+
+const CreateMemoryInput = z.object({
+  title: z.string().min(1).max(200),
+  content: z.string().min(1),
+  summary: z.string().max(500).optional(),
+});
+
+const UpdateMemoryInput = z.object({
+  id: z.string().min(1),
+  title: z.string().min(1).max(200).optional(),
+  content: z.string().min(1).optional(),
+  summary: z.string().max(500).optional(),
+});
+
+export const searchMemoriesTool: Tool<z.infer<typeof SearchMemoriesInput>> = {
+  name: MEMORY_TOOL_NAMES.search,
+  description: "Search the user's memory cards for information relevant to a query. Returns the closest matches with their ids.",
+  parameters: {
+    type: 'object',
+    properties: {
+      query: { type: 'string', description: 'What to look for, phrased as a short description' },
+      limit: { type: 'integer', minimum: 1, maximum: 10, description: 'Maximum number of cards to return (default 5)' },
+      threshold: { type: 'number', minimum: 0, maximum: 1, description: 'Minimum similarity from 0 to 1 (default 0.3)' },
+    },
+    required: ['query'],
+  },
+  input: SearchMemoriesInput,
+  async execute({ query, limit, threshold }, context) {
+    const results = await searchMemoryCards(query, { userId: context.userId, limit, threshold }, context.prisma);
+
+    await Promise.all(results.map(card => linkMemoryToMessage(context, card.id, card.similarity, MEMORY_TOOL_NAMES.search)));
+
+    return {
+      memories: results.map(card => ({
+        id: card.id,
+        title: card.title,
+        content: card.content.length > MAX_RESULT_CONTENT_LENGTH
+          ? `${card.content.slice(0, MAX_RESULT_CONTENT_LENGTH)}…`
+          : card.content,
+        ...(card.summary && { summary: card.summary }),
+        similarity: Number(card.similarity.toFixed(3)),
+        updatedAt: card.updatedAt,
+      })),
+    };
+  },
+};
+
+export const createMemoryTool: Tool<z.infer<typeof CreateMemoryInput>> = {
+  name: MEMORY_TOOL_NAMES.create,
+  description: "Save a new memory card with something worth remembering about the user for future conversations.",
+  parameters: {
+    type: 'object',
+    properties: {
+      title: { type: 'string', description: 'Short descriptive title' },
+      content: { type: 'string', description: 'The information to remember, written so it makes sense on its own' },
+      summary: { type: 'string', description: 'Optional one-sentence summary' },
+    },
+    required: ['title', 'content'],
+  },
+  input: CreateMemoryInput,
+  async execute({ title, content, summary }, context) {
+    const id = await createMemoryCard({
+      userId: context.userId,
+      title,
+      content,
+      ...(summary && { summary }),
+      metadata: {
+        createdBy: 'assistant',
+        ...(context.threadId && { threadId: context.threadId }),
+        ...(context.messageId && { messageId: context.messageId }),
+      },
+    });
+    // Embedded by the queue, so a provider outage doesn't fail the tool call
+    await embeddingQueue.enqueue(id, context.userId, context.prisma);
+
+    await linkMemoryToMessage(context, id, 1.0, MEMORY_TOOL_NAMES.create);
+    return { id, title };
+  },
+};
+
+export const updateMemoryTool: Tool<z.infer<typeof UpdateMemoryInput>> = {
+  name: MEMORY_TOOL_NAMES.update,
+  description: 'Correct or extend an existing memory card, found with search_memories. Only the fields given are changed.',
+  parameters: {
+    type: 'object',
+    properties: {
+      id: { type: 'string', description: 'Id of the memory card to update' },
+      title: { type: 'string', description: 'New title' },
+      content: { type: 'string', description: 'New full content, replacing the old content' },
+      summary: { type: 'string', description: 'New one-sentence summary' },
+    },
+    required: ['id'],
+  },
+  input: UpdateMemoryInput,
+  async execute({ id, title, content, summary }, context) {
+    const existing = await context.prisma.memoryCard.findFirst({
+      where: { id, userId: context.userId },
+      select: { id: true },
+    });
+    if (!existing) {
+      throw new Error(`Memory card not found: ${id}`);
+    }
+
+    const updated = await context.prisma.memoryCard.update({
+      where: { id },
+      data: {
+        ...(title && { title }),
+        ...(content && { content }),
+        ...(summary !== undefined && { summary }),
+      },
+      select: { id: true, title: true },
+    });
+
+    // The embedding follows the text it is made from
+    if (content || summary !== undefined) {
+      await embeddingQueue.enqueue(id, context.userId, context.prisma);
+    }
+
+    await linkMemoryToMessage(context, id, 1.0, MEMORY_TOOL_NAMES.update);
+    return updated;
+  },
+};
+
+export const memoryTools = [searchMemoriesTool, createMemoryTool, updateMemoryTool];
+
+for (const tool of memoryTools) {
+  toolRegistry.register(tool);
+}
+
+/**
+ * Record that a tool touched a memory card while producing this message
+ */
+async function linkMemoryToMessage(
+  context: ToolContext,
+  memoryCardId: string,
+  relevance: number,
+  toolName: string
+): Promise<void> {
+  if (!context.messageId) {
+    return;
+  }
+
+  await context.prisma.messageMemoryCard.upsert({
+    where: { messageId_memoryCardId: { messageId: context.messageId, memoryCardId } },
+    create: { messageId: context.messageId, memoryCardId, relevance, toolName },
+    update: { relevance, toolName },
+  });
+}
@@ -0,0 +1,445 @@
+import { createHash } from 'crypto';
+import type { LLMProvider } from './llm.js';
+import { getEnvApiKeys } from './server-keys.js';
+
+// Registry configuration
+const REGISTRY_TTL_MS = parseInt(process.env['MODEL_REGISTRY_TTL_MS'] || String(6 * 60 * 60 * 1000)); // 6 hours
+const MISS_REFRESH_INTERVAL_MS = 60 * 1000; // At most one refresh per minute for unknown models
+const MAX_KEY_SCOPES = 1000; // User keys whose model lists are kept
+const REFRESH_TIMEOUT_MS = 5000;
+const DEFAULT_CONTEXT_WINDOW = 8192;
+const DEFAULT_MAX_OUTPUT_TOKENS = 4096;
+
+/**
+ * Price in USD per million tokens
+ */
+export interface ModelPricing {
+  input: number;
+  output: number;
+}
+
+/**
+ * Feature support flags for a model
+ */
+export interface ModelCapabilities {
+  streaming: boolean;
+  vision: boolean;
+  tools: boolean;
+}
+
+/**
+ * Metadata describing a single model
+ */
+export interface ModelInfo {
+  id: string;
+  provider: LLMProvider;
+  name: string;
+  contextWindow: number;
+  maxOutputTokens: number;
+  pricing?: ModelPricing;
+  capabilities: ModelCapabilities;
+}
+
+/**
+ * Model as reported by a provider's list-models endpoint. Anything left out
+ * is filled in from the built-in metadata or the registry defaults.
+ */
+export interface DiscoveredModel {
+  id: string;
+  name?: string;
+  contextWindow?: number;
+  maxOutputTokens?: number;
+  pricing?: ModelPricing;
+  capabilities?: Partial<ModelCapabilities>;
+}
+
+export type ModelListFetcher = (apiKey?: string) => Promise<DiscoveredModel[]>;
+
+export const PROVIDER_NAMES: Record<LLMProvider, string> = {
+  openai: 'OpenAI',
+  anthropic: 'Anthropic',
+  google: 'Google',
+  mistral: 'Mistral',
+  openrouter: 'OpenRouter',
+  custom: 'Custom Endpoint',
+};
+
+// Providers whose list endpoint can be queried without a key
+const KEYLESS_PROVIDERS: LLMProvider[] = ['openrouter'];
+
+const FULL: ModelCapabilities = { streaming: true, vision: true, tools: true };
+const TEXT_TOOLS: ModelCapabilities = { streaming: true, vision: false, tools: true };
+const TEXT_ONLY: ModelCapabilities = { streaming: true, vision: false, tools: false };
+const REASONING: ModelCapabilities = { streaming: false, vision: false, tools: false };
+
+// Known models and their metadata, used until (and alongside) provider refreshes
+export const BUILTIN_MODELS: ModelInfo[] = [
+  // OpenAI
+  { id: 'gpt-4o', provider: 'openai', name: 'GPT-4o', contextWindow: 128000, maxOutputTokens: 16384, pricing: { input: 2.5, output: 10 }, capabilities: FULL },
+  { id: 'gpt-4o-mini', provider: 'openai', name: 'GPT-4o Mini', contextWindow: 128000, maxOutputTokens: 16384, pricing: { input: 0.15, output: 0.6 }, capabilities: FULL },
+  { id: 'gpt-4-turbo', provider: 'openai', name: 'GPT-4 Turbo', contextWindow: 128000, maxOutputTokens: 4096, pricing: { input: 10, output: 30 }, capabilities: FULL },
+  { id: 'gpt-4', provider: 'openai', name: 'GPT-4', contextWindow: 8192, maxOutputTokens: 8192, pricing: { input: 30, output: 60 }, capabilities: TEXT_TOOLS },
+  { id: 'gpt-3.5-turbo', provider: 'openai', name: 'GPT-3.5 Turbo', contextWindow: 16385, maxOutputTokens: 4096, pricing: { input: 0.5, output: 1.5 }, capabilities: TEXT_TOOLS },
+
+  // Anthropic
+  { id: 'claude-3-5-sonnet-20241022', provider: 'anthropic', name: 'Claude 3.5 Sonnet', contextWindow: 200000, maxOutputTokens: 8192, pricing: { input: 3, output: 15 }, capabilities: FULL },
+  { id: 'claude-3-5-haiku-20241022', provider: 'anthropic', name: 'Claude 3.5 Haiku', contextWindow: 200000, maxOutputTokens: 8192, pricing: { input: 0.8, output: 4 }, capabilities: TEXT_TOOLS },
+  { id: 'claude-3-opus-20240229', provider: 'anthropic', name: 'Claude 3 Opus', contextWindow: 200000, maxOutputTokens: 4096, pricing: { input: 15, output: 75 }, capabilities: FULL },
+
+  // Google
+  { id: 'gemini-1.5-pro', provider: 'google', name: 'Gemini 1.5 Pro', contextWindow: 2097152, maxOutputTokens: 8192, pricing: { input: 1.25, output: 5 }, capabilities: FULL },
+  { id: 'gemini-1.5-flash', provider: 'google', name: 'Gemini 1.5 Flash', contextWindow: 1048576, maxOutputTokens: 8192, pricing: { input: 0.075, output: 0.3 }, capabilities: FULL },
+  { id: 'gemini-pro', provider: 'google', name: 'Gemini Pro', contextWindow: 32760, maxOutputTokens: 8192, pricing: { input: 0.5, output: 1.5 }, capabilities: TEXT_TOOLS },
+
+  // Mistral
+  { id: 'mistral-large-latest', provider: 'mistral', name: 'Mistral Large', contextWindow: 131072, maxOutputTokens: 8192, pricing: { input: 2, output: 6 }, capabilities: TEXT_TOOLS },
+  { id: 'mistral-medium-latest', provider: 'mistral', name: 'Mistral Medium', contextWindow: 131072, maxOutputTokens: 8192, pricing: { input: 0.4, output: 2 }, capabilities: FULL },
+  { id: 'mistral-small-latest', provider: 'mistral', name: 'Mistral Small', contextWindow: 32768, maxOutputTokens: 8192, pricing: { input: 0.2, output: 0.6 }, capabilities: TEXT_TOOLS },
+
+  // OpenRouter
+  { id: 'openai/gpt-4o', provider: 'openrouter', name: 'GPT-4o (OpenRouter)', contextWindow: 128000, maxOutputTokens: 16384, pricing: { input: 2.5, output: 10 }, capabilities: FULL },
+  { id: 'openai/gpt-4o-mini', provider: 'openrouter', name: 'GPT-4o Mini (OpenRouter)', contextWindow: 128000, maxOutputTokens: 16384, pricing: { input: 0.15, output: 0.6 }, capabilities: FULL },
+  { id: 'openai/gpt-4-turbo', provider: 'openrouter', name: 'GPT-4 Turbo (OpenRouter)', contextWindow: 128000, maxOutputTokens: 4096, pricing: { input: 10, output: 30 }, capabilities: FULL },
+  { id: 'openai/gpt-3.5-turbo', provider: 'openrouter', name: 'GPT-3.5 Turbo (OpenRouter)', contextWindow: 16385, maxOutputTokens: 4096, pricing: { input: 0.5, output: 1.5 }, capabilities: TEXT_TOOLS },
+  { id: 'openai/o1-preview', provider: 'openrouter', name: 'o1 Preview', contextWindow: 128000, maxOutputTokens: 32768, pricing: { input: 15, output: 60 }, capabilities: REASONING },
+  { id: 'openai/o1-mini', provider: 'openrouter', name: 'o1 Mini', contextWindow: 128000, maxOutputTokens: 65536, pricing: { input: 3, output: 12 }, capabilities: REASONING },
+  { id: 'anthropic/claude-3.5-sonnet', provider: 'openrouter', name: 'Claude 3.5 Sonnet (OpenRouter)', contextWindow: 200000, maxOutputTokens: 8192, pricing: { input: 3, output: 15 }, capabilities: FULL },
+  { id: 'anthropic/claude-3.5-haiku', provider: 'openrouter', name: 'Claude 3.5 Haiku (OpenRouter)', contextWindow: 200000, maxOutputTokens: 8192, pricing: { input: 0.8, output: 4 }, capabilities: TEXT_TOOLS },
+  { id: 'anthropic/claude-3-opus', provider: 'openrouter', name: 'Claude 3 Opus (OpenRouter)', contextWindow: 200000, maxOutputTokens: 4096, pricing: { input: 15, output: 75 }, capabilities: FULL },
+  { id: 'google/gemini-pro-1.5', provider: 'openrouter', name: 'Gemini 1.5 Pro (OpenRouter)', contextWindow: 2000000, maxOutputTokens: 8192, pricing: { input: 1.25, output: 5 }, capabilities: FULL },
+  { id: 'google/gemini-flash-1.5', provider: 'openrouter', name: 'Gemini 1.5 Flash (OpenRouter)', contextWindow: 1000000, maxOutputTokens: 8192, pricing: { input: 0.075, output: 0.3 }, capabilities: FULL },
+  { id: 'meta-llama/llama-3.1-405b-instruct', provider: 'openrouter', name: 'Llama 3.1 405B', contextWindow: 131072, maxOutputTokens: 4096, pricing: { input: 2.7, output: 2.7 }, capabilities: TEXT_TOOLS },
+  { id: 'meta-llama/llama-3-70b-instruct', provider: 'openrouter', name: 'Llama 3 70B', contextWindow: 8192, maxOutputTokens: 4096, pricing: { input: 0.59, output: 0.79 }, capabilities: TEXT_ONLY },
+  { id: 'meta-llama/llama-3-8b-instruct', provider: 'openrouter', name: 'Llama 3 8B', contextWindow: 8192, maxOutputTokens: 4096, pricing: { input: 0.055, output: 0.055 }, capabilities: TEXT_ONLY },
+  { id: 'mistralai/mistral-7b-instruct', provider: 'openrouter', name: 'Mistral 7B', contextWindow: 32768, maxOutputTokens: 4096, pricing: { input: 0.055, output: 0.055 }, capabilities: TEXT_ONLY },
+  { id: 'mistralai/mixtral-8x7b-instruct', provider: 'openrouter', name: 'Mixtral 8x7B', contextWindow: 32768, maxOutputTokens: 4096, pricing: { input: 0.24, output: 0.24 }, capabilities: TEXT_ONLY },
+  { id: 'microsoft/wizardlm-2-8x22b', provider: 'openrouter', name: 'WizardLM-2 8x22B', contextWindow: 65536, maxOutputTokens: 4096, pricing: { input: 0.5, output: 0.5 }, capabilities: TEXT_ONLY },
+  { id: 'cohere/command-r-plus', provider: 'openrouter', name: 'Command R+', contextWindow: 128000, maxOutputTokens: 4000, pricing: { input: 2.5, output: 10 }, capabilities: TEXT_TOOLS },
+  { id: 'perplexity/llama-3-sonar-large-32k-online', provider: 'openrouter', name: 'Sonar Large Online', contextWindow: 28000, maxOutputTokens: 4096, pricing: { input: 1, output: 1 }, capabilities: TEXT_ONLY },
+  { id: 'qwen/qwen-2-72b-instruct', provider: 'openrouter', name: 'Qwen 2 72B', contextWindow: 32768, maxOutputTokens: 4096, pricing: { input: 0.9, output: 0.9 }, capabilities: TEXT_ONLY },
+];
+
+// Provider list-models fetchers
+
+async function fetchJson(url: string, headers: Record<string, string> = {}): Promise<any> {
+  const response = await fetch(url, {
+    headers,
+    signal: AbortSignal.timeout(REFRESH_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(`Model list request failed: ${response.status} ${response.statusText}`);
+  }
+
+  return response.json();
+}
+
+// The OpenAI list also contains embedding, audio and image models
+const OPENAI_CHAT_MODEL = /^(gpt-|o\d|chatgpt-)/;
+const OPENAI_NON_CHAT = /(instruct|audio|realtime|transcribe|tts|search|image)/;
+
+async function fetchOpenAIModels(apiKey?: string): Promise<DiscoveredModel[]> {
+  const data = await fetchJson('https://api.openai.com/v1/models', {
+    'Authorization': `Bearer ${apiKey}`,
+  });
+
+  return (data.data || [])
+    .map((model: { id: string }) => model.id)
+    .filter((id: string) => OPENAI_CHAT_MODEL.test(id) && !OPENAI_NON_CHAT.test(id))
+    .map((id: string) => ({ id }));
+}
+
+async function fetchAnthropicModels(apiKey?: string): Promise<DiscoveredModel[]> {
+  const data = await fetchJson('https://api.anthropic.com/v1/models?limit=100', {
+    'x-api-key': apiKey || '',
+    'anthropic-version': '2023-06-01',
+  });
+
+  return (data.data || []).map((model: { id: string; display_name?: string }) => ({
+    id: model.id,
+    ...(model.display_name && { name: model.display_name }),
+  }));
+}
+
+async function fetchGoogleModels(apiKey?: string): Promise<DiscoveredModel[]> {
+  const data = await fetchJson(
+    `https://generativelanguage.googleapis.com/v1beta/models?pageSize=1000&key=${apiKey}`
+  );
+
+  return (data.models || [])
+    .filter((model: any) => model.supportedGenerationMethods?.includes('generateContent'))
+    .map((model: any) => ({
+      id: String(model.name).replace(/^models\//, ''),
+      ...(model.displayName && { name: model.displayName }),
+      ...(model.inputTokenLimit && { contextWindow: model.inputTokenLimit }),
+      ...(model.outputTokenLimit && { maxOutputTokens: model.outputTokenLimit }),
+    }));
+}
+
+async function fetchMistralModels(apiKey?: string): Promise<DiscoveredModel[]> {
+  const baseUrl = process.env['MISTRAL_BASE_URL'] || 'https://api.mistral.ai/v1';
+  const data = await fetchJson(`${baseUrl}/models`, {
+    'Authorization': `Bearer ${apiKey}`,
+  });
+
+  return (data.data || [])
+    .filter((model: any) => model.capabilities?.completion_chat !== false)
+    .map((model: any) => ({
+      id: model.id,
+      ...(model.max_context_length && { contextWindow: model.max_context_length }),
+      capabilities: {
+        tools: Boolean(model.capabilities?.function_calling),
+        vision: Boolean(model.capabilities?.vision),
+      },
+    }));
+}
+
+async function fetchOpenRouterModels(): Promise<DiscoveredModel[]> {
+  const data = await fetchJson('https://openrouter.ai/api/v1/models');
+
+  return (data.data || []).map((model: any) => {
+    const prompt = parseFloat(model.pricing?.prompt);
+    const completion = parseFloat(model.pricing?.completion);
+    const maxOutputTokens = model.top_provider?.max_completion_tokens;
+
+    return {
+      id: model.id,
+      ...(model.name && { name: model.name }),
+      ...(model.context_length && { contextWindow: model.context_length }),
+      ...(maxOutputTokens && { maxOutputTokens }),
+      // OpenRouter quotes prices per token
+      ...(!isNaN(prompt) && !isNaN(completion) && {
+        pricing: { input: prompt * 1_000_000, output: completion * 1_000_000 },
+      }),
+      capabilities: {
+        vision: Boolean(model.architecture?.input_modalities?.includes('image')),
+        tools: Boolean(model.supported_parameters?.includes('tools')),
+      },
+    };
+  });
+}
+
+// A user's OpenAI-compatible server; it reports ids only
+async function fetchCustomEndpointModels(baseUrl: string, apiKey: string): Promise<DiscoveredModel[]> {
+  const data = await fetchJson(`${baseUrl}/models`, apiKey ? { 'Authorization': `Bearer ${apiKey}` } : {});
+
+  return (data.data || [])
+    .map((model: { id?: unknown }) => model.id)
+    .filter((id: unknown): id is string => typeof id === 'string')
+    .map((id: string) => ({ id }));
+}
+
+export const DEFAULT_MODEL_FETCHERS: Partial<Record<LLMProvider, ModelListFetcher>> = {
+  openai: fetchOpenAIModels,
+  anthropic: fetchAnthropicModels,
+  google: fetchGoogleModels,
+  mistral: fetchMistralModels,
+  openrouter: fetchOpenRouterModels,
+};
+
+// Model Registry Implementation
+export class ModelRegistry {
+  private models = new Map<LLMProvider, Map<string, ModelInfo>>();
+  private refreshedAt = new Map<LLMProvider, number>();
+  private attemptedAt = new Map<LLMProvider, number>();
+  private inflight = new Map<LLMProvider, Promise<ModelInfo[]>>();
+  // Models listed for a user's own key, by provider and key hash; never shared with other users
+  private keyScoped = new Map<string, { attemptedAt: number; models: Promise<Map<string, ModelInfo>> }>();
+  private ttlMs: number;
+  private fetchers: Partial<Record<LLMProvider, ModelListFetcher>>;
+
+  constructor(
+    seed: ModelInfo[] = BUILTIN_MODELS,
+    options: { ttlMs?: number; fetchers?: Partial<Record<LLMProvider, ModelListFetcher>> } = {}
+  ) {
+    this.ttlMs = options.ttlMs ?? REGISTRY_TTL_MS;
+    this.fetchers = options.fetchers ?? DEFAULT_MODEL_FETCHERS;
+
+    for (const model of seed) {
+      this.upsert(model);
+    }
+  }
+
+  // List models, optionally for a single provider
+  list(provider?: LLMProvider): ModelInfo[] {
+    if (provider) {
+      return Array.from(this.models.get(provider)?.values() ?? []);
+    }
+    return Array.from(this.models.values()).flatMap(models => Array.from(models.values()));
+  }
+
+  // Providers that have at least one known model
+  providers(): LLMProvider[] {
+    return Array.from(this.models.keys()).filter(provider => this.models.get(provider)!.size > 0);
+  }
+
+  get(provider: LLMProvider, modelId: string): ModelInfo | undefined {
+    return this.models.get(provider)?.get(modelId);
+  }
+
+  has(provider: LLMProvider, modelId: string): boolean {
+    return this.get(provider, modelId) !== undefined;
+  }
+
+  isStale(provider: LLMProvider): boolean {
+    const refreshedAt = this.refreshedAt.get(provider);
+    return refreshedAt === undefined || Date.now() - refreshedAt > this.ttlMs;
+  }
+
+  // Whether a refresh was tried lately, successful or not, so failing providers aren't hammered
+  recentlyAttempted(provider: LLMProvider): boolean {
+    const attemptedAt = this.attemptedAt.get(provider);
+    return attemptedAt !== undefined && Date.now() - attemptedAt < MISS_REFRESH_INTERVAL_MS;
+  }
+
+  // Refresh a provider from its list-models endpoint. Failures keep the current models.
+  // The list is shared by every user, so `apiKey` must be the server's; see resolve for users' keys.
+  async refresh(provider: LLMProvider, apiKey?: string): Promise<ModelInfo[]> {
+    const fetcher = this.fetchers[provider];
+    if (!fetcher || (!apiKey && !KEYLESS_PROVIDERS.includes(provider))) {
+      return this.list(provider);
+    }
+
+    const pending = this.inflight.get(provider);
+    if (pending) {
+      return pending;
+    }
+
+    this.attemptedAt.set(provider, Date.now());
+    const refresh = (async () => {
+      try {
+        const discovered = await fetcher(apiKey);
+        for (const model of discovered) {
+          this.merge(provider, model);
+        }
+        this.refreshedAt.set(provider, Date.now());
+      } catch (error) {
+        console.warn(`Failed to refresh ${provider} models:`, error instanceof Error ? error.message : error);
+      } finally {
+        this.inflight.delete(provider);
+      }
+      return this.list(provider);
+    })();
+
+    this.inflight.set(provider, refresh);
+    return refresh;
+  }
+
+  // Refresh every stale provider not tried in the last minute, using the given keys or the server's env keys
+  async refreshStale(apiKeys: Partial<Record<LLMProvider, string>> = getEnvApiKeys()): Promise<void> {
+    const stale = (Object.keys(this.fetchers) as LLMProvider[])
+      .filter(provider => this.isStale(provider) && !this.recentlyAttempted(provider));
+    await Promise.allSettled(stale.map(provider => this.refresh(provider, apiKeys[provider])));
+  }
+
+  // Look up a model, refreshing the provider with the server's key once if it is
+  // unknown or stale, so new releases become usable without a deploy. A model only
+  // the user's `apiKey` can see (a fine-tune, early access) is looked up with that
+  // key and kept apart from the shared list.
+  async resolve(provider: LLMProvider, modelId: string, apiKey?: string): Promise<ModelInfo | undefined> {
+    const known = this.get(provider, modelId);
+    if (known && !this.isStale(provider)) {
+      return known;
+    }
+
+    if (!this.recentlyAttempted(provider)) {
+      await this.refresh(provider, getEnvApiKeys()[provider]);
+    }
+
+    const shared = this.get(provider, modelId);
+    const fetcher = this.fetchers[provider];
+    if (shared || !apiKey || !fetcher) {
+      return shared;
+    }
+
+    const scoped = await this.keyScopedModels(`${provider}:${hashScope(apiKey)}`, provider, () => fetcher(apiKey))
+      .catch(() => new Map<string, ModelInfo>());
+    return scoped.get(modelId);
+  }
+
+  // The models a user's custom endpoint serves, listed at most once a minute per
+  // endpoint and key. Rejects if the endpoint can't be listed and never was.
+  async customEndpointModels(baseUrl: string, apiKey: string): Promise<ModelInfo[]> {
+    const models = await this.keyScopedModels(
+      `custom:${hashScope(`${baseUrl}\n${apiKey}`)}`,
+      'custom',
+      () => fetchCustomEndpointModels(baseUrl, apiKey)
+    );
+    return Array.from(models.values());
+  }
+
+  // The models a user's key lists, fetched at most once a minute per scope. A failed
+  // listing keeps the last good one; without one it rejects.
+  private keyScopedModels(
+    scope: string,
+    provider: LLMProvider,
+    list: () => Promise<DiscoveredModel[]>
+  ): Promise<Map<string, ModelInfo>> {
+    const cached = this.keyScoped.get(scope);
+    if (cached && Date.now() - cached.attemptedAt < MISS_REFRESH_INTERVAL_MS) {
+      return cached.models;
+    }
+
+    const models = (async () => {
+      try {
+        const scoped = new Map<string, ModelInfo>();
+        for (const model of await list()) {
+          scoped.set(model.id, this.withDefaults(provider, model));
+        }
+        return scoped;
+      } catch (error) {
+        console.warn(`Failed to list ${provider} models for a user key:`, error instanceof Error ? error.message : error);
+        if (cached) {
+          return cached.models;
+        }
+        throw error;
+      }
+    })();
+
+    // Drop the oldest key once full; Map keeps insertion order
+    this.keyScoped.delete(scope);
+    if (this.keyScoped.size >= MAX_KEY_SCOPES) {
+      this.keyScoped.delete(this.keyScoped.keys().next().value!);
+    }
+    this.keyScoped.set(scope, { attemptedAt: Date.now(), models });
+    return models;
+  }
+
+  private upsert(model: ModelInfo): void {
+    if (!this.models.has(model.provider)) {
+      this.models.set(model.provider, new Map());
+    }
+    this.models.get(model.provider)!.set(model.id, model);
+  }
+
+  private merge(provider: LLMProvider, discovered: DiscoveredModel): void {
+    this.upsert(this.withDefaults(provider, discovered));
+  }
+
+  // Discovered values win over built-in metadata; gaps fall back to it or to defaults
+  private withDefaults(provider: LLMProvider, discovered: DiscoveredModel): ModelInfo {
+    const existing = this.get(provider, discovered.id);
+    const pricing = discovered.pricing ?? existing?.pricing;
+
+    return {
+      id: discovered.id,
+      provider,
+      name: discovered.name ?? existing?.name ?? discovered.id,
+      contextWindow: discovered.contextWindow ?? existing?.contextWindow ?? DEFAULT_CONTEXT_WINDOW,
+      maxOutputTokens: discovered.maxOutputTokens ?? existing?.maxOutputTokens ?? DEFAULT_MAX_OUTPUT_TOKENS,
+      ...(pricing && { pricing }),
+      capabilities: {
+        ...(existing?.capabilities ?? TEXT_ONLY),
+        ...discovered.capabilities,
+      },
+    };
+  }
+}
+
+// Keys and endpoints are cached under a hash, never in the clear
+function hashScope(value: string): string {
+  return createHash('sha256').update(value).digest('hex');
+}
+
+// Shared registry instance
+export const modelRegistry = new ModelRegistry();
@@ -0,0 +1,32 @@
+import type { LLMProvider } from './llm.js';
+
+// Where the server's own key for each provider is configured
+const ENV_API_KEYS: Partial<Record<LLMProvider, string>> = {
+  openai: 'OPENAI_API_KEY',
+  anthropic: 'ANTHROPIC_API_KEY',
+  google: 'GOOGLE_API_KEY',
+  mistral: 'MISTRAL_API_KEY',
+  openrouter: 'OPENROUTER_API_KEY',
+};
+
+/**
+ * The server's key for a provider, used when the user has stored none
+ */
+export function getEnvApiKey(provider: LLMProvider): string | undefined {
+  const variable = ENV_API_KEYS[provider];
+  return (variable && process.env[variable]) || undefined;
+}
+
+/**
+ * Every provider the server has a key for, with the key
+ */
+export function getEnvApiKeys(): Partial<Record<LLMProvider, string>> {
+  const keys: Partial<Record<LLMProvider, string>> = {};
+  for (const provider of Object.keys(ENV_API_KEYS) as LLMProvider[]) {
+    const key = getEnvApiKey(provider);
+    if (key) {
+      keys[provider] = key;
+    }
+  }
+  return keys;
+}
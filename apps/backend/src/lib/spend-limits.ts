@@ -0,0 +1,220 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { LLMConfigSchema, type LLMProvider } from './llm.js';
+import type { TrinityConfig } from './trinity-mode.js';
+import { estimateCost } from './usage-ledger.js';
+
+// Monthly caps for one scope; either may be left unset
+const LimitSchema = z.object({
+  monthlyCostUsd: z.number().positive().optional(),
+  monthlyTokens: z.number().int().positive().optional(),
+});
+
+// Global caps plus optional per-provider caps
+export const SpendLimitsSchema = LimitSchema.extend({
+  providers: z.record(LLMConfigSchema.shape.provider, LimitSchema).default({}),
+});
+
+export type SpendLimits = z.infer<typeof SpendLimitsSchema>;
+
+/**
+ * An LLM call about to be made, used to project spend before it goes out
+ */
+export interface PlannedCall {
+  provider: LLMProvider;
+  model: string;
+  promptTokens: number;
+  maxTokens: number;
+}
+
+/**
+ * Which limit a request would exceed
+ */
+export interface SpendLimitDetails {
+  scope: 'global' | LLMProvider;
+  metric: 'cost' | 'tokens';
+  used: number;
+  projected: number;
+  limit: number;
+}
+
+/**
+ * Cause attached to the PAYMENT_REQUIRED TRPCError thrown when a limit is hit
+ */
+export class SpendLimitError extends Error {
+  constructor(public readonly details: SpendLimitDetails) {
+    super(formatLimitMessage(details));
+    this.name = 'SpendLimitError';
+  }
+}
+
+interface MonthlyTotals {
+  costUsd: number;
+  tokens: number;
+}
+
+// Helper function to get the user's spend limits
+export async function getUserSpendLimits(userId: string, prisma: any): Promise<SpendLimits> {
+  const user = await prisma.user.findUnique({
+    where: { id: userId },
+    select: { spendLimits: true },
+  });
+
+  const parsed = SpendLimitsSchema.safeParse(user?.spendLimits ?? {});
+  return parsed.success ? parsed.data : { providers: {} };
+}
+
+/**
+ * This calendar month's (UTC) token and cost totals per provider
+ */
+export async function getMonthlyUsage(
+  userId: string,
+  prisma: any,
+  now = new Date()
+): Promise<Map<string, MonthlyTotals>> {
+  const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+
+  const rows: any[] = await prisma.usageRecord.groupBy({
+    by: ['provider'],
+    where: {
+      userId,
+      createdAt: { gte: monthStart },
+    },
+    _sum: {
+      totalTokens: true,
+      costUsd: true,
+    },
+  });
+
+  return new Map(rows.map(row => [
+    row.provider,
+    { costUsd: row._sum.costUsd ?? 0, tokens: row._sum.totalTokens ?? 0 },
+  ]));
+}
+
+/**
+ * The first limit that this month's usage plus the planned calls would exceed,
+ * or null if every limit still has room
+ */
+export function findExceededLimit(
+  limits: SpendLimits,
+  usage: Map<string, MonthlyTotals>,
+  calls: PlannedCall[]
+): SpendLimitDetails | null {
+  const planned = new Map<LLMProvider, MonthlyTotals>();
+  for (const call of calls) {
+    const totals = planned.get(call.provider) ?? { costUsd: 0, tokens: 0 };
+    totals.costUsd += estimateCost(call.provider, call.model, call.promptTokens, call.maxTokens);
+    totals.tokens += call.promptTokens + call.maxTokens;
+    planned.set(call.provider, totals);
+  }
+
+  const sum = (totals: Iterable<MonthlyTotals>) => {
+    let costUsd = 0;
+    let tokens = 0;
+    for (const t of totals) {
+      costUsd += t.costUsd;
+      tokens += t.tokens;
+    }
+    return { costUsd, tokens };
+  };
+
+  const scopes: Array<{ scope: SpendLimitDetails['scope']; limit: z.infer<typeof LimitSchema>; used: MonthlyTotals; projected: MonthlyTotals }> = [
+    { scope: 'global', limit: limits, used: sum(usage.values()), projected: sum(planned.values()) },
+  ];
+  for (const [provider, projected] of planned) {
+    const limit = limits.providers[provider];
+    if (limit) {
+      scopes.push({ scope: provider, limit, used: usage.get(provider) ?? { costUsd: 0, tokens: 0 }, projected });
+    }
+  }
+
+  for (const { scope, limit, used, projected } of scopes) {
+    if (limit.monthlyCostUsd !== undefined && used.costUsd + projected.costUsd > limit.monthlyCostUsd) {
+      return { scope, metric: 'cost', used: used.costUsd, projected: projected.costUsd, limit: limit.monthlyCostUsd };
+    }
+    if (limit.monthlyTokens !== undefined && used.tokens + projected.tokens > limit.monthlyTokens) {
+      return { scope, metric: 'tokens', used: used.tokens, projected: projected.tokens, limit: limit.monthlyTokens };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check the user's monthly spend and token caps before making the planned calls.
+ * Throws a PAYMENT_REQUIRED TRPCError (cause: SpendLimitError) when a cap would be exceeded.
+ */
+export async function enforceSpendLimits(
+  userId: string,
+  prisma: any,
+  calls: PlannedCall[]
+): Promise<void> {
+  const limits = await getUserSpendLimits(userId, prisma);
+  const hasLimits = limits.monthlyCostUsd !== undefined
+    || limits.monthlyTokens !== undefined
+    || Object.keys(limits.providers).length > 0;
+
+  if (!hasLimits || calls.length === 0) {
+    return;
+  }
+
+  const exceeded = findExceededLimit(limits, await getMonthlyUsage(userId, prisma), calls);
+  if (exceeded) {
+    const cause = new SpendLimitError(exceeded);
+    throw new TRPCError({ code: 'PAYMENT_REQUIRED', message: cause.message, cause });
+  }
+}
+
+/**
+ * Planned calls for a Trinity run: every enabled agent, then the orchestrator
+ * (unless it only picks a response), whose prompt carries the agents' answers.
+ * Debate mode calls every agent again each round, with its own and the others'
+ * answers in the prompt.
+ */
+export function getTrinityPlannedCalls(config: TrinityConfig, promptTokens: number): PlannedCall[] {
+  const agents = config.agents.filter(agent => agent.enabled);
+  const answerTokens = agents.reduce((sum, agent) => sum + agent.maxTokens, 0);
+  const calls: PlannedCall[] = agents.map(agent => ({
+    provider: agent.provider as LLMProvider,
+    model: agent.model,
+    promptTokens,
+    maxTokens: agent.maxTokens,
+  }));
+
+  if (config.executionMode === 'debate' && agents.length > 1) {
+    for (let round = 1; round <= config.debateRounds; round++) {
+      calls.push(...agents.map(agent => ({
+        provider: agent.provider as LLMProvider,
+        model: agent.model,
+        promptTokens: promptTokens + answerTokens,
+        maxTokens: agent.maxTokens,
+      })));
+    }
+  }
+
+  // Conflict analysis, then blending; best_of_three makes a single judging call instead
+  if (agents.length > 1) {
+    const orchestratorCalls = config.orchestrator.blendingStrategy === 'best_of_three' ? 1 : 2;
+    for (let i = 0; i < orchestratorCalls; i++) {
+      calls.push({
+        provider: config.orchestrator.provider as LLMProvider,
+        model: config.orchestrator.model,
+        promptTokens: promptTokens + answerTokens,
+        maxTokens: config.orchestrator.maxTokens,
+      });
+    }
+  }
+
+  return calls;
+}
+
+// Worded so the frontend's StreamingErrorHandler classifies it as a quota error
+function formatLimitMessage({ scope, metric, used, limit }: SpendLimitDetails): string {
+  const target = scope === 'global' ? 'all providers' : scope;
+  const amount = metric === 'cost'
+    ? `$${used.toFixed(2)} of $${limit.toFixed(2)} spent`
+    : `${Math.round(used).toLocaleString('en-US')} of ${limit.toLocaleString('en-US')} tokens used`;
+
+  return `Monthly usage limit reached for ${target}: ${amount} this month`;
+}
@@ -8,6 +8,12 @@ export type StreamMessageType =
   | 'chat_complete'
   | 'thread_update'
   | 'presence_update'
+  | 'memory_created'
+  | 'generation_started'
+  | 'generation_stopped'
+  | 'embedding_migration_progress'
+  | 'trinity_eval_progress'
+  | 'memory_embedding_status'
   | 'error'
   | 'ping'
   | 'pong';
@@ -0,0 +1,222 @@
+import type { z } from 'zod';
+import type {
+  LLMMessage,
+  LLMProvider,
+  LLMResponse,
+  LLMStreamChunk,
+  LLMToolCall,
+  LLMToolDefinition,
+} from './llm.js';
+import { modelRegistry } from './model-registry.js';
+
+// Upper bound on call → execute → respond rounds for a single reply
+const DEFAULT_MAX_TOOL_ROUNDS = 5;
+
+/**
+ * Passed to every tool so it acts on behalf of the requesting user
+ */
+export interface ToolContext {
+  userId: string;
+  prisma: any;
+  threadId?: string;
+  // Assistant message being generated, for tools that link records to it
+  messageId?: string;
+}
+
+/**
+ * A server-side tool the model can call. `parameters` is the JSON Schema sent
+ * to providers; `input` validates the arguments the model actually sends.
+ */
+export interface Tool<TInput = any> {
+  name: string;
+  description: string;
+  parameters: Record<string, unknown>;
+  input: z.ZodType<TInput, z.ZodTypeDef, unknown>;
+  execute(input: TInput, context: ToolContext): Promise<unknown>;
+}
+
+/**
+ * Outcome of one tool call, sent back to the model as a tool message
+ */
+export interface ToolResult {
+  call: LLMToolCall;
+  output: unknown;
+  isError: boolean;
+}
+
+/**
+ * Options for the chat tool loop
+ */
+export interface ToolLoopOptions {
+  registry: ToolRegistry;
+  context: ToolContext;
+  maxRounds?: number;
+  // Tools the model was offered; calls to any other registered tool are refused
+  allowedTools?: string[];
+  onToolResult?: (result: ToolResult) => void;
+}
+
+/**
+ * Server-side tools available to the chat loop, keyed by name
+ */
+export class ToolRegistry {
+  private readonly tools = new Map<string, Tool>();
+
+  register(tool: Tool): this {
+    if (this.tools.has(tool.name)) {
+      throw new Error(`Tool already registered: ${tool.name}`);
+    }
+    this.tools.set(tool.name, tool);
+    return this;
+  }
+
+  unregister(name: string): boolean {
+    return this.tools.delete(name);
+  }
+
+  get(name: string): Tool | undefined {
+    return this.tools.get(name);
+  }
+
+  list(): Tool[] {
+    return [...this.tools.values()];
+  }
+
+  /**
+   * Provider-neutral definitions for LLMConfig.tools, optionally limited to some tools
+   */
+  definitions(names?: string[]): LLMToolDefinition[] {
+    return this.list()
+      .filter(tool => !names || names.includes(tool.name))
+      .map(tool => ({ name: tool.name, description: tool.description, parameters: tool.parameters }));
+  }
+
+  /**
+   * Validate and run one tool call. Failures are returned as error results for
+   * the model to see rather than thrown.
+   */
+  async execute(call: LLMToolCall, context: ToolContext): Promise<ToolResult> {
+    const tool = this.tools.get(call.name);
+    if (!tool) {
+      return { call, output: { error: `Unknown tool: ${call.name}` }, isError: true };
+    }
+
+    const parsed = tool.input.safeParse(call.arguments);
+    if (!parsed.success) {
+      return {
+        call,
+        output: { error: 'Invalid arguments', issues: parsed.error.flatten().fieldErrors },
+        isError: true,
+      };
+    }
+
+    try {
+      return { call, output: await tool.execute(parsed.data, context), isError: false };
+    } catch (error) {
+      console.error(`Tool ${call.name} failed:`, error);
+      return {
+        call,
+        output: { error: error instanceof Error ? error.message : 'Tool execution failed' },
+        isError: true,
+      };
+    }
+  }
+}
+
+// Tools available to chat; modules register theirs on import
+export const toolRegistry = new ToolRegistry();
+
+// Only models the registry knows to support function calling are offered tools
+export function modelSupportsTools(provider: LLMProvider, model: string): boolean {
+  return modelRegistry.get(provider, model)?.capabilities.tools ?? false;
+}
+
+export function toToolMessage(result: ToolResult): LLMMessage {
+  return {
+    role: 'tool',
+    toolCallId: result.call.id,
+    name: result.call.name,
+    content: typeof result.output === 'string' ? result.output : JSON.stringify(result.output),
+  };
+}
+
+/**
+ * Run the call → execute → respond cycle over a streaming generator. When a
+ * response finishes by requesting tools, they are executed and the model is
+ * called again with the results. Content accumulates across rounds, and the
+ * final chunk reports usage summed over every round.
+ */
+export async function* runToolLoop<T extends LLMStreamChunk>(
+  messages: LLMMessage[],
+  generate: (messages: LLMMessage[]) => AsyncGenerator<T>,
+  options: ToolLoopOptions
+): AsyncGenerator<T> {
+  const maxRounds = options.maxRounds ?? DEFAULT_MAX_TOOL_ROUNDS;
+  const conversation = [...messages];
+  let previousContent = '';
+  let previousUsage: LLMResponse['usage'];
+
+  for (let round = 0; ; round++) {
+    let roundContent = '';
+    let roundUsage: LLMResponse['usage'];
+    let toolCalls: LLMToolCall[] = [];
+
+    for await (const chunk of generate(conversation)) {
+      roundContent = chunk.content;
+      roundUsage = chunk.usage ?? roundUsage;
+
+      // Hold back the completion while another round follows
+      if (chunk.isComplete && chunk.toolCalls?.length && round < maxRounds) {
+        toolCalls = chunk.toolCalls;
+        continue;
+      }
+
+      const content = joinContent(previousContent, chunk.content);
+      if (!chunk.isComplete) {
+        yield { ...chunk, content };
+        continue;
+      }
+
+      if (chunk.toolCalls?.length) {
+        console.warn(`Tool loop stopped after ${maxRounds} rounds with calls pending`);
+      }
+      const usage = addUsage(previousUsage, roundUsage);
+      yield { ...chunk, content, ...(usage && { usage }) };
+    }
+
+    if (toolCalls.length === 0) {
+      return;
+    }
+
+    conversation.push({ role: 'assistant', content: roundContent, toolCalls });
+    for (const call of toolCalls) {
+      const result = options.allowedTools && !options.allowedTools.includes(call.name)
+        ? { call, output: { error: `Tool not available: ${call.name}` }, isError: true }
+        : await options.registry.execute(call, options.context);
+      options.onToolResult?.(result);
+      conversation.push(toToolMessage(result));
+    }
+
+    previousContent = joinContent(previousContent, roundContent);
+    previousUsage = addUsage(previousUsage, roundUsage);
+  }
+}
+
+function joinContent(previous: string, next: string): string {
+  return previous && next ? `${previous}\n\n${next}` : previous || next;
+}
+
+function addUsage(
+  a: LLMResponse['usage'],
+  b: LLMResponse['usage']
+): LLMResponse['usage'] {
+  if (!a || !b) {
+    return a ?? b;
+  }
+
+  return {
+    promptTokens: a.promptTokens + b.promptTokens,
+    completionTokens: a.completionTokens + b.completionTokens,
+    totalTokens: a.totalTokens + b.totalTokens,
+  };
+}
@@ -1,8 +1,10 @@
 import type { 
   Agent, 
+  AgentContext,
   AgentType, 
   AgentConfig, 
   AgentResponse, 
+  DebateContext,
   TrinityStreamChunk 
 } from './trinity-mode.js';
 import type { LLMMessage } from './llm.js';
@@ -11,7 +13,47 @@ import {
   generateLLMStreamResponse
 } from './llm.js';
 
-// Base Agent Implementation
+const DEBATE_INSTRUCTIONS = `Reply in two parts. Start with a line "Critique:" followed by where you disagree with the other answers, what they got wrong and what they missed. Then a line "Revised answer:" followed by your complete answer to the original question, changed wherever the other answers convinced you. Keep your position where they did not.`;
+
+// The other agents' answers and the instructions for a debate round after the first
+function debatePrompt(debate: DebateContext): string {
+  const peers = debate.peerResponses
+    .map(response => `### ${response.agentName || response.agentType}\n${response.content}`)
+    .join('\n\n');
+
+  return `Debate round ${debate.round}. The other agents answered the same question:\n\n${peers}\n\n${DEBATE_INSTRUCTIONS}`;
+}
+
+/**
+ * Confidence from the completion's token log probabilities: the geometric
+ * mean probability of the tokens the model chose, or undefined when the
+ * provider reported none
+ */
+export function confidenceFromLogprobs(logprobs: number[] | undefined): number | undefined {
+  if (!logprobs?.length) {
+    return undefined;
+  }
+  const meanLogprob = logprobs.reduce((sum, logprob) => sum + logprob, 0) / logprobs.length;
+  return Math.max(0, Math.min(1, Math.exp(meanLogprob)));
+}
+
+/**
+ * Split a debate reply into its critique and revised answer. Replies that
+ * ignore the format are taken as the answer.
+ */
+export function splitDebateResponse(content: string): { critique?: string; content: string } {
+  const match = content.match(/^\s*[#*\s]*critique:?\**\s*([\s\S]*?)\n[#*\s]*revised answer:?\**\s*([\s\S]*)$/i);
+  if (!match || !match[2]!.trim()) {
+    return { content: content.trim() };
+  }
+
+  return {
+    ...(match[1]!.trim() && { critique: match[1]!.trim() }),
+    content: match[2]!.trim(),
+  };
+}
+
+// Base Agent Implementation, also used as-is for user-defined personas
 export class BaseAgent implements Agent {
   public readonly type: AgentType;
   public config: AgentConfig;
@@ -21,28 +63,35 @@ export class BaseAgent implements Agent {
     this.config = config;
   }
 
+  // Merge any conversation-level system message (memories, context summary) into the
+  // agent's prompt, since some providers only read the first system message. Later debate
+  // rounds continue the conversation from the agent's own previous answer.
+  protected prepareMessages(messages: LLMMessage[], debate?: DebateContext): LLMMessage[] {
+    const systemContext = messages.filter(m => m.role === 'system').map(m => m.content);
+    const systemPrompt = [this.config.systemPrompt, ...systemContext].join('\n\n');
+
+    return [
+      { role: 'system', content: systemPrompt },
+      ...messages.filter(m => m.role !== 'system'),
+      ...(debate?.ownResponse ? [
+        { role: 'assistant' as const, content: debate.ownResponse.content },
+        { role: 'user' as const, content: debatePrompt(debate) },
+      ] : []),
+    ];
+  }
+
   async generateResponse(
     messages: LLMMessage[],
-    context?: any
+    context?: AgentContext
   ): Promise<AgentResponse> {
     const startTime = Date.now();
     
     try {
       // Prepare messages with agent-specific system prompt
-      const agentMessages: LLMMessage[] = [
-        { role: 'system', content: this.config.systemPrompt },
-        ...messages,
-      ];
+      const debate = context?.debate;
+      const agentMessages = this.prepareMessages(messages, debate);
 
-      // Get API key from context or use empty string
-      const apiKey = context?.apiKey || '';
-      
-      console.log(`Agent ${this.type} API key status:`, {
-        hasContext: !!context,
-        hasApiKey: !!context?.apiKey,
-        apiKeyLength: apiKey.length,
-        apiKeyPrefix: apiKey.substring(0, 20) + '...'
-      });
+      const apiKey = this.requireApiKey(context);
 
       // Generate response using the LLM service
       const llmResponse = await generateLLMResponse(agentMessages, {
@@ -52,12 +101,15 @@ export class BaseAgent implements Agent {
         temperature: this.config.temperature,
         maxTokens: this.config.maxTokens,
         stream: false,
+        logprobs: true,
+        ...(context?.signal && { signal: context.signal }),
       });
 
       const executionTime = Date.now() - startTime;
       
-      // Calculate confidence based on response characteristics
-      const confidence = this.calculateConfidence(llmResponse.content, llmResponse.finishReason);
+      // Token probabilities where the provider reports them, else a guess from the response
+      const logprobConfidence = confidenceFromLogprobs(llmResponse.logprobs);
+      const confidence = logprobConfidence ?? this.calculateConfidence(llmResponse.content, llmResponse.finishReason);
 
       const metadata: { model: string; provider: string; temperature: number; finishReason?: string } = {
         model: this.config.model,
@@ -70,9 +122,11 @@ export class BaseAgent implements Agent {
       }
 
       return {
-        agentType: this.type,
-        content: llmResponse.content,
+        ...this.identity(),
+        ...(debate?.ownResponse ? splitDebateResponse(llmResponse.content) : { content: llmResponse.content }),
+        ...(debate && { round: debate.round }),
         confidence,
+        confidenceSource: logprobConfidence === undefined ? 'heuristic' : 'logprobs',
         executionTime,
         tokenUsage: llmResponse.usage || {
           promptTokens: 0,
@@ -85,8 +139,9 @@ export class BaseAgent implements Agent {
       const executionTime = Date.now() - startTime;
       
       return {
-        agentType: this.type,
+        ...this.identity(),
         content: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        ...(context?.debate && { round: context.debate.round }),
         confidence: 0,
         executionTime,
         tokenUsage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
@@ -102,15 +157,19 @@ export class BaseAgent implements Agent {
 
   async* generateStreamResponse(
     messages: LLMMessage[],
-    context?: any
+    context?: AgentContext
   ): AsyncGenerator<TrinityStreamChunk, void, unknown> {
     const startTime = Date.now();
+    const debate = context?.debate;
+    const round = debate ? { round: debate.round } : {};
     
     try {
       // Send agent start event
       yield {
         type: 'agent_start',
         agentType: this.type,
+        agentName: this.config.name,
+        ...round,
         content: '',
         delta: '',
         isComplete: false,
@@ -118,13 +177,9 @@ export class BaseAgent implements Agent {
       };
 
       // Prepare messages with agent-specific system prompt
-      const agentMessages: LLMMessage[] = [
-        { role: 'system', content: this.config.systemPrompt },
-        ...messages,
-      ];
+      const agentMessages = this.prepareMessages(messages, debate);
 
-      // Get API key from context or use empty string
-      const apiKey = context?.apiKey || '';
+      const apiKey = this.requireApiKey(context);
 
       // Generate streaming response
       const streamGenerator = generateLLMStreamResponse(agentMessages, {
@@ -134,12 +189,18 @@ export class BaseAgent implements Agent {
         temperature: this.config.temperature,
         maxTokens: this.config.maxTokens,
         stream: true,
+        logprobs: true,
+        ...(context?.signal && { signal: context.signal }),
       });
 
       let content = '';
+      let tokenUsage: AgentResponse['tokenUsage'] | undefined;
+      let logprobs: number[] | undefined;
       
       for await (const chunk of streamGenerator) {
         content = chunk.content;
+        tokenUsage = chunk.usage ?? tokenUsage;
+        logprobs = chunk.logprobs ?? logprobs;
         
                   const streamMetadata: { confidence?: number; executionTime?: number; tokenUsage?: { promptTokens: number; completionTokens: number; totalTokens: number } } = {};
           if (chunk.usage) {
@@ -149,6 +210,7 @@ export class BaseAgent implements Agent {
           yield {
             type: 'agent_chunk',
             agentType: this.type,
+            ...round,
             content: chunk.content,
             delta: chunk.delta,
             isComplete: chunk.isComplete,
@@ -159,18 +221,27 @@ export class BaseAgent implements Agent {
 
       // Send agent complete event
       const executionTime = Date.now() - startTime;
-      const confidence = this.calculateConfidence(content);
+      const logprobConfidence = confidenceFromLogprobs(logprobs);
+      const confidence = logprobConfidence ?? this.calculateConfidence(content);
+      const { critique, content: answer } = debate?.ownResponse ? splitDebateResponse(content) : { critique: undefined, content };
       
       yield {
         type: 'agent_complete',
         agentType: this.type,
-        content,
+        agentName: this.config.name,
+        ...round,
+        content: answer,
         delta: '',
         isComplete: true,
         timestamp: Date.now(),
         metadata: {
           confidence,
+          confidenceSource: logprobConfidence === undefined ? 'heuristic' : 'logprobs',
           executionTime,
+          model: this.config.model,
+          provider: this.config.provider,
+          ...(tokenUsage && { tokenUsage }),
+          ...(critique && { critique }),
         },
       };
       
@@ -178,6 +249,8 @@ export class BaseAgent implements Agent {
       yield {
         type: 'agent_complete',
         agentType: this.type,
+        agentName: this.config.name,
+        ...round,
         content: `Error: ${error instanceof Error ? error.message : 'Unknown error'}`,
         delta: '',
         isComplete: true,
@@ -185,11 +258,29 @@ export class BaseAgent implements Agent {
         metadata: {
           confidence: 0,
           executionTime: Date.now() - startTime,
+          finishReason: 'error',
         },
       };
     }
   }
 
+  // Fail with the agent and provider named rather than sending the provider an empty key
+  private requireApiKey(context?: AgentContext): string {
+    if (!context?.apiKey) {
+      throw new Error(`Missing API key for agent ${this.config.name} on provider ${this.config.provider}`);
+    }
+    return context.apiKey;
+  }
+
+  // Who produced a response, for the orchestrator and the UI
+  protected identity(): Pick<AgentResponse, 'agentType' | 'agentName' | 'agentDescription'> {
+    return {
+      agentType: this.type,
+      agentName: this.config.name,
+      ...(this.config.description && { agentDescription: this.config.description }),
+    };
+  }
+
   updateConfig(config: Partial<AgentConfig>): void {
     this.config = { ...this.config, ...config };
   }
@@ -328,7 +419,7 @@ export class AgentFactory {
       case 'factual':
         return new FactualAgent(config);
       default:
-        throw new Error(`Unknown agent type: ${config.type}`);
+        return new BaseAgent(config);
     }
   }
 
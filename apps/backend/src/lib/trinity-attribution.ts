@@ -0,0 +1,144 @@
+import type { AgentResponse, AttributionMethod, TrinityResponse } from './trinity-mode.js';
+import { cosineSimilarity, generateEmbeddingsBatch } from './embeddings.js';
+
+// Embeds texts, returning vectors in the same order
+export type SentenceEmbedder = (texts: string[], apiKey?: string) => Promise<number[][]>;
+
+// Least similarity for a final-answer sentence to count as taken from an agent
+const MATCH_THRESHOLD: Record<AttributionMethod, number> = {
+  embedding: 0.5,
+  lexical: 0.25,
+};
+const MAX_KEY_INSIGHTS = 3;
+
+// Only on the key given: the server's key would spend where no ledger sees it
+export const embedSentences: SentenceEmbedder = async (texts, apiKey) => {
+  if (!apiKey) {
+    throw new Error('No OpenAI API key to embed with');
+  }
+  const { results } = await generateEmbeddingsBatch(texts, apiKey);
+  return [...results].sort((a, b) => a.index - b.index).map(result => result.embedding);
+};
+
+/**
+ * Prose sentences of a markdown answer, without list markers, headings,
+ * emphasis or code blocks. Fragments under three words are dropped.
+ */
+export function splitSentences(text: string): string[] {
+  return text
+    .replace(/```[\s\S]*?```/g, '\n')
+    .split(/\n+|(?<=[.!?])\s+/)
+    .map(sentence => sentence
+      .replace(/^\s*(?:#{1,6}|[-*+>]|\d+[.)])\s+/, '')
+      .replace(/[*_`]/g, '')
+      .trim())
+    .filter(sentence => sentence.split(/\s+/).length >= 3);
+}
+
+function wordSet(sentence: string): Set<string> {
+  return new Set(sentence.toLowerCase().match(/[\p{L}\p{N}']{3,}/gu) ?? []);
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  const shared = [...a].filter(word => b.has(word)).length;
+  const union = a.size + b.size - shared;
+  return union > 0 ? shared / union : 0;
+}
+
+/**
+ * Similarity of each final-answer sentence to each agent sentence: embeddings
+ * when they can be had, word overlap otherwise. An answer copied verbatim from
+ * one agent, as best_of_three does, needs no embeddings to trace, and without
+ * an embedder or a key there is nothing to embed with.
+ */
+async function sentenceSimilarity(
+  finalSentences: string[],
+  agentSentences: string[][],
+  copiedVerbatim: boolean,
+  options: { embed?: SentenceEmbedder | undefined; apiKey?: string | undefined }
+): Promise<{ method: AttributionMethod; similarity: (finalIndex: number, agentIndex: number, sentenceIndex: number) => number }> {
+  if (!copiedVerbatim && finalSentences.length > 0 && (options.embed || options.apiKey)) {
+    try {
+      const embeddings = await (options.embed ?? embedSentences)(
+        [...finalSentences, ...agentSentences.flat()],
+        options.apiKey
+      );
+
+      let offset = finalSentences.length;
+      const agentEmbeddings = agentSentences.map(sentences => {
+        const slice = embeddings.slice(offset, offset + sentences.length);
+        offset += sentences.length;
+        return slice;
+      });
+
+      return {
+        method: 'embedding',
+        similarity: (finalIndex, agentIndex, sentenceIndex) =>
+          cosineSimilarity(embeddings[finalIndex]!, agentEmbeddings[agentIndex]![sentenceIndex]!),
+      };
+    } catch (error) {
+      console.warn('Embedding attribution failed, matching by word overlap:', error instanceof Error ? error.message : error);
+    }
+  }
+
+  const finalWords = finalSentences.map(wordSet);
+  const agentWords = agentSentences.map(sentences => sentences.map(wordSet));
+  return {
+    method: 'lexical',
+    similarity: (finalIndex, agentIndex, sentenceIndex) =>
+      jaccard(finalWords[finalIndex]!, agentWords[agentIndex]![sentenceIndex]!),
+  };
+}
+
+/**
+ * Trace each sentence of the final answer to the agent sentence it is closest
+ * to. An agent's contribution is the share of the final answer, by length,
+ * traced to it; sentences close to no agent are the orchestrator's own.
+ */
+export async function attributeSynthesis(
+  responses: AgentResponse[],
+  finalResponse: string,
+  options: { embed?: SentenceEmbedder | undefined; apiKey?: string | undefined } = {}
+): Promise<TrinityResponse['attribution']> {
+  const finalSentences = splitSentences(finalResponse);
+  const agentSentences = responses.map(response => splitSentences(response.content));
+  const copiedVerbatim = responses.some(response => response.content.trim() === finalResponse.trim());
+
+  const { method, similarity } = await sentenceSimilarity(finalSentences, agentSentences, copiedVerbatim, options);
+
+  const sources = finalSentences.map((_, finalIndex) => {
+    let best: { agentIndex: number; sentenceIndex: number; score: number } | undefined;
+    agentSentences.forEach((sentences, agentIndex) => sentences.forEach((_, sentenceIndex) => {
+      const score = similarity(finalIndex, agentIndex, sentenceIndex);
+      if (!best || score > best.score) {
+        best = { agentIndex, sentenceIndex, score };
+      }
+    }));
+    return best && best.score >= MATCH_THRESHOLD[method] ? best : undefined;
+  });
+  const totalLength = finalSentences.reduce((sum, sentence) => sum + sentence.length, 0);
+
+  const attribution: TrinityResponse['attribution'] = {};
+  responses.forEach((response, agentIndex) => {
+    const matched = finalSentences.flatMap((sentence, finalIndex) => {
+      const source = sources[finalIndex];
+      return source?.agentIndex === agentIndex ? [{ sentence, source }] : [];
+    });
+    const insights = [...matched]
+      .sort((a, b) => b.source.score - a.source.score)
+      .map(({ source }) => agentSentences[agentIndex]![source.sentenceIndex]!);
+
+    attribution[response.agentType] = {
+      contributionPercentage: totalLength > 0
+        ? matched.reduce((sum, { sentence }) => sum + sentence.length, 0) / totalLength
+        : 0,
+      keyInsights: [...new Set(insights)].slice(0, MAX_KEY_INSIGHTS),
+      sentences: matched.map(({ sentence }) => sentence),
+      method,
+      confidence: response.confidence,
+      confidenceSource: response.confidenceSource ?? 'heuristic',
+    };
+  });
+
+  return attribution;
+}
@@ -0,0 +1,645 @@
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import {
+  LLMServiceFactory,
+  RecordedLLMService,
+  type LLMMessage,
+  type LLMRecording,
+  type LLMResponse,
+} from './llm.js';
+import { TrinityExecutionManager } from './trinity-manager.js';
+import { HeuristicJudge, LLMJudge } from './trinity-judge.js';
+import { estimateCost, type UsageEntry } from './usage-ledger.js';
+import {
+  DEFAULT_TRINITY_CONFIG,
+  type AgentResponse,
+  type BlendingStrategy,
+  type ResponseJudge,
+  type ResponseScore,
+  type TrinityConfig,
+  type TrinityResponse,
+} from './trinity-mode.js';
+import type { TrinityApiKeys } from './trinity-keys.js';
+import type { SentenceEmbedder } from './trinity-attribution.js';
+import { streamingUtils } from './streaming.js';
+
+export const MAX_EVAL_PROMPTS = 50;
+export const MAX_EVAL_CONFIGS = 6;
+
+export const EvalPromptSchema = z.object({
+  id: z.string().regex(/^[\w-]{1,64}$/, 'Prompt id must be 1-64 letters, digits, dashes or underscores'),
+  content: z.string().min(1).max(20000),
+});
+
+export const EvalPromptSetInputSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(500).optional(),
+  prompts: z.array(EvalPromptSchema)
+    .min(1)
+    .max(MAX_EVAL_PROMPTS)
+    .refine(prompts => new Set(prompts.map(prompt => prompt.id)).size === prompts.length, {
+      message: 'Prompt ids must be unique',
+    }),
+});
+
+export type EvalPrompt = z.infer<typeof EvalPromptSchema>;
+export type EvalPromptSetInput = z.infer<typeof EvalPromptSetInputSchema>;
+
+/**
+ * A configuration under evaluation; labels tell configs apart in the comparison
+ */
+export interface EvalConfig {
+  label: string;
+  config: TrinityConfig;
+}
+
+/**
+ * One config's run on one prompt
+ */
+export interface EvalCell {
+  label: string;
+  promptId: string;
+  response?: TrinityResponse; // Same shape as the trinity_responses rows chat stores
+  error?: string;
+  latencyMs: number; // Wall clock; recorded responses replay instantly
+  tokenUsage: {
+    promptTokens: number;
+    completionTokens: number;
+    totalTokens: number;
+  }; // Agents and orchestrator
+  costUsd: number; // What the config costs on this prompt, replayed or not
+  score?: ResponseScore; // The judge's grade of the final answer, compared with the other configs'
+}
+
+/**
+ * One config's totals over the prompt set
+ */
+export interface EvalSummary {
+  label: string;
+  meanScore: number | null; // Null when nothing was scored
+  meanLatencyMs: number;
+  totalTokens: number;
+  costUsd: number;
+  failures: number;
+}
+
+export interface EvalResult {
+  configs: EvalConfig[];
+  cells: EvalCell[];
+  summary: EvalSummary[];
+}
+
+export interface EvalRunOptions {
+  service: RecordedLLMService; // Every LLM call the evaluation makes goes through it
+  apiKeys?: Array<TrinityApiKeys | undefined>; // By config index
+  judge?: ResponseJudge; // Grades final answers; an LLM judge on a config's orchestrator otherwise
+  embed?: SentenceEmbedder; // Embeds sentences for attribution; OpenAI embeddings otherwise
+  onProgress?: (processed: number) => void; // After each cell, with the number of cells run so far
+}
+
+// Sentence embeddings by sentence
+export type EmbeddingRecording = Record<string, number[]>;
+
+/**
+ * Attribution embeddings, recorded like LLM responses: sentences already in
+ * the recording are never embedded again. Others go to `fallback` and are
+ * added to the recording; without one they fail, and attribution falls back
+ * to word overlap.
+ */
+export class RecordedEmbedder {
+  constructor(
+    readonly recording: EmbeddingRecording = {},
+    private readonly fallback?: SentenceEmbedder
+  ) {}
+
+  readonly embed: SentenceEmbedder = async (texts, apiKey) => {
+    const missing = [...new Set(texts.filter(text => !Object.hasOwn(this.recording, text)))];
+    if (missing.length > 0) {
+      if (!this.fallback) {
+        throw new Error(`No recorded embedding for ${missing.length} sentences`);
+      }
+      const embeddings = await this.fallback(missing, apiKey);
+      missing.forEach((text, index) => {
+        this.recording[text] = embeddings[index]!;
+      });
+    }
+    return texts.map(text => this.recording[text]!);
+  };
+}
+
+/**
+ * Run every config against every prompt, recording each LLM response in
+ * `options.service`, then have a judge grade the configs' answers to each
+ * prompt side by side. Configs run one after another, prompts in order, so
+ * providers see one Trinity run at a time.
+ */
+export async function runTrinityEvaluation(
+  prompts: EvalPrompt[],
+  configs: EvalConfig[],
+  options: EvalRunOptions
+): Promise<EvalResult> {
+  const cells: EvalCell[] = [];
+  for (const [index, { label, config }] of configs.entries()) {
+    for (const prompt of prompts) {
+      cells.push(await runEvalCell(label, config, prompt, options, options.apiKeys?.[index]));
+      options.onProgress?.(cells.length);
+    }
+  }
+
+  // The orchestrator of the first config with a key for it, on that key
+  const judged = configs.findIndex((_, index) => options.apiKeys?.[index]?.orchestrator);
+  const orchestrator = configs[judged]?.config.orchestrator ?? DEFAULT_TRINITY_CONFIG.orchestrator;
+  const judge = options.judge ?? new LLMJudge({
+    model: orchestrator.model,
+    provider: orchestrator.provider,
+    maxTokens: orchestrator.maxTokens,
+    apiKey: options.apiKeys?.[judged]?.orchestrator,
+  });
+  for (const prompt of prompts) {
+    await judgeEvalCells(cells.filter(cell => cell.promptId === prompt.id), prompt, judge, options.service);
+  }
+
+  return { configs, cells, summary: summarizeEvaluation(configs, cells) };
+}
+
+/**
+ * Run each config again under each blending strategy, reusing the recorded
+ * agent answers. Agent calls and conflict analysis replay from the recording;
+ * only blending calls that were never recorded reach a provider, through the
+ * service's fallback, and are added to the recording for next time.
+ */
+export async function replayTrinityEvaluation(
+  prompts: EvalPrompt[],
+  configs: EvalConfig[],
+  strategies: BlendingStrategy[],
+  options: EvalRunOptions
+): Promise<EvalResult> {
+  const replays = replayConfigs(configs, strategies);
+  const apiKeys = options.apiKeys && configs.flatMap((_, index) => strategies.map(() => options.apiKeys![index]));
+
+  return runTrinityEvaluation(prompts, replays, { ...options, ...(apiKeys && { apiKeys }) });
+}
+
+// Each config under each strategy, in the order replayTrinityEvaluation runs them
+export function replayConfigs(configs: EvalConfig[], strategies: BlendingStrategy[]): EvalConfig[] {
+  return configs.flatMap(({ label, config }) => strategies.map(strategy => ({
+    label: `${label} · ${strategy}`,
+    config: { ...config, orchestrator: { ...config.orchestrator, blendingStrategy: strategy } },
+  })));
+}
+
+async function runEvalCell(
+  label: string,
+  config: TrinityConfig,
+  prompt: EvalPrompt,
+  { service, embed }: EvalRunOptions,
+  apiKeys: TrinityApiKeys | undefined
+): Promise<EvalCell> {
+  const manager = new TrinityExecutionManager({
+    orchestratorApiKey: apiKeys?.orchestrator,
+    embeddingApiKey: apiKeys?.embedding,
+    embed,
+  });
+  const messages: LLMMessage[] = [{ role: 'user', content: prompt.content }];
+  const startTime = Date.now();
+
+  try {
+    const response = await LLMServiceFactory.runWith(service, () => manager.execute(messages, config, apiKeys?.agents));
+    return {
+      label,
+      promptId: prompt.id,
+      response,
+      latencyMs: Date.now() - startTime,
+      ...runCost(response),
+    };
+  } catch (error) {
+    return {
+      label,
+      promptId: prompt.id,
+      error: error instanceof Error ? error.message : 'Trinity run failed',
+      latencyMs: Date.now() - startTime,
+      tokenUsage: { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+      costUsd: 0,
+    };
+  }
+}
+
+// Tokens and cost of every agent call, debate rounds included, plus the orchestrator's
+function runCost(response: TrinityResponse): Pick<EvalCell, 'tokenUsage' | 'costUsd'> {
+  const calls = (response.rounds?.flatMap(round => round.responses) ?? response.agentResponses).map(agent => ({
+    provider: agent.metadata.provider,
+    model: agent.metadata.model,
+    ...agent.tokenUsage,
+  }));
+  const orchestrator = response.orchestratorMetadata.orchestratorUsage;
+  if (orchestrator) {
+    calls.push(orchestrator);
+  }
+
+  const promptTokens = calls.reduce((sum, call) => sum + call.promptTokens, 0);
+  const completionTokens = calls.reduce((sum, call) => sum + call.completionTokens, 0);
+  return {
+    tokenUsage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+    costUsd: calls.reduce((sum, call) => sum + estimateCost(call.provider, call.model, call.promptTokens, call.completionTokens), 0),
+  };
+}
+
+/**
+ * Grade the configs' final answers to one prompt in a single judge call, each
+ * answer posing as an agent response. Falls back to the offline heuristic if
+ * the judge fails.
+ */
+async function judgeEvalCells(
+  cells: EvalCell[],
+  prompt: EvalPrompt,
+  judge: ResponseJudge,
+  service: RecordedLLMService
+): Promise<void> {
+  const answered = cells.filter(cell => cell.response);
+  if (answered.length === 0) {
+    return;
+  }
+
+  // Short ids keep the judge's reply easy to match back to configs
+  const candidates: AgentResponse[] = answered.map((cell, index) => {
+    const response = cell.response!;
+    return {
+      agentType: `config-${index + 1}`,
+      agentName: cell.label,
+      content: response.finalResponse,
+      confidence: response.agentResponses.reduce((sum, agent) => sum + agent.confidence, 0) / Math.max(response.agentResponses.length, 1),
+      executionTime: cell.latencyMs,
+      tokenUsage: cell.tokenUsage,
+      metadata: {
+        model: response.orchestratorMetadata.orchestratorUsage?.model ?? DEFAULT_TRINITY_CONFIG.orchestrator.model,
+        provider: response.orchestratorMetadata.orchestratorUsage?.provider ?? DEFAULT_TRINITY_CONFIG.orchestrator.provider,
+        temperature: 0,
+        finishReason: 'stop',
+      },
+    };
+  });
+  const messages: LLMMessage[] = [{ role: 'user', content: prompt.content }];
+
+  let scores: ResponseScore[];
+  try {
+    scores = (await LLMServiceFactory.runWith(service, () => judge.judge(candidates, messages))).scores;
+  } catch (error) {
+    console.warn(`${judge.name} judge failed, scoring offline:`, error instanceof Error ? error.message : error);
+    scores = (await new HeuristicJudge().judge(candidates)).scores;
+  }
+
+  answered.forEach((cell, index) => {
+    const score = scores.find(score => score.agentType === candidates[index]!.agentType);
+    if (score) {
+      cell.score = { ...score, agentType: cell.label };
+    }
+  });
+}
+
+export function summarizeEvaluation(configs: EvalConfig[], cells: EvalCell[]): EvalSummary[] {
+  return configs.map(({ label }) => {
+    const own = cells.filter(cell => cell.label === label);
+    const scored = own.filter(cell => cell.score);
+    return {
+      label,
+      meanScore: scored.length > 0
+        ? scored.reduce((sum, cell) => sum + cell.score!.score, 0) / scored.length
+        : null,
+      meanLatencyMs: own.length > 0 ? own.reduce((sum, cell) => sum + cell.latencyMs, 0) / own.length : 0,
+      totalTokens: own.reduce((sum, cell) => sum + cell.tokenUsage.totalTokens, 0),
+      costUsd: own.reduce((sum, cell) => sum + cell.costUsd, 0),
+      failures: own.filter(cell => cell.error).length,
+    };
+  });
+}
+
+/**
+ * Ledger entries for the provider calls an evaluation actually made; replayed
+ * responses cost nothing
+ */
+export function evalUsageEntries(userId: string, liveCalls: LLMResponse[]): UsageEntry[] {
+  return liveCalls
+    .filter(call => call.usage && call.usage.totalTokens > 0)
+    .map(call => ({
+      userId,
+      source: 'trinity_eval',
+      provider: call.provider,
+      model: call.model,
+      promptTokens: call.usage!.promptTokens,
+      completionTokens: call.usage!.completionTokens,
+    }));
+}
+
+// Storage
+
+/**
+ * A saved prompt set, as returned to clients
+ */
+export interface EvalPromptSetInfo {
+  id: string;
+  name: string;
+  description: string | null;
+  prompts: EvalPrompt[];
+  updatedAt: Date;
+}
+
+export type EvalRunStatus = 'running' | 'completed' | 'failed';
+
+/**
+ * A saved run without its recording, as returned to clients
+ */
+export interface EvalRunInfo {
+  id: string;
+  promptSetId: string;
+  replayOfId: string | null;
+  status: EvalRunStatus;
+  total: number; // Cells the run makes
+  processed: number;
+  lastError: string | null;
+  configs: EvalConfig[];
+  summary: EvalSummary[]; // Empty until the run completes
+  cells?: EvalCell[]; // Left out of listings
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+/**
+ * Where a running evaluation stands, as sent over the streaming channel
+ */
+export interface EvalRunProgress {
+  runId: string;
+  status: EvalRunStatus;
+  total: number;
+  processed: number;
+  lastError: string | null;
+}
+
+/**
+ * What a finished evaluation saves: its results and everything needed to replay it
+ */
+export interface EvalRunOutput {
+  result: EvalResult;
+  recording: LLMRecording;
+  embeddings: EmbeddingRecording;
+}
+
+const PROMPT_SET_SELECT = { id: true, name: true, description: true, prompts: true, updatedAt: true } as const;
+const RUN_SELECT = {
+  id: true,
+  promptSetId: true,
+  replayOfId: true,
+  status: true,
+  total: true,
+  processed: true,
+  lastError: true,
+  configs: true,
+  summary: true,
+  createdAt: true,
+  completedAt: true,
+} as const;
+
+// A trinity_eval_prompt_sets row as PROMPT_SET_SELECT picks it
+interface PromptSetRow {
+  id: string;
+  name: string;
+  description: string | null;
+  prompts: unknown;
+  updatedAt: Date;
+}
+
+// A trinity_eval_runs row as RUN_SELECT picks it, plus what some queries select on top
+interface RunRow {
+  id: string;
+  promptSetId: string;
+  replayOfId: string | null;
+  status: string;
+  total: number;
+  processed: number;
+  lastError: string | null;
+  configs: unknown;
+  summary: unknown;
+  results?: unknown;
+  recording?: unknown;
+  embeddings?: unknown;
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+// The prompt set and run tables, as the Prisma client has them
+interface PromptSetDatabase {
+  trinityEvalPromptSet: {
+    findMany(args: object): Promise<PromptSetRow[]>;
+    findFirst(args: object): Promise<PromptSetRow | null>;
+    create(args: object): Promise<PromptSetRow>;
+    deleteMany(args: object): Promise<{ count: number }>;
+  };
+}
+
+interface RunDatabase {
+  trinityEvalRun: {
+    findMany(args: object): Promise<RunRow[]>;
+    findFirst(args: object): Promise<RunRow | null>;
+    create(args: object): Promise<RunRow>;
+    update(args: object): Promise<RunRow>;
+    updateMany(args: object): Promise<{ count: number }>;
+  };
+}
+
+function toPromptSetInfo(row: PromptSetRow): EvalPromptSetInfo {
+  return { ...row, prompts: row.prompts as EvalPrompt[] };
+}
+
+function toRunInfo(row: RunRow): EvalRunInfo {
+  const { results, ...rest } = row;
+  return {
+    ...rest,
+    status: row.status as EvalRunStatus,
+    configs: row.configs as EvalConfig[],
+    summary: row.summary as EvalSummary[],
+    ...(results !== undefined && { cells: results as EvalCell[] }),
+  };
+}
+
+export async function listEvalPromptSets(prisma: PromptSetDatabase, userId: string): Promise<EvalPromptSetInfo[]> {
+  const rows = await prisma.trinityEvalPromptSet.findMany({
+    where: { userId },
+    orderBy: { name: 'asc' },
+    select: PROMPT_SET_SELECT,
+  });
+  return rows.map(toPromptSetInfo);
+}
+
+export async function getEvalPromptSet(prisma: PromptSetDatabase, userId: string, id: string): Promise<EvalPromptSetInfo> {
+  const row = await prisma.trinityEvalPromptSet.findFirst({ where: { id, userId }, select: PROMPT_SET_SELECT });
+  if (!row) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Prompt set not found' });
+  }
+  return toPromptSetInfo(row);
+}
+
+export async function createEvalPromptSet(
+  prisma: PromptSetDatabase,
+  userId: string,
+  input: EvalPromptSetInput
+): Promise<EvalPromptSetInfo> {
+  const existing = await prisma.trinityEvalPromptSet.findFirst({ where: { userId, name: input.name }, select: { id: true } });
+  if (existing) {
+    throw new TRPCError({ code: 'CONFLICT', message: `A prompt set named "${input.name}" already exists` });
+  }
+
+  const row = await prisma.trinityEvalPromptSet.create({
+    data: {
+      userId,
+      name: input.name,
+      description: input.description ?? null,
+      prompts: input.prompts,
+    },
+    select: PROMPT_SET_SELECT,
+  });
+  return toPromptSetInfo(row);
+}
+
+// Deletes the set's runs with it
+export async function deleteEvalPromptSet(prisma: PromptSetDatabase, userId: string, id: string): Promise<void> {
+  const { count } = await prisma.trinityEvalPromptSet.deleteMany({ where: { id, userId } });
+  if (count === 0) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Prompt set not found' });
+  }
+}
+
+function sendProgress(userId: string, progress: EvalRunProgress): void {
+  streamingUtils.sendToUser(userId, {
+    type: 'trinity_eval_progress',
+    id: `trinity_eval_${progress.runId}_${progress.processed}_${progress.status}`,
+    userId,
+    data: progress,
+    timestamp: Date.now(),
+  });
+}
+
+function runProgress(run: EvalRunInfo): EvalRunProgress {
+  return {
+    runId: run.id,
+    status: run.status,
+    total: run.total,
+    processed: run.processed,
+    lastError: run.lastError,
+  };
+}
+
+/**
+ * Save a running evaluation and carry it out in the background, storing and
+ * sending its progress after each cell. `execute` does the work; its output is
+ * saved when it finishes, and a failure marks the run failed. The run is
+ * returned while it is still running.
+ */
+export async function startEvalRun(
+  prisma: RunDatabase,
+  userId: string,
+  input: { promptSetId: string; replayOfId?: string | undefined; configs: EvalConfig[]; total: number },
+  execute: (onProgress: (processed: number) => void) => Promise<EvalRunOutput>,
+  notify: (userId: string, progress: EvalRunProgress) => void = sendProgress
+): Promise<EvalRunInfo> {
+  const run = toRunInfo(await prisma.trinityEvalRun.create({
+    data: {
+      userId,
+      promptSetId: input.promptSetId,
+      replayOfId: input.replayOfId ?? null,
+      status: 'running',
+      total: input.total,
+      configs: input.configs,
+      results: [],
+      summary: [],
+      recording: {},
+      embeddings: {},
+    },
+    select: RUN_SELECT,
+  }));
+
+  const update = async (data: Record<string, unknown>) => {
+    const updated = toRunInfo(await prisma.trinityEvalRun.update({ where: { id: run.id }, data, select: RUN_SELECT }));
+    notify(userId, runProgress(updated));
+  };
+
+  // Progress writes go out one at a time, so a slow one can't land after the result
+  let progress = Promise.resolve();
+  const onProgress = (processed: number) => {
+    progress = progress
+      .then(() => update({ processed }))
+      .catch(error => console.warn(`Failed to save progress of evaluation run ${run.id}:`, error));
+  };
+
+  void (async () => {
+    try {
+      const output = await execute(onProgress);
+      await progress;
+      await update({
+        status: 'completed',
+        processed: input.total,
+        results: output.result.cells,
+        summary: output.result.summary,
+        recording: output.recording,
+        embeddings: output.embeddings,
+        completedAt: new Date(),
+      });
+    } catch (error) {
+      console.error(`Evaluation run ${run.id} failed:`, error);
+      await progress;
+      await update({
+        status: 'failed',
+        lastError: error instanceof Error ? error.message : 'Evaluation failed',
+        completedAt: new Date(),
+      }).catch(updateError => console.error(`Failed to mark evaluation run ${run.id} failed:`, updateError));
+    }
+  })();
+
+  return run;
+}
+
+/**
+ * Fail the runs a server restart cut off; their work in memory is lost.
+ * Called once at startup.
+ */
+export async function failInterruptedEvalRuns(prisma: RunDatabase): Promise<void> {
+  await prisma.trinityEvalRun.updateMany({
+    where: { status: 'running' },
+    data: { status: 'failed', lastError: 'Interrupted by a server restart', completedAt: new Date() },
+  });
+}
+
+// Newest first, without cells
+export async function listEvalRuns(prisma: RunDatabase, userId: string, promptSetId?: string): Promise<EvalRunInfo[]> {
+  const rows = await prisma.trinityEvalRun.findMany({
+    where: { userId, ...(promptSetId && { promptSetId }) },
+    orderBy: { createdAt: 'desc' },
+    select: RUN_SELECT,
+  });
+  return rows.map(toRunInfo);
+}
+
+export async function getEvalRun(prisma: RunDatabase, userId: string, id: string): Promise<EvalRunInfo> {
+  const row = await prisma.trinityEvalRun.findFirst({ where: { id, userId }, select: { ...RUN_SELECT, results: true } });
+  if (!row) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Evaluation run not found' });
+  }
+  return toRunInfo(row);
+}
+
+// The run's recorded LLM responses and attribution embeddings, for replaying it
+export async function getEvalRunRecording(
+  prisma: RunDatabase,
+  userId: string,
+  id: string
+): Promise<{ recording: LLMRecording; embeddings: EmbeddingRecording }> {
+  const row = await prisma.trinityEvalRun.findFirst({
+    where: { id, userId },
+    select: { status: true, recording: true, embeddings: true },
+  });
+  if (!row) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Evaluation run not found' });
+  }
+  if (row.status !== 'completed') {
+    throw new TRPCError({ code: 'PRECONDITION_FAILED', message: 'Only completed evaluation runs can be replayed' });
+  }
+  return { recording: row.recording as LLMRecording, embeddings: row.embeddings as EmbeddingRecording };
+}
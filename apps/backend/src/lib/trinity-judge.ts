@@ -0,0 +1,184 @@
+import { z } from 'zod';
+import type {
+  AgentResponse,
+  JudgeCriterion,
+  JudgeResult,
+  ResponseJudge,
+  ResponseScore,
+} from './trinity-mode.js';
+import type { LLMMessage } from './llm.js';
+import { generateLLMResponse, messageText, parseJsonReply } from './llm.js';
+
+export const JUDGE_CRITERIA: readonly JudgeCriterion[] = ['relevance', 'correctness', 'completeness'];
+
+/**
+ * Offline judge that scores answers on confidence, length, speed and finish
+ * reason without calling a model. It can't tell a right answer from a long
+ * one, so it only stands in when a model judge can't run.
+ */
+export class HeuristicJudge implements ResponseJudge {
+  readonly name = 'heuristic';
+
+  async judge(responses: AgentResponse[]): Promise<JudgeResult> {
+    return {
+      scores: responses.map(response => ({
+        agentType: response.agentType,
+        judge: this.name,
+        score: heuristicScore(response),
+        rationale: 'Scored offline from confidence, length, speed and finish reason.',
+      })),
+    };
+  }
+}
+
+export function heuristicScore(response: AgentResponse): number {
+  let score = response.confidence * 0.4; // Base confidence weight
+
+  // Content quality indicators
+  if (response.content.length > 100) score += 0.1;
+  if (response.content.length > 500) score += 0.1;
+
+  // Execution time bonus (faster is better, up to a point)
+  if (response.executionTime < 5000) score += 0.1;
+  else if (response.executionTime > 30000) score -= 0.1;
+
+  // Finish reason quality
+  if (response.metadata.finishReason === 'stop') score += 0.1;
+  else if (response.metadata.finishReason === 'length') score -= 0.05;
+
+  // Persona-specific scoring; user-defined personas get no keyword bonus
+  switch (response.agentType) {
+    case 'analytical':
+      if (response.content.includes('analysis') || response.content.includes('data')) score += 0.1;
+      break;
+    case 'creative':
+      if (response.content.includes('creative') || response.content.includes('innovative')) score += 0.1;
+      break;
+    case 'factual':
+      if (response.content.includes('fact') || response.content.includes('research')) score += 0.1;
+      break;
+  }
+
+  return Math.max(0, Math.min(1, score));
+}
+
+/**
+ * LLM-as-judge: one call grades every answer against the rubric for the
+ * user's question
+ */
+export class LLMJudge implements ResponseJudge {
+  readonly name = 'llm';
+
+  constructor(private readonly config: {
+    model: string;
+    provider: string;
+    maxTokens: number;
+    apiKey?: string | undefined;
+    signal?: AbortSignal | undefined;
+  }) {}
+
+  async judge(
+    responses: AgentResponse[],
+    originalMessages: LLMMessage[],
+    apiKey?: string
+  ): Promise<JudgeResult> {
+    const key = apiKey || this.config.apiKey;
+    if (!key) throw new Error('LLM judge requires an API key');
+
+    const lastMessage = originalMessages[originalMessages.length - 1];
+    const systemPrompt = `You are an impartial judge grading ${responses.length} answers to the same question.
+
+Score each answer from 1 to 10 on:
+- relevance: does it address what was actually asked?
+- correctness: are its claims and reasoning accurate?
+- completeness: does it cover everything the question needs?
+
+Judge substance only. Length, confidence and style earn nothing by themselves.
+
+Question: ${lastMessage ? messageText(lastMessage.content) : 'Unknown'}
+
+Answers:
+${responses.map(r => `
+[${r.agentType}]: ${r.content}
+`).join('\n')}
+
+Reply with JSON only, one entry per answer id, in this shape:
+{"scores": [{"agent": "<id>", "relevance": 8, "correctness": 7, "completeness": 6, "rationale": "One or two sentences."}]}`;
+
+    const llmResponse = await generateLLMResponse([
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: 'Grade the answers.' },
+    ], {
+      model: this.config.model,
+      provider: this.config.provider as any,
+      apiKey: key,
+      temperature: 0,
+      maxTokens: this.config.maxTokens,
+      stream: false,
+      ...(this.config.signal && { signal: this.config.signal }),
+    });
+
+    const scores = parseJudgeScores(llmResponse.content, responses, this.name);
+    if (!scores) {
+      throw new Error('LLM judge did not score every response');
+    }
+
+    return {
+      scores,
+      ...(llmResponse.usage && {
+        usage: {
+          model: this.config.model,
+          provider: this.config.provider,
+          ...llmResponse.usage,
+        },
+      }),
+    };
+  }
+}
+
+// What the LLM judge is asked to reply with
+const JudgeReplySchema = z.object({
+  scores: z.array(z.object({
+    agent: z.string(),
+    relevance: z.number().min(1).max(10),
+    correctness: z.number().min(1).max(10),
+    completeness: z.number().min(1).max(10),
+    rationale: z.string().default(''),
+  })),
+});
+
+/**
+ * Scores from a judge's reply in the order of the responses, or null if the
+ * reply is unreadable or leaves any response out
+ */
+export function parseJudgeScores(content: string, responses: AgentResponse[], judge: string): ResponseScore[] | null {
+  let reply: z.infer<typeof JudgeReplySchema>;
+  try {
+    reply = parseJsonReply(content, JudgeReplySchema);
+  } catch {
+    return null;
+  }
+
+  const scores: ResponseScore[] = [];
+  for (const response of responses) {
+    const entry = reply.scores.find(score => score.agent.trim() === response.agentType);
+    if (!entry) {
+      return null;
+    }
+
+    const criteria = {
+      relevance: entry.relevance,
+      correctness: entry.correctness,
+      completeness: entry.completeness,
+    };
+    const total = JUDGE_CRITERIA.reduce((sum, criterion) => sum + criteria[criterion], 0);
+    scores.push({
+      agentType: response.agentType,
+      judge,
+      score: total / (JUDGE_CRITERIA.length * 10),
+      criteria,
+      rationale: entry.rationale,
+    });
+  }
+  return scores;
+}
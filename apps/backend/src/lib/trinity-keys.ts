@@ -0,0 +1,102 @@
+import { TRPCError } from '@trpc/server';
+import { getUserApiKey, type LLMProvider } from './llm.js';
+import { getEnvApiKey } from './server-keys.js';
+import type { AgentApiKeys, AgentType, TrinityConfig } from './trinity-mode.js';
+
+/**
+ * An agent, or the orchestrator, that has no key for its provider
+ */
+export interface MissingApiKey {
+  agentType?: AgentType; // Left out for the orchestrator
+  agentName: string;
+  provider: string;
+  keyName?: string; // The named key that wasn't found
+}
+
+/**
+ * Cause attached to the BAD_REQUEST TRPCError thrown when a run is missing keys
+ */
+export class MissingApiKeyError extends Error {
+  constructor(public readonly missing: MissingApiKey[]) {
+    super(missing.map(formatMissingKey).join('; '));
+    this.name = 'MissingApiKeyError';
+  }
+}
+
+/**
+ * Keys for a Trinity run: one per agent, by agent type, and one for the orchestrator
+ */
+export interface TrinityApiKeys {
+  agents: AgentApiKeys;
+  orchestrator: string;
+  embedding?: string; // The user's own OpenAI key, for attribution embeddings; never the server's
+}
+
+function formatMissingKey(missing: MissingApiKey): string {
+  const key = missing.keyName ? `API key "${missing.keyName}"` : 'API key';
+  const owner = missing.agentType ? `agent ${missing.agentName}` : missing.agentName;
+  return `Missing ${key} for ${owner} on provider ${missing.provider}`;
+}
+
+/**
+ * Look up the key for every enabled agent's provider, and the orchestrator's, before
+ * anything runs. A named key must be one of the user's; otherwise the user's key for
+ * the provider is used, then the server's. Throws a BAD_REQUEST TRPCError
+ * (cause: MissingApiKeyError) listing every agent left without a key.
+ */
+export async function resolveTrinityApiKeys(
+  userId: string,
+  config: TrinityConfig,
+  prisma: any
+): Promise<TrinityApiKeys> {
+  // Agents often share a provider; look each of the user's keys up once
+  const userKeys = new Map<string, Promise<string | null>>();
+  const userKey = (provider: string, keyName?: string): Promise<string | null> => {
+    const id = `${provider}:${keyName ?? ''}`;
+    if (!userKeys.has(id)) {
+      userKeys.set(id, getUserApiKey(userId, provider as LLMProvider, prisma, keyName));
+    }
+    return userKeys.get(id)!;
+  };
+  const lookup = async (provider: string, keyName?: string): Promise<string | null> =>
+    await userKey(provider, keyName) ?? (keyName ? null : getEnvApiKey(provider as LLMProvider) ?? null);
+
+  const missing: MissingApiKey[] = [];
+  const agents: AgentApiKeys = {};
+  for (const agent of config.agents) {
+    if (!agent.enabled) {
+      agents[agent.type] = null;
+      continue;
+    }
+
+    agents[agent.type] = await lookup(agent.provider, agent.keyName);
+    if (!agents[agent.type]) {
+      missing.push({
+        agentType: agent.type,
+        agentName: agent.name,
+        provider: agent.provider,
+        ...(agent.keyName && { keyName: agent.keyName }),
+      });
+    }
+  }
+
+  const { provider, keyName } = config.orchestrator;
+  const orchestrator = await lookup(provider, keyName);
+  if (!orchestrator) {
+    missing.push({
+      agentName: 'the orchestrator',
+      provider,
+      ...(keyName && { keyName }),
+    });
+  }
+
+  if (missing.length > 0) {
+    const cause = new MissingApiKeyError(missing);
+    throw new TRPCError({ code: 'BAD_REQUEST', message: cause.message, cause });
+  }
+
+  // Embeddings aren't metered, so they only run on a key the user pays for
+  const embedding = await userKey('openai');
+
+  return { agents, orchestrator: orchestrator!, ...(embedding && { embedding }) };
+}
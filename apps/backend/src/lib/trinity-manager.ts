@@ -4,33 +4,146 @@ import type {
   TrinityResponse, 
   TrinityStreamChunk, 
   AgentResponse,
+  AgentApiKeys,
   Agent,
-  Orchestrator 
+  AgentConfig,
+  AgentContext,
+  ConflictAnalysis,
+  DebateContext,
+  DebateRound,
+  Orchestrator,
+  OrchestratorUsage,
+  ResponseScore,
+  TrinityConflict
 } from './trinity-mode.js';
 import type { LLMMessage } from './llm.js';
+import type { SentenceEmbedder } from './trinity-attribution.js';
 import { TrinityOrchestrator } from './trinity-orchestrator.js';
 import { AgentFactory } from './trinity-agents.js';
 import { DEFAULT_TRINITY_CONFIG, TrinityConfigSchema } from './trinity-mode.js';
 
+/**
+ * Yield from every stream as soon as any of them has a chunk, so agents
+ * running side by side arrive interleaved rather than one after another
+ */
+async function* mergeStreams<T>(streams: AsyncIterator<T>[]): AsyncGenerator<T, void, unknown> {
+  const pending = new Map<number, Promise<{ index: number; result: IteratorResult<T> }>>();
+  const pull = (index: number) => {
+    pending.set(index, streams[index]!.next().then(result => ({ index, result })));
+  };
+  streams.forEach((_, index) => pull(index));
+
+  try {
+    while (pending.size > 0) {
+      const { index, result } = await Promise.race(pending.values());
+      if (result.done) {
+        pending.delete(index);
+      } else {
+        pull(index);
+        yield result.value;
+      }
+    }
+  } finally {
+    // Stop the streams still running if the consumer gave up or one of them failed
+    for (const index of pending.keys()) {
+      streams[index]!.return?.()?.catch(() => undefined);
+    }
+  }
+}
+
+export type OrchestratorSettings = Pick<TrinityConfig['orchestrator'], 'model' | 'provider' | 'temperature' | 'maxTokens'>;
+
 export class TrinityExecutionManager implements TrinityManager {
   private orchestrator: Orchestrator;
+  private orchestratorSettings: OrchestratorSettings;
   private agents: Map<string, Agent> = new Map();
+  private readonly signal: AbortSignal | undefined;
+  private readonly orchestratorApiKey: string | undefined;
+  private readonly embeddingApiKey: string | undefined;
+  private readonly embed: SentenceEmbedder | undefined;
+  private readonly agentFactory: (config: AgentConfig) => Agent;
+  private readonly orchestratorFactory: ((settings: OrchestratorSettings) => Orchestrator) | undefined;
+
+  // `signal` stops the run: every agent and orchestrator call is aborted and nothing is blended.
+  // `orchestratorApiKey` is the key for the orchestrator's provider, from resolveTrinityApiKeys.
+  // `embeddingApiKey` is the user's own OpenAI key from there too; without it attribution matches by word overlap.
+  // `embed` replaces the OpenAI embeddings used for attribution.
+  // `agentFactory` and `orchestratorFactory` replace AgentFactory and TrinityOrchestrator, for tests.
+  constructor(options: {
+    signal?: AbortSignal | undefined;
+    orchestratorApiKey?: string | undefined;
+    embeddingApiKey?: string | undefined;
+    embed?: SentenceEmbedder | undefined;
+    agentFactory?: ((config: AgentConfig) => Agent) | undefined;
+    orchestratorFactory?: ((settings: OrchestratorSettings) => Orchestrator) | undefined;
+  } = {}) {
+    this.signal = options.signal;
+    this.orchestratorApiKey = options.orchestratorApiKey;
+    this.embeddingApiKey = options.embeddingApiKey;
+    this.embed = options.embed;
+    this.agentFactory = options.agentFactory ?? (config => AgentFactory.createAgent(config));
+    this.orchestratorFactory = options.orchestratorFactory;
+
+    // Start on the default orchestrator; each run switches to its config's
+    const { model, provider, temperature, maxTokens } = DEFAULT_TRINITY_CONFIG.orchestrator;
+    this.orchestratorSettings = { model, provider, temperature, maxTokens };
+    this.orchestrator = this.createOrchestrator(this.orchestratorSettings);
+  }
 
-  constructor() {
-    // Initialize with default orchestrator config
-    this.orchestrator = new TrinityOrchestrator({
-      model: DEFAULT_TRINITY_CONFIG.orchestrator.model,
-      provider: DEFAULT_TRINITY_CONFIG.orchestrator.provider,
-      temperature: DEFAULT_TRINITY_CONFIG.orchestrator.temperature,
-      maxTokens: DEFAULT_TRINITY_CONFIG.orchestrator.maxTokens,
+  private createOrchestrator(settings: OrchestratorSettings): Orchestrator {
+    if (this.orchestratorFactory) {
+      return this.orchestratorFactory(settings);
+    }
+    return new TrinityOrchestrator({
+      ...settings,
+      ...(this.signal && { signal: this.signal }),
+      ...(this.embed && { embed: this.embed }),
     });
   }
 
+  // The orchestrator key was resolved for config.orchestrator's provider, so the
+  // orchestrator has to run there too; kept as is while the settings don't change
+  private useOrchestrator(config: TrinityConfig): void {
+    const { model, provider, temperature, maxTokens } = config.orchestrator;
+    const current = this.orchestratorSettings;
+    if (
+      current.model === model &&
+      current.provider === provider &&
+      current.temperature === temperature &&
+      current.maxTokens === maxTokens
+    ) {
+      return;
+    }
+    this.orchestratorSettings = { model, provider, temperature, maxTokens };
+    this.orchestrator = this.createOrchestrator(this.orchestratorSettings);
+  }
+
+  // Run in the config's execution mode
+  async execute(
+    messages: LLMMessage[],
+    config: TrinityConfig,
+    apiKeys?: AgentApiKeys
+  ): Promise<TrinityResponse> {
+    switch (config.executionMode) {
+      case 'parallel':
+        return this.executeParallel(messages, config, apiKeys);
+      case 'sequential':
+        return this.executeSequential(messages, config, apiKeys);
+      case 'hybrid':
+        return this.executeHybrid(messages, config, apiKeys);
+      case 'debate':
+        return this.executeDebate(messages, config, apiKeys);
+      default:
+        throw new Error(`Unknown execution mode: ${config.executionMode}`);
+    }
+  }
+
   async executeParallel(
     messages: LLMMessage[],
     config: TrinityConfig,
-    apiKeys?: { analytical: string | null; creative: string | null; factual: string | null }
+    apiKeys?: AgentApiKeys
   ): Promise<TrinityResponse> {
+    this.useOrchestrator(config);
     const startTime = Date.now();
     
     try {
@@ -73,21 +186,18 @@ export class TrinityExecutionManager implements TrinityManager {
         console.warn('One or more agents failed to respond. Proceeding with successful responses.');
       }
 
-      // Resolve conflicts and blend responses
-      const resolvedResponses = this.orchestrator.resolveConflicts(successfulResponses);
-      // Use the first available API key for the orchestrator (since all agents are using OpenAI)
-      const orchestratorApiKey = apiKeys?.analytical || apiKeys?.creative || apiKeys?.factual || '';
-      const finalResponse = await this.orchestrator.blendResponses(
-        resolvedResponses,
-        config.orchestrator.blendingStrategy,
+      // Find where the agents disagree and blend their responses
+      const { resolvedResponses, finalResponse, orchestratorUsage, conflictAnalysis, scores } = await this.orchestrate(
+        successfulResponses,
+        config,
         messages,
-        orchestratorApiKey
+        apiKeys
       );
 
       const totalExecutionTime = Date.now() - startTime;
       
-      // Generate attribution
-      const attribution = this.orchestrator.generateAttribution(resolvedResponses, finalResponse);
+      // Trace the final response back to the agents
+      const attribution = await this.orchestrator.generateAttribution(successfulResponses, finalResponse, this.embeddingApiKey);
 
       return {
         finalResponse,
@@ -97,8 +207,11 @@ export class TrinityExecutionManager implements TrinityManager {
           executionMode: 'parallel',
           totalExecutionTime,
           tokenUsage: this.aggregateTokenUsage(resolvedResponses),
+          ...(orchestratorUsage && { orchestratorUsage }),
         },
         attribution,
+        ...(conflictAnalysis && { conflictAnalysis }),
+        ...(scores && { scores }),
       };
 
     } catch (error) {
@@ -112,8 +225,9 @@ export class TrinityExecutionManager implements TrinityManager {
   async executeSequential(
     messages: LLMMessage[],
     config: TrinityConfig,
-    apiKeys?: { analytical: string | null; creative: string | null; factual: string | null }
+    apiKeys?: AgentApiKeys
   ): Promise<TrinityResponse> {
+    this.useOrchestrator(config);
     const startTime = Date.now();
     const agentResponses: AgentResponse[] = [];
     
@@ -162,18 +276,15 @@ export class TrinityExecutionManager implements TrinityManager {
       }
 
       // Blend responses
-      const resolvedResponses = this.orchestrator.resolveConflicts(agentResponses);
-      // Use the first available API key for the orchestrator
-      const orchestratorApiKey = apiKeys?.analytical || apiKeys?.creative || apiKeys?.factual || '';
-      const finalResponse = await this.orchestrator.blendResponses(
-        resolvedResponses,
-        config.orchestrator.blendingStrategy,
+      const { resolvedResponses, finalResponse, orchestratorUsage, conflictAnalysis, scores } = await this.orchestrate(
+        agentResponses,
+        config,
         messages,
-        orchestratorApiKey
+        apiKeys
       );
 
       const totalExecutionTime = Date.now() - startTime;
-      const attribution = this.orchestrator.generateAttribution(resolvedResponses, finalResponse);
+      const attribution = await this.orchestrator.generateAttribution(agentResponses, finalResponse, this.embeddingApiKey);
 
       return {
         finalResponse,
@@ -183,8 +294,11 @@ export class TrinityExecutionManager implements TrinityManager {
           executionMode: 'sequential',
           totalExecutionTime,
           tokenUsage: this.aggregateTokenUsage(resolvedResponses),
+          ...(orchestratorUsage && { orchestratorUsage }),
         },
         attribution,
+        ...(conflictAnalysis && { conflictAnalysis }),
+        ...(scores && { scores }),
       };
 
     } catch (error) {
@@ -198,19 +312,18 @@ export class TrinityExecutionManager implements TrinityManager {
   async executeHybrid(
     messages: LLMMessage[],
     config: TrinityConfig,
-    apiKeys?: { analytical: string | null; creative: string | null; factual: string | null }
+    apiKeys?: AgentApiKeys
   ): Promise<TrinityResponse> {
-    // Hybrid mode: Execute factual and analytical in parallel, then creative with their context
+    this.useOrchestrator(config);
+    // Hybrid mode: Execute every agent but the last in parallel, then the last one with their context
     const startTime = Date.now();
     
     try {
       const enabledAgents = this.getEnabledAgents(config);
-      const factualAgent = enabledAgents.find(a => a.type === 'factual');
-      const analyticalAgent = enabledAgents.find(a => a.type === 'analytical');
-      const creativeAgent = enabledAgents.find(a => a.type === 'creative');
+      const finalAgent = enabledAgents[enabledAgents.length - 1];
 
-      // Phase 1: Execute factual and analytical in parallel
-      const phase1Agents = [factualAgent, analyticalAgent].filter(Boolean) as Agent[];
+      // Phase 1: Execute the other agents in parallel
+      const phase1Agents = enabledAgents.slice(0, -1);
       const phase1Promises = phase1Agents.map(agent => {
         const apiKey = apiKeys?.[agent.type];
         if (!apiKey) {
@@ -224,14 +337,14 @@ export class TrinityExecutionManager implements TrinityManager {
         .filter((result): result is PromiseFulfilledResult<AgentResponse> => result.status === 'fulfilled')
         .map(result => result.value);
 
-      // Phase 2: Execute creative agent with context from phase 1
+      // Phase 2: Execute the last agent with context from phase 1
       const allResponses = [...phase1Responses];
       
-      if (creativeAgent) {
+      if (finalAgent) {
         try {
-          const apiKey = apiKeys?.creative;
+          const apiKey = apiKeys?.[finalAgent.type];
           if (!apiKey) {
-            throw new Error(`Missing API key for creative agent using ${creativeAgent.config.provider}`);
+            throw new Error(`Missing API key for ${finalAgent.type} agent using ${finalAgent.config.provider}`);
           }
           const context = {
             previousResponses: phase1Responses,
@@ -239,16 +352,16 @@ export class TrinityExecutionManager implements TrinityManager {
             apiKey,
           };
           
-          const creativeResponse = await this.executeAgentWithTimeout(
-            creativeAgent, 
+          const finalResponse = await this.executeAgentWithTimeout(
+            finalAgent, 
             messages, 
             config.timeout,
             context
           );
           
-          allResponses.push(creativeResponse);
+          allResponses.push(finalResponse);
         } catch (error) {
-          console.warn('Creative agent failed in hybrid execution:', error);
+          console.warn(`Agent ${finalAgent.type} failed in hybrid execution:`, error);
         }
       }
 
@@ -260,18 +373,15 @@ export class TrinityExecutionManager implements TrinityManager {
       }
 
       // Blend responses
-      const resolvedResponses = this.orchestrator.resolveConflicts(allResponses);
-      // Use the first available API key for the orchestrator
-      const orchestratorApiKey = apiKeys?.analytical || apiKeys?.creative || apiKeys?.factual || '';
-      const finalResponse = await this.orchestrator.blendResponses(
-        resolvedResponses,
-        config.orchestrator.blendingStrategy,
+      const { resolvedResponses, finalResponse, orchestratorUsage, conflictAnalysis, scores } = await this.orchestrate(
+        allResponses,
+        config,
         messages,
-        orchestratorApiKey
+        apiKeys
       );
 
       const totalExecutionTime = Date.now() - startTime;
-      const attribution = this.orchestrator.generateAttribution(resolvedResponses, finalResponse);
+      const attribution = await this.orchestrator.generateAttribution(allResponses, finalResponse, this.embeddingApiKey);
 
       return {
         finalResponse,
@@ -281,8 +391,103 @@ export class TrinityExecutionManager implements TrinityManager {
           executionMode: 'hybrid',
           totalExecutionTime,
           tokenUsage: this.aggregateTokenUsage(resolvedResponses),
+          ...(orchestratorUsage && { orchestratorUsage }),
         },
         attribution,
+        ...(conflictAnalysis && { conflictAnalysis }),
+        ...(scores && { scores }),
+      };
+
+    } catch (error) {
+      if (config.fallbackToSingleAgent) {
+        return this.executeFallback(messages, config, [], apiKeys);
+      }
+      throw error;
+    }
+  }
+
+  async executeDebate(
+    messages: LLMMessage[],
+    config: TrinityConfig,
+    apiKeys?: AgentApiKeys
+  ): Promise<TrinityResponse> {
+    this.useOrchestrator(config);
+    // Debate mode: every agent answers, then for each round critiques the others' latest
+    // answers and revises its own; the orchestrator only blends the final answers
+    const startTime = Date.now();
+
+    try {
+      const enabledAgents = this.getEnabledAgents(config);
+
+      if (enabledAgents.length === 0) {
+        throw new Error('No enabled agents in configuration');
+      }
+
+      const rounds: DebateRound[] = [];
+      let latestResponses: AgentResponse[] = [];
+
+      for (let round = 0; round <= config.debateRounds; round++) {
+        // Agents that failed to give a first answer sit the debate out
+        const debaters = round === 0
+          ? enabledAgents
+          : enabledAgents.filter(agent => latestResponses.some(response => response.agentType === agent.type));
+
+        const roundResults = await Promise.allSettled(debaters.map(agent =>
+          this.executeAgentWithTimeout(agent, messages, config.timeout, {
+            apiKey: apiKeys?.[agent.type] || '',
+            debate: this.getDebateContext(agent.type, round, latestResponses),
+          })
+        ));
+        const roundResponses = roundResults
+          .filter((result): result is PromiseFulfilledResult<AgentResponse> => result.status === 'fulfilled')
+          .map(result => result.value)
+          .filter(response => response.metadata.finishReason !== 'error');
+
+        if (roundResponses.length === 0) {
+          break;
+        }
+
+        rounds.push({ round, responses: roundResponses });
+        latestResponses = this.mergeDebateResponses(latestResponses, roundResponses);
+
+        // Nobody left to disagree with
+        if (latestResponses.length < 2) {
+          break;
+        }
+      }
+
+      if (latestResponses.length === 0) {
+        if (config.fallbackToSingleAgent) {
+          return this.executeFallback(messages, config, [], apiKeys);
+        }
+        throw new Error('All agents failed in debate execution');
+      }
+
+      // Blend the final answers
+      const { resolvedResponses, finalResponse, orchestratorUsage, conflictAnalysis, scores } = await this.orchestrate(
+        latestResponses,
+        config,
+        messages,
+        apiKeys
+      );
+
+      const totalExecutionTime = Date.now() - startTime;
+      const attribution = await this.orchestrator.generateAttribution(latestResponses, finalResponse, this.embeddingApiKey);
+
+      return {
+        finalResponse,
+        agentResponses: resolvedResponses,
+        rounds,
+        orchestratorMetadata: {
+          blendingStrategy: config.orchestrator.blendingStrategy,
+          executionMode: 'debate',
+          totalExecutionTime,
+          tokenUsage: this.aggregateTokenUsage(rounds.flatMap(round => round.responses)),
+          ...(orchestratorUsage && { orchestratorUsage }),
+        },
+        attribution,
+        ...(conflictAnalysis && { conflictAnalysis }),
+        ...(scores && { scores }),
       };
 
     } catch (error) {
@@ -296,8 +501,9 @@ export class TrinityExecutionManager implements TrinityManager {
   async* streamTrinityResponse(
     messages: LLMMessage[],
     config: TrinityConfig,
-    apiKeys?: { analytical: string | null; creative: string | null; factual: string | null }
+    apiKeys?: AgentApiKeys
   ): AsyncGenerator<TrinityStreamChunk, void, unknown> {
+    this.useOrchestrator(config);
     // For streaming, we'll use parallel execution with real-time updates
     const enabledAgents = this.getEnabledAgents(config);
     
@@ -305,84 +511,36 @@ export class TrinityExecutionManager implements TrinityManager {
       throw new Error('No enabled agents in configuration');
     }
 
+    if (config.executionMode === 'debate') {
+      yield* this.streamDebate(messages, config, enabledAgents, apiKeys);
+      return;
+    }
+
     // Start all agent streams
     const agentStreams = enabledAgents.map(agent => {
       const apiKey = apiKeys?.[agent.type];
       if (!apiKey) {
         throw new Error(`Missing API key for ${agent.type} agent using ${agent.config.provider}`);
       }
-      return {
-        agent,
-        stream: agent.generateStreamResponse(messages, { apiKey }),
-      };
+      return agent.generateStreamResponse(messages, { apiKey, ...(this.signal && { signal: this.signal }) });
     });
 
-    const agentResponses: AgentResponse[] = [];
-    const completedAgents = new Set<string>();
-    
-    // Process streams in parallel
-    const streamProcessors = agentStreams.map(({ agent, stream }) => ({
-      agent,
-      stream,
-      chunks: [] as TrinityStreamChunk[],
-    }));
-
-    // Collect all chunks from all agents
-    for (const processor of streamProcessors) {
-      const chunks: TrinityStreamChunk[] = [];
-      for await (const chunk of processor.stream) {
-        chunks.push(chunk);
-        yield chunk;
-        
-        if (chunk.type === 'agent_complete') {
-          completedAgents.add(processor.agent.type);
-          
-          // Store completed response
-          agentResponses.push({
-            agentType: processor.agent.type,
-            content: chunk.content,
-            confidence: chunk.metadata?.confidence || 0.7,
-            executionTime: chunk.metadata?.executionTime || 0,
-            tokenUsage: chunk.metadata?.tokenUsage || { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
-            metadata: {
-              model: processor.agent.config.model,
-              provider: processor.agent.config.provider,
-              temperature: processor.agent.config.temperature,
-            },
-          });
-        }
+    // Pass tokens on as they arrive from any agent
+    const completed = new Map<string, AgentResponse>();
+    for await (const chunk of mergeStreams(agentStreams)) {
+      yield chunk;
+
+      const agent = enabledAgents.find(candidate => candidate.type === chunk.agentType);
+      if (chunk.type === 'agent_complete' && agent) {
+        completed.set(agent.type, this.responseFromStreamChunk(agent, chunk));
       }
-      processor.chunks = chunks;
     }
+    // Blend in configuration order, not the order the agents finished in
+    const agentResponses = enabledAgents.flatMap(agent => completed.get(agent.type) ?? []);
 
     // Once all agents are done, start orchestrator
     if (agentResponses.length > 0) {
-      const resolvedResponses = this.orchestrator.resolveConflicts(agentResponses);
-      // Use the first available API key for the orchestrator
-      const orchestratorApiKey = apiKeys?.analytical || apiKeys?.creative || apiKeys?.factual || '';
-      const finalResponse = await this.orchestrator.blendResponses(
-        resolvedResponses,
-        config.orchestrator.blendingStrategy,
-        messages,
-        orchestratorApiKey
-      );
-
-      // Stream the final orchestrated response
-      yield {
-        type: 'orchestrator_chunk',
-        content: finalResponse,
-        delta: finalResponse,
-        isComplete: false,
-        timestamp: Date.now(),
-      };
-
-      yield {
-        type: 'trinity_complete',
-        content: finalResponse,
-        delta: '',
-        isComplete: true,
-        timestamp: Date.now(),
-      };
+      yield* this.streamBlend(agentResponses, config, messages, apiKeys);
     }
   }
 
@@ -403,12 +561,12 @@ export class TrinityExecutionManager implements TrinityManager {
   private getEnabledAgents(config: TrinityConfig): Agent[] {
     const agents: Agent[] = [];
     
-    for (const [type, agentConfig] of Object.entries(config.agents)) {
+    for (const agentConfig of config.agents) {
       if (agentConfig.enabled) {
-        let agent = this.agents.get(type);
+        let agent = this.agents.get(agentConfig.type);
         if (!agent) {
-          agent = AgentFactory.createAgent(agentConfig);
-          this.agents.set(type, agent);
+          agent = this.agentFactory(agentConfig);
+          this.agents.set(agentConfig.type, agent);
         } else {
           agent.updateConfig(agentConfig);
         }
@@ -419,18 +577,278 @@ export class TrinityExecutionManager implements TrinityManager {
     return agents;
   }
 
+  // Stream each debate round with its agents side by side, tagging every chunk with its round
+  private async* streamDebate(
+    messages: LLMMessage[],
+    config: TrinityConfig,
+    enabledAgents: Agent[],
+    apiKeys?: AgentApiKeys
+  ): AsyncGenerator<TrinityStreamChunk, void, unknown> {
+    const rounds: DebateRound[] = [];
+    let latestResponses: AgentResponse[] = [];
+
+    for (let round = 0; round <= config.debateRounds; round++) {
+      const debaters = round === 0
+        ? enabledAgents
+        : enabledAgents.filter(agent => latestResponses.some(response => response.agentType === agent.type));
+      const roundStreams = debaters.map(agent => {
+        const apiKey = apiKeys?.[agent.type];
+        if (!apiKey) {
+          throw new Error(`Missing API key for ${agent.type} agent using ${agent.config.provider}`);
+        }
+
+        const debate = this.getDebateContext(agent.type, round, latestResponses);
+        return agent.generateStreamResponse(messages, { apiKey, debate, ...(this.signal && { signal: this.signal }) });
+      });
+
+      const completed = new Map<string, AgentResponse>();
+      for await (const chunk of mergeStreams(roundStreams)) {
+        yield chunk;
+
+        const agent = debaters.find(candidate => candidate.type === chunk.agentType);
+        if (chunk.type === 'agent_complete' && chunk.metadata?.finishReason !== 'error' && agent) {
+          completed.set(agent.type, this.responseFromStreamChunk(agent, chunk));
+        }
+      }
+      const roundResponses = debaters.flatMap(agent => completed.get(agent.type) ?? []);
+
+      if (roundResponses.length === 0) {
+        break;
+      }
+
+      rounds.push({ round, responses: roundResponses });
+      latestResponses = this.mergeDebateResponses(latestResponses, roundResponses);
+
+      if (latestResponses.length < 2) {
+        break;
+      }
+    }
+
+    if (latestResponses.length > 0) {
+      yield* this.streamBlend(latestResponses, config, messages, apiKeys, rounds);
+    }
+  }
+
+  // Blend the agents' responses, streaming the orchestrator's answer token by token
+  private async* streamBlend(
+    agentResponses: AgentResponse[],
+    config: TrinityConfig,
+    messages: LLMMessage[],
+    apiKeys?: AgentApiKeys,
+    rounds?: DebateRound[]
+  ): AsyncGenerator<TrinityStreamChunk, void, unknown> {
+    const { orchestratorApiKey, analysis, conflicts, resolvedResponses } = await this.prepareBlend(
+      agentResponses,
+      config,
+      messages,
+      apiKeys
+    );
+
+    let finalResponse = '';
+    let usage: OrchestratorUsage | undefined;
+    let scores: ResponseScore[] | undefined;
+    for await (const chunk of this.orchestrator.streamBlendResponses(
+      resolvedResponses,
+      config.orchestrator.blendingStrategy,
+      messages,
+      orchestratorApiKey,
+      conflicts
+    )) {
+      finalResponse = chunk.content;
+      usage = chunk.usage ?? usage;
+      scores = chunk.scores ?? scores;
+
+      if (chunk.delta) {
+        yield {
+          type: 'orchestrator_chunk',
+          content: chunk.content,
+          delta: chunk.delta,
+          isComplete: false,
+          timestamp: Date.now(),
+        };
+      }
+    }
+
+    const orchestratorUsage = this.combineOrchestratorUsage(analysis?.usage, usage);
+    const conflictAnalysis = analysis && { claims: analysis.claims, conflicts: analysis.conflicts };
+    yield {
+      type: 'trinity_complete',
+      content: finalResponse,
+      delta: '',
+      isComplete: true,
+      timestamp: Date.now(),
+      ...((orchestratorUsage || rounds || conflictAnalysis || scores) && {
+        metadata: {
+          ...(orchestratorUsage && { orchestratorUsage }),
+          ...(rounds && { rounds }),
+          ...(conflictAnalysis && { conflictAnalysis }),
+          ...(scores && { scores }),
+        },
+      }),
+    };
+  }
+
+  // Find where the agents contradict each other, then blend with those points called out
+  private async orchestrate(
+    responses: AgentResponse[],
+    config: TrinityConfig,
+    messages: LLMMessage[],
+    apiKeys?: AgentApiKeys
+  ): Promise<{
+    resolvedResponses: AgentResponse[];
+    finalResponse: string;
+    orchestratorUsage: OrchestratorUsage | undefined;
+    conflictAnalysis: Omit<ConflictAnalysis, 'usage'> | undefined;
+    scores: ResponseScore[] | undefined;
+  }> {
+    const { orchestratorApiKey, analysis, conflicts, resolvedResponses } = await this.prepareBlend(
+      responses,
+      config,
+      messages,
+      apiKeys
+    );
+    const { content: finalResponse, usage, scores } = await this.orchestrator.blendResponsesWithUsage(
+      resolvedResponses,
+      config.orchestrator.blendingStrategy,
+      messages,
+      orchestratorApiKey,
+      conflicts
+    );
+
+    return {
+      resolvedResponses,
+      finalResponse,
+      orchestratorUsage: this.combineOrchestratorUsage(analysis?.usage, usage),
+      conflictAnalysis: analysis && { claims: analysis.claims, conflicts: analysis.conflicts },
+      scores,
+    };
+  }
+
+  // The conflicts to settle and the responses reweighted for them, ahead of the blend
+  private async prepareBlend(
+    responses: AgentResponse[],
+    config: TrinityConfig,
+    messages: LLMMessage[],
+    apiKeys?: AgentApiKeys
+  ): Promise<{
+    orchestratorApiKey: string;
+    analysis: ConflictAnalysis | undefined;
+    conflicts: TrinityConflict[];
+    resolvedResponses: AgentResponse[];
+  }> {
+    // Agents that were aborted answer with errors; don't blend those
+    this.signal?.throwIfAborted();
+
+    const orchestratorApiKey = this.getOrchestratorApiKey(config, apiKeys);
+    const analysis = await this.analyzeConflicts(responses, config, messages, orchestratorApiKey);
+    const conflicts = analysis?.conflicts ?? [];
+
+    return {
+      orchestratorApiKey,
+      analysis,
+      conflicts,
+      resolvedResponses: this.orchestrator.resolveConflicts(responses, conflicts),
+    };
+  }
+
+  // best_of_three picks an answer without an orchestrator call, so there is no synthesis to inform
+  private async analyzeConflicts(
+    responses: AgentResponse[],
+    config: TrinityConfig,
+    messages: LLMMessage[],
+    orchestratorApiKey: string
+  ): Promise<ConflictAnalysis | undefined> {
+    if (responses.length < 2 || config.orchestrator.blendingStrategy === 'best_of_three') {
+      return undefined;
+    }
+
+    try {
+      return await this.orchestrator.analyzeConflicts(responses, messages, orchestratorApiKey);
+    } catch (error) {
+      console.warn('Conflict analysis failed, blending without it:', error);
+      return undefined;
+    }
+  }
+
+  // Every orchestrator call uses the orchestrator model, so they are recorded as one
+  private combineOrchestratorUsage(...usages: Array<OrchestratorUsage | undefined>): OrchestratorUsage | undefined {
+    return usages.reduce<OrchestratorUsage | undefined>((total, usage) => {
+      if (!usage) return total;
+      if (!total) return usage;
+      return {
+        ...total,
+        promptTokens: total.promptTokens + usage.promptTokens,
+        completionTokens: total.completionTokens + usage.completionTokens,
+        totalTokens: total.totalTokens + usage.totalTokens,
+      };
+    }, undefined);
+  }
+
+  private responseFromStreamChunk(agent: Agent, chunk: TrinityStreamChunk): AgentResponse {
+    return {
+      agentType: agent.type,
+      agentName: agent.config.name,
+      ...(agent.config.description && { agentDescription: agent.config.description }),
+      content: chunk.content,
+      ...(chunk.metadata?.critique && { critique: chunk.metadata.critique }),
+      ...(chunk.round !== undefined && { round: chunk.round }),
+      confidence: chunk.metadata?.confidence || 0.7,
+      ...(chunk.metadata?.confidenceSource && { confidenceSource: chunk.metadata.confidenceSource }),
+      executionTime: chunk.metadata?.executionTime || 0,
+      tokenUsage: chunk.metadata?.tokenUsage || { promptTokens: 0, completionTokens: 0, totalTokens: 0 },
+      metadata: {
+        model: agent.config.model,
+        provider: agent.config.provider,
+        temperature: agent.config.temperature,
+      },
+    };
+  }
+
+  // An agent sees its own latest answer and everyone else's
+  private getDebateContext(agentType: string, round: number, latestResponses: AgentResponse[]): DebateContext {
+    const ownResponse = latestResponses.find(response => response.agentType === agentType);
+    return {
+      round,
+      ...(ownResponse && { ownResponse }),
+      peerResponses: latestResponses.filter(response => response.agentType !== agentType),
+    };
+  }
+
+  // Revisions replace earlier answers; an agent whose revision failed keeps its last answer
+  private mergeDebateResponses(latestResponses: AgentResponse[], roundResponses: AgentResponse[]): AgentResponse[] {
+    if (latestResponses.length === 0) {
+      return roundResponses;
+    }
+    return latestResponses.map(previous =>
+      roundResponses.find(response => response.agentType === previous.agentType) ?? previous
+    );
+  }
+
+  // The orchestrator's own key when the caller resolved one, else that of an agent on the same provider
+  private getOrchestratorApiKey(config: TrinityConfig, apiKeys?: AgentApiKeys): string {
+    const agent = config.agents.find(agent => agent.provider === config.orchestrator.provider && apiKeys?.[agent.type]);
+    return this.orchestratorApiKey || (agent && apiKeys?.[agent.type]) || '';
+  }
+
   private async executeAgentWithTimeout(
     agent: Agent,
     messages: LLMMessage[],
     timeout: number,
-    context?: any
+    context?: Omit<AgentContext, 'signal'>
   ): Promise<AgentResponse> {
-    return new Promise((resolve, reject) => {
+    // Timing out or stopping the run aborts the agent's request, not just the wait for it
+    const controller = new AbortController();
+    const stop = () => controller.abort(this.signal?.reason);
+    this.signal?.addEventListener('abort', stop, { once: true });
+
+    return new Promise<AgentResponse>((resolve, reject) => {
       const timer = setTimeout(() => {
-        reject(new Error(`Agent ${agent.type} timed out after ${timeout}ms`));
+        const error = new Error(`Agent ${agent.type} timed out after ${timeout}ms`);
+        controller.abort(error);
+        reject(error);
       }, timeout);
 
-      agent.generateResponse(messages, context)
+      agent.generateResponse(messages, { ...context, signal: controller.signal })
         .then(response => {
           clearTimeout(timer);
           resolve(response);
@@ -439,15 +857,18 @@ export class TrinityExecutionManager implements TrinityManager {
           clearTimeout(timer);
           reject(error);
         });
-    });
+    }).finally(() => this.signal?.removeEventListener('abort', stop));
   }
 
   private async executeFallback(
     messages: LLMMessage[],
     config: TrinityConfig,
     _failedResults: any[],
-    apiKeys?: { analytical: string | null; creative: string | null; factual: string | null }
+    apiKeys?: AgentApiKeys
   ): Promise<TrinityResponse> {
+    // A stopped run failed on purpose; don't start another agent
+    this.signal?.throwIfAborted();
+
     // Try to find the best available agent for fallback
     const enabledAgents = this.getEnabledAgents(config);
     
@@ -472,12 +893,7 @@ export class TrinityExecutionManager implements TrinityManager {
           totalExecutionTime: fallbackResponse.executionTime,
           tokenUsage: fallbackResponse.tokenUsage,
         },
-        attribution: {
-          [fallbackResponse.agentType]: {
-            contributionPercentage: 1.0,
-            keyInsights: ['Fallback response from single agent'],
-          },
-        },
+        attribution: await this.orchestrator.generateAttribution([fallbackResponse], fallbackResponse.content),
       };
     } catch (error) {
       throw new Error(`Fallback execution failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
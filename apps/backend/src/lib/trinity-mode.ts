@@ -1,16 +1,30 @@
+import { TRPCError } from '@trpc/server';
 import { z } from 'zod';
 import type { LLMMessage } from './llm.js';
 
 // Trinity Mode Execution Modes
-export type TrinityExecutionMode = 'parallel' | 'sequential' | 'hybrid';
+export type TrinityExecutionMode = 'parallel' | 'sequential' | 'hybrid' | 'debate';
 
 // Agent Types and Specializations
-export type AgentType = 'analytical' | 'creative' | 'factual';
+// The built-in personas; user-defined personas use their own ids as the type
+export const BUILTIN_AGENT_TYPES = ['analytical', 'creative', 'factual'] as const;
+export type BuiltinAgentType = (typeof BUILTIN_AGENT_TYPES)[number];
+export type AgentType = string;
+
+// How many agents a single run may use
+export const MIN_TRINITY_AGENTS = 2;
+export const MAX_TRINITY_AGENTS = 6;
+
+// Critique-and-revise rounds debate mode may run after the first answers
+export const MAX_DEBATE_ROUNDS = 3;
 
 export interface AgentConfig {
-  type: AgentType;
+  type: AgentType; // Unique within a run
+  name: string; // Display name, also how the orchestrator refers to the agent
+  description?: string; // Short specialization summary for the orchestrator
   model: string;
   provider: string;
+  keyName?: string; // Which of the user's keys for the provider to use; any of them when left out
   temperature: number;
   maxTokens: number;
   systemPrompt: string;
@@ -20,34 +34,44 @@ export interface AgentConfig {
 
 export interface TrinityConfig {
   executionMode: TrinityExecutionMode;
-  agents: {
-    analytical: AgentConfig;
-    creative: AgentConfig;
-    factual: AgentConfig;
-  };
+  agents: AgentConfig[];
   orchestrator: {
     model: string;
     provider: string;
+    keyName?: string;
     temperature: number;
     maxTokens: number;
     blendingStrategy: BlendingStrategy;
   };
   timeout: number; // Max time to wait for all agents in parallel mode
   fallbackToSingleAgent: boolean; // Fallback if agents fail
+  debateRounds: number; // Critique-and-revise rounds after the first answers, debate mode only
 }
 
 // Blending Strategies for Orchestrator
 export type BlendingStrategy = 
   | 'weighted_merge' // Combine based on agent weights
   | 'best_of_three' // Select best response
-  | 'synthesis' // Create new response incorporating all three
+  | 'synthesis' // Create new response incorporating all agents
   | 'hierarchical' // Structure response with sections from each agent;
 
+// API keys for a run, by agent type
+export type AgentApiKeys = Record<AgentType, string | null>;
+
 // Agent Response with Metadata
+// Where an agent's confidence came from: the model's token probabilities, or a
+// guess from the finish reason and wording when the provider doesn't report them
+export type ConfidenceSource = 'logprobs' | 'heuristic';
+
 export interface AgentResponse {
   agentType: AgentType;
+  agentName?: string;
+  agentDescription?: string;
   content: string;
+  critique?: string; // What the agent disputed in the others' answers, debate rounds after the first
+  round?: number; // Debate round that produced the response, 0 for the first answers
   confidence: number; // Agent's confidence in response (0-1)
+  confidenceSource?: ConfidenceSource; // Missing from responses stored before logprobs were used
   executionTime: number;
   tokenUsage: {
     promptTokens: number;
@@ -62,10 +86,111 @@ export interface AgentResponse {
   };
 }
 
+// Token usage of a single orchestrator LLM call
+export interface OrchestratorUsage {
+  model: string;
+  provider: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+}
+
+// Blended response along with the orchestrator call that produced it, if any
+export interface BlendResult {
+  content: string;
+  usage?: OrchestratorUsage;
+  scores?: ResponseScore[]; // Set by best_of_three, which picks the top-scored response
+}
+
+// A piece of the blended answer as the orchestrator writes it
+export interface BlendStreamChunk {
+  content: string;
+  delta: string;
+  isComplete: boolean;
+  usage?: OrchestratorUsage; // Set on the final chunk
+  scores?: ResponseScore[]; // Set on the final chunk by best_of_three
+}
+
+// What a judge rates each answer on, 1 to 10
+export type JudgeCriterion = 'relevance' | 'correctness' | 'completeness';
+
+// How well one agent's answer addresses the user's question
+export interface ResponseScore {
+  agentType: AgentType;
+  judge: string; // Name of the judge that produced the score
+  score: number; // 0 to 1
+  criteria?: Record<JudgeCriterion, number>; // Missing from the offline heuristic, which has no rubric
+  rationale: string;
+}
+
+export interface JudgeResult {
+  scores: ResponseScore[];
+  usage?: OrchestratorUsage;
+}
+
+// Scores agent responses for best_of_three
+export interface ResponseJudge {
+  readonly name: string;
+  judge(
+    responses: AgentResponse[],
+    originalMessages: LLMMessage[],
+    apiKey?: string
+  ): Promise<JudgeResult>;
+}
+
+// A claim one agent makes in its answer
+export interface AgentClaim {
+  agentType: AgentType;
+  claim: string;
+}
+
+// Agents whose answers contradict each other on one point
+export interface TrinityConflict {
+  topic: string;
+  severity: 'minor' | 'major'; // Major when following the wrong side would change the answer
+  positions: Array<{
+    agentType: AgentType;
+    position: string;
+  }>;
+}
+
+// What the orchestrator found comparing the agents' answers before blending them
+export interface ConflictAnalysis {
+  claims: AgentClaim[];
+  conflicts: TrinityConflict[];
+  usage?: OrchestratorUsage;
+}
+
+// Every agent's response in one round of a debate
+export interface DebateRound {
+  round: number;
+  responses: AgentResponse[];
+}
+
+// What an agent is shown in a debate round; the first round has no peers yet
+export interface DebateContext {
+  round: number;
+  ownResponse?: AgentResponse;
+  peerResponses: AgentResponse[];
+}
+
+// What an agent gets besides the conversation for one response
+export interface AgentContext {
+  apiKey?: string;
+  debate?: DebateContext;
+  previousResponses?: AgentResponse[];
+  isSequential?: boolean;
+  isHybrid?: boolean;
+  signal?: AbortSignal;
+}
+
 // Trinity Response with All Agent Outputs
 export interface TrinityResponse {
   finalResponse: string;
-  agentResponses: AgentResponse[];
+  agentResponses: AgentResponse[]; // Each agent's last answer in debate mode
+  rounds?: DebateRound[]; // Debate mode only, starting with the first answers
+  conflictAnalysis?: Omit<ConflictAnalysis, 'usage'>; // Missing when there was nothing to compare
+  scores?: ResponseScore[]; // best_of_three only
   orchestratorMetadata: {
     blendingStrategy: BlendingStrategy;
     executionMode: TrinityExecutionMode;
@@ -75,27 +200,48 @@ export interface TrinityResponse {
       completionTokens: number;
       totalTokens: number;
     };
+    orchestratorUsage?: OrchestratorUsage; // Conflict analysis, blending and judging; not included in tokenUsage, which covers the agents
   };
-  attribution: {
-    [key in AgentType]?: {
-      contributionPercentage: number;
-      keyInsights: string[];
-    };
-  };
+  attribution: Record<AgentType, AgentAttribution>;
+}
+
+// How final-answer sentences were traced back to agents: embedding similarity,
+// or word overlap when embeddings are unavailable
+export type AttributionMethod = 'embedding' | 'lexical';
+
+// What one agent contributed to the final answer
+export interface AgentAttribution {
+  contributionPercentage: number; // Share of the final answer traced to this agent (0-1); the rest is the orchestrator's own
+  keyInsights: string[]; // The agent's sentences that made it into the final answer, closest match first
+  sentences: string[]; // Final-answer sentences traced to this agent
+  method: AttributionMethod;
+  confidence: number;
+  confidenceSource: ConfidenceSource;
 }
 
 // Streaming Trinity Response for Real-time Updates
 export interface TrinityStreamChunk {
   type: 'agent_start' | 'agent_chunk' | 'agent_complete' | 'orchestrator_chunk' | 'trinity_complete';
   agentType?: AgentType;
+  agentName?: string;
+  round?: number; // Debate mode only
   content: string;
   delta: string;
   isComplete: boolean;
   timestamp: number;
   metadata?: {
     confidence?: number;
+    confidenceSource?: ConfidenceSource;
     executionTime?: number;
     tokenUsage?: AgentResponse['tokenUsage'];
+    model?: string;
+    provider?: string;
+    finishReason?: string;
+    critique?: string;
+    orchestratorUsage?: OrchestratorUsage;
+    rounds?: DebateRound[];
+    conflictAnalysis?: Omit<ConflictAnalysis, 'usage'>;
+    scores?: ResponseScore[];
   };
 }
 
@@ -106,12 +252,12 @@ export interface Agent {
   
   generateResponse(
     messages: LLMMessage[],
-    context?: any
+    context?: AgentContext
   ): Promise<AgentResponse>;
   
   generateStreamResponse(
     messages: LLMMessage[],
-    context?: any
+    context?: AgentContext
   ): AsyncGenerator<TrinityStreamChunk, void, unknown>;
   
   updateConfig(config: Partial<AgentConfig>): void;
@@ -124,16 +270,45 @@ export interface Orchestrator {
     responses: AgentResponse[],
     strategy: BlendingStrategy,
     originalMessages: LLMMessage[],
-    apiKey?: string
+    apiKey?: string,
+    conflicts?: TrinityConflict[]
   ): Promise<string>;
+
+  // Same as blendResponses, also reporting the orchestrator's token usage
+  blendResponsesWithUsage(
+    responses: AgentResponse[],
+    strategy: BlendingStrategy,
+    originalMessages: LLMMessage[],
+    apiKey?: string,
+    conflicts?: TrinityConflict[]
+  ): Promise<BlendResult>;
+
+  // Same as blendResponsesWithUsage, yielding the answer as it is written
+  streamBlendResponses(
+    responses: AgentResponse[],
+    strategy: BlendingStrategy,
+    originalMessages: LLMMessage[],
+    apiKey?: string,
+    conflicts?: TrinityConflict[]
+  ): AsyncGenerator<BlendStreamChunk, void, unknown>;
   
+  // Trace the final answer's sentences back to the agents; the key is for embeddings
   generateAttribution(
     responses: AgentResponse[],
-    finalResponse: string
-  ): TrinityResponse['attribution'];
+    finalResponse: string,
+    embeddingApiKey?: string
+  ): Promise<TrinityResponse['attribution']>;
+
+  // Extract each agent's claims and the contradictions between them
+  analyzeConflicts(
+    responses: AgentResponse[],
+    originalMessages: LLMMessage[],
+    apiKey?: string
+  ): Promise<ConflictAnalysis>;
   
   resolveConflicts(
-    responses: AgentResponse[]
+    responses: AgentResponse[],
+    conflicts: TrinityConflict[]
   ): AgentResponse[];
   
   selectBestResponse(
@@ -146,25 +321,31 @@ export interface TrinityManager {
   executeParallel(
     messages: LLMMessage[],
     config: TrinityConfig,
-    apiKeys?: { analytical: string | null; creative: string | null; factual: string | null }
+    apiKeys?: AgentApiKeys
   ): Promise<TrinityResponse>;
   
   executeSequential(
     messages: LLMMessage[],
     config: TrinityConfig,
-    apiKeys?: { analytical: string | null; creative: string | null; factual: string | null }
+    apiKeys?: AgentApiKeys
   ): Promise<TrinityResponse>;
   
   executeHybrid(
     messages: LLMMessage[],
     config: TrinityConfig,
-    apiKeys?: { analytical: string | null; creative: string | null; factual: string | null }
+    apiKeys?: AgentApiKeys
+  ): Promise<TrinityResponse>;
+
+  executeDebate(
+    messages: LLMMessage[],
+    config: TrinityConfig,
+    apiKeys?: AgentApiKeys
   ): Promise<TrinityResponse>;
   
   streamTrinityResponse(
     messages: LLMMessage[],
     config: TrinityConfig,
-    apiKeys?: { analytical: string | null; creative: string | null; factual: string | null }
+    apiKeys?: AgentApiKeys
   ): AsyncGenerator<TrinityStreamChunk, void, unknown>;
   
   getDefaultConfig(): TrinityConfig;
@@ -173,37 +354,47 @@ export interface TrinityManager {
 
 // Validation Schemas
 export const AgentConfigSchema = z.object({
-  type: z.enum(['analytical', 'creative', 'factual']),
+  type: z.string().regex(/^[\w-]{1,64}$/, 'Agent type must be 1-64 letters, digits, dashes or underscores'),
+  name: z.string().min(1).max(80),
+  description: z.string().max(300).optional(),
   model: z.string(),
   provider: z.string(),
+  keyName: z.string().min(1).max(100).optional(),
   temperature: z.number().min(0).max(2),
   maxTokens: z.number().min(1).max(4096),
-  systemPrompt: z.string(),
+  systemPrompt: z.string().min(1),
   weight: z.number().min(0).max(1),
   enabled: z.boolean(),
 });
 
 export const TrinityConfigSchema = z.object({
-  executionMode: z.enum(['parallel', 'sequential', 'hybrid']),
-  agents: z.object({
-    analytical: AgentConfigSchema,
-    creative: AgentConfigSchema,
-    factual: AgentConfigSchema,
-  }),
+  executionMode: z.enum(['parallel', 'sequential', 'hybrid', 'debate']),
+  agents: z.array(AgentConfigSchema)
+    .min(MIN_TRINITY_AGENTS)
+    .max(MAX_TRINITY_AGENTS)
+    .refine(agents => new Set(agents.map(agent => agent.type)).size === agents.length, {
+      message: 'Agent types must be unique',
+    }),
   orchestrator: z.object({
     model: z.string(),
     provider: z.string(),
+    keyName: z.string().min(1).max(100).optional(),
     temperature: z.number().min(0).max(2),
     maxTokens: z.number().min(1).max(8192),
     blendingStrategy: z.enum(['weighted_merge', 'best_of_three', 'synthesis', 'hierarchical']),
   }),
   timeout: z.number().min(1000).max(300000), // 1s to 5min
   fallbackToSingleAgent: z.boolean(),
+  // Configs saved before debate mode existed leave it out
+  debateRounds: z.number().int().min(1).max(MAX_DEBATE_ROUNDS).default(1),
 });
 
-// Default Configurations
-export const DEFAULT_AGENT_CONFIGS: Record<AgentType, Omit<AgentConfig, 'type'>> = {
+// Built-in Personas
+export const BUILTIN_AGENT_PERSONAS: Record<BuiltinAgentType, AgentConfig> = {
   analytical: {
+    type: 'analytical',
+    name: 'Analytical',
+    description: 'Logic, reasoning, data analysis, systematic problem-solving',
     model: 'gpt-4o',
     provider: 'openai',
     temperature: 0.1,
@@ -221,6 +412,9 @@ export const DEFAULT_AGENT_CONFIGS: Record<AgentType, Omit<AgentConfig, 'type'>>
     enabled: true,
   },
   creative: {
+    type: 'creative',
+    name: 'Creative',
+    description: 'Innovation, alternative perspectives, imaginative solutions',
     model: 'gpt-4o',
     provider: 'openai',
     temperature: 0.8,
@@ -238,6 +432,9 @@ export const DEFAULT_AGENT_CONFIGS: Record<AgentType, Omit<AgentConfig, 'type'>>
     enabled: true,
   },
   factual: {
+    type: 'factual',
+    name: 'Factual',
+    description: 'Accuracy, verification, reliable information, source citation',
     model: 'gpt-4o-mini',
     provider: 'openai',
     temperature: 0.0,
@@ -256,13 +453,29 @@ export const DEFAULT_AGENT_CONFIGS: Record<AgentType, Omit<AgentConfig, 'type'>>
   },
 };
 
+// Settings a user-defined persona gets unless it overrides them; name and prompt are required
+const CUSTOM_AGENT_DEFAULTS: Omit<AgentConfig, 'type' | 'name' | 'systemPrompt'> = {
+  model: 'gpt-4o-mini',
+  provider: 'openai',
+  temperature: 0.7,
+  maxTokens: 2048,
+  weight: 0.3,
+  enabled: true,
+};
+
+export function isBuiltinAgentType(type: AgentType): type is BuiltinAgentType {
+  return (BUILTIN_AGENT_TYPES as readonly string[]).includes(type);
+}
+
+// Hybrid mode runs every agent but the last in parallel, then the last with their responses,
+// so the built-in creative agent goes last
 export const DEFAULT_TRINITY_CONFIG: TrinityConfig = {
   executionMode: 'parallel',
-  agents: {
-    analytical: { type: 'analytical', ...DEFAULT_AGENT_CONFIGS.analytical },
-    creative: { type: 'creative', ...DEFAULT_AGENT_CONFIGS.creative },
-    factual: { type: 'factual', ...DEFAULT_AGENT_CONFIGS.factual },
-  },
+  agents: [
+    BUILTIN_AGENT_PERSONAS.analytical,
+    BUILTIN_AGENT_PERSONAS.factual,
+    BUILTIN_AGENT_PERSONAS.creative,
+  ],
   orchestrator: {
     model: 'gpt-4o',
     provider: 'openai',
@@ -272,16 +485,17 @@ export const DEFAULT_TRINITY_CONFIG: TrinityConfig = {
   },
   timeout: 60000, // 60 seconds
   fallbackToSingleAgent: true,
+  debateRounds: 1,
 };
 
 // Preset Configurations for Common Use Cases
 export const TRINITY_PRESETS: Record<string, Partial<TrinityConfig>> = {
   'creative-writing': {
-    agents: {
-      creative: { type: 'creative', ...DEFAULT_AGENT_CONFIGS.creative, weight: 0.6, temperature: 0.9 },
-      analytical: { type: 'analytical', ...DEFAULT_AGENT_CONFIGS.analytical, weight: 0.2 },
-      factual: { type: 'factual', ...DEFAULT_AGENT_CONFIGS.factual, weight: 0.2 },
-    },
+    agents: [
+      { ...BUILTIN_AGENT_PERSONAS.analytical, weight: 0.2 },
+      { ...BUILTIN_AGENT_PERSONAS.factual, weight: 0.2 },
+      { ...BUILTIN_AGENT_PERSONAS.creative, weight: 0.6, temperature: 0.9 },
+    ],
     orchestrator: {
       ...DEFAULT_TRINITY_CONFIG.orchestrator,
       blendingStrategy: 'weighted_merge',
@@ -289,11 +503,11 @@ export const TRINITY_PRESETS: Record<string, Partial<TrinityConfig>> = {
     },
   },
   'research-analysis': {
-    agents: {
-      factual: { type: 'factual', ...DEFAULT_AGENT_CONFIGS.factual, weight: 0.5 },
-      analytical: { type: 'analytical', ...DEFAULT_AGENT_CONFIGS.analytical, weight: 0.4 },
-      creative: { type: 'creative', ...DEFAULT_AGENT_CONFIGS.creative, weight: 0.1, enabled: false },
-    },
+    agents: [
+      { ...BUILTIN_AGENT_PERSONAS.factual, weight: 0.5 },
+      { ...BUILTIN_AGENT_PERSONAS.analytical, weight: 0.4 },
+      { ...BUILTIN_AGENT_PERSONAS.creative, weight: 0.1, enabled: false },
+    ],
     orchestrator: {
       ...DEFAULT_TRINITY_CONFIG.orchestrator,
       blendingStrategy: 'hierarchical',
@@ -302,26 +516,72 @@ export const TRINITY_PRESETS: Record<string, Partial<TrinityConfig>> = {
   },
   'problem-solving': {
     executionMode: 'sequential' as TrinityExecutionMode,
-    agents: {
-      analytical: { type: 'analytical', ...DEFAULT_AGENT_CONFIGS.analytical, weight: 0.4 },
-      creative: { type: 'creative', ...DEFAULT_AGENT_CONFIGS.creative, weight: 0.35 },
-      factual: { type: 'factual', ...DEFAULT_AGENT_CONFIGS.factual, weight: 0.25 },
-    },
+    agents: [
+      { ...BUILTIN_AGENT_PERSONAS.analytical, weight: 0.4 },
+      { ...BUILTIN_AGENT_PERSONAS.factual, weight: 0.25 },
+      { ...BUILTIN_AGENT_PERSONAS.creative, weight: 0.35 },
+    ],
     orchestrator: {
       ...DEFAULT_TRINITY_CONFIG.orchestrator,
       blendingStrategy: 'synthesis',
     },
   },
   'brainstorming': {
-    agents: {
-      creative: { type: 'creative', ...DEFAULT_AGENT_CONFIGS.creative, weight: 0.7, temperature: 1.0 },
-      analytical: { type: 'analytical', ...DEFAULT_AGENT_CONFIGS.analytical, weight: 0.2 },
-      factual: { type: 'factual', ...DEFAULT_AGENT_CONFIGS.factual, weight: 0.1 },
-    },
+    agents: [
+      { ...BUILTIN_AGENT_PERSONAS.analytical, weight: 0.2 },
+      { ...BUILTIN_AGENT_PERSONAS.factual, weight: 0.1 },
+      { ...BUILTIN_AGENT_PERSONAS.creative, weight: 0.7, temperature: 1.0 },
+    ],
     orchestrator: {
       ...DEFAULT_TRINITY_CONFIG.orchestrator,
       blendingStrategy: 'best_of_three',
       temperature: 0.8,
     },
   },
-}; 
\ No newline at end of file
+};
+
+// Trinity settings sent by clients along with a message
+export interface TrinityRequestConfig {
+  executionMode?: TrinityExecutionMode | undefined; // Overrides the preset's
+  preset?: string | undefined;
+  customConfig?: any;
+}
+
+/**
+ * Build the configuration for a run on top of a preset, by default the built-in
+ * one the request names. The preset's execution mode is kept unless the request
+ * sets one. Custom agents replace the preset's; each one starts
+ * from its built-in persona, or from the custom persona defaults, and
+ * overrides whatever it sets.
+ */
+export function resolveTrinityConfig(
+  request: TrinityRequestConfig,
+  preset: Partial<TrinityConfig> | undefined = request.preset ? TRINITY_PRESETS[request.preset] : undefined
+): TrinityConfig {
+  const custom = request.customConfig;
+  const orchestrator = preset?.orchestrator ?? DEFAULT_TRINITY_CONFIG.orchestrator;
+
+  const config: TrinityConfig = {
+    ...DEFAULT_TRINITY_CONFIG,
+    ...preset,
+    ...(request.executionMode && { executionMode: request.executionMode }),
+    ...(Array.isArray(custom?.agents) && {
+      agents: custom.agents.map((agent: any) => ({
+        ...(isBuiltinAgentType(agent?.type) ? BUILTIN_AGENT_PERSONAS[agent.type as BuiltinAgentType] : CUSTOM_AGENT_DEFAULTS),
+        ...agent,
+      })),
+    }),
+    ...(custom?.orchestrator && { orchestrator: { ...orchestrator, ...custom.orchestrator } }),
+    ...(custom?.debateRounds !== undefined && { debateRounds: custom.debateRounds }),
+  };
+
+  const result = TrinityConfigSchema.safeParse(config);
+  if (!result.success) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: `Invalid Trinity configuration: ${result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`,
+    });
+  }
+
+  return config;
+}
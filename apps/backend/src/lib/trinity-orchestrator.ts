@@ -1,12 +1,112 @@
+import { z } from 'zod';
 import type { 
   Orchestrator, 
   AgentResponse, 
   BlendingStrategy, 
   TrinityResponse,
-  AgentType 
+  BuiltinAgentType,
+  BlendResult,
+  BlendStreamChunk,
+  ConflictAnalysis,
+  JudgeResult,
+  ResponseJudge,
+  TrinityConflict
 } from './trinity-mode.js';
-import type { LLMMessage } from './llm.js';
-import { generateLLMResponse } from './llm.js';
+import type { LLMConfig, LLMMessage, LLMResponse } from './llm.js';
+import { generateLLMResponse, generateLLMStreamResponse, parseJsonReply } from './llm.js';
+import { HeuristicJudge, LLMJudge, heuristicScore } from './trinity-judge.js';
+import { attributeSynthesis, type SentenceEmbedder } from './trinity-attribution.js';
+
+// Section headings the hierarchical blend uses for the built-in personas
+const HIERARCHICAL_SECTIONS: Record<BuiltinAgentType, string> = {
+  analytical: 'Analysis & Logic',
+  creative: 'Creative Perspectives',
+  factual: 'Facts & Verification',
+};
+
+// How prompts refer to the agent behind a response
+function agentLabel(response: AgentResponse): string {
+  return response.agentName ?? response.agentType;
+}
+
+function agentSpecializations(responses: AgentResponse[]): string {
+  return responses
+    .map(r => `- ${agentLabel(r)}: ${r.agentDescription ?? 'General perspective'}`)
+    .join('\n');
+}
+
+// The contradictions for a blending prompt to settle, or nothing when there are none
+function disagreementInstructions(conflicts: TrinityConflict[] | undefined, responses: AgentResponse[]): string {
+  if (!conflicts?.length) {
+    return '';
+  }
+
+  const labels = new Map(responses.map(r => [r.agentType, agentLabel(r)]));
+  const points = conflicts.map((conflict, i) => [
+    `${i + 1}. ${conflict.topic} (${conflict.severity})`,
+    ...conflict.positions.map(p => `   - ${labels.get(p.agentType) ?? p.agentType}: ${p.position}`),
+  ].join('\n'));
+
+  return `
+
+Points of Disagreement:
+${points.join('\n')}
+
+Address each point of disagreement explicitly: say which position is better supported and why, or what the answer depends on if it cannot be settled. Do not paper over them.`;
+}
+
+// What the conflict analysis call is asked to reply with
+const ConflictAnalysisReplySchema = z.object({
+  claims: z.array(z.object({
+    agent: z.string(),
+    claim: z.string(),
+  })).default([]),
+  conflicts: z.array(z.object({
+    topic: z.string(),
+    severity: z.enum(['minor', 'major']).catch('minor'),
+    positions: z.array(z.object({
+      agent: z.string(),
+      position: z.string(),
+    })),
+  })).default([]),
+});
+
+/**
+ * Read the conflict analysis reply, mapping the agents it names back to their
+ * types. Contradictions that don't name two of the agents are dropped, and an
+ * unreadable reply counts as finding nothing.
+ */
+export function parseConflictAnalysis(content: string, responses: AgentResponse[]): Omit<ConflictAnalysis, 'usage'> {
+  const agentTypes = new Map<string, string>();
+  for (const response of responses) {
+    agentTypes.set(response.agentType.toLowerCase(), response.agentType);
+    agentTypes.set(agentLabel(response).toLowerCase(), response.agentType);
+  }
+  const toAgentType = (agent: string) => agentTypes.get(agent.trim().toLowerCase());
+
+  let reply: z.infer<typeof ConflictAnalysisReplySchema>;
+  try {
+    reply = parseJsonReply(content, ConflictAnalysisReplySchema);
+  } catch (error) {
+    console.warn('Unreadable conflict analysis:', error instanceof Error ? error.message : error);
+    return { claims: [], conflicts: [] };
+  }
+
+  const claims = reply.claims.flatMap(({ agent, claim }) => {
+    const agentType = toAgentType(agent);
+    return agentType ? [{ agentType, claim }] : [];
+  });
+
+  const conflicts = reply.conflicts.flatMap(({ topic, severity, positions }) => {
+    const known = positions.flatMap(({ agent, position }) => {
+      const agentType = toAgentType(agent);
+      return agentType ? [{ agentType, position }] : [];
+    });
+    return new Set(known.map(p => p.agentType)).size >= 2 ? [{ topic, severity, positions: known }] : [];
+  });
+
+  return { claims, conflicts };
+}
 
 export class TrinityOrchestrator implements Orchestrator {
   private readonly orchestratorModel: string;
@@ -14,6 +114,10 @@ export class TrinityOrchestrator implements Orchestrator {
   private readonly temperature: number;
   private readonly maxTokens: number;
   private readonly apiKey: string | undefined;
+  private readonly judge: ResponseJudge;
+  private readonly fallbackJudge: ResponseJudge = new HeuristicJudge();
+  private readonly embed: SentenceEmbedder | undefined;
+  private readonly signal: AbortSignal | undefined;
 
   constructor(config: {
     model: string;
@@ -21,84 +125,209 @@ export class TrinityOrchestrator implements Orchestrator {
     temperature: number;
     maxTokens: number;
     apiKey?: string;
+    judge?: ResponseJudge; // Scores responses for best_of_three; an LLM judge on the orchestrator model by default
+    embed?: SentenceEmbedder; // Embeds sentences for attribution; OpenAI embeddings by default
+    signal?: AbortSignal; // Aborts every orchestrator call when the generation is stopped
   }) {
     this.orchestratorModel = config.model;
     this.orchestratorProvider = config.provider;
     this.temperature = config.temperature;
     this.maxTokens = config.maxTokens;
     this.apiKey = config.apiKey;
+    this.embed = config.embed;
+    this.signal = config.signal;
+    this.judge = config.judge ?? new LLMJudge({
+      model: config.model,
+      provider: config.provider,
+      maxTokens: config.maxTokens,
+      apiKey: config.apiKey,
+      signal: config.signal,
+    });
   }
 
   async blendResponses(
     responses: AgentResponse[],
     strategy: BlendingStrategy,
     originalMessages: LLMMessage[],
-    apiKey?: string
+    apiKey?: string,
+    conflicts?: TrinityConflict[]
   ): Promise<string> {
-    // Filter out invalid responses
-    const validResponses = responses.filter(r => 
-      r.content && 
-      !r.content.startsWith('Error:') && 
-      r.confidence > 0.1
-    );
+    const result = await this.blendResponsesWithUsage(responses, strategy, originalMessages, apiKey, conflicts);
+    return result.content;
+  }
+
+  async blendResponsesWithUsage(
+    responses: AgentResponse[],
+    strategy: BlendingStrategy,
+    originalMessages: LLMMessage[],
+    apiKey?: string,
+    conflicts?: TrinityConflict[]
+  ): Promise<BlendResult> {
+    const validResponses = this.validResponses(responses);
 
     if (validResponses.length === 0) {
       throw new Error('No valid agent responses to blend');
     }
 
     if (validResponses.length === 1) {
-      return validResponses[0]?.content || '';
+      return { content: validResponses[0]?.content || '' };
     }
 
-    switch (strategy) {
-      case 'weighted_merge':
-        return this.weightedMerge(validResponses, originalMessages, apiKey);
-      case 'best_of_three':
-        return this.selectBestResponse(validResponses).content;
-      case 'synthesis':
-        return this.synthesizeResponses(validResponses, originalMessages, apiKey);
-      case 'hierarchical':
-        return this.hierarchicalBlend(validResponses, originalMessages, apiKey);
-      default:
-        throw new Error(`Unknown blending strategy: ${strategy}`);
+    if (strategy === 'best_of_three') {
+      return this.pickBestResponse(validResponses, originalMessages, apiKey);
     }
+
+    const prompt = this.blendPrompt(strategy, validResponses, originalMessages, conflicts);
+    if (!apiKey) throw new Error('Orchestrator requires an API key');
+
+    const llmResponse = await generateLLMResponse(prompt, this.llmConfig(apiKey, false));
+    return this.toBlendResult(llmResponse);
   }
 
-  generateAttribution(
+  /**
+   * Same as blendResponsesWithUsage, streaming the blended answer as the
+   * orchestrator writes it. An answer that needs no writing, from a single
+   * agent or picked by best_of_three, arrives as one chunk.
+   */
+  async* streamBlendResponses(
     responses: AgentResponse[],
-    finalResponse: string
-  ): TrinityResponse['attribution'] {
-    const attribution: TrinityResponse['attribution'] = {};
-    
-    for (const response of responses) {
-      // Calculate contribution percentage based on confidence and content similarity
-      const contributionPercentage = this.calculateContribution(response, responses, finalResponse);
-      
-      // Extract key insights from each agent's response
-      const keyInsights = this.extractKeyInsights(response);
-      
-      attribution[response.agentType] = {
-        contributionPercentage,
-        keyInsights,
+    strategy: BlendingStrategy,
+    originalMessages: LLMMessage[],
+    apiKey?: string,
+    conflicts?: TrinityConflict[]
+  ): AsyncGenerator<BlendStreamChunk, void, unknown> {
+    const validResponses = this.validResponses(responses);
+
+    if (validResponses.length < 2 || strategy === 'best_of_three') {
+      const { content, usage, scores } = await this.blendResponsesWithUsage(
+        responses,
+        strategy,
+        originalMessages,
+        apiKey,
+        conflicts
+      );
+      yield {
+        content,
+        delta: content,
+        isComplete: true,
+        ...(usage && { usage }),
+        ...(scores && { scores }),
       };
+      return;
+    }
+
+    const prompt = this.blendPrompt(strategy, validResponses, originalMessages, conflicts);
+    if (!apiKey) throw new Error('Orchestrator requires an API key');
+
+    for await (const chunk of generateLLMStreamResponse(prompt, this.llmConfig(apiKey, true))) {
+      yield {
+        content: chunk.content,
+        delta: chunk.delta,
+        isComplete: chunk.isComplete,
+        ...(chunk.usage && {
+          usage: {
+            model: this.orchestratorModel,
+            provider: this.orchestratorProvider,
+            ...chunk.usage,
+          },
+        }),
+      };
+    }
+  }
+
+  async generateAttribution(
+    responses: AgentResponse[],
+    finalResponse: string,
+    embeddingApiKey?: string
+  ): Promise<TrinityResponse['attribution']> {
+    return attributeSynthesis(responses, finalResponse, { embed: this.embed, apiKey: embeddingApiKey });
+  }
+
+  async analyzeConflicts(
+    responses: AgentResponse[],
+    originalMessages: LLMMessage[],
+    apiKey?: string
+  ): Promise<ConflictAnalysis> {
+    const validResponses = this.validResponses(responses);
+    if (validResponses.length < 2) {
+      return { claims: [], conflicts: [] };
     }
+    if (!apiKey) throw new Error('Orchestrator requires an API key');
+
+    const systemPrompt = `You compare answers that ${validResponses.length} specialized AI agents gave to the same question, and find where they contradict each other.
+
+1. List the main claims and recommendations each agent makes.
+2. Find contradictions: points where agreeing with one agent means disagreeing with another. Differences in emphasis, scope or level of detail are not contradictions.
+3. Rate each contradiction "major" if following the wrong side would change the answer, otherwise "minor".
 
-    return attribution;
+Refer to agents by id: ${validResponses.map(r => `"${r.agentType}" (${agentLabel(r)})`).join(', ')}
+
+Original Question: ${originalMessages[originalMessages.length - 1]?.content || 'Unknown'}
+
+Agent Responses:
+${validResponses.map(r => `
+[${r.agentType}]: ${r.content}
+`).join('\n')}
+
+Reply with JSON only, in this shape:
+{"claims": [{"agent": "<id>", "claim": "..."}], "conflicts": [{"topic": "...", "severity": "major", "positions": [{"agent": "<id>", "position": "..."}]}]}
+Leave "conflicts" empty if the agents agree.`;
+
+    const orchestratorMessages: LLMMessage[] = [
+      { role: 'system', content: systemPrompt },
+      { role: 'user', content: 'Analyze the agents\' answers for contradictions.' },
+    ];
+
+    const llmResponse = await generateLLMResponse(orchestratorMessages, {
+      model: this.orchestratorModel,
+      provider: this.orchestratorProvider as any,
+      apiKey: apiKey || this.apiKey || '',
+      temperature: 0,
+      maxTokens: this.maxTokens,
+      stream: false,
+      ...(this.signal && { signal: this.signal }),
+    });
+
+    const { usage } = this.toBlendResult(llmResponse);
+    return {
+      ...parseConflictAnalysis(llmResponse.content, validResponses),
+      ...(usage && { usage }),
+    };
   }
 
-  resolveConflicts(responses: AgentResponse[]): AgentResponse[] {
-    // For now, return responses with confidence adjustment based on conflicts
+  // Agents on one side of a major contradiction count for less in the blend, but
+  // stay in it so the synthesis can settle the disagreement
+  resolveConflicts(responses: AgentResponse[], conflicts: TrinityConflict[]): AgentResponse[] {
     return responses.map(response => {
-      const conflictCount = this.detectConflicts(response, responses);
-      const adjustedConfidence = Math.max(0.1, response.confidence - (conflictCount * 0.15));
+      const majorConflicts = conflicts.filter(conflict =>
+        conflict.severity === 'major' && conflict.positions.some(p => p.agentType === response.agentType)
+      ).length;
       
       return {
         ...response,
-        confidence: adjustedConfidence,
+        confidence: Math.max(0.2, response.confidence - (majorConflicts * 0.1)),
       };
     });
   }
 
+  /**
+   * Score the responses with the configured judge, or offline with the
+   * heuristic if the judge fails
+   */
+  async judgeResponses(
+    responses: AgentResponse[],
+    originalMessages: LLMMessage[],
+    apiKey?: string
+  ): Promise<JudgeResult> {
+    try {
+      return await this.judge.judge(responses, originalMessages, apiKey || this.apiKey);
+    } catch (error) {
+      console.warn(`${this.judge.name} judge failed, scoring offline:`, error instanceof Error ? error.message : error);
+      return this.fallbackJudge.judge(responses, originalMessages);
+    }
+  }
+
+  // Heuristic pick that needs no model call
   selectBestResponse(responses: AgentResponse[]): AgentResponse {
     if (responses.length === 0) {
       throw new Error('No responses to select from');
@@ -107,7 +336,7 @@ export class TrinityOrchestrator implements Orchestrator {
     // Score responses based on multiple factors
     const scored = responses.map(response => ({
       response,
-      score: this.scoreResponse(response),
+      score: heuristicScore(response),
     }));
 
     // Sort by score and return the best
@@ -119,14 +348,30 @@ export class TrinityOrchestrator implements Orchestrator {
     return best.response;
   }
 
-  private async weightedMerge(
+  // best_of_three: the top-scored response, with every score kept for the UI
+  private async pickBestResponse(
     responses: AgentResponse[],
     originalMessages: LLMMessage[],
     apiKey?: string
-  ): Promise<string> {
-    if (!apiKey) throw new Error('Orchestrator requires an API key');
-    
-    const systemPrompt = `You are an expert orchestrator combining insights from three specialized AI agents.
+  ): Promise<BlendResult> {
+    const { scores, usage } = await this.judgeResponses(responses, originalMessages, apiKey);
+    const scoreOf = (response: AgentResponse) =>
+      scores.find(score => score.agentType === response.agentType)?.score ?? 0;
+    const best = responses.reduce((top, response) => scoreOf(response) > scoreOf(top) ? response : top);
+
+    return {
+      content: best.content,
+      scores,
+      ...(usage && { usage }),
+    };
+  }
+
+  private weightedMergePrompt(
+    responses: AgentResponse[],
+    originalMessages: LLMMessage[],
+    conflicts?: TrinityConflict[]
+  ): LLMMessage[] {
+    const systemPrompt = `You are an expert orchestrator combining insights from ${responses.length} specialized AI agents.
 
 Your task is to merge their responses into one comprehensive answer that:
 1. Preserves the best insights from each agent
@@ -135,45 +380,30 @@ Your task is to merge their responses into one comprehensive answer that:
 4. Weights contributions based on agent specialization relevance
 
 Agent Specializations:
-- Analytical: Logic, reasoning, data analysis, systematic problem-solving
-- Creative: Innovation, alternative perspectives, imaginative solutions
-- Factual: Accuracy, verification, reliable information, source citation
+${agentSpecializations(responses)}
 
 Original Question: ${originalMessages[originalMessages.length - 1]?.content || 'Unknown'}
 
 Agent Responses:
 ${responses.map(r => `
-**${r.agentType.toUpperCase()} Agent** (Confidence: ${(r.confidence * 100).toFixed(1)}%, Weight: ${(r.metadata.temperature * 100).toFixed(0)}%):
+**${agentLabel(r).toUpperCase()} Agent** (Confidence: ${(r.confidence * 100).toFixed(1)}%, Weight: ${(r.metadata.temperature * 100).toFixed(0)}%):
 ${r.content}
-`).join('\n')}
+`).join('\n')}${disagreementInstructions(conflicts, responses)}
 
 Blend these responses into a single, comprehensive answer that leverages each agent's strengths.`;
 
-    const orchestratorMessages: LLMMessage[] = [
+    return [
       { role: 'system', content: systemPrompt },
       { role: 'user', content: 'Please create a unified response that blends the insights from all agents.' },
     ];
-
-    const llmResponse = await generateLLMResponse(orchestratorMessages, {
-      model: this.orchestratorModel,
-      provider: this.orchestratorProvider as any,
-      apiKey: apiKey || this.apiKey || '',
-      temperature: this.temperature,
-      maxTokens: this.maxTokens,
-      stream: false,
-    });
-
-    return llmResponse.content;
   }
 
-  private async synthesizeResponses(
+  private synthesisPrompt(
     responses: AgentResponse[],
     originalMessages: LLMMessage[],
-    apiKey?: string
-  ): Promise<string> {
-    if (!apiKey) throw new Error('Orchestrator requires an API key');
-    
-    const systemPrompt = `You are a master synthesizer creating a new, unified response that incorporates the best elements from three specialized AI agents.
+    conflicts?: TrinityConflict[]
+  ): LLMMessage[] {
+    const systemPrompt = `You are a master synthesizer creating a new, unified response that incorporates the best elements from ${responses.length} specialized AI agents.
 
 Your goal is to create something greater than the sum of its parts by:
 1. Identifying complementary insights across agents
@@ -183,46 +413,39 @@ Your goal is to create something greater than the sum of its parts by:
 
 Do not simply concatenate or summarize - create a genuinely synthesized response.
 
+Agent Specializations:
+${agentSpecializations(responses)}
+
 Original Question: ${originalMessages[originalMessages.length - 1]?.content || 'Unknown'}
 
 Agent Insights:
 ${responses.map(r => `
-[${r.agentType.toUpperCase()}] ${r.content}
-`).join('\n')}
+[${agentLabel(r).toUpperCase()}] ${r.content}
+`).join('\n')}${disagreementInstructions(conflicts, responses)}
 
 Synthesize these into a cohesive, insightful response that creates new value.`;
 
-    const orchestratorMessages: LLMMessage[] = [
+    return [
       { role: 'system', content: systemPrompt },
       { role: 'user', content: 'Create a synthesized response that goes beyond simple combination.' },
     ];
-
-    const llmResponse = await generateLLMResponse(orchestratorMessages, {
-      model: this.orchestratorModel,
-      provider: this.orchestratorProvider as any,
-      apiKey: apiKey || this.apiKey || '',
-      temperature: this.temperature,
-      maxTokens: this.maxTokens,
-      stream: false,
-    });
-
-    return llmResponse.content;
   }
 
-  private async hierarchicalBlend(
+  private hierarchicalPrompt(
     responses: AgentResponse[],
     originalMessages: LLMMessage[],
-    apiKey?: string
-  ): Promise<string> {
-    if (!apiKey) throw new Error('Orchestrator requires an API key');
-    
-    const systemPrompt = `You are organizing insights from three specialized agents into a structured, hierarchical response.
+    conflicts?: TrinityConflict[]
+  ): LLMMessage[] {
+    const sections = responses.map(r => {
+      const heading = HIERARCHICAL_SECTIONS[r.agentType as BuiltinAgentType] ?? `${agentLabel(r)} Perspective`;
+      return `**${heading}** (from ${agentLabel(r)} Agent)`;
+    });
+
+    const systemPrompt = `You are organizing insights from ${responses.length} specialized agents into a structured, hierarchical response.
 
 Structure your response with clear sections that highlight each agent's contribution:
 
-**Analysis & Logic** (from Analytical Agent)
-**Creative Perspectives** (from Creative Agent)  
-**Facts & Verification** (from Factual Agent)
+${sections.join('\n')}
 **Integrated Conclusion** (your synthesis)
 
 Make each section distinct but ensure the overall response flows logically.
@@ -231,168 +454,67 @@ Original Question: ${originalMessages[originalMessages.length - 1]?.content || '
 
 Agent Responses:
 ${responses.map(r => `
-[${r.agentType.toUpperCase()}]: ${r.content}
-`).join('\n')}
+[${agentLabel(r).toUpperCase()}]: ${r.content}
+`).join('\n')}${disagreementInstructions(conflicts, responses)}
 
 Create a well-structured response with clear sections for each perspective.`;
 
-    const orchestratorMessages: LLMMessage[] = [
+    return [
       { role: 'system', content: systemPrompt },
       { role: 'user', content: 'Create a hierarchically structured response with distinct sections.' },
     ];
-
-    const llmResponse = await generateLLMResponse(orchestratorMessages, {
-      model: this.orchestratorModel,
-      provider: this.orchestratorProvider as any,
-      apiKey: apiKey || this.apiKey || '',
-      temperature: this.temperature,
-      maxTokens: this.maxTokens,
-      stream: false,
-    });
-
-    return llmResponse.content;
   }
 
-  private scoreResponse(response: AgentResponse): number {
-    let score = response.confidence * 0.4; // Base confidence weight
-    
-    // Content quality indicators
-    if (response.content.length > 100) score += 0.1;
-    if (response.content.length > 500) score += 0.1;
-    
-    // Execution time bonus (faster is better, up to a point)
-    if (response.executionTime < 5000) score += 0.1;
-    else if (response.executionTime > 30000) score -= 0.1;
-    
-    // Finish reason quality
-    if (response.metadata.finishReason === 'stop') score += 0.1;
-    else if (response.metadata.finishReason === 'length') score -= 0.05;
-    
-    // Agent-specific scoring
-    switch (response.agentType) {
-      case 'analytical':
-        if (response.content.includes('analysis') || response.content.includes('data')) score += 0.1;
-        break;
-      case 'creative':
-        if (response.content.includes('creative') || response.content.includes('innovative')) score += 0.1;
-        break;
-      case 'factual':
-        if (response.content.includes('fact') || response.content.includes('research')) score += 0.1;
-        break;
+  // The orchestrator conversation that writes the blended answer for a strategy
+  private blendPrompt(
+    strategy: BlendingStrategy,
+    responses: AgentResponse[],
+    originalMessages: LLMMessage[],
+    conflicts?: TrinityConflict[]
+  ): LLMMessage[] {
+    switch (strategy) {
+      case 'weighted_merge':
+        return this.weightedMergePrompt(responses, originalMessages, conflicts);
+      case 'synthesis':
+        return this.synthesisPrompt(responses, originalMessages, conflicts);
+      case 'hierarchical':
+        return this.hierarchicalPrompt(responses, originalMessages, conflicts);
+      default:
+        throw new Error(`Unknown blending strategy: ${strategy}`);
     }
-    
-    return Math.max(0, Math.min(1, score));
-  }
-
-  private calculateContribution(
-    response: AgentResponse,
-    allResponses: AgentResponse[],
-    finalResponse: string
-  ): number {
-    // Simple heuristic: base on confidence and uniqueness
-    const baseContribution = response.confidence * 0.6;
-    
-    // Uniqueness bonus
-    const uniqueness = this.calculateUniqueness(response, allResponses);
-    const uniquenessBonus = uniqueness * 0.3;
-    
-    // Content similarity to final response
-    const similarity = this.calculateSimilarity(response.content, finalResponse);
-    const similarityBonus = similarity * 0.1;
-    
-    const total = baseContribution + uniquenessBonus + similarityBonus;
-    return Math.max(0, Math.min(1, total));
-  }
-
-  private calculateUniqueness(response: AgentResponse, allResponses: AgentResponse[]): number {
-    const otherResponses = allResponses.filter(r => r.agentType !== response.agentType);
-    let uniqueWords = 0;
-    let totalWords = 0;
-    
-    const responseWords = new Set(response.content.toLowerCase().split(/\s+/));
-    const otherWords = new Set();
-    
-    otherResponses.forEach(r => {
-      r.content.toLowerCase().split(/\s+/).forEach(word => otherWords.add(word));
-    });
-    
-    responseWords.forEach(word => {
-      totalWords++;
-      if (!otherWords.has(word)) uniqueWords++;
-    });
-    
-    return totalWords > 0 ? uniqueWords / totalWords : 0;
   }
 
-  private calculateSimilarity(content1: string, content2: string): number {
-    const words1 = new Set(content1.toLowerCase().split(/\s+/));
-    const words2 = new Set(content2.toLowerCase().split(/\s+/));
-    
-    const intersection = new Set([...words1].filter(word => words2.has(word)));
-    const union = new Set([...words1, ...words2]);
-    
-    return union.size > 0 ? intersection.size / union.size : 0;
+  private llmConfig(apiKey: string, stream: boolean): LLMConfig {
+    return {
+      model: this.orchestratorModel,
+      provider: this.orchestratorProvider as any,
+      apiKey,
+      temperature: this.temperature,
+      maxTokens: this.maxTokens,
+      stream,
+      ...(this.signal && { signal: this.signal }),
+    };
   }
 
-  private extractKeyInsights(response: AgentResponse): string[] {
-    // Simple extraction based on sentence structure and keywords
-    const sentences = response.content.split(/[.!?]+/).filter(s => s.trim().length > 20);
-    const insights: string[] = [];
-    
-    for (const sentence of sentences) {
-      const trimmed = sentence.trim();
-      
-      // Look for insight indicators
-      if (
-        trimmed.includes('important') || 
-        trimmed.includes('key') || 
-        trimmed.includes('crucial') ||
-        trimmed.includes('significant') ||
-        trimmed.includes('notable') ||
-        trimmed.startsWith('This') ||
-        trimmed.startsWith('The main') ||
-        (response.agentType === 'analytical' && (trimmed.includes('analysis') || trimmed.includes('data'))) ||
-        (response.agentType === 'creative' && (trimmed.includes('creative') || trimmed.includes('innovative'))) ||
-        (response.agentType === 'factual' && (trimmed.includes('fact') || trimmed.includes('research')))
-      ) {
-        insights.push(trimmed);
-      }
-    }
-    
-    return insights.slice(0, 3); // Limit to 3 key insights per agent
+  // Responses worth blending: not failed and not near-zero confidence
+  private validResponses(responses: AgentResponse[]): AgentResponse[] {
+    return responses.filter(r => 
+      r.content && 
+      !r.content.startsWith('Error:') && 
+      r.confidence > 0.1
+    );
   }
 
-  private detectConflicts(response: AgentResponse, allResponses: AgentResponse[]): number {
-    // Simplified conflict detection based on contradictory keywords
-    const contradictionPairs = [
-      ['yes', 'no'],
-      ['true', 'false'],
-      ['increase', 'decrease'],
-      ['better', 'worse'],
-      ['should', 'should not'],
-      ['recommend', 'not recommend'],
-    ];
-    
-    let conflicts = 0;
-    const responseText = response.content.toLowerCase();
-    
-    for (const otherResponse of allResponses) {
-      if (otherResponse.agentType === response.agentType) continue;
-      
-      const otherText = otherResponse.content.toLowerCase();
-      
-      for (const [word1, word2] of contradictionPairs) {
-        if (word1 && word2) {
-          if (responseText.includes(word1) && otherText.includes(word2)) {
-            conflicts++;
-          }
-          if (responseText.includes(word2) && otherText.includes(word1)) {
-            conflicts++;
-          }
-        }
-      }
-    }
-    
-    return conflicts;
+  private toBlendResult(llmResponse: LLMResponse): BlendResult {
+    return {
+      content: llmResponse.content,
+      ...(llmResponse.usage && {
+        usage: {
+          model: this.orchestratorModel,
+          provider: this.orchestratorProvider,
+          ...llmResponse.usage,
+        },
+      }),
+    };
   }
-} 
\ No newline at end of file
+}
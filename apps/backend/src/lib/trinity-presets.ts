@@ -0,0 +1,365 @@
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import {
+  DEFAULT_TRINITY_CONFIG,
+  TRINITY_PRESETS,
+  TrinityConfigSchema,
+  resolveTrinityConfig,
+  type TrinityConfig,
+  type TrinityRequestConfig,
+} from './trinity-mode.js';
+
+// Format of exported preset files; bump when the layout changes
+export const TRINITY_PRESET_EXPORT_VERSION = 1;
+const MAX_IMPORTED_PRESETS = 50;
+
+export const TrinityPresetFieldsSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  description: z.string().trim().max(500).optional(),
+});
+
+export const TrinityPresetInputSchema = TrinityPresetFieldsSchema.extend({
+  config: TrinityConfigSchema,
+});
+
+export const TrinityPresetExportSchema = z.object({
+  version: z.literal(TRINITY_PRESET_EXPORT_VERSION),
+  presets: z.array(TrinityPresetInputSchema).min(1).max(MAX_IMPORTED_PRESETS),
+});
+
+export type TrinityPresetInput = z.infer<typeof TrinityPresetInputSchema>;
+export type TrinityPresetExport = z.infer<typeof TrinityPresetExportSchema>;
+
+/**
+ * A built-in or saved preset, as returned to clients
+ */
+export interface TrinityPresetInfo {
+  id: string;
+  name: string;
+  description: string | null;
+  config: TrinityConfig;
+  builtIn: boolean;
+  updatedAt: Date | null;
+}
+
+const PRESET_SELECT = { id: true, name: true, description: true, config: true, updatedAt: true } as const;
+
+// A saved preset as stored; the selects here only read these columns
+interface TrinityPresetRow {
+  id: string;
+  name: string;
+  description: string | null;
+  config: unknown;
+  updatedAt: Date;
+}
+
+/**
+ * The part of the Prisma client presets are read and written with
+ */
+export interface TrinityPresetClient {
+  trinityPreset: {
+    findMany(args: object): Promise<TrinityPresetRow[]>;
+    findFirst(args: object): Promise<TrinityPresetRow | null>;
+    create(args: object): Promise<TrinityPresetRow>;
+    update(args: object): Promise<TrinityPresetRow>;
+    deleteMany(args: object): Promise<{ count: number }>;
+  };
+  user: {
+    findUnique(args: object): Promise<{ defaultTrinityPreset: string | null } | null>;
+    update(args: object): Promise<unknown>;
+    updateMany(args: object): Promise<{ count: number }>;
+  };
+  thread: {
+    updateMany(args: object): Promise<{ count: number }>;
+  };
+}
+
+export interface TrinityPresetTransactionClient extends TrinityPresetClient {
+  $transaction<T>(fn: (tx: TrinityPresetClient) => Promise<T>): Promise<T>;
+}
+
+function builtinPreset(id: string): TrinityPresetInfo | null {
+  const preset = TRINITY_PRESETS[id];
+  if (!preset) {
+    return null;
+  }
+
+  return {
+    id,
+    name: id.split('-').map(word => word.charAt(0).toUpperCase() + word.slice(1)).join(' '),
+    description: null,
+    config: { ...DEFAULT_TRINITY_CONFIG, ...preset },
+    builtIn: true,
+    updatedAt: null,
+  };
+}
+
+/**
+ * A saved preset for clients, or null if its config no longer passes the
+ * schema, e.g. after the limits changed since it was saved
+ */
+function toPresetInfo(row: TrinityPresetRow): TrinityPresetInfo | null {
+  const config = TrinityConfigSchema.safeParse(row.config);
+  if (!config.success) {
+    console.warn(`Skipping Trinity preset ${row.id} with an invalid config:`, config.error.issues.map(issue => issue.message).join('; '));
+    return null;
+  }
+  return { ...row, config: config.data as TrinityConfig, builtIn: false };
+}
+
+// For presets just written, which the input schemas already checked
+function toSavedPresetInfo(row: TrinityPresetRow): TrinityPresetInfo {
+  const preset = toPresetInfo(row);
+  if (!preset) {
+    throw new TRPCError({ code: 'INTERNAL_SERVER_ERROR', message: 'Saved Trinity preset is invalid' });
+  }
+  return preset;
+}
+
+/**
+ * Built-in presets followed by the user's own, with the user's default
+ */
+export async function listTrinityPresets(
+  prisma: TrinityPresetClient,
+  userId: string
+): Promise<{ presets: TrinityPresetInfo[]; defaultPresetId: string | null }> {
+  const [saved, user] = await Promise.all([
+    prisma.trinityPreset.findMany({
+      where: { userId },
+      orderBy: { name: 'asc' },
+      select: PRESET_SELECT,
+    }),
+    prisma.user.findUnique({ where: { id: userId }, select: { defaultTrinityPreset: true } }),
+  ]);
+
+  return {
+    presets: [
+      ...Object.keys(TRINITY_PRESETS).map(id => builtinPreset(id)!),
+      ...saved.flatMap(row => toPresetInfo(row) ?? []),
+    ],
+    defaultPresetId: user?.defaultTrinityPreset ?? null,
+  };
+}
+
+/**
+ * A built-in preset by key or one of the user's saved presets by id
+ */
+export async function getTrinityPreset(prisma: TrinityPresetClient, userId: string, id: string): Promise<TrinityPresetInfo> {
+  const builtin = builtinPreset(id);
+  if (builtin) {
+    return builtin;
+  }
+
+  const row = await prisma.trinityPreset.findFirst({ where: { id, userId }, select: PRESET_SELECT });
+  if (!row) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Trinity preset not found' });
+  }
+
+  const preset = toPresetInfo(row);
+  if (!preset) {
+    throw new TRPCError({ code: 'PRECONDITION_FAILED', message: 'Trinity preset has an invalid configuration' });
+  }
+  return preset;
+}
+
+export async function createTrinityPreset(
+  prisma: TrinityPresetClient,
+  userId: string,
+  input: TrinityPresetInput
+): Promise<TrinityPresetInfo> {
+  await assertNameAvailable(prisma, userId, input.name);
+
+  const row = await prisma.trinityPreset.create({
+    data: {
+      userId,
+      name: input.name,
+      description: input.description ?? null,
+      config: input.config,
+    },
+    select: PRESET_SELECT,
+  });
+  return toSavedPresetInfo(row);
+}
+
+export async function updateTrinityPreset(
+  prisma: TrinityPresetClient,
+  userId: string,
+  id: string,
+  input: { name?: string | undefined; description?: string | undefined; config?: TrinityConfig | undefined }
+): Promise<TrinityPresetInfo> {
+  const existing = await prisma.trinityPreset.findFirst({ where: { id, userId }, select: { name: true } });
+  if (!existing) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Trinity preset not found' });
+  }
+  if (input.name && input.name !== existing.name) {
+    await assertNameAvailable(prisma, userId, input.name);
+  }
+
+  const row = await prisma.trinityPreset.update({
+    where: { id },
+    data: {
+      ...(input.name && { name: input.name }),
+      ...(input.description !== undefined && { description: input.description }),
+      ...(input.config && { config: input.config }),
+    },
+    select: PRESET_SELECT,
+  });
+  return toSavedPresetInfo(row);
+}
+
+/**
+ * Delete a saved preset; the user and threads that defaulted to it fall back
+ * to the built-in default
+ */
+export async function deleteTrinityPreset(prisma: TrinityPresetClient, userId: string, id: string): Promise<void> {
+  const { count } = await prisma.trinityPreset.deleteMany({ where: { id, userId } });
+  if (count === 0) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Trinity preset not found' });
+  }
+
+  await prisma.user.updateMany({ where: { id: userId, defaultTrinityPreset: id }, data: { defaultTrinityPreset: null } });
+  await prisma.thread.updateMany({ where: { userId, defaultTrinityPreset: id }, data: { defaultTrinityPreset: null } });
+}
+
+/**
+ * Copy a built-in or saved preset into a new saved preset the user can edit
+ */
+export async function duplicateTrinityPreset(
+  prisma: TrinityPresetClient,
+  userId: string,
+  id: string,
+  name?: string
+): Promise<TrinityPresetInfo> {
+  const source = await getTrinityPreset(prisma, userId, id);
+
+  return createTrinityPreset(prisma, userId, {
+    name: name ?? await availableName(prisma, userId, `${source.name} (copy)`),
+    ...(source.description && { description: source.description }),
+    config: source.config,
+  });
+}
+
+/**
+ * Set or clear the preset used when a Trinity request names none, for the
+ * user or for one of their threads
+ */
+export async function setDefaultTrinityPreset(
+  prisma: TrinityPresetClient,
+  userId: string,
+  presetId: string | null,
+  threadId?: string
+): Promise<void> {
+  if (presetId) {
+    await getTrinityPreset(prisma, userId, presetId);
+  }
+
+  if (threadId) {
+    const { count } = await prisma.thread.updateMany({
+      where: { id: threadId, userId },
+      data: { defaultTrinityPreset: presetId },
+    });
+    if (count === 0) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Thread not found' });
+    }
+    return;
+  }
+
+  await prisma.user.update({ where: { id: userId }, data: { defaultTrinityPreset: presetId } });
+}
+
+/**
+ * Presets as a JSON document for importing elsewhere; all saved presets unless ids are given
+ */
+export async function exportTrinityPresets(prisma: TrinityPresetClient, userId: string, ids?: string[]): Promise<TrinityPresetExport> {
+  const presets = ids
+    ? await Promise.all(ids.map(id => getTrinityPreset(prisma, userId, id)))
+    : (await listTrinityPresets(prisma, userId)).presets.filter(preset => !preset.builtIn);
+
+  if (presets.length === 0) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'No presets to export' });
+  }
+
+  return {
+    version: TRINITY_PRESET_EXPORT_VERSION,
+    presets: presets.map(preset => ({
+      name: preset.name,
+      ...(preset.description && { description: preset.description }),
+      config: preset.config,
+    })),
+  };
+}
+
+/**
+ * Save the presets in an exported document, renaming any whose name is taken
+ */
+export async function importTrinityPresets(prisma: TrinityPresetTransactionClient, userId: string, data: unknown): Promise<TrinityPresetInfo[]> {
+  const result = TrinityPresetExportSchema.safeParse(data);
+  if (!result.success) {
+    throw new TRPCError({
+      code: 'BAD_REQUEST',
+      message: `Invalid preset file: ${result.error.issues.map(issue => `${issue.path.join('.')}: ${issue.message}`).join('; ')}`,
+    });
+  }
+
+  // All or nothing, so a failure part way leaves no partial import behind
+  return prisma.$transaction(async tx => {
+    const imported: TrinityPresetInfo[] = [];
+    for (const preset of result.data.presets) {
+      imported.push(await createTrinityPreset(tx, userId, {
+        ...preset,
+        name: await availableName(tx, userId, preset.name),
+      }));
+    }
+    return imported;
+  });
+}
+
+/**
+ * Configuration for a run: the preset the request names, else the thread's
+ * default, else the user's, with the request's own settings on top
+ */
+export async function resolveTrinityRunConfig(
+  prisma: TrinityPresetClient,
+  userId: string,
+  thread: { defaultTrinityPreset?: string | null },
+  request: TrinityRequestConfig
+): Promise<{ config: TrinityConfig; presetId: string | undefined }> {
+  let presetId = request.preset ?? thread.defaultTrinityPreset ?? undefined;
+  if (!presetId) {
+    const user = await prisma.user.findUnique({ where: { id: userId }, select: { defaultTrinityPreset: true } });
+    presetId = user?.defaultTrinityPreset ?? undefined;
+  }
+
+  // Unknown names fall through to the defaults, as before saved presets existed
+  const preset = presetId
+    ? await getTrinityPreset(prisma, userId, presetId).catch(() => undefined)
+    : undefined;
+
+  return {
+    config: resolveTrinityConfig(request, preset?.config),
+    presetId: preset ? presetId : undefined,
+  };
+}
+
+async function assertNameAvailable(prisma: TrinityPresetClient, userId: string, name: string): Promise<void> {
+  const existing = await prisma.trinityPreset.findFirst({ where: { userId, name }, select: { id: true } });
+  if (existing) {
+    throw new TRPCError({ code: 'CONFLICT', message: `A preset named "${name}" already exists` });
+  }
+}
+
+// The name, or the name with the first free " (n)" suffix
+async function availableName(prisma: TrinityPresetClient, userId: string, name: string): Promise<string> {
+  const taken = new Set<string>(
+    (await prisma.trinityPreset.findMany({
+      where: { userId, name: { startsWith: name } },
+      select: { name: true },
+    })).map(row => row.name)
+  );
+
+  let candidate = name;
+  for (let n = 2; taken.has(candidate); n++) {
+    candidate = `${name} (${n})`;
+  }
+  return candidate;
+}
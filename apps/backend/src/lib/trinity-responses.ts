@@ -0,0 +1,23 @@
+import type { TrinityResponse } from './trinity-mode.js';
+
+// What the UI shows for a Trinity message; streamed runs have no metadata or attribution
+export type StoredTrinityResponse = Pick<TrinityResponse, 'finalResponse' | 'agentResponses'> & Partial<TrinityResponse>;
+
+/**
+ * Save the Trinity data for a message, including debate rounds, points of
+ * disagreement and judge scores, replacing any saved before
+ */
+export async function storeTrinityResponse(
+  prisma: any,
+  messageId: string,
+  data: StoredTrinityResponse
+): Promise<void> {
+  const trinityData = { ...data, messageId };
+
+  await prisma.$executeRaw`
+    INSERT INTO trinity_responses (message_id, data)
+    VALUES (${messageId}, ${JSON.stringify(trinityData)}::jsonb)
+    ON CONFLICT (message_id)
+    DO UPDATE SET data = EXCLUDED.data
+  `;
+}
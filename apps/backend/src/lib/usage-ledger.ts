@@ -0,0 +1,276 @@
+import type { LLMProvider, LLMResponse } from './llm.js';
+import type { AgentResponse, OrchestratorUsage, TrinityStreamChunk } from './trinity-mode.js';
+import { modelRegistry } from './model-registry.js';
+import { estimateTokens } from './context-builder.js';
+
+// Default reporting windows
+const DEFAULT_DAILY_RANGE_DAYS = 30;
+const DEFAULT_MONTHLY_RANGE_MONTHS = 12;
+
+export type UsageSource = 'chat' | 'trinity_agent' | 'trinity_orchestrator' | 'trinity_eval' | 'memory_rerank';
+export type UsagePeriod = 'day' | 'month';
+export type UsageGroupBy = 'provider' | 'model' | 'thread' | 'preset' | 'source';
+
+/**
+ * A single LLM call to record in the ledger
+ */
+export interface UsageEntry {
+  userId: string;
+  threadId?: string;
+  messageId?: string;
+  source: UsageSource;
+  agentType?: string;
+  preset?: string;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  estimated?: boolean;
+}
+
+/**
+ * Aggregated usage for one period and group
+ */
+export interface UsageSummaryRow {
+  period: Date;
+  key: string | null;
+  label: string | null;
+  calls: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  costUsd: number;
+}
+
+/**
+ * Options for usage summary queries
+ */
+export interface UsageSummaryOptions {
+  userId: string;
+  period: UsagePeriod;
+  groupBy: UsageGroupBy;
+  from?: Date;
+  to?: Date;
+}
+
+// SQL expressions for each grouping; never interpolate user input here
+const GROUP_BY_COLUMNS: Record<UsageGroupBy, { key: string; label: string }> = {
+  provider: { key: 'u."provider"', label: 'u."provider"' },
+  model: { key: `u."provider" || '/' || u."model"`, label: 'u."model"' },
+  thread: { key: 'u."threadId"', label: 't."title"' },
+  preset: { key: 'u."preset"', label: 'u."preset"' },
+  source: { key: 'u."source"', label: 'u."source"' },
+};
+
+/**
+ * Estimate the USD cost of a call from the model registry's pricing.
+ * Models without pricing (custom endpoints, unlisted models) cost 0.
+ */
+export function estimateCost(
+  provider: string,
+  model: string,
+  promptTokens: number,
+  completionTokens: number
+): number {
+  const pricing = modelRegistry.get(provider as LLMProvider, model)?.pricing;
+  if (!pricing) {
+    return 0;
+  }
+
+  return (promptTokens * pricing.input + completionTokens * pricing.output) / 1_000_000;
+}
+
+/**
+ * Use the provider-reported usage when present, otherwise estimate it from
+ * the prompt size and the generated content
+ */
+export function resolveUsage(
+  reported: LLMResponse['usage'] | undefined,
+  fallback: { provider: LLMProvider; promptTokens: number; content: string }
+): { promptTokens: number; completionTokens: number; estimated: boolean } {
+  if (reported && reported.totalTokens > 0) {
+    return {
+      promptTokens: reported.promptTokens,
+      completionTokens: reported.completionTokens,
+      estimated: false,
+    };
+  }
+
+  return {
+    promptTokens: fallback.promptTokens,
+    completionTokens: estimateTokens(fallback.content, fallback.provider),
+    estimated: true,
+  };
+}
+
+/**
+ * Token usage of one Trinity agent call
+ */
+export interface AgentUsage {
+  agentType: string;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+}
+
+/**
+ * Agent usage from a completed Trinity run
+ */
+export function agentUsageFromResponses(responses: AgentResponse[]): AgentUsage[] {
+  return responses.map(response => ({
+    agentType: response.agentType,
+    provider: response.metadata.provider,
+    model: response.metadata.model,
+    promptTokens: response.tokenUsage.promptTokens,
+    completionTokens: response.tokenUsage.completionTokens,
+  }));
+}
+
+/**
+ * Agent usage from an `agent_complete` stream chunk, if it reported any
+ */
+export function agentUsageFromStreamChunk(chunk: TrinityStreamChunk): AgentUsage | null {
+  const { metadata, agentType } = chunk;
+  if (!agentType || !metadata?.tokenUsage || !metadata.provider || !metadata.model) {
+    return null;
+  }
+
+  return {
+    agentType,
+    provider: metadata.provider,
+    model: metadata.model,
+    promptTokens: metadata.tokenUsage.promptTokens,
+    completionTokens: metadata.tokenUsage.completionTokens,
+  };
+}
+
+/**
+ * Ledger entries for a Trinity run: one per agent that used tokens, plus the orchestrator call
+ */
+export function trinityUsageEntries(
+  agents: AgentUsage[],
+  orchestratorUsage: OrchestratorUsage | undefined,
+  base: { userId: string; threadId?: string; messageId?: string; preset?: string | undefined }
+): UsageEntry[] {
+  const common = {
+    userId: base.userId,
+    ...(base.threadId && { threadId: base.threadId }),
+    ...(base.messageId && { messageId: base.messageId }),
+    ...(base.preset && { preset: base.preset }),
+  };
+
+  const entries: UsageEntry[] = agents
+    .filter(agent => agent.promptTokens + agent.completionTokens > 0)
+    .map(agent => ({
+      ...common,
+      source: 'trinity_agent',
+      agentType: agent.agentType,
+      provider: agent.provider,
+      model: agent.model,
+      promptTokens: agent.promptTokens,
+      completionTokens: agent.completionTokens,
+    }));
+
+  if (orchestratorUsage) {
+    entries.push({
+      ...common,
+      source: 'trinity_orchestrator',
+      provider: orchestratorUsage.provider,
+      model: orchestratorUsage.model,
+      promptTokens: orchestratorUsage.promptTokens,
+      completionTokens: orchestratorUsage.completionTokens,
+    });
+  }
+
+  return entries;
+}
+
+/**
+ * Persist ledger entries with their estimated cost. Failures are logged, never
+ * thrown, so accounting problems don't break chat.
+ */
+export async function recordUsage(prisma: any, entries: UsageEntry[]): Promise<void> {
+  if (entries.length === 0) {
+    return;
+  }
+
+  try {
+    await prisma.usageRecord.createMany({
+      data: entries.map(entry => ({
+        userId: entry.userId,
+        threadId: entry.threadId ?? null,
+        messageId: entry.messageId ?? null,
+        source: entry.source,
+        agentType: entry.agentType ?? null,
+        preset: entry.preset ?? null,
+        provider: entry.provider,
+        model: entry.model,
+        promptTokens: entry.promptTokens,
+        completionTokens: entry.completionTokens,
+        totalTokens: entry.promptTokens + entry.completionTokens,
+        costUsd: estimateCost(entry.provider, entry.model, entry.promptTokens, entry.completionTokens),
+        estimated: entry.estimated ?? false,
+      })),
+    });
+  } catch (error) {
+    console.error('Failed to record token usage:', error);
+  }
+}
+
+/**
+ * Daily or monthly usage totals for a user, grouped by provider, model, thread,
+ * preset or source. Newest periods first, most expensive groups first.
+ */
+export async function getUsageSummary(
+  prisma: any,
+  options: UsageSummaryOptions
+): Promise<UsageSummaryRow[]> {
+  const { userId, period, groupBy } = options;
+  const to = options.to ?? new Date();
+  const from = options.from ?? defaultRangeStart(period, to);
+  const columns = GROUP_BY_COLUMNS[groupBy];
+
+  const query = `
+    SELECT
+      date_trunc($2, u."createdAt") AS period,
+      ${columns.key} AS key,
+      MAX(${columns.label}) AS label,
+      COUNT(*) AS calls,
+      SUM(u."promptTokens") AS "promptTokens",
+      SUM(u."completionTokens") AS "completionTokens",
+      SUM(u."totalTokens") AS "totalTokens",
+      SUM(u."costUsd") AS "costUsd"
+    FROM usage_records u
+    LEFT JOIN threads t ON t.id = u."threadId"
+    WHERE u."userId" = $1
+      AND u."createdAt" >= $3
+      AND u."createdAt" < $4
+    GROUP BY 1, 2
+    ORDER BY 1 DESC, "costUsd" DESC
+  `;
+
+  const rows: any[] = await prisma.$queryRawUnsafe(query, userId, period, from, to);
+
+  // SUM/COUNT come back as bigint
+  return rows.map(row => ({
+    period: row.period,
+    key: row.key,
+    label: row.label,
+    calls: Number(row.calls),
+    promptTokens: Number(row.promptTokens),
+    completionTokens: Number(row.completionTokens),
+    totalTokens: Number(row.totalTokens),
+    costUsd: Number(row.costUsd),
+  }));
+}
+
+function defaultRangeStart(period: UsagePeriod, to: Date): Date {
+  const from = new Date(to);
+  if (period === 'day') {
+    from.setUTCDate(from.getUTCDate() - DEFAULT_DAILY_RANGE_DAYS);
+  } else {
+    from.setUTCMonth(from.getUTCMonth() - DEFAULT_MONTHLY_RANGE_MONTHS);
+  }
+  return from;
+}
@@ -0,0 +1,168 @@
+import type { DistanceMetric } from './memory-search.js';
+
+/**
+ * HNSW index settings per distance metric: the operator class the index is
+ * built with, which must match the operator the query orders by
+ */
+export const vectorIndexMetrics: Record<DistanceMetric, { opclass: string; suffix: string }> = {
+  cosine: { opclass: 'vector_cosine_ops', suffix: 'cosine' },
+  dotProduct: { opclass: 'vector_ip_ops', suffix: 'ip' },
+  l2: { opclass: 'vector_l2_ops', suffix: 'l2' },
+};
+
+// pgvector can't build an HNSW index over longer vectors
+export const HNSW_MAX_DIMENSIONS = 2000;
+
+// What hnsw.ef_search accepts
+const MAX_EF_SEARCH = 1000;
+const DEFAULT_EF_SEARCH = 100;
+
+export type IterativeScan = 'strict_order' | 'relaxed_order' | 'off';
+
+export interface HnswSearchSettings {
+  // Candidates the index scan keeps; more means better recall and slower queries
+  efSearch?: number;
+  // Skip the ANN index for an exact (sequential) search, e.g. for benchmark ground truth
+  exact?: boolean;
+}
+
+/**
+ * The embedding column as a query has to spell it for the index of that length
+ * to be used. The column takes vectors of any length and HNSW needs a fixed
+ * one, so every index covers one length through this cast, with a matching
+ * partial predicate on "embeddingDimensions".
+ */
+export function indexedEmbeddingColumn(dimensions: number): string {
+  if (!Number.isInteger(dimensions) || dimensions < 1) {
+    throw new Error(`Invalid embedding length: ${dimensions}`);
+  }
+  return dimensions <= HNSW_MAX_DIMENSIONS ? `"embedding"::vector(${dimensions})` : '"embedding"';
+}
+
+export function vectorIndexName(metric: DistanceMetric, dimensions: number): string {
+  return `memory_cards_embedding_${dimensions}_${vectorIndexMetrics[metric].suffix}_idx`;
+}
+
+function envEfSearch(): number {
+  const value = parseInt(process.env['HNSW_EF_SEARCH'] || String(DEFAULT_EF_SEARCH));
+  return Number.isInteger(value) && value > 0 ? value : DEFAULT_EF_SEARCH;
+}
+
+// Installed pgvector version per client; only successful lookups are kept
+const pgvectorVersions = new WeakMap<object, Promise<string | null>>();
+
+/**
+ * The installed pgvector version, e.g. '0.8.0', looked up once per client. Null
+ * when it can't be read, in which case no version-specific setting is used.
+ */
+export function pgvectorVersion(prisma: any): Promise<string | null> {
+  const cached = pgvectorVersions.get(prisma);
+  if (cached) {
+    return cached;
+  }
+
+  const lookup = (async () => {
+    const [extension]: Array<{ extversion: string }> = await prisma.$queryRaw`
+      SELECT extversion FROM pg_extension WHERE extname = 'vector'
+    `;
+    return extension?.extversion ?? null;
+  })();
+  pgvectorVersions.set(prisma, lookup);
+
+  return lookup.catch(error => {
+    pgvectorVersions.delete(prisma);
+    console.warn('Could not read the pgvector version:', error instanceof Error ? error.message : error);
+    return null;
+  });
+}
+
+// hnsw.iterative_scan arrived in pgvector 0.8; older versions reject the setting
+export function supportsIterativeScan(version: string | null): boolean {
+  const [major, minor] = (version ?? '').split('.').map(part => parseInt(part));
+  if (major === undefined || minor === undefined || isNaN(major) || isNaN(minor)) {
+    return false;
+  }
+  return major > 0 || minor >= 8;
+}
+
+function envIterativeScan(): IterativeScan {
+  const value = process.env['HNSW_ITERATIVE_SCAN'] || 'strict_order';
+  return value === 'relaxed_order' || value === 'off' ? value : 'strict_order';
+}
+
+/**
+ * SET LOCAL statements to run in a search's transaction. ef_search never drops
+ * below the limit, since an index scan returns no more rows than ef_search. Iterative
+ * scans keep the scan going when the user filter throws most candidates away,
+ * which otherwise costs recall for users with a small share of the table; they
+ * are only set when `version` (from pgvectorVersion) is 0.8 or later.
+ */
+export function hnswSearchSettings(
+  limit: number,
+  settings: HnswSearchSettings = {},
+  version: string | null = null
+): string[] {
+  if (settings.exact) {
+    return ['SET LOCAL enable_indexscan = off'];
+  }
+
+  const requested = settings.efSearch ?? envEfSearch();
+  if (!Number.isInteger(requested) || requested < 1) {
+    throw new Error(`Invalid ef_search: ${requested}`);
+  }
+  const efSearch = Math.min(MAX_EF_SEARCH, Math.max(requested, limit));
+  const iterativeScan = supportsIterativeScan(version) ? envIterativeScan() : 'off';
+
+  return [
+    `SET LOCAL hnsw.ef_search = ${efSearch}`,
+    ...(iterativeScan !== 'off' ? [`SET LOCAL hnsw.iterative_scan = ${iterativeScan}`] : []),
+  ];
+}
+
+/**
+ * Create the HNSW indexes missing for the embedding lengths in use, one per
+ * metric, and rebuild any a failed concurrent build left invalid. The common
+ * lengths are indexed by migration already; this covers models added since.
+ * Builds run concurrently, so writes go on meanwhile. Resolves with the names of
+ * the indexes built.
+ */
+export async function ensureVectorIndexes(prisma: any): Promise<string[]> {
+  const lengths: Array<{ embeddingDimensions: number }> = await prisma.$queryRawUnsafe(`
+    SELECT DISTINCT "embeddingDimensions"
+    FROM "memory_cards"
+    WHERE "embeddingDimensions" IS NOT NULL
+  `);
+  const existing: Array<{ name: string; valid: boolean }> = await prisma.$queryRawUnsafe(`
+    SELECT i.relname as name, x.indisvalid as valid
+    FROM pg_index x
+    JOIN pg_class i ON i.oid = x.indexrelid
+    JOIN pg_class t ON t.oid = x.indrelid
+    WHERE t.relname = 'memory_cards'
+  `);
+  const valid = new Map(existing.map(index => [index.name, index.valid]));
+
+  const built: string[] = [];
+  for (const { embeddingDimensions } of lengths) {
+    const dimensions = Number(embeddingDimensions);
+    if (dimensions > HNSW_MAX_DIMENSIONS) {
+      console.warn(`Memory cards with ${dimensions}-dimension embeddings can't be HNSW-indexed and are searched sequentially`);
+      continue;
+    }
+
+    for (const [metric, { opclass }] of Object.entries(vectorIndexMetrics) as Array<[DistanceMetric, { opclass: string }]>) {
+      const name = vectorIndexName(metric, dimensions);
+      if (valid.get(name) === true) continue;
+
+      if (valid.get(name) === false) {
+        await prisma.$executeRawUnsafe(`DROP INDEX CONCURRENTLY IF EXISTS "${name}"`);
+      }
+      await prisma.$executeRawUnsafe(`
+        CREATE INDEX CONCURRENTLY IF NOT EXISTS "${name}"
+        ON "memory_cards" USING hnsw ((${indexedEmbeddingColumn(dimensions)}) ${opclass})
+        WHERE "embeddingDimensions" = ${dimensions}
+      `);
+      built.push(name);
+    }
+  }
+  return built;
+}
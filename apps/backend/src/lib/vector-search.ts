@@ -1,5 +1,6 @@
 import { prisma } from './database';
 import { formatVectorForPg, parseVectorFromPg } from './embeddings';
+import { hnswSearchSettings, indexedEmbeddingColumn, pgvectorVersion, type HnswSearchSettings } from './vector-indexes.js';
 
 /**
  * Interface for memory card search results
@@ -15,14 +16,62 @@ export interface MemoryCardSearchResult {
   updatedAt: Date;
 }
 
+/**
+ * Interface for full-text search results
+ */
+export interface KeywordSearchResult extends Omit<MemoryCardSearchResult, 'similarity'> {
+  rank: number; // ts_rank_cd; only comparable within one query
+  snippet: string; // Content excerpt with matched words between « and »
+}
+
 /**
  * Interface for similarity search options
  */
-export interface SimilaritySearchOptions {
+export interface SimilaritySearchOptions extends HnswSearchSettings {
   limit?: number;
   threshold?: number;
   userId?: string;
   excludeIds?: string[];
+  embeddingModel?: string; // Only cards embedded by this model (see embeddingModelId)
+}
+
+/**
+ * Restrict a search to cards embedded in the query's space: same length always,
+ * same model when one is given. Vectors of other lengths can't be compared at all.
+ */
+function embeddingSpaceConditions(
+  queryEmbedding: number[],
+  embeddingModel: string | undefined,
+  queryParams: any[]
+): string[] {
+  // A literal, not a parameter, so the planner can pick the partial HNSW index
+  // for this length (see indexedEmbeddingColumn); it's the vector's length, a number
+  const conditions = [`"embeddingDimensions" = ${queryEmbedding.length}`];
+
+  if (embeddingModel) {
+    conditions.push(`"embeddingModel" = $${queryParams.length + 1}`);
+    queryParams.push(embeddingModel);
+  }
+
+  return conditions;
+}
+
+/**
+ * Run a nearest-neighbour query with its HNSW settings. SET LOCAL only lasts
+ * for the transaction, so they share one.
+ */
+async function queryNearest(
+  query: string,
+  queryParams: any[],
+  limit: number,
+  settings: HnswSearchSettings
+): Promise<any[]> {
+  const version = await pgvectorVersion(prisma);
+  const results = await prisma.$transaction([
+    ...hnswSearchSettings(limit, settings, version).map(setting => prisma.$executeRawUnsafe(setting)),
+    prisma.$queryRawUnsafe(query, ...queryParams),
+  ]);
+  return results[results.length - 1] as any[];
 }
 
 /**
@@ -40,9 +89,11 @@ export async function searchSimilarMemoryCards(
     threshold = 0.7,
     userId,
     excludeIds = [],
+    embeddingModel,
   } = options;
 
   const vectorString = formatVectorForPg(queryEmbedding);
+  const column = indexedEmbeddingColumn(queryEmbedding.length);
   
   // Build the WHERE clause conditions
   const whereConditions: string[] = [];
@@ -57,33 +108,36 @@ export async function searchSimilarMemoryCards(
     whereConditions.push(`"id" NOT IN (${excludeIds.map((_, i) => `$${queryParams.length + i + 1}`).join(', ')})`);
     queryParams.push(...excludeIds);
   }
-  
-  // Add the embedding conditions to the where conditions
+
+  whereConditions.push(...embeddingSpaceConditions(queryEmbedding, embeddingModel, queryParams));
   whereConditions.push(`"embedding" IS NOT NULL`);
-  whereConditions.push(`1 - ("embedding" <=> $1::vector) >= ${threshold}`);
-  
-  const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
+  queryParams.push(threshold);
   
-  // Use raw query for vector similarity search with cosine distance
+  // The nearest cards by cosine distance, through the HNSW index; the threshold
+  // applies to them afterwards, so a strict one can't drag the index scan on
   const query = `
-    SELECT 
-      "id",
-      "userId",
-      "title", 
-      "content",
-      "summary",
-      "createdAt",
-      "updatedAt",
-      1 - ("embedding" <=> $1::vector) as similarity
-    FROM "memory_cards"
-    ${whereClause}
-    ORDER BY "embedding" <=> $1::vector
-    LIMIT $2
+    SELECT * FROM (
+      SELECT 
+        "id",
+        "userId",
+        "title", 
+        "content",
+        "summary",
+        "createdAt",
+        "updatedAt",
+        1 - (${column} <=> $1::vector) as similarity
+      FROM "memory_cards"
+      WHERE ${whereConditions.join(' AND ')}
+      ORDER BY ${column} <=> $1::vector
+      LIMIT $2
+    ) nearest
+    WHERE similarity >= $${queryParams.length}::float8
+    ORDER BY similarity DESC
   `;
 
-  const results = await prisma.$queryRawUnsafe(query, ...queryParams);
+  const results = await queryNearest(query, queryParams, limit, options);
   
-  return (results as any[]).map(row => ({
+  return results.map(row => ({
     id: row.id,
     userId: row.userId,
     title: row.title,
@@ -110,9 +164,11 @@ export async function searchSimilarMemoryCardsDotProduct(
     threshold = 0.7,
     userId,
     excludeIds = [],
+    embeddingModel,
   } = options;
 
   const vectorString = formatVectorForPg(queryEmbedding);
+  const column = indexedEmbeddingColumn(queryEmbedding.length);
   
   // Build the WHERE clause conditions
   const whereConditions: string[] = [];
@@ -127,31 +183,36 @@ export async function searchSimilarMemoryCardsDotProduct(
     whereConditions.push(`"id" NOT IN (${excludeIds.map((_, i) => `$${queryParams.length + i + 1}`).join(', ')})`);
     queryParams.push(...excludeIds);
   }
+
+  whereConditions.push(...embeddingSpaceConditions(queryEmbedding, embeddingModel, queryParams));
+  whereConditions.push(`"embedding" IS NOT NULL`);
+  queryParams.push(threshold);
   
-  const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
-  
-  // Use raw query for vector similarity search with dot product (inner product)
+  // <#> is the negative inner product, so ascending order puts the largest
+  // inner product first, as the HNSW index returns them
   const query = `
-    SELECT 
-      "id",
-      "userId",
-      "title", 
-      "content",
-      "summary",
-      "createdAt",
-      "updatedAt",
-      ("embedding" <#> $1::vector) * -1 as similarity
-    FROM "memory_cards"
-    ${whereClause}
-    AND "embedding" IS NOT NULL
-    AND ("embedding" <#> $1::vector) * -1 >= ${threshold}
-    ORDER BY "embedding" <#> $1::vector DESC
-    LIMIT $2
+    SELECT * FROM (
+      SELECT 
+        "id",
+        "userId",
+        "title", 
+        "content",
+        "summary",
+        "createdAt",
+        "updatedAt",
+        (${column} <#> $1::vector) * -1 as similarity
+      FROM "memory_cards"
+      WHERE ${whereConditions.join(' AND ')}
+      ORDER BY ${column} <#> $1::vector
+      LIMIT $2
+    ) nearest
+    WHERE similarity >= $${queryParams.length}::float8
+    ORDER BY similarity DESC
   `;
 
-  const results = await prisma.$queryRawUnsafe(query, ...queryParams);
+  const results = await queryNearest(query, queryParams, limit, options);
   
-  return (results as any[]).map(row => ({
+  return results.map(row => ({
     id: row.id,
     userId: row.userId,
     title: row.title,
@@ -178,9 +239,11 @@ export async function searchSimilarMemoryCardsL2(
     threshold = 1.0, // For L2 distance, lower is better
     userId,
     excludeIds = [],
+    embeddingModel,
   } = options;
 
   const vectorString = formatVectorForPg(queryEmbedding);
+  const column = indexedEmbeddingColumn(queryEmbedding.length);
   
   // Build the WHERE clause conditions
   const whereConditions: string[] = [];
@@ -195,56 +258,127 @@ export async function searchSimilarMemoryCardsL2(
     whereConditions.push(`"id" NOT IN (${excludeIds.map((_, i) => `$${queryParams.length + i + 1}`).join(', ')})`);
     queryParams.push(...excludeIds);
   }
+
+  whereConditions.push(...embeddingSpaceConditions(queryEmbedding, embeddingModel, queryParams));
+  whereConditions.push(`"embedding" IS NOT NULL`);
+  queryParams.push(threshold);
   
-  const whereClause = whereConditions.length > 0 ? `WHERE ${whereConditions.join(' AND ')}` : '';
-  
-  // Use raw query for vector similarity search with L2 distance
+  // The nearest cards by L2 distance, through the HNSW index, then the threshold
   const query = `
-    SELECT 
+    SELECT * FROM (
+      SELECT 
+        "id",
+        "userId",
+        "title", 
+        "content",
+        "summary",
+        "createdAt",
+        "updatedAt",
+        (${column} <-> $1::vector) as distance,
+        1 / (1 + (${column} <-> $1::vector)) as similarity
+      FROM "memory_cards"
+      WHERE ${whereConditions.join(' AND ')}
+      ORDER BY ${column} <-> $1::vector
+      LIMIT $2
+    ) nearest
+    WHERE distance <= $${queryParams.length}::float8
+    ORDER BY distance
+  `;
+
+  const results = await queryNearest(query, queryParams, limit, options);
+  
+  return results.map(row => ({
+    id: row.id,
+    userId: row.userId,
+    title: row.title,
+    content: row.content,
+    summary: row.summary,
+    similarity: parseFloat(row.similarity),
+    createdAt: new Date(row.createdAt),
+    updatedAt: new Date(row.updatedAt),
+  }));
+}
+
+/**
+ * Search memory cards by keyword with Postgres full-text search. Titles weigh
+ * more than summaries, summaries more than content (see "searchVector").
+ * @param query - Search text, in web search syntax ("quoted phrases", -excluded, or)
+ * @param options - Search options; the threshold and embedding model don't apply
+ * @returns Promise<KeywordSearchResult[]> - Matching cards, best ranked first
+ */
+export async function searchMemoryCardsFullText(
+  query: string,
+  options: Omit<SimilaritySearchOptions, 'threshold' | 'embeddingModel' | keyof HnswSearchSettings> = {}
+): Promise<KeywordSearchResult[]> {
+  const {
+    limit = 5,
+    userId,
+    excludeIds = [],
+  } = options;
+
+  const whereConditions: string[] = [`"searchVector" @@ query`];
+  const queryParams: any[] = [query, limit];
+
+  if (userId) {
+    whereConditions.push(`"userId" = $${queryParams.length + 1}`);
+    queryParams.push(userId);
+  }
+
+  if (excludeIds.length > 0) {
+    whereConditions.push(`"id" NOT IN (${excludeIds.map((_, i) => `$${queryParams.length + i + 1}`).join(', ')})`);
+    queryParams.push(...excludeIds);
+  }
+
+  const sql = `
+    SELECT
       "id",
       "userId",
-      "title", 
+      "title",
       "content",
       "summary",
       "createdAt",
       "updatedAt",
-      ("embedding" <-> $1::vector) as distance,
-      1 / (1 + ("embedding" <-> $1::vector)) as similarity
-    FROM "memory_cards"
-    ${whereClause}
-    AND "embedding" IS NOT NULL
-    AND ("embedding" <-> $1::vector) <= ${threshold}
-    ORDER BY "embedding" <-> $1::vector
+      ts_rank_cd("searchVector", query) as rank,
+      ts_headline('english', "content", query, 'StartSel=«, StopSel=», MaxWords=30, MinWords=10, MaxFragments=2') as snippet
+    FROM "memory_cards", websearch_to_tsquery('english', $1) query
+    WHERE ${whereConditions.join(' AND ')}
+    ORDER BY rank DESC
     LIMIT $2
   `;
 
-  const results = await prisma.$queryRawUnsafe(query, ...queryParams);
-  
+  const results = await prisma.$queryRawUnsafe(sql, ...queryParams);
+
   return (results as any[]).map(row => ({
     id: row.id,
     userId: row.userId,
     title: row.title,
     content: row.content,
     summary: row.summary,
-    similarity: parseFloat(row.similarity),
+    rank: parseFloat(row.rank),
+    snippet: row.snippet,
     createdAt: new Date(row.createdAt),
     updatedAt: new Date(row.updatedAt),
   }));
 }
 
 /**
- * Create a new memory card with embedding
- * @param data - Memory card data
+ * Create a new memory card, with its embedding when one is given
+ * @param data - Memory card data; an embedding comes with the model that made it
  * @returns Promise<string> - The created memory card ID
  */
 export async function createMemoryCard(data: {
   userId: string;
   title: string;
   content: string;
-  summary?: string;
-  embedding: number[];
-  metadata?: Record<string, any>;
+  summary?: string | undefined;
+  metadata?: Record<string, any> | undefined;
+  embedding?: number[] | null | undefined;
+  embeddingModel?: string | undefined; // Required with an embedding
 }): Promise<string> {
+  if (data.embedding && !data.embeddingModel) {
+    throw new Error('An embedding must be stored with the model that produced it');
+  }
+
   const memoryCard = await prisma.memoryCard.create({
     data: {
       userId: data.userId,
@@ -257,13 +391,17 @@ export async function createMemoryCard(data: {
     },
   });
 
-  // Update with embedding using raw SQL
-  const vectorString = formatVectorForPg(data.embedding);
-  await prisma.$executeRawUnsafe(
-    `UPDATE "memory_cards" SET "embedding" = $1::vector WHERE "id" = $2`,
-    vectorString,
-    memoryCard.id
-  );
+  if (data.embedding) {
+    // Update with embedding using raw SQL
+    const vectorString = formatVectorForPg(data.embedding);
+    await prisma.$executeRawUnsafe(
+      `UPDATE "memory_cards" SET "embedding" = $1::vector, "embeddingModel" = $2, "embeddingDimensions" = $3, "embeddingStatus" = 'ready' WHERE "id" = $4`,
+      vectorString,
+      data.embeddingModel,
+      data.embedding.length,
+      memoryCard.id
+    );
+  }
 
   return memoryCard.id;
 }
@@ -272,16 +410,20 @@ export async function createMemoryCard(data: {
  * Update a memory card's embedding
  * @param id - Memory card ID
  * @param embedding - New embedding vector
+ * @param embeddingModel - Provider-qualified model that produced it
  * @returns Promise<void>
  */
 export async function updateMemoryCardEmbedding(
   id: string,
-  embedding: number[]
+  embedding: number[],
+  embeddingModel: string
 ): Promise<void> {
   const vectorString = formatVectorForPg(embedding);
   await prisma.$executeRawUnsafe(
-    `UPDATE "memory_cards" SET "embedding" = $1::vector, "updatedAt" = NOW() WHERE "id" = $2`,
+    `UPDATE "memory_cards" SET "embedding" = $1::vector, "embeddingModel" = $2, "embeddingDimensions" = $3, "embeddingStatus" = 'ready', "updatedAt" = NOW() WHERE "id" = $4`,
     vectorString,
+    embeddingModel,
+    embedding.length,
     id
   );
 }
@@ -305,19 +447,21 @@ export async function getMemoryCardsWithoutEmbeddings(limit = 100) {
 
 /**
  * Batch update embeddings for multiple memory cards
- * @param updates - Array of {id, embedding} pairs
+ * @param updates - Array of {id, embedding, embeddingModel} entries
  * @returns Promise<void>
  */
 export async function batchUpdateEmbeddings(
-  updates: Array<{ id: string; embedding: number[] }>
+  updates: Array<{ id: string; embedding: number[]; embeddingModel: string }>
 ): Promise<void> {
   // Use a transaction for batch updates
   await prisma.$transaction(
-    updates.map(({ id, embedding }) => {
+    updates.map(({ id, embedding, embeddingModel }) => {
       const vectorString = formatVectorForPg(embedding);
       return prisma.$executeRawUnsafe(
-        `UPDATE "memory_cards" SET "embedding" = $1::vector, "updatedAt" = NOW() WHERE "id" = $2`,
+        `UPDATE "memory_cards" SET "embedding" = $1::vector, "embeddingModel" = $2, "embeddingDimensions" = $3, "embeddingStatus" = 'ready', "updatedAt" = NOW() WHERE "id" = $4`,
         vectorString,
+        embeddingModel,
+        embedding.length,
         id
       );
     })
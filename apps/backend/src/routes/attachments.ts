@@ -0,0 +1,33 @@
+import { z } from 'zod';
+import { router, authenticatedProcedure } from '../trpc/init.js';
+import {
+  AttachmentUploadSchema,
+  createAttachmentUpload,
+  discardAttachment,
+  getAttachmentDownloadUrl,
+} from '../lib/attachments.js';
+
+export const attachmentsRouter = router({
+  // Register an attachment and get a presigned URL to PUT the file to
+  createUpload: authenticatedProcedure
+    .input(AttachmentUploadSchema)
+    .mutation(async ({ input, ctx }) => {
+      return createAttachmentUpload(ctx.prisma, ctx.user.userId, input);
+    }),
+
+  // Short-lived URL for viewing or downloading an attachment
+  getDownloadUrl: authenticatedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ input, ctx }) => {
+      const url = await getAttachmentDownloadUrl(ctx.prisma, ctx.user.userId, input.id);
+      return { url };
+    }),
+
+  // Remove an attachment that was uploaded but never sent
+  discard: authenticatedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      const success = await discardAttachment(ctx.prisma, ctx.user.userId, input.id);
+      return { success };
+    }),
+});
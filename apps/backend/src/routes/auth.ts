@@ -2,6 +2,8 @@ import { z } from 'zod';
 import { router, publicProcedure, authenticatedProcedure } from '../trpc/init.js';
 import { syncUserToDatabase, getUserFromAuth } from '../lib/auth.js';
 import * as crypto from 'crypto';
+import { FallbackChainSchema, getUserFallbackChain } from '../lib/llm.js';
+import { assertCustomEndpointAllowed } from '../lib/custom-endpoint-policy.js';
 
 // Encryption for API keys
 const getEncryptionKey = () => {
@@ -109,6 +111,7 @@ export const authRouter = router({
           id: true,
           provider: true,
           keyName: true,
+          baseUrl: true,
           createdAt: true,
         },
       });
@@ -122,10 +125,19 @@ export const authRouter = router({
       provider: z.string(),
       keyName: z.string(),
       apiKey: z.string(),
+      baseUrl: z.string().url().optional(),
     }))
     .mutation(async ({ input, ctx }) => {
       const { user, prisma } = ctx;
       
+      // Custom endpoints are identified by their URL; the key is optional
+      if (input.provider === 'custom' && !input.baseUrl) {
+        throw new Error('A base URL is required for custom endpoints');
+      }
+      if (input.provider === 'custom' && input.baseUrl) {
+        await assertCustomEndpointAllowed(input.baseUrl);
+      }
+      
       // Encrypt the API key
       const encrypted = encrypt(input.apiKey);
       
@@ -135,11 +147,13 @@ export const authRouter = router({
           provider: input.provider,
           keyName: input.keyName,
           encrypted,
+          baseUrl: input.provider === 'custom' ? input.baseUrl ?? null : null,
         },
         select: {
           id: true,
           provider: true,
           keyName: true,
+          baseUrl: true,
           createdAt: true,
         },
       });
@@ -147,6 +161,30 @@ export const authRouter = router({
       return { apiKey };
     }),
 
+  // Get the user's provider fallback chain
+  getFallbackChain: authenticatedProcedure
+    .query(async ({ ctx }) => {
+      const { user, prisma } = ctx;
+
+      return { fallbackChain: await getUserFallbackChain(user.userId, prisma) };
+    }),
+
+  // Replace the user's provider fallback chain (tried in order when a model fails)
+  updateFallbackChain: authenticatedProcedure
+    .input(z.object({
+      fallbackChain: FallbackChainSchema,
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const { user, prisma } = ctx;
+
+      await prisma.user.update({
+        where: { id: user.userId },
+        data: { fallbackChain: input.fallbackChain },
+      });
+
+      return { fallbackChain: input.fallbackChain };
+    }),
+
   // Delete API key
   deleteApiKey: authenticatedProcedure
     .input(z.object({
@@ -2,14 +2,44 @@ import { z } from 'zod';
 import { router, publicProcedure, authenticatedProcedure } from '../trpc/init.js';
 import { observable } from '@trpc/server/observable';
 import { 
-  generateLLMStreamResponse, 
-  getUserApiKey, 
-  validateModelForProvider,
+  generateLLMStreamWithFailover,
+  getUserApiKey,
+  getUserFallbackChain,
+  getUserCustomEndpoint,
+  listCustomEndpointModels,
   LLMServiceFactory,
-  type LLMMessage,
-  type LLMProvider 
+  type FailoverTarget,
+  type LLMProvider,
+  type LLMStreamChunk,
   } from '../lib/llm.js';
+  import { modelRegistry, PROVIDER_NAMES } from '../lib/model-registry.js';
+  import {
+    buildContextWindow,
+    getTrinityContextTargets,
+    loadRecentThreadMessages,
+  } from '../lib/context-builder.js';
+  import { enforceSpendLimits, getTrinityPlannedCalls } from '../lib/spend-limits.js';
+  import { listTrinityPresets, resolveTrinityRunConfig } from '../lib/trinity-presets.js';
+  import { resolveTrinityApiKeys } from '../lib/trinity-keys.js';
+  import { storeTrinityResponse } from '../lib/trinity-responses.js';
+  import { modelSupportsTools, runToolLoop, toolRegistry } from '../lib/tools.js';
+  import { MEMORY_TOOL_NAMES, MEMORY_WRITE_TOOLS, memoryToolsPrompt } from '../lib/memory-tools.js';
+  import {
+    MAX_ATTACHMENTS_PER_MESSAGE,
+    forModelCapabilities,
+    linkAttachments,
+    withAttachmentParts,
+  } from '../lib/attachments.js';
+  import {
+    agentUsageFromResponses,
+    agentUsageFromStreamChunk,
+    recordUsage,
+    resolveUsage,
+    trinityUsageEntries,
+    type AgentUsage,
+  } from '../lib/usage-ledger.js';
   import { streamingUtils } from '../lib/streaming.js';
+  import { announceGeneration, generationRegistry, persistStoppedGeneration } from '../lib/generations.js';
   import { TRPCError } from '@trpc/server';
   import {
   getThreadHistory,
@@ -28,37 +58,438 @@ import {
   type MemoryRetrievalOptions,
   type ContextualMemoryResult,
 } from '../lib/memory-integration.js';
+import { resolveEmbeddingProvider } from '../lib/embedding-providers.js';
   
   // Input validation schemas
 const ThreadIdSchema = z.string().cuid();
 const MessageContentSchema = z.string().min(1).max(50000);
-const ModelProviderSchema = z.enum(['openai', 'anthropic', 'google', 'mistral', 'openrouter']);
+const ModelProviderSchema = z.enum(['openai', 'anthropic', 'google', 'mistral', 'openrouter', 'custom']);
+
+// A single-model chat message and how to answer it
+const ChatMessageInputSchema = z.object({
+  threadId: ThreadIdSchema,
+  content: MessageContentSchema,
+  model: z.string(),
+  provider: ModelProviderSchema,
+  temperature: z.number().min(0).max(2).default(0.7),
+  maxTokens: z.number().min(1).max(4096).default(2048),
+  autoMemoryEnabled: z.boolean().default(false),
+});
+
+type ChatMessageInput = z.infer<typeof ChatMessageInputSchema>;
+
+// Resolve credentials for a provider/model pair, validating the model along the way.
+// Custom endpoints are validated against the models they actually serve.
+async function resolveProviderCredentials(
+  userId: string,
+  provider: LLMProvider,
+  model: string,
+  prisma: any
+): Promise<{ apiKey: string; baseUrl?: string }> {
+  if (provider === 'custom') {
+    const endpoint = await getUserCustomEndpoint(userId, prisma);
+    if (!endpoint) {
+      throw new Error('No custom endpoint configured. Please add one in settings.');
+    }
+
+    const models = await listCustomEndpointModels(endpoint.baseUrl, endpoint.apiKey);
+    if (!models.includes(model)) {
+      throw new Error(`Invalid model ${model} for provider ${provider}`);
+    }
+
+    return endpoint;
+  }
+
+  // Get user's API key for the provider
+  const apiKey = await getUserApiKey(userId, provider, prisma);
+  if (!apiKey) {
+    throw new Error(`No API key found for provider ${provider}. Please add your API key in settings.`);
+  }
+
+  // Validate model for provider, refreshing the registry if the model is new to us
+  if (!(await modelRegistry.resolve(provider, model, apiKey))) {
+    throw new Error(`Invalid model ${model} for provider ${provider}`);
+  }
+
+  return { apiKey };
+}
+
+/**
+ * Write the assistant's answer to a chat message, in the background once the
+ * placeholder message exists: fit the history and memories into the context,
+ * stream from the requested model or its fallbacks while running tool calls,
+ * then save the answer, record usage and auto-create memories. Progress goes
+ * to the user's stream; a stopped generation keeps what was written so far.
+ */
+async function generateChatReply(
+  prisma: any,
+  userId: string,
+  input: ChatMessageInput,
+  assistantMessage: { id: string; threadId: string; userId: string },
+  primaryCredentials: { apiKey: string; baseUrl?: string },
+  signal: AbortSignal
+): Promise<void> {
+  let accumulatedContent = '';
+
+  try {
+    // Try the requested model first, then the user's fallback chain
+    const primary = { provider: input.provider as LLMProvider, model: input.model };
+    const fallbackChain = await getUserFallbackChain(userId, prisma);
+    const targets = [
+      primary,
+      ...fallbackChain.filter(t => t.provider !== primary.provider || t.model !== primary.model),
+    ];
+    const supportsVision = (target: FailoverTarget) =>
+      modelRegistry.get(target.provider, target.model)?.capabilities.vision ?? false;
+
+    // Get recent conversation history, newest turns included, with attachments
+    // loaded for any target that can read them
+    const history = await withAttachmentParts(
+      prisma,
+      await loadRecentThreadMessages(prisma, input.threadId),
+      { vision: targets.some(supportsVision) }
+    );
+
+    // Models with function calling look memories up themselves through the memory tools;
+    // the others get relevant memories up front, fetched if any target needs them
+    const usesMemoryTools = (target: FailoverTarget) => modelSupportsTools(target.provider, target.model);
+    const needsMemoryPrompt = !targets.every(usesMemoryTools);
+
+    // 🧠 MEMORY-CARDS INTEGRATION: Retrieve contextual memories
+    let memoryContext = '';
+    if (needsMemoryPrompt) {
+      try {
+        const memoryOptions: MemoryRetrievalOptions = {
+          userId: userId,
+          query: input.content,
+          limit: 5,
+          threshold: 0.3,
+          // Embed with whichever provider the user has a key for
+          embeddingProvider: await resolveEmbeddingProvider(userId, prisma),
+        };
+        
+        const memoryResults = await retrieveContextualMemories(memoryOptions);
+        
+        if (memoryResults.memoryCount > 0) {
+          memoryContext = memoryResults.contextPrompt;
+          console.log(`Retrieved ${memoryResults.memoryCount} relevant memories for user ${userId}`);
+        }
+      } catch (error) {
+        console.error('Error retrieving contextual memories:', error);
+        // Continue without memories if there's an error
+      }
+    }
+
+    // Fit the memory prompt and newest turns into the smallest context window in the
+    // failover chain, once for each way the targets get their memories
+    const buildContext = (memoryTools: boolean) => buildContextWindow({
+      targets: targets.map(target => ({ ...target, maxTokens: input.maxTokens })),
+      history,
+      ...(memoryTools
+        ? { systemPrompt: memoryToolsPrompt(input.autoMemoryEnabled) }
+        : memoryContext && {
+          systemPrompt: `You are a helpful AI assistant with access to the user's personal memory cards. Use the following memories to provide personalized and contextual responses. These memories contain important information about the user that you should reference when relevant.\n${memoryContext}`,
+        }),
+    });
+    const toolsContext = buildContext(true);
+    const promptContext = needsMemoryPrompt ? buildContext(false) : toolsContext;
+    const contextFor = (target: FailoverTarget) => (usesMemoryTools(target) ? toolsContext : promptContext);
+    const context = contextFor(primary);
+    const llmMessages = context.messages;
+
+    if (context.droppedMessageIds.length > 0 || context.truncated) {
+      console.log(`Context for thread ${input.threadId}: kept ${context.includedMessageIds.length} messages, dropped ${context.droppedMessageIds.length} (${context.tokenCount}/${context.budget} tokens)`);
+    }
+
+    // Offer registered server-side tools to models that support function calling;
+    // memory writes need auto-memory switched on
+    const tools = toolRegistry.definitions()
+      .filter(tool => input.autoMemoryEnabled || !MEMORY_WRITE_TOOLS.includes(tool.name));
+
+    // Generate streaming response, executing any tool calls between rounds
+    const streamGenerator = runToolLoop(
+      llmMessages,
+      messages => generateLLMStreamWithFailover(
+        // Each target gets its own memory prompt and only attachments it can read
+        target => forModelCapabilities(
+          [...contextFor(target).messages, ...messages.slice(llmMessages.length)],
+          { vision: supportsVision(target) }
+        ),
+        targets,
+        async target => {
+          // Project the context actually sent; a target over its provider's cap,
+          // the requested model included, is skipped like a failing provider
+          await enforceSpendLimits(userId, prisma, [{
+            ...target,
+            promptTokens: contextFor(target).tokenCount,
+            maxTokens: input.maxTokens,
+          }]);
+
+          const credentials = target === primary
+            ? primaryCredentials
+            : await resolveProviderCredentials(userId, target.provider, target.model, prisma);
+
+          return {
+            model: target.model,
+            provider: target.provider,
+            ...credentials,
+            temperature: input.temperature,
+            maxTokens: input.maxTokens,
+            stream: true,
+            signal,
+            ...(tools.length > 0 && modelSupportsTools(target.provider, target.model) && { tools }),
+          };
+        },
+        failover => {
+          // Let the UI know another provider is taking over
+          streamingUtils.sendToUser(userId, {
+            type: 'chat_response',
+            id: `fallback_${assistantMessage.id}_${Date.now()}`,
+            threadId: input.threadId,
+            userId: userId,
+            data: {
+              messageId: assistantMessage.id,
+              content: '',
+              delta: '',
+              role: 'assistant',
+              model: failover.to.model,
+              provider: failover.to.provider,
+              isComplete: false,
+              fallback: failover,
+            },
+            timestamp: Date.now(),
+          });
+        }
+      ),
+      {
+        registry: toolRegistry,
+        context: { userId: userId, prisma, threadId: input.threadId, messageId: assistantMessage.id },
+        allowedTools: tools.map(tool => tool.name),
+        onToolResult: result => {
+          if (result.call.name === MEMORY_TOOL_NAMES.create && !result.isError) {
+            const created = result.output as { id: string; title: string };
+            streamingUtils.sendToUser(userId, {
+              type: 'memory_created',
+              id: `memory_${created.id}`,
+              threadId: input.threadId,
+              userId: userId,
+              data: { memoryCardId: created.id, title: created.title },
+              timestamp: Date.now(),
+            });
+          }
+
+          streamingUtils.sendToUser(userId, {
+            type: 'chat_response',
+            id: `tool_${assistantMessage.id}_${Date.now()}`,
+            threadId: input.threadId,
+            userId: userId,
+            data: {
+              messageId: assistantMessage.id,
+              content: '',
+              delta: '',
+              role: 'assistant',
+              isComplete: false,
+              toolResult: { name: result.call.name, isError: result.isError },
+            },
+            timestamp: Date.now(),
+          });
+        },
+      }
+    );
+
+    let answeredBy = primary;
+    let reportedUsage: LLMStreamChunk['usage'];
+    
+    for await (const chunk of streamGenerator) {
+      accumulatedContent = chunk.content;
+      answeredBy = { provider: chunk.provider, model: chunk.model };
+      reportedUsage = chunk.usage ?? reportedUsage;
+
+      // Send real-time update via WebSocket/SSE
+      streamingUtils.sendToUser(userId, {
+        type: 'chat_response',
+        id: `stream_${assistantMessage.id}_${Date.now()}`,
+        threadId: input.threadId,
+        userId: userId,
+        data: {
+          messageId: assistantMessage.id,
+          content: chunk.content,
+          delta: chunk.delta,
+          role: 'assistant',
+          model: chunk.model,
+          provider: chunk.provider,
+          isComplete: chunk.isComplete,
+          usage: chunk.usage,
+        },
+        timestamp: Date.now(),
+      });
+    }
+
+    // The context as the model that answered got it
+    const answeredContext = contextFor(answeredBy);
+
+    // Update the assistant message with final content and the model that answered
+    await prisma.message.update({
+      where: { id: assistantMessage.id },
+      data: { 
+        content: accumulatedContent,
+        model: answeredBy.model,
+        provider: answeredBy.provider,
+        updatedAt: new Date(),
+      },
+    });
+
+    // Record token usage, estimating it if the provider didn't report any
+    await recordUsage(prisma, [{
+      userId: userId,
+      threadId: input.threadId,
+      messageId: assistantMessage.id,
+      source: 'chat',
+      provider: answeredBy.provider,
+      model: answeredBy.model,
+      ...resolveUsage(reportedUsage, {
+        provider: answeredBy.provider,
+        promptTokens: answeredContext.tokenCount,
+        content: accumulatedContent,
+      }),
+    }]);
+
+    // 🧠 MEMORY-CARDS INTEGRATION: Analyze and create memory if auto-enabled
+    // (tool-capable models save memories themselves with create_memory)
+    if (accumulatedContent && input.autoMemoryEnabled && !usesMemoryTools(answeredBy)) {
+      try {
+        // Analyze conversation for memory creation
+        const analysis = await analyzeConversationForMemory(
+          answeredContext.messages.slice(-10), // Last 10 messages for context
+          accumulatedContent
+        );
+        
+        if (analysis.shouldCreateMemory && analysis.memoryTitle) {
+          const memoryCardId = await createMemoryFromConversation(
+            userId,
+            analysis,
+            input.threadId
+          );
+          
+          if (memoryCardId) {
+            console.log(`Auto-created memory card: ${memoryCardId}`);
+            
+            // Send notification via streaming
+            streamingUtils.sendToUser(userId, {
+              type: 'memory_created',
+              id: `memory_${memoryCardId}`,
+              threadId: input.threadId,
+              userId: userId,
+              data: {
+                memoryCardId,
+                title: analysis.memoryTitle,
+                confidence: analysis.confidence,
+              },
+              timestamp: Date.now(),
+            });
+          }
+        }
+      } catch (error) {
+        console.error('Error in auto-memory creation:', error);
+        // Don't fail the message if memory creation fails
+      }
+    }
+
+    // Send completion message
+    streamingUtils.sendToUser(userId, {
+      type: 'chat_complete',
+      id: `complete_${assistantMessage.id}`,
+      threadId: input.threadId,
+      userId: userId,
+      data: {
+        messageId: assistantMessage.id,
+        content: accumulatedContent,
+        role: 'assistant',
+        model: answeredBy.model,
+        provider: answeredBy.provider,
+        isComplete: true,
+        context: {
+          includedMessageIds: answeredContext.includedMessageIds,
+          droppedMessageIds: answeredContext.droppedMessageIds,
+          summarized: answeredContext.summarized,
+          truncated: answeredContext.truncated,
+          tokenCount: answeredContext.tokenCount,
+        },
+      },
+      timestamp: Date.now(),
+    });
+
+  } catch (error) {
+    if (signal.aborted) {
+      await persistStoppedGeneration(prisma, assistantMessage, accumulatedContent);
+      return;
+    }
+
+    console.error('LLM streaming error:', error);
+    
+    // Update message with error
+    await prisma.message.update({
+      where: { id: assistantMessage.id },
+      data: { 
+        content: `Error: ${error instanceof Error ? error.message : 'Failed to generate response'}`,
+        updatedAt: new Date(),
+      },
+    });
+
+    // Send error message via streaming
+    streamingUtils.sendToUser(userId, {
+      type: 'error',
+      id: `error_${assistantMessage.id}`,
+      threadId: input.threadId,
+      userId: userId,
+      data: {
+        messageId: assistantMessage.id,
+        error: error instanceof Error ? error.message : 'Failed to generate response',
+        ...(error instanceof TRPCError && { code: error.code }),
+      },
+      timestamp: Date.now(),
+    });
+  } finally {
+    generationRegistry.finish(assistantMessage.id);
+  }
+}
 
 export const chatRouter = router({
-  // List available models
+  // List available models from the model registry
   models: publicProcedure
-    .query(() => {
+    .query(async () => {
+      await modelRegistry.refreshStale();
+
       return {
-        providers: [
-          {
-            id: 'openai',
-            name: 'OpenAI',
-            models: ['gpt-4o', 'gpt-4o-mini', 'gpt-3.5-turbo'],
-          },
-          {
-            id: 'anthropic', 
-            name: 'Anthropic',
-            models: ['claude-3-5-sonnet-20241022', 'claude-3-5-haiku-20241022'],
-          },
-          {
-            id: 'google',
-            name: 'Google',
-            models: ['gemini-1.5-pro', 'gemini-1.5-flash'],
-          },
-        ],
+        providers: modelRegistry.providers().map(provider => ({
+          id: provider,
+          name: PROVIDER_NAMES[provider],
+          models: modelRegistry.list(provider),
+        })),
       };
     }),
 
+  // List models served by the user's self-hosted endpoint
+  customModels: authenticatedProcedure
+    .query(async ({ ctx }) => {
+      const { user, prisma } = ctx;
+
+      const endpoint = await getUserCustomEndpoint(user.userId, prisma);
+      if (!endpoint) {
+        return { baseUrl: null, models: [] };
+      }
+
+      try {
+        const models = await listCustomEndpointModels(endpoint.baseUrl, endpoint.apiKey);
+        return { baseUrl: endpoint.baseUrl, models };
+      } catch (error) {
+        throw new TRPCError({
+          code: 'BAD_GATEWAY',
+          message: error instanceof Error ? error.message : 'Failed to reach custom endpoint',
+        });
+      }
+    }),
+
   // Create a new thread
   createThread: authenticatedProcedure
     .input(z.object({
@@ -192,6 +623,9 @@ export const chatRouter = router({
               username: true,
             },
           },
+          attachments: {
+            select: { id: true, filename: true, mimeType: true, size: true },
+          },
         },
         orderBy: {
           createdAt: 'desc',
@@ -248,14 +682,8 @@ export const chatRouter = router({
 
   // Send a message with LLM integration
   sendMessage: authenticatedProcedure
-    .input(z.object({
-      threadId: ThreadIdSchema,
-      content: MessageContentSchema,
-      model: z.string(),
-      provider: ModelProviderSchema,
-      temperature: z.number().min(0).max(2).default(0.7),
-      maxTokens: z.number().min(1).max(4096).default(2048),
-      autoMemoryEnabled: z.boolean().default(false),
+    .input(ChatMessageInputSchema.extend({
+      attachmentIds: z.array(z.string()).max(MAX_ATTACHMENTS_PER_MESSAGE).default([]),
     }))
     .mutation(async ({ input, ctx }) => {
       const { user, prisma } = ctx;
@@ -272,34 +700,40 @@ export const chatRouter = router({
         throw new Error('Thread not found or access denied');
       }
 
-      // Validate model for provider
-      if (!validateModelForProvider(input.provider as LLMProvider, input.model)) {
-        throw new Error(`Invalid model ${input.model} for provider ${input.provider}`);
-      }
-
-      // Get user's API key for the provider
-      const apiKey = await getUserApiKey(user.userId, input.provider as LLMProvider, prisma);
-      if (!apiKey) {
-        throw new Error(`No API key found for provider ${input.provider}. Please add your API key in settings.`);
-      }
+      const { apiKey, baseUrl } = await resolveProviderCredentials(
+        user.userId,
+        input.provider as LLMProvider,
+        input.model,
+        prisma
+      );
 
-      // Create the user message first
-      const userMessage = await prisma.message.create({
-        data: {
-          threadId: input.threadId,
-          userId: user.userId,
-          content: input.content,
-          role: 'user',
-        },
-        include: {
-          user: {
-            select: {
-              id: true,
-              email: true,
-              username: true,
+      // Create the user message first, claiming its uploaded attachments
+      const userMessage = await prisma.$transaction(async (tx: any) => {
+        const message = await tx.message.create({
+          data: {
+            threadId: input.threadId,
+            userId: user.userId,
+            content: input.content,
+            role: 'user',
+          },
+        });
+        await linkAttachments(tx, user.userId, message.id, input.attachmentIds);
+
+        return tx.message.findUnique({
+          where: { id: message.id },
+          include: {
+            user: {
+              select: {
+                id: true,
+                email: true,
+                username: true,
+              },
+            },
+            attachments: {
+              select: { id: true, filename: true, mimeType: true, size: true },
             },
           },
-        },
+        });
       });
 
       // Create placeholder assistant message
@@ -323,188 +757,18 @@ export const chatRouter = router({
         },
       });
 
-      // Start streaming response in the background
-      setImmediate(async () => {
-        try {
-          // Get conversation history
-          const previousMessages = await prisma.message.findMany({
-            where: { threadId: input.threadId },
-            orderBy: { createdAt: 'asc' },
-            take: 20, // Limit context window
-          });
-
-          // Convert to LLM format
-          const llmMessages: LLMMessage[] = previousMessages
-            .filter(msg => msg.content.trim()) // Filter out empty messages
-            .map(msg => ({
-              role: msg.role as 'user' | 'assistant' | 'system',
-              content: msg.content,
-            }));
-
-          // 🧠 MEMORY-CARDS INTEGRATION: Retrieve contextual memories
-          let memoryContext = '';
-          try {
-            // Get user's OpenAI API key for embeddings
-            const openAIKey = await getUserApiKey(user.userId, 'openai', prisma);
-            
-            const memoryOptions: MemoryRetrievalOptions = {
-              userId: user.userId,
-              query: input.content,
-              limit: 5,
-              threshold: 0.3,
-            };
-            
-            if (openAIKey) {
-              memoryOptions.apiKey = openAIKey;
-            }
-            
-            const memoryResults = await retrieveContextualMemories(memoryOptions);
-            
-            if (memoryResults.memoryCount > 0) {
-              memoryContext = memoryResults.contextPrompt;
-              console.log(`Retrieved ${memoryResults.memoryCount} relevant memories for user ${user.userId}`);
-            }
-          } catch (error) {
-            console.error('Error retrieving contextual memories:', error);
-            // Continue without memories if there's an error
-          }
-
-          // Add memory context to the beginning of conversation if available
-          if (memoryContext) {
-            // Add a system message that instructs the AI to use the memories
-            llmMessages.unshift({
-              role: 'system',
-              content: `You are a helpful AI assistant with access to the user's personal memory cards. Use the following memories to provide personalized and contextual responses. These memories contain important information about the user that you should reference when relevant.\n${memoryContext}`,
-            });
-          }
-
-          // Generate streaming response
-          const streamGenerator = generateLLMStreamResponse(llmMessages, {
-            model: input.model,
-            provider: input.provider as LLMProvider,
-            apiKey,
-            temperature: input.temperature,
-            maxTokens: input.maxTokens,
-            stream: true,
-          });
-
-          let accumulatedContent = '';
-          
-          for await (const chunk of streamGenerator) {
-            accumulatedContent = chunk.content;
+      // Stopping the message through cancelGeneration aborts the provider requests
+      const signal = generationRegistry.start(assistantMessage.id, user.userId);
 
-            // Send real-time update via WebSocket/SSE
-            streamingUtils.sendToUser(user.userId, {
-              type: 'chat_response',
-              id: `stream_${assistantMessage.id}_${Date.now()}`,
-              threadId: input.threadId,
-              userId: user.userId,
-              data: {
-                messageId: assistantMessage.id,
-                content: chunk.content,
-                delta: chunk.delta,
-                role: 'assistant',
-                model: input.model,
-                provider: input.provider,
-                isComplete: chunk.isComplete,
-                usage: chunk.usage,
-              },
-              timestamp: Date.now(),
-            });
-          }
-
-          // Update the assistant message with final content
-          await prisma.message.update({
-            where: { id: assistantMessage.id },
-            data: { 
-              content: accumulatedContent,
-              updatedAt: new Date(),
-            },
-          });
-
-          // 🧠 MEMORY-CARDS INTEGRATION: Analyze and create memory if auto-enabled
-          if (accumulatedContent && input.autoMemoryEnabled) {
-            try {
-              // Analyze conversation for memory creation
-              const analysis = await analyzeConversationForMemory(
-                llmMessages.slice(-10), // Last 10 messages for context
-                accumulatedContent
-              );
-              
-              if (analysis.shouldCreateMemory && analysis.memoryTitle) {
-                const memoryCardId = await createMemoryFromConversation(
-                  user.userId,
-                  analysis,
-                  input.threadId
-                );
-                
-                if (memoryCardId) {
-                  console.log(`Auto-created memory card: ${memoryCardId}`);
-                  
-                  // Send notification via streaming
-                  streamingUtils.sendToUser(user.userId, {
-                    type: 'memory_created',
-                    id: `memory_${memoryCardId}`,
-                    threadId: input.threadId,
-                    userId: user.userId,
-                    data: {
-                      memoryCardId,
-                      title: analysis.memoryTitle,
-                      confidence: analysis.confidence,
-                    },
-                    timestamp: Date.now(),
-                  });
-                }
-              }
-            } catch (error) {
-              console.error('Error in auto-memory creation:', error);
-              // Don't fail the message if memory creation fails
-            }
-          }
-
-          // Send completion message
-          streamingUtils.sendToUser(user.userId, {
-            type: 'chat_complete',
-            id: `complete_${assistantMessage.id}`,
-            threadId: input.threadId,
-            userId: user.userId,
-            data: {
-              messageId: assistantMessage.id,
-              content: accumulatedContent,
-              role: 'assistant',
-              model: input.model,
-              provider: input.provider,
-              isComplete: true,
-            },
-            timestamp: Date.now(),
-          });
-
-        } catch (error) {
-          console.error('LLM streaming error:', error);
-          
-          // Update message with error
-          await prisma.message.update({
-            where: { id: assistantMessage.id },
-            data: { 
-              content: `Error: ${error instanceof Error ? error.message : 'Failed to generate response'}`,
-              updatedAt: new Date(),
-            },
-          });
-
-          // Send error message via streaming
-          streamingUtils.sendToUser(user.userId, {
-            type: 'error',
-            id: `error_${assistantMessage.id}`,
-            threadId: input.threadId,
-            userId: user.userId,
-            data: {
-              messageId: assistantMessage.id,
-              error: error instanceof Error ? error.message : 'Failed to generate response',
-            },
-            timestamp: Date.now(),
-          });
-        }
-      });
+      // Start streaming response in the background
+      setImmediate(() => generateChatReply(
+        prisma,
+        user.userId,
+        input,
+        assistantMessage,
+        { apiKey, ...(baseUrl && { baseUrl }) },
+        signal
+      ));
 
       return { 
         userMessage,
@@ -512,6 +776,18 @@ export const chatRouter = router({
       };
     }),
 
+  // Stop a message that is still being written. Its provider requests, every Trinity
+  // agent and the orchestrator included, are aborted and the partial answer is kept.
+  cancelGeneration: authenticatedProcedure
+    .input(z.object({
+      messageId: z.string(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      return {
+        stopped: generationRegistry.cancel(input.messageId, ctx.user.userId),
+      };
+    }),
+
   // Get user's threads with search and filtering
   getThreads: authenticatedProcedure
     .input(z.object({
@@ -1086,16 +1362,6 @@ export const chatRouter = router({
           id: input.messageId,
           thread: { userId: ctx.user.userId },
         },
-        include: {
-          thread: {
-            include: {
-              messages: {
-                orderBy: { createdAt: 'asc' },
-                take: 50, // Last 50 messages for context
-              },
-            },
-          },
-        },
       });
 
       if (!message || message.role !== 'user') {
@@ -1106,11 +1372,12 @@ export const chatRouter = router({
       }
 
       try {
-        // Convert to LLM messages format
-        const llmMessages: LLMMessage[] = message.thread.messages.map(m => ({
-          role: m.role as 'user' | 'assistant' | 'system',
-          content: m.content,
-        }));
+        // Fit the newest turns into the model's context window
+        const context = buildContextWindow({
+          targets: [{ provider: 'openai', model: 'gpt-4o', maxTokens: 1000 }],
+          history: await loadRecentThreadMessages(ctx.prisma, message.threadId),
+        });
+        const llmMessages = context.messages;
 
         // Generate streaming response
                  const llmService = LLMServiceFactory.getService('openai');
@@ -1175,30 +1442,24 @@ export const chatRouter = router({
 
   // Trinity Mode Procedures
 
-  // Send a message using Trinity Mode (3 agents + orchestrator)
+  // Send a message using Trinity Mode (2-6 agents + orchestrator)
   sendTrinityMessage: authenticatedProcedure
     .input(z.object({
       threadId: z.string(),
       content: z.string(),
       trinityConfig: z.object({
-        executionMode: z.enum(['parallel', 'sequential', 'hybrid']),
+        executionMode: z.enum(['parallel', 'sequential', 'hybrid', 'debate']).optional(), // The preset's unless set
         preset: z.string().optional(),
         customConfig: z.any().optional(),
       }),
     }))
-    .mutation(async ({ input, ctx }) => {
+    .mutation(async ({ input, ctx, signal }) => {
       // Verify thread ownership
       const thread = await ctx.prisma.thread.findFirst({
         where: {
           id: input.threadId,
           userId: ctx.user.userId,
         },
-        include: {
-          messages: {
-            orderBy: { createdAt: 'asc' },
-            take: 50,
-          },
-        },
       });
 
       if (!thread) {
@@ -1208,6 +1469,18 @@ export const chatRouter = router({
         });
       }
 
+      const { config: trinityConfig, presetId } = await resolveTrinityRunConfig(
+        ctx.prisma,
+        ctx.user.userId,
+        thread,
+        input.trinityConfig
+      );
+      const { agents: apiKeys, orchestrator: orchestratorApiKey, embedding: embeddingApiKey } = await resolveTrinityApiKeys(ctx.user.userId, trinityConfig, ctx.prisma);
+
+      let assistantMessage: any = null;
+      let runSignal: AbortSignal | undefined;
+      let settled = false;
+
       try {
         // Create user message
                  const userMessage = await ctx.prisma.message.create({
@@ -1219,69 +1492,75 @@ export const chatRouter = router({
            },
          });
 
-         // Convert to LLM messages format
-         const llmMessages: LLMMessage[] = [
-           ...thread.messages.map(m => ({
-             role: m.role as 'user' | 'assistant' | 'system',
-             content: m.content,
-           })),
-           {
-             role: 'user',
-             content: input.content,
+         // Created before the agents start so cancelGeneration can stop the run by its ID
+         assistantMessage = await ctx.prisma.message.create({
+           data: {
+             threadId: input.threadId,
+             userId: ctx.user.userId,
+             role: 'assistant',
+             content: '',
+             model: 'trinity-mode',
+             provider: 'trinity',
            },
-         ];
+         });
+         runSignal = generationRegistry.start(assistantMessage.id, ctx.user.userId, signal);
+         announceGeneration(assistantMessage);
 
          // Import Trinity Mode components
          const { TrinityExecutionManager } = await import('../lib/trinity-manager.js');
-         const { DEFAULT_TRINITY_CONFIG, TRINITY_PRESETS } = await import('../lib/trinity-mode.js');
          
-         const trinityManager = new TrinityExecutionManager();
-
-         // Determine configuration
-         let trinityConfig = DEFAULT_TRINITY_CONFIG;
-         if (input.trinityConfig.preset && TRINITY_PRESETS[input.trinityConfig.preset]) {
-           trinityConfig = {
-             ...DEFAULT_TRINITY_CONFIG,
-             ...TRINITY_PRESETS[input.trinityConfig.preset],
-             executionMode: input.trinityConfig.executionMode,
-           };
-         } else if (input.trinityConfig.customConfig) {
-           trinityConfig = input.trinityConfig.customConfig;
-         } else {
-           trinityConfig = {
-             ...DEFAULT_TRINITY_CONFIG,
-             executionMode: input.trinityConfig.executionMode,
-           };
-         }
+         const trinityManager = new TrinityExecutionManager({ signal: runSignal, orchestratorApiKey, embeddingApiKey });
+
+         // Fit the newest turns into every agent's context window
+         const context = buildContextWindow({
+           targets: getTrinityContextTargets(trinityConfig),
+           history: await loadRecentThreadMessages(ctx.prisma, input.threadId),
+         });
+         const llmMessages = context.messages;
+
+         // Check the caps against every agent call plus the orchestrator
+         await enforceSpendLimits(ctx.user.userId, ctx.prisma, getTrinityPlannedCalls(trinityConfig, context.tokenCount));
 
          // Execute Trinity Mode
          let trinityResponse;
          switch (trinityConfig.executionMode) {
            case 'parallel':
-             trinityResponse = await trinityManager.executeParallel(llmMessages, trinityConfig);
+             trinityResponse = await trinityManager.executeParallel(llmMessages, trinityConfig, apiKeys);
              break;
            case 'sequential':
-             trinityResponse = await trinityManager.executeSequential(llmMessages, trinityConfig);
+             trinityResponse = await trinityManager.executeSequential(llmMessages, trinityConfig, apiKeys);
              break;
            case 'hybrid':
-             trinityResponse = await trinityManager.executeHybrid(llmMessages, trinityConfig);
+             trinityResponse = await trinityManager.executeHybrid(llmMessages, trinityConfig, apiKeys);
+             break;
+           case 'debate':
+             trinityResponse = await trinityManager.executeDebate(llmMessages, trinityConfig, apiKeys);
              break;
            default:
              throw new Error(`Unknown execution mode: ${trinityConfig.executionMode}`);
          }
 
-         // Create assistant message with Trinity response
-         const assistantMessage = await ctx.prisma.message.create({
-           data: {
-             threadId: input.threadId,
-             userId: ctx.user.userId,
-             role: 'assistant',
-             content: trinityResponse.finalResponse,
-             model: 'trinity-mode',
-             provider: 'trinity',
-           },
+         // Fill in the assistant message with the Trinity response
+         settled = true;
+         assistantMessage = await ctx.prisma.message.update({
+           where: { id: assistantMessage.id },
+           data: { content: trinityResponse.finalResponse },
          });
 
+         // Store Trinity data for the UI
+         await storeTrinityResponse(ctx.prisma, assistantMessage.id, trinityResponse);
+
+         await recordUsage(ctx.prisma, trinityUsageEntries(
+           agentUsageFromResponses(trinityResponse.rounds?.flatMap(round => round.responses) ?? trinityResponse.agentResponses),
+           trinityResponse.orchestratorMetadata.orchestratorUsage,
+           {
+             userId: ctx.user.userId,
+             threadId: input.threadId,
+             messageId: assistantMessage.id,
+             preset: presetId,
+           }
+         ));
+
          console.log('Trinity response created for thread:', input.threadId);
 
         return {
@@ -1291,15 +1570,44 @@ export const chatRouter = router({
             agentResponses: trinityResponse.agentResponses,
             attribution: trinityResponse.attribution,
             orchestratorMetadata: trinityResponse.orchestratorMetadata,
+            ...(trinityResponse.rounds && { rounds: trinityResponse.rounds }),
+            ...(trinityResponse.conflictAnalysis && { conflictAnalysis: trinityResponse.conflictAnalysis }),
+            ...(trinityResponse.scores && { scores: trinityResponse.scores }),
           },
         };
 
       } catch (error) {
+        if (!settled && runSignal?.aborted) {
+          throw new TRPCError({
+            code: 'CLIENT_CLOSED_REQUEST',
+            message: 'Generation stopped',
+          });
+        }
         console.error('Trinity mode error:', error);
+        if (assistantMessage && !settled) {
+          settled = true;
+          await ctx.prisma.message.update({
+            where: { id: assistantMessage.id },
+            data: { content: `Error: ${error instanceof Error ? error.message : 'Trinity mode execution failed'}` },
+          });
+        }
+        if (error instanceof TRPCError && error.code === 'PAYMENT_REQUIRED') {
+          throw error;
+        }
         throw new TRPCError({
           code: 'INTERNAL_SERVER_ERROR',
           message: error instanceof Error ? error.message : 'Trinity mode execution failed',
         });
+      } finally {
+        if (assistantMessage) {
+          generationRegistry.finish(assistantMessage.id);
+
+          // Stopped through cancelGeneration, or the client aborted the request; nothing is blended
+          // until every agent is done, so there is no partial answer to keep
+          if (!settled && runSignal?.aborted) {
+            await persistStoppedGeneration(ctx.prisma, assistantMessage, '');
+          }
+        }
       }
     }),
 
@@ -1309,24 +1617,18 @@ export const chatRouter = router({
       threadId: z.string(),
       content: z.string(),
       trinityConfig: z.object({
-        executionMode: z.enum(['parallel', 'sequential', 'hybrid']),
+        executionMode: z.enum(['parallel', 'sequential', 'hybrid', 'debate']).optional(), // The preset's unless set
         preset: z.string().optional(),
         customConfig: z.any().optional(),
       }),
     }))
-    .subscription(async function* ({ input, ctx }) {
+    .subscription(async function* ({ input, ctx, signal }) {
       // Verify thread ownership
       const thread = await ctx.prisma.thread.findFirst({
         where: {
           id: input.threadId,
           userId: ctx.user.userId,
         },
-        include: {
-          messages: {
-            orderBy: { createdAt: 'asc' },
-            take: 50,
-          },
-        },
       });
 
       if (!thread) {
@@ -1336,6 +1638,19 @@ export const chatRouter = router({
         });
       }
 
+      const { config: trinityConfig, presetId } = await resolveTrinityRunConfig(
+        ctx.prisma,
+        ctx.user.userId,
+        thread,
+        input.trinityConfig
+      );
+      const { agents: apiKeys, orchestrator: orchestratorApiKey, embedding: embeddingApiKey } = await resolveTrinityApiKeys(ctx.user.userId, trinityConfig, ctx.prisma);
+
+      let assistantMessage: any = null;
+      let runSignal: AbortSignal | undefined;
+      let synthesis = '';
+      let settled = false;
+
       try {
         // Create user message
         const userMessage = await ctx.prisma.message.create({
@@ -1352,94 +1667,89 @@ export const chatRouter = router({
           message: userMessage,
         };
 
-        // Convert to LLM messages format
-        const llmMessages: LLMMessage[] = [
-          ...thread.messages.map(m => ({
-            role: m.role as 'user' | 'assistant' | 'system',
-            content: m.content,
-          })),
-          {
-            role: 'user',
-            content: input.content,
+        // Created before the agents start so cancelGeneration can stop the run by its ID
+        assistantMessage = await ctx.prisma.message.create({
+          data: {
+            threadId: input.threadId,
+            userId: ctx.user.userId,
+            role: 'assistant',
+            content: '',
+            model: 'trinity-mode',
+            provider: 'trinity',
           },
-        ];
+        });
+        runSignal = generationRegistry.start(assistantMessage.id, ctx.user.userId, signal);
+
+        yield {
+          type: 'assistant_message',
+          message: assistantMessage,
+        };
 
         // Import Trinity Mode components
         const { TrinityExecutionManager } = await import('../lib/trinity-manager.js');
-        const { DEFAULT_TRINITY_CONFIG, TRINITY_PRESETS } = await import('../lib/trinity-mode.js');
         
-        const trinityManager = new TrinityExecutionManager();
-
-        // Determine configuration
-        let trinityConfig = DEFAULT_TRINITY_CONFIG;
-        if (input.trinityConfig.preset && TRINITY_PRESETS[input.trinityConfig.preset]) {
-          trinityConfig = {
-            ...DEFAULT_TRINITY_CONFIG,
-            ...TRINITY_PRESETS[input.trinityConfig.preset],
-            executionMode: input.trinityConfig.executionMode,
-          };
-        } else if (input.trinityConfig.customConfig) {
-          trinityConfig = input.trinityConfig.customConfig;
-        } else {
-          trinityConfig = {
-            ...DEFAULT_TRINITY_CONFIG,
-            executionMode: input.trinityConfig.executionMode,
-          };
-        }
+        const trinityManager = new TrinityExecutionManager({ signal: runSignal, orchestratorApiKey, embeddingApiKey });
+
+        // Fit the newest turns into every agent's context window
+        const context = buildContextWindow({
+          targets: getTrinityContextTargets(trinityConfig),
+          history: await loadRecentThreadMessages(ctx.prisma, input.threadId),
+        });
+        const llmMessages = context.messages;
+
+        // Check the caps against every agent call plus the orchestrator
+        await enforceSpendLimits(ctx.user.userId, ctx.prisma, getTrinityPlannedCalls(trinityConfig, context.tokenCount));
 
         // Stream Trinity Mode execution
-        let assistantMessage: any = null;
         const agentResponses: any[] = [];
+        const agentUsage: AgentUsage[] = [];
         
-        for await (const chunk of trinityManager.streamTrinityResponse(llmMessages, trinityConfig)) {
+        for await (const chunk of trinityManager.streamTrinityResponse(llmMessages, trinityConfig, apiKeys)) {
           // Handle agent updates
           if (chunk.type === 'agent_start') {
             yield {
               type: 'agent_start',
               agentType: chunk.agentType,
+              round: chunk.round,
               timestamp: chunk.timestamp,
             };
           } else if (chunk.type === 'agent_chunk') {
             yield {
               type: 'agent_chunk',
               agentType: chunk.agentType,
+              round: chunk.round,
               content: chunk.content,
               delta: chunk.delta,
               isComplete: chunk.isComplete,
             };
           } else if (chunk.type === 'agent_complete') {
-            agentResponses.push({
+            // In debate mode each round's answer replaces the agent's previous one
+            const response = {
               agentType: chunk.agentType,
               content: chunk.content,
               metadata: chunk.metadata,
-            });
+            };
+            const previousIndex = agentResponses.findIndex(previous => previous.agentType === chunk.agentType);
+            if (previousIndex === -1) {
+              agentResponses.push(response);
+            } else {
+              agentResponses[previousIndex] = response;
+            }
+            const usage = agentUsageFromStreamChunk(chunk);
+            if (usage) {
+              agentUsage.push(usage);
+            }
             
             yield {
               type: 'agent_complete',
               agentType: chunk.agentType,
+              round: chunk.round,
               content: chunk.content,
               metadata: chunk.metadata,
             };
           } else if (chunk.type === 'orchestrator_chunk') {
-            // Create assistant message if not exists
-            if (!assistantMessage) {
-              assistantMessage = await ctx.prisma.message.create({
-                data: {
-                  threadId: input.threadId,
-                  userId: ctx.user.userId,
-                  role: 'assistant',
-                  content: '',
-                  model: 'trinity-mode',
-                  provider: 'trinity',
-                },
-              });
-            }
-
-            // Update message content
-            await ctx.prisma.message.update({
-              where: { id: assistantMessage.id },
-              data: { content: chunk.content },
-            });
+            // Saved on trinity_complete, or by persistStoppedGeneration if stopped
+            synthesis = chunk.content;
 
             yield {
               type: 'orchestrator_chunk',
@@ -1451,6 +1761,7 @@ export const chatRouter = router({
             // Note: WebSocket broadcasting would be implemented here
             // if webSocketManager was available
           } else if (chunk.type === 'trinity_complete') {
+            settled = true;
             if (assistantMessage) {
               // Final update
               await ctx.prisma.message.update({
@@ -1459,40 +1770,85 @@ export const chatRouter = router({
                   content: chunk.content,
                 },
               });
+
+              // Store Trinity data for the UI
+              await storeTrinityResponse(ctx.prisma, assistantMessage.id, {
+                finalResponse: chunk.content,
+                agentResponses,
+                ...(chunk.metadata?.rounds && { rounds: chunk.metadata.rounds }),
+                ...(chunk.metadata?.conflictAnalysis && { conflictAnalysis: chunk.metadata.conflictAnalysis }),
+                ...(chunk.metadata?.scores && { scores: chunk.metadata.scores }),
+              });
             }
 
+            await recordUsage(ctx.prisma, trinityUsageEntries(
+              agentUsage,
+              chunk.metadata?.orchestratorUsage,
+              {
+                userId: ctx.user.userId,
+                threadId: input.threadId,
+                ...(assistantMessage && { messageId: assistantMessage.id }),
+                preset: presetId,
+              }
+            ));
+
             yield {
               type: 'trinity_complete',
               messageId: assistantMessage?.id,
               content: chunk.content,
               agentResponses,
+              ...(chunk.metadata?.rounds && { rounds: chunk.metadata.rounds }),
+              ...(chunk.metadata?.conflictAnalysis && { conflictAnalysis: chunk.metadata.conflictAnalysis }),
+              ...(chunk.metadata?.scores && { scores: chunk.metadata.scores }),
             };
           }
         }
 
       } catch (error) {
+        if (runSignal?.aborted) {
+          yield {
+            type: 'generation_stopped',
+            messageId: assistantMessage?.id,
+            content: synthesis,
+          };
+          return;
+        }
+
         console.error('Trinity streaming error:', error);
+        if (assistantMessage) {
+          settled = true;
+          await ctx.prisma.message.update({
+            where: { id: assistantMessage.id },
+            data: { content: `Error: ${error instanceof Error ? error.message : 'Trinity streaming failed'}` },
+          });
+        }
         yield {
           type: 'error',
           error: error instanceof Error ? error.message : 'Trinity streaming failed',
+          ...(error instanceof TRPCError && { code: error.code }),
         };
+      } finally {
+        if (assistantMessage) {
+          generationRegistry.finish(assistantMessage.id);
+
+          // Stopped through cancelGeneration, or the client unsubscribed mid-run
+          if (!settled && runSignal?.aborted) {
+            await persistStoppedGeneration(ctx.prisma, assistantMessage, synthesis);
+          }
+        }
       }
     }),
 
-  // Get Trinity Mode presets
+  // Get Trinity Mode presets: built-ins plus the user's saved presets
   getTrinityPresets: authenticatedProcedure
     .query(async ({ ctx }) => {
-      const { TRINITY_PRESETS, DEFAULT_TRINITY_CONFIG } = await import('../lib/trinity-mode.js');
-      
+      const { DEFAULT_TRINITY_CONFIG } = await import('../lib/trinity-mode.js');
+      const { presets, defaultPresetId } = await listTrinityPresets(ctx.prisma, ctx.user.userId);
+
       return {
         defaultConfig: DEFAULT_TRINITY_CONFIG,
-        presets: Object.entries(TRINITY_PRESETS).map(([key, preset]) => ({
-          id: key,
-          name: key.split('-').map(word => 
-            word.charAt(0).toUpperCase() + word.slice(1)
-          ).join(' '),
-          config: preset,
-        })),
+        defaultPresetId,
+        presets,
       };
     }),
 
@@ -1685,14 +2041,7 @@ export const chatRouter = router({
 
   // Add memory cards operations
   addMemoryCard: authenticatedProcedure
-    .input(z.object({
-      threadId: ThreadIdSchema,
-      content: MessageContentSchema,
-      model: z.string(),
-      provider: ModelProviderSchema,
-      temperature: z.number().min(0).max(2).default(0.7),
-      maxTokens: z.number().min(1).max(4096).default(2048),
-    }))
+    .input(ChatMessageInputSchema)
     .mutation(async ({ input, ctx }) => {
       const { user, prisma } = ctx;
 
@@ -1708,16 +2057,12 @@ export const chatRouter = router({
         throw new Error('Thread not found or access denied');
       }
 
-      // Validate model for provider
-      if (!validateModelForProvider(input.provider as LLMProvider, input.model)) {
-        throw new Error(`Invalid model ${input.model} for provider ${input.provider}`);
-      }
-
-      // Get user's API key for the provider
-      const apiKey = await getUserApiKey(user.userId, input.provider as LLMProvider, prisma);
-      if (!apiKey) {
-        throw new Error(`No API key found for provider ${input.provider}. Please add your API key in settings.`);
-      }
+      const { apiKey, baseUrl } = await resolveProviderCredentials(
+        user.userId,
+        input.provider as LLMProvider,
+        input.model,
+        prisma
+      );
 
       // Create the user message first
       const userMessage = await prisma.message.create({
@@ -1759,188 +2104,18 @@ export const chatRouter = router({
         },
       });
 
-      // Start streaming response in the background
-      setImmediate(async () => {
-        try {
-          // Get conversation history
-          const previousMessages = await prisma.message.findMany({
-            where: { threadId: input.threadId },
-            orderBy: { createdAt: 'asc' },
-            take: 20, // Limit context window
-          });
-
-          // Convert to LLM format
-          const llmMessages: LLMMessage[] = previousMessages
-            .filter(msg => msg.content.trim()) // Filter out empty messages
-            .map(msg => ({
-              role: msg.role as 'user' | 'assistant' | 'system',
-              content: msg.content,
-            }));
-
-          // 🧠 MEMORY-CARDS INTEGRATION: Retrieve contextual memories
-          let memoryContext = '';
-          try {
-            // Get user's OpenAI API key for embeddings
-            const openAIKey = await getUserApiKey(user.userId, 'openai', prisma);
-            
-            const memoryOptions: MemoryRetrievalOptions = {
-              userId: user.userId,
-              query: input.content,
-              limit: 5,
-              threshold: 0.3,
-            };
-            
-            if (openAIKey) {
-              memoryOptions.apiKey = openAIKey;
-            }
-            
-            const memoryResults = await retrieveContextualMemories(memoryOptions);
-            
-            if (memoryResults.memoryCount > 0) {
-              memoryContext = memoryResults.contextPrompt;
-              console.log(`Retrieved ${memoryResults.memoryCount} relevant memories for user ${user.userId}`);
-            }
-          } catch (error) {
-            console.error('Error retrieving contextual memories:', error);
-            // Continue without memories if there's an error
-          }
-
-          // Add memory context to the beginning of conversation if available
-          if (memoryContext) {
-            // Add a system message that instructs the AI to use the memories
-            llmMessages.unshift({
-              role: 'system',
-              content: `You are a helpful AI assistant with access to the user's personal memory cards. Use the following memories to provide personalized and contextual responses. These memories contain important information about the user that you should reference when relevant.\n${memoryContext}`,
-            });
-          }
-
-          // Generate streaming response
-          const streamGenerator = generateLLMStreamResponse(llmMessages, {
-            model: input.model,
-            provider: input.provider as LLMProvider,
-            apiKey,
-            temperature: input.temperature,
-            maxTokens: input.maxTokens,
-            stream: true,
-          });
+      // Stopping the message through cancelGeneration aborts the provider requests
+      const signal = generationRegistry.start(assistantMessage.id, user.userId);
 
-          let accumulatedContent = '';
-          
-          for await (const chunk of streamGenerator) {
-            accumulatedContent = chunk.content;
-
-            // Send real-time update via WebSocket/SSE
-            streamingUtils.sendToUser(user.userId, {
-              type: 'chat_response',
-              id: `stream_${assistantMessage.id}_${Date.now()}`,
-              threadId: input.threadId,
-              userId: user.userId,
-              data: {
-                messageId: assistantMessage.id,
-                content: chunk.content,
-                delta: chunk.delta,
-                role: 'assistant',
-                model: input.model,
-                provider: input.provider,
-                isComplete: chunk.isComplete,
-                usage: chunk.usage,
-              },
-              timestamp: Date.now(),
-            });
-          }
-
-          // Update the assistant message with final content
-          await prisma.message.update({
-            where: { id: assistantMessage.id },
-            data: { 
-              content: accumulatedContent,
-              updatedAt: new Date(),
-            },
-          });
-
-          // 🧠 MEMORY-CARDS INTEGRATION: Analyze and create memory if auto-enabled
-          if (accumulatedContent && input.autoMemoryEnabled) {
-            try {
-              // Analyze conversation for memory creation
-              const analysis = await analyzeConversationForMemory(
-                llmMessages.slice(-10), // Last 10 messages for context
-                accumulatedContent
-              );
-              
-              if (analysis.shouldCreateMemory && analysis.memoryTitle) {
-                const memoryCardId = await createMemoryFromConversation(
-                  user.userId,
-                  analysis,
-                  input.threadId
-                );
-                
-                if (memoryCardId) {
-                  console.log(`Auto-created memory card: ${memoryCardId}`);
-                  
-                  // Send notification via streaming
-                  streamingUtils.sendToUser(user.userId, {
-                    type: 'memory_created',
-                    id: `memory_${memoryCardId}`,
-                    threadId: input.threadId,
-                    userId: user.userId,
-                    data: {
-                      memoryCardId,
-                      title: analysis.memoryTitle,
-                      confidence: analysis.confidence,
-                    },
-                    timestamp: Date.now(),
-                  });
-                }
-              }
-            } catch (error) {
-              console.error('Error in auto-memory creation:', error);
-              // Don't fail the message if memory creation fails
-            }
-          }
-
-          // Send completion message
-          streamingUtils.sendToUser(user.userId, {
-            type: 'chat_complete',
-            id: `complete_${assistantMessage.id}`,
-            threadId: input.threadId,
-            userId: user.userId,
-            data: {
-              messageId: assistantMessage.id,
-              content: accumulatedContent,
-              role: 'assistant',
-              model: input.model,
-              provider: input.provider,
-              isComplete: true,
-            },
-            timestamp: Date.now(),
-          });
-
-        } catch (error) {
-          console.error('LLM streaming error:', error);
-          
-          // Update message with error
-          await prisma.message.update({
-            where: { id: assistantMessage.id },
-            data: { 
-              content: `Error: ${error instanceof Error ? error.message : 'Failed to generate response'}`,
-              updatedAt: new Date(),
-            },
-          });
-
-          // Send error message via streaming
-          streamingUtils.sendToUser(user.userId, {
-            type: 'error',
-            id: `error_${assistantMessage.id}`,
-            threadId: input.threadId,
-            userId: user.userId,
-            data: {
-              messageId: assistantMessage.id,
-              error: error instanceof Error ? error.message : 'Failed to generate response',
-            },
-            timestamp: Date.now(),
-          });
-        }
-      });
+      // Start streaming response in the background
+      setImmediate(() => generateChatReply(
+        prisma,
+        user.userId,
+        input,
+        assistantMessage,
+        { apiKey, ...(baseUrl && { baseUrl }) },
+        signal
+      ));
 
       return { 
         userMessage,
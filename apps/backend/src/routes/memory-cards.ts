@@ -2,22 +2,21 @@ import { z } from 'zod';
 import { router, authenticatedProcedure } from '../trpc/init.js';
 import { TRPCError } from '@trpc/server';
 import {
-  searchSimilarMemoryCards,
-  searchSimilarMemoryCardsDotProduct,
-  searchSimilarMemoryCardsL2,
   createMemoryCard,
-  updateMemoryCardEmbedding,
   getMemoryCardsWithoutEmbeddings,
   batchUpdateEmbeddings,
-  type MemoryCardSearchResult,
-  type SimilaritySearchOptions,
 } from '../lib/vector-search.js';
 import {
-  generateEmbedding,
   generateEmbeddingsBatch,
   type EmbeddingResult,
-  type BatchEmbeddingResult,
 } from '../lib/embeddings.js';
+import { embeddingModelId, resolveEmbeddingProvider } from '../lib/embedding-providers.js';
+import { embeddingMigrations, migrationProgress } from '../lib/embedding-migration.js';
+import { embeddingQueue } from '../lib/embedding-queue.js';
+import { hybridSearchMemoryCards, listEmbeddingSpaces, rerankCandidates, searchMemoryCards } from '../lib/memory-search.js';
+import { resolveMemoryReranker } from '../lib/memory-rerank.js';
+import { enforceSpendLimits } from '../lib/spend-limits.js';
+import { recordUsage } from '../lib/usage-ledger.js';
 import { createMemoryFromConversation } from '../lib/memory-integration.js';
 import { analyzeConversationForMemory } from '../lib/memory-integration.js';
 import { getUserApiKey } from '../lib/llm.js';
@@ -42,36 +41,23 @@ export const memoryCardsRouter = router({
       const { user, prisma } = ctx;
 
       try {
-        let embedding: number[] | undefined;
-        
-        if (input.generateEmbedding) {
-          // Get user's OpenAI API key
-          const userApiKey = await getUserApiKey(user.userId, 'openai', prisma);
-          if (!userApiKey) {
-            throw new TRPCError({
-              code: 'PRECONDITION_FAILED',
-              message: 'OpenAI API key not found. Please add your OpenAI API key in settings.',
-            });
-          }
-          
-          // Generate embedding for the text
-          const textToEmbed = input.summary || input.content;
-          embedding = await generateEmbedding(textToEmbed, userApiKey);
-        }
-
         // Create the memory card
         const memoryCard = await createMemoryCard({
           userId: user.userId,
           title: input.title,
           content: input.content,
           summary: input.summary,
-          embedding,
           metadata: input.metadata,
         });
 
+        // The embedding queue embeds it with the first provider the user has a key for
+        if (input.generateEmbedding) {
+          await embeddingQueue.enqueue(memoryCard, user.userId, prisma);
+        }
+
         return {
           memoryCard,
-          embeddingGenerated: input.generateEmbedding,
+          embeddingQueued: input.generateEmbedding,
         };
       } catch (error) {
         console.error('Error creating memory card:', error);
@@ -98,43 +84,27 @@ export const memoryCardsRouter = router({
       const { user, prisma } = ctx;
 
       try {
-        let embeddings: number[][] | null = null;
-        
-        if (input.generateEmbeddings) {
-          // Get user's OpenAI API key
-          const userApiKey = await getUserApiKey(user.userId, 'openai', prisma);
-          if (!userApiKey) {
-            throw new TRPCError({
-              code: 'PRECONDITION_FAILED',
-              message: 'OpenAI API key not found. Please add your OpenAI API key in settings.',
-            });
-          }
-          
-          // Generate embeddings in batch for efficiency
-          const textsToEmbed = input.memoryCards.map(card => card.summary || card.content);
-          const embeddingResults = await generateEmbeddingsBatch(textsToEmbed, userApiKey);
-          embeddings = embeddingResults.results.map(result => result.embedding);
-        }
-
-        // Create memory cards with embeddings
+        // Create memory cards, queueing their embeddings
         const createdCards = await Promise.all(
-          input.memoryCards.map(async (cardData, index) => {
-            const embedding = embeddings ? embeddings[index] : null;
-            
-            return await createMemoryCard({
+          input.memoryCards.map(async (cardData) => {
+            const memoryCard = await createMemoryCard({
               userId: user.userId,
               title: cardData.title,
               content: cardData.content,
               summary: cardData.summary,
-              embedding,
               metadata: cardData.metadata,
             });
+
+            if (input.generateEmbeddings) {
+              await embeddingQueue.enqueue(memoryCard, user.userId, prisma);
+            }
+            return memoryCard;
           })
         );
 
         return {
           memoryCards: createdCards,
-          embeddingsGenerated: input.generateEmbeddings,
+          embeddingsQueued: input.generateEmbeddings,
           count: createdCards.length,
         };
       } catch (error) {
@@ -202,6 +172,7 @@ export const memoryCardsRouter = router({
             content: true,
             summary: true,
             metadata: true,
+            embeddingStatus: true,
             createdAt: true,
             updatedAt: true,
             // Don't return embedding vector for performance
@@ -247,6 +218,7 @@ export const memoryCardsRouter = router({
             content: true,
             summary: true,
             metadata: true,
+            embeddingStatus: true,
             createdAt: true,
             updatedAt: true,
             // Don't return embedding vector for performance unless specifically needed
@@ -282,35 +254,70 @@ export const memoryCardsRouter = router({
       excludeIds: z.array(z.string()).optional(),
     }))
     .query(async ({ input, ctx }) => {
-      const { user } = ctx;
+      const { user, prisma } = ctx;
 
       try {
-        // Generate embedding for the search query
-        const queryEmbedding = await generateEmbedding(input.query);
-
-        // Search options
-        const searchOptions: SimilaritySearchOptions = {
+        // Similarity search based on chosen metric, across every model the user's cards are embedded with
+        const results = await searchMemoryCards(input.query, {
+          userId: user.userId,
           limit: input.limit,
           threshold: input.threshold,
-          userId: user.userId,
+          metric: input.metric,
           ...(input.excludeIds && { excludeIds: input.excludeIds }),
+        }, prisma);
+
+        return {
+          results,
+          query: input.query,
+          metric: input.metric,
+          threshold: input.threshold,
+          count: results.length,
         };
+      } catch (error) {
+        console.error('Error searching similar memory cards:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to search memory cards',
+        });
+      }
+    }),
 
-        // Perform similarity search based on chosen metric
-        let results: MemoryCardSearchResult[];
-        
-        switch (input.metric) {
-          case 'cosine':
-            results = await searchSimilarMemoryCards(queryEmbedding, searchOptions);
-            break;
-          case 'dotProduct':
-            results = await searchSimilarMemoryCardsDotProduct(queryEmbedding, searchOptions);
-            break;
-          case 'l2':
-            results = await searchSimilarMemoryCardsL2(queryEmbedding, searchOptions);
-            break;
-          default:
-            results = await searchSimilarMemoryCards(queryEmbedding, searchOptions);
+  // Search memory cards by keyword and meaning together, optionally reranked
+  hybridSearch: authenticatedProcedure
+    .input(z.object({
+      query: z.string().min(1),
+      limit: z.number().min(1).max(50).default(10),
+      threshold: SimilarityThresholdSchema, // Applies to the semantic side only
+      metric: DistanceMetricSchema,
+      rerank: z.boolean().default(false),
+      excludeIds: z.array(z.string()).optional(),
+    }))
+    .query(async ({ input, ctx }) => {
+      const { user, prisma } = ctx;
+
+      try {
+        const reranker = input.rerank ? await resolveMemoryReranker(user.userId, prisma) : null;
+        if (input.rerank && !reranker) {
+          throw new TRPCError({
+            code: 'PRECONDITION_FAILED',
+            message: 'No API key to rerank with. Please add an OpenAI, Google, Mistral, Anthropic or OpenRouter API key in settings to rerank results.',
+          });
+        }
+        if (reranker) {
+          await enforceSpendLimits(user.userId, prisma, [reranker.plannedCall(rerankCandidates(input.limit))]);
+        }
+
+        const results = await hybridSearchMemoryCards(input.query, {
+          userId: user.userId,
+          limit: input.limit,
+          threshold: input.threshold,
+          metric: input.metric,
+          ...(input.excludeIds && { excludeIds: input.excludeIds }),
+          ...(reranker && { reranker }),
+        }, prisma);
+
+        if (reranker) {
+          await recordUsage(prisma, reranker.usageEntries(user.userId));
         }
 
         return {
@@ -318,10 +325,12 @@ export const memoryCardsRouter = router({
           query: input.query,
           metric: input.metric,
           threshold: input.threshold,
+          reranked: results.some(result => result.match.rerank),
           count: results.length,
         };
       } catch (error) {
-        console.error('Error searching similar memory cards:', error);
+        console.error('Error searching memory cards:', error);
+        if (error instanceof TRPCError) throw error;
         throw new TRPCError({
           code: 'INTERNAL_SERVER_ERROR',
           message: error instanceof Error ? error.message : 'Failed to search memory cards',
@@ -368,16 +377,6 @@ export const memoryCardsRouter = router({
         if (input.summary !== undefined) updateData.summary = input.summary;
         if (input.metadata !== undefined) updateData.metadata = input.metadata;
 
-        // Regenerate embedding if requested or if content changed
-        if (input.regenerateEmbedding || input.content !== undefined || input.summary !== undefined) {
-          const textToEmbed = input.summary !== undefined ? input.summary : 
-                            input.content !== undefined ? input.content :
-                            existingCard.summary || existingCard.content;
-          
-          const newEmbedding = await generateEmbedding(textToEmbed);
-          await updateMemoryCardEmbedding(input.id, newEmbedding);
-        }
-
         // Update the memory card
         const updatedCard = await prisma.memoryCard.update({
           where: { id: input.id },
@@ -388,14 +387,22 @@ export const memoryCardsRouter = router({
             content: true,
             summary: true,
             metadata: true,
+            embeddingStatus: true,
             createdAt: true,
             updatedAt: true,
           }
         });
 
+        // Re-embed from the saved text if requested or if content changed
+        const reembed = input.regenerateEmbedding || input.content !== undefined || input.summary !== undefined;
+        if (reembed) {
+          await embeddingQueue.enqueue(input.id, user.userId, prisma);
+          updatedCard.embeddingStatus = 'pending';
+        }
+
         return {
           memoryCard: updatedCard,
-          embeddingRegenerated: input.regenerateEmbedding || input.content !== undefined || input.summary !== undefined,
+          embeddingQueued: reembed,
         };
       } catch (error) {
         if (error instanceof TRPCError) throw error;
@@ -511,12 +518,14 @@ export const memoryCardsRouter = router({
 
         // Generate embeddings in batch
         const textsToEmbed = cardsToProcess.map(card => card.summary || card.content);
-        const embeddingResults = await generateEmbeddingsBatch(textsToEmbed);
+        const provider = await resolveEmbeddingProvider(user.userId, prisma);
+        const embeddingResults = await generateEmbeddingsBatch(textsToEmbed, provider);
 
         // Update embeddings using our batch update function
         const updateData = cardsToProcess.map((card, index) => ({
           id: card.id,
           embedding: embeddingResults.results[index].embedding,
+          embeddingModel: embeddingResults.embeddingModel,
         }));
 
         await batchUpdateEmbeddings(updateData);
@@ -645,19 +654,12 @@ export const memoryCardsRouter = router({
 
         const title = titleResponse.content.substring(0, 60);
 
-        // Generate embedding if requested
-        let embedding: number[] | undefined;
-        if (input.generateEmbedding) {
-          embedding = await generateEmbedding(summary, userApiKey);
-        }
-
         // Create the memory card
         const memoryCard = await createMemoryCard({
           userId: user.userId,
           title,
           content: summary,
           summary: summary,
-          embedding,
           metadata: {
             threadId: input.threadId,
             autoGenerated: true,
@@ -666,9 +668,14 @@ export const memoryCardsRouter = router({
           },
         });
 
+        // Queue the embedding if requested
+        if (input.generateEmbedding) {
+          await embeddingQueue.enqueue(memoryCard, user.userId, prisma);
+        }
+
         return {
           memoryCard,
-          embeddingGenerated: input.generateEmbedding,
+          embeddingQueued: input.generateEmbedding,
         };
       } catch (error) {
         console.error('Error creating memory from conversation:', error);
@@ -679,4 +686,87 @@ export const memoryCardsRouter = router({
         });
       }
     }),
+  // Embedding spaces the user's cards are in, and the latest re-embedding migration
+  getEmbeddingStatus: authenticatedProcedure
+    .query(async ({ ctx }) => {
+      const { user, prisma } = ctx;
+
+      try {
+        const [provider, spaces] = await Promise.all([
+          resolveEmbeddingProvider(user.userId, prisma),
+          listEmbeddingSpaces(user.userId, prisma),
+        ]);
+        const migration = await prisma.embeddingMigration.findFirst({
+          where: { userId: user.userId },
+          orderBy: { createdAt: 'desc' },
+        });
+        const currentModel = embeddingModelId(provider);
+
+        return {
+          currentModel,
+          spaces,
+          // Cards embedded with another model, which a migration would move
+          staleCards: spaces
+            .filter(space => space.embeddingModel !== currentModel)
+            .reduce((sum, space) => sum + space.cards, 0),
+          migration: migration && migrationProgress(migration),
+        };
+      } catch (error) {
+        console.error('Error getting embedding status:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to retrieve embedding status',
+        });
+      }
+    }),
+
+  // Re-embed the user's cards with their current embedding provider, in the background
+  startEmbeddingMigration: authenticatedProcedure
+    .mutation(async ({ ctx }) => {
+      const { user, prisma } = ctx;
+
+      try {
+        return await embeddingMigrations.start(user.userId, prisma);
+      } catch (error) {
+        console.error('Error starting embedding migration:', error);
+        throw new TRPCError({
+          code: 'INTERNAL_SERVER_ERROR',
+          message: error instanceof Error ? error.message : 'Failed to start embedding migration',
+        });
+      }
+    }),
+
+  pauseEmbeddingMigration: authenticatedProcedure
+    .input(z.object({
+      migrationId: z.string().cuid(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const { user, prisma } = ctx;
+
+      const progress = await embeddingMigrations.pause(input.migrationId, user.userId, prisma);
+      if (!progress) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'No running embedding migration found',
+        });
+      }
+      return progress;
+    }),
+
+  resumeEmbeddingMigration: authenticatedProcedure
+    .input(z.object({
+      migrationId: z.string().cuid(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const { user, prisma } = ctx;
+
+      const progress = await embeddingMigrations.resume(input.migrationId, user.userId, prisma);
+      if (!progress) {
+        throw new TRPCError({
+          code: 'NOT_FOUND',
+          message: 'No unfinished embedding migration found',
+        });
+      }
+      return progress;
+    }),
 }); 
\ No newline at end of file
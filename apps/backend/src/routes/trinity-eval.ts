@@ -0,0 +1,167 @@
+import { z } from 'zod';
+import { TRPCError } from '@trpc/server';
+import { router, authenticatedProcedure } from '../trpc/init.js';
+import { LLMServiceFactory, RecordedLLMService, type LLMProvider } from '../lib/llm.js';
+import { estimateTokens } from '../lib/context-builder.js';
+import { enforceSpendLimits, getTrinityPlannedCalls, type PlannedCall } from '../lib/spend-limits.js';
+import { recordUsage } from '../lib/usage-ledger.js';
+import { resolveTrinityApiKeys } from '../lib/trinity-keys.js';
+import { resolveTrinityRunConfig } from '../lib/trinity-presets.js';
+import { embedSentences } from '../lib/trinity-attribution.js';
+import type { TrinityConfig } from '../lib/trinity-mode.js';
+import {
+  EvalPromptSetInputSchema,
+  MAX_EVAL_CONFIGS,
+  RecordedEmbedder,
+  createEvalPromptSet,
+  deleteEvalPromptSet,
+  evalUsageEntries,
+  getEvalPromptSet,
+  getEvalRun,
+  getEvalRunRecording,
+  listEvalPromptSets,
+  listEvalRuns,
+  replayConfigs,
+  replayTrinityEvaluation,
+  runTrinityEvaluation,
+  startEvalRun,
+  type EvalConfig,
+  type EvalPrompt,
+} from '../lib/trinity-eval.js';
+
+// Input validation schemas
+const TrinityConfigSchema = z.object({
+  executionMode: z.enum(['parallel', 'sequential', 'hybrid', 'debate']).optional(), // The preset's unless set
+  preset: z.string().optional(),
+  customConfig: z.any().optional(),
+});
+
+const BlendingStrategySchema = z.enum(['weighted_merge', 'best_of_three', 'synthesis', 'hierarchical']);
+
+// Live provider calls for requests the recording doesn't have
+function liveFallback(provider: LLMProvider) {
+  return LLMServiceFactory.getProviderService(provider);
+}
+
+function promptTokens(prompt: EvalPrompt, config: TrinityConfig): number {
+  return estimateTokens(prompt.content, config.orchestrator.provider as LLMProvider);
+}
+
+export const trinityEvalRouter = router({
+  getPromptSets: authenticatedProcedure
+    .query(async ({ ctx }) => {
+      return listEvalPromptSets(ctx.prisma, ctx.user.userId);
+    }),
+
+  createPromptSet: authenticatedProcedure
+    .input(EvalPromptSetInputSchema)
+    .mutation(async ({ input, ctx }) => {
+      return createEvalPromptSet(ctx.prisma, ctx.user.userId, input);
+    }),
+
+  // Deletes the set's runs too
+  deletePromptSet: authenticatedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      await deleteEvalPromptSet(ctx.prisma, ctx.user.userId, input.id);
+      return { success: true };
+    }),
+
+  // Runs without their per-prompt cells, newest first
+  getRuns: authenticatedProcedure
+    .input(z.object({ promptSetId: z.string().optional() }).optional())
+    .query(async ({ input, ctx }) => {
+      return listEvalRuns(ctx.prisma, ctx.user.userId, input?.promptSetId);
+    }),
+
+  getRun: authenticatedProcedure
+    .input(z.object({ id: z.string() }))
+    .query(async ({ input, ctx }) => {
+      return getEvalRun(ctx.prisma, ctx.user.userId, input.id);
+    }),
+
+  // Start running a prompt set against each config, recording every LLM response
+  // and embedding for replays; trinity_eval_progress events follow the run
+  run: authenticatedProcedure
+    .input(z.object({
+      promptSetId: z.string(),
+      configs: z.array(z.object({
+        label: z.string().trim().min(1).max(60).optional(),
+        trinityConfig: TrinityConfigSchema,
+      })).min(1).max(MAX_EVAL_CONFIGS),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const { user, prisma } = ctx;
+      const promptSet = await getEvalPromptSet(prisma, user.userId, input.promptSetId);
+
+      // Presets resolve as for a chat run, without a thread default
+      const configs: EvalConfig[] = await Promise.all(input.configs.map(async (entry, index) => {
+        const { config, presetId } = await resolveTrinityRunConfig(prisma, user.userId, {}, entry.trinityConfig);
+        return { label: entry.label ?? presetId ?? `Config ${index + 1}`, config };
+      }));
+      if (new Set(configs.map(config => config.label)).size !== configs.length) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Each config needs a distinct label' });
+      }
+
+      const apiKeys = await Promise.all(configs.map(({ config }) => resolveTrinityApiKeys(user.userId, config, prisma)));
+      await enforceSpendLimits(user.userId, prisma, configs.flatMap(({ config }) =>
+        promptSet.prompts.flatMap(prompt => getTrinityPlannedCalls(config, promptTokens(prompt, config)))
+      ));
+
+      return startEvalRun(prisma, user.userId, {
+        promptSetId: promptSet.id,
+        configs,
+        total: configs.length * promptSet.prompts.length,
+      }, async onProgress => {
+        const service = new RecordedLLMService({}, liveFallback);
+        const embedder = new RecordedEmbedder({}, embedSentences);
+        const result = await runTrinityEvaluation(promptSet.prompts, configs, { service, apiKeys, embed: embedder.embed, onProgress });
+        await recordUsage(prisma, evalUsageEntries(user.userId, service.liveCalls));
+        return { result, recording: service.recording, embeddings: embedder.recording };
+      });
+    }),
+
+  // Start re-blending a recorded run under other strategies; only blending calls
+  // and final-answer embeddings never recorded are made
+  replay: authenticatedProcedure
+    .input(z.object({
+      runId: z.string(),
+      strategies: z.array(BlendingStrategySchema).min(1).max(4),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const { user, prisma } = ctx;
+      const source = await getEvalRun(prisma, user.userId, input.runId);
+      const promptSet = await getEvalPromptSet(prisma, user.userId, source.promptSetId);
+      const { recording, embeddings } = await getEvalRunRecording(prisma, user.userId, source.id);
+
+      const apiKeys = await Promise.all(source.configs.map(({ config }) => resolveTrinityApiKeys(user.userId, config, prisma)));
+      // At most one new blending call per config, strategy and prompt
+      await enforceSpendLimits(user.userId, prisma, source.configs.flatMap(({ config }) =>
+        input.strategies.flatMap(() => promptSet.prompts.map((prompt): PlannedCall => ({
+          provider: config.orchestrator.provider as LLMProvider,
+          model: config.orchestrator.model,
+          promptTokens: promptTokens(prompt, config),
+          maxTokens: config.orchestrator.maxTokens,
+        })))
+      ));
+
+      const replays = replayConfigs(source.configs, input.strategies);
+      return startEvalRun(prisma, user.userId, {
+        promptSetId: promptSet.id,
+        replayOfId: source.id,
+        configs: replays,
+        total: replays.length * promptSet.prompts.length,
+      }, async onProgress => {
+        const service = new RecordedLLMService(recording, liveFallback);
+        const embedder = new RecordedEmbedder(embeddings, embedSentences);
+        const result = await replayTrinityEvaluation(promptSet.prompts, source.configs, input.strategies, {
+          service,
+          apiKeys,
+          embed: embedder.embed,
+          onProgress,
+        });
+        await recordUsage(prisma, evalUsageEntries(user.userId, service.liveCalls));
+        return { result, recording: service.recording, embeddings: embedder.recording };
+      });
+    }),
+});
@@ -3,36 +3,58 @@ import { router, authenticatedProcedure } from '../trpc/init.js';
 import { TRPCError } from '@trpc/server';
 import { observable } from '@trpc/server/observable';
 import type { LLMMessage } from '../lib/llm.js';
-import { getUserApiKey } from '../lib/llm.js';
+import {
+  buildContextWindow,
+  getTrinityContextTargets,
+  loadRecentThreadMessages,
+} from '../lib/context-builder.js';
+import {
+  agentUsageFromResponses,
+  agentUsageFromStreamChunk,
+  recordUsage,
+  trinityUsageEntries,
+  type AgentUsage,
+} from '../lib/usage-ledger.js';
+import { enforceSpendLimits, getTrinityPlannedCalls } from '../lib/spend-limits.js';
+import { announceGeneration, generationRegistry, persistStoppedGeneration } from '../lib/generations.js';
+import { resolveTrinityConfig } from '../lib/trinity-mode.js';
+import { resolveTrinityApiKeys } from '../lib/trinity-keys.js';
+import { storeTrinityResponse } from '../lib/trinity-responses.js';
+import {
+  TrinityPresetFieldsSchema,
+  createTrinityPreset,
+  deleteTrinityPreset,
+  duplicateTrinityPreset,
+  exportTrinityPresets,
+  importTrinityPresets,
+  listTrinityPresets,
+  resolveTrinityRunConfig,
+  setDefaultTrinityPreset,
+  updateTrinityPreset,
+} from '../lib/trinity-presets.js';
 
 // Trinity Mode Input Schemas
 const TrinityConfigSchema = z.object({
-  executionMode: z.enum(['parallel', 'sequential', 'hybrid']),
+  executionMode: z.enum(['parallel', 'sequential', 'hybrid', 'debate']).optional(), // The preset's unless set
   preset: z.string().optional(),
   customConfig: z.any().optional(),
 });
 
 export const trinityRouter = router({
-  // Send a message using Trinity Mode (3 agents + orchestrator)
+  // Send a message using Trinity Mode (2-6 agents + orchestrator)
   sendMessage: authenticatedProcedure
     .input(z.object({
       threadId: z.string(),
       content: z.string(),
       trinityConfig: TrinityConfigSchema,
     }))
-    .mutation(async ({ input, ctx }) => {
+    .mutation(async ({ input, ctx, signal }) => {
       // Verify thread ownership
       const thread = await ctx.prisma.thread.findFirst({
         where: {
           id: input.threadId,
           userId: ctx.user.userId,
         },
-        include: {
-          messages: {
-            orderBy: { createdAt: 'asc' },
-            take: 50,
-          },
-        },
       });
 
       if (!thread) {
@@ -42,6 +64,18 @@ export const trinityRouter = router({
         });
       }
 
+      const { config: trinityConfig, presetId } = await resolveTrinityRunConfig(
+        ctx.prisma,
+        ctx.user.userId,
+        thread,
+        input.trinityConfig
+      );
+      const { agents: apiKeys, orchestrator: orchestratorApiKey, embedding: embeddingApiKey } = await resolveTrinityApiKeys(ctx.user.userId, trinityConfig, ctx.prisma);
+
+      let assistantMessage: any = null;
+      let runSignal: AbortSignal | undefined;
+      let settled = false;
+
       try {
         // Create user message
         const userMessage = await ctx.prisma.message.create({
@@ -53,214 +87,34 @@ export const trinityRouter = router({
           },
         });
 
-        // Convert to LLM messages format
-        const llmMessages: LLMMessage[] = [
-          ...thread.messages.map(m => ({
-            role: m.role as 'user' | 'assistant' | 'system',
-            content: m.content,
-          })),
-          {
-            role: 'user',
-            content: input.content,
+        // Created before the agents start so cancelGeneration can stop the run by its ID
+        assistantMessage = await ctx.prisma.message.create({
+          data: {
+            threadId: input.threadId,
+            userId: ctx.user.userId,
+            role: 'assistant',
+            content: '',
+            model: 'trinity-mode',
+            provider: 'trinity',
           },
-        ];
+        });
+        runSignal = generationRegistry.start(assistantMessage.id, ctx.user.userId, signal);
+        announceGeneration(assistantMessage);
 
         // Import Trinity Mode components
         const { TrinityExecutionManager } = await import('../lib/trinity-manager.js');
-        const { DEFAULT_TRINITY_CONFIG, TRINITY_PRESETS } = await import('../lib/trinity-mode.js');
         
-        const trinityManager = new TrinityExecutionManager();
-
-        // Debug: Log the incoming configuration
-        console.log('Trinity Config Input:', JSON.stringify(input.trinityConfig, null, 2));
-
-        // Determine configuration
-        let trinityConfig = DEFAULT_TRINITY_CONFIG;
-        if (input.trinityConfig.preset && TRINITY_PRESETS[input.trinityConfig.preset]) {
-          trinityConfig = {
-            ...DEFAULT_TRINITY_CONFIG,
-            ...TRINITY_PRESETS[input.trinityConfig.preset],
-            executionMode: input.trinityConfig.executionMode,
-          };
-        } else if (input.trinityConfig.customConfig) {
-          // Handle custom agent models configuration
-          const customConfig = input.trinityConfig.customConfig;
-          
-          // First check if customConfig has the agents property directly (presets)
-          if (customConfig.agents) {
-            trinityConfig = {
-              ...DEFAULT_TRINITY_CONFIG,
-              ...customConfig,
-              executionMode: input.trinityConfig.executionMode,
-            };
-          } else {
-            // Otherwise build config from agentModels
-            trinityConfig = {
-              ...DEFAULT_TRINITY_CONFIG,
-              executionMode: input.trinityConfig.executionMode,
-            };
-            
-            // Update agent models if provided
-            if (customConfig.agentModels) {
-              if (customConfig.agentModels.analytical) {
-                trinityConfig.agents.analytical = {
-                  ...trinityConfig.agents.analytical,
-                  model: customConfig.agentModels.analytical.model,
-                  provider: customConfig.agentModels.analytical.provider,
-                };
-              }
-              if (customConfig.agentModels.creative) {
-                trinityConfig.agents.creative = {
-                  ...trinityConfig.agents.creative,
-                  model: customConfig.agentModels.creative.model,
-                  provider: customConfig.agentModels.creative.provider,
-                };
-              }
-              if (customConfig.agentModels.factual) {
-                trinityConfig.agents.factual = {
-                  ...trinityConfig.agents.factual,
-                  model: customConfig.agentModels.factual.model,
-                  provider: customConfig.agentModels.factual.provider,
-                };
-              }
-            }
-            
-            // Update weights if provided
-            if (customConfig.customWeights) {
-              trinityConfig.agents.analytical.weight = customConfig.customWeights.analytical;
-              trinityConfig.agents.creative.weight = customConfig.customWeights.creative;
-              trinityConfig.agents.factual.weight = customConfig.customWeights.factual;
-            }
-            
-            // Update advanced configuration if provided
-            if (customConfig.advanced) {
-              // Update temperatures if provided
-              if (customConfig.advanced.temperatures) {
-                if (customConfig.advanced.temperatures.analytical !== undefined) {
-                  trinityConfig.agents.analytical.temperature = customConfig.advanced.temperatures.analytical;
-                }
-                if (customConfig.advanced.temperatures.creative !== undefined) {
-                  trinityConfig.agents.creative.temperature = customConfig.advanced.temperatures.creative;
-                }
-                if (customConfig.advanced.temperatures.factual !== undefined) {
-                  trinityConfig.agents.factual.temperature = customConfig.advanced.temperatures.factual;
-                }
-              }
-              
-              // Update custom prompts if provided
-              if (customConfig.advanced.prompts) {
-                if (customConfig.advanced.prompts.analytical) {
-                  trinityConfig.agents.analytical.systemPrompt += `\n\nAdditional instructions: ${customConfig.advanced.prompts.analytical}`;
-                }
-                if (customConfig.advanced.prompts.creative) {
-                  trinityConfig.agents.creative.systemPrompt += `\n\nAdditional instructions: ${customConfig.advanced.prompts.creative}`;
-                }
-                if (customConfig.advanced.prompts.factual) {
-                  trinityConfig.agents.factual.systemPrompt += `\n\nAdditional instructions: ${customConfig.advanced.prompts.factual}`;
-                }
-              }
-            }
-            
-            // Update orchestrator model if provided
-            if (customConfig.orchestrator) {
-              trinityConfig.orchestrator = {
-                ...trinityConfig.orchestrator,
-                ...customConfig.orchestrator
-              };
-            }
-          }
-        } else {
-          trinityConfig = {
-            ...DEFAULT_TRINITY_CONFIG,
-            executionMode: input.trinityConfig.executionMode,
-          };
-        }
-
-        // Debug: Log the final configuration
-        console.log('Trinity Config Final:', JSON.stringify({
-          analytical: trinityConfig.agents.analytical.provider,
-          creative: trinityConfig.agents.creative.provider,
-          factual: trinityConfig.agents.factual.provider,
-        }, null, 2));
-
-        // Get API keys for each agent
-        const apiKeys = {
-          analytical: await getUserApiKey(ctx.user.userId, trinityConfig.agents.analytical.provider as any, ctx.prisma),
-          creative: await getUserApiKey(ctx.user.userId, trinityConfig.agents.creative.provider as any, ctx.prisma),
-          factual: await getUserApiKey(ctx.user.userId, trinityConfig.agents.factual.provider as any, ctx.prisma),
-        };
-
-        // Fallback to environment variables if database keys are not found
-        const envKeyMap: Record<string, string | undefined> = {
-          openai: process.env['OPENAI_API_KEY'],
-          anthropic: process.env['ANTHROPIC_API_KEY'],
-          google: process.env['GOOGLE_API_KEY'],
-          mistral: process.env['MISTRAL_API_KEY'],
-          openrouter: process.env['OPENROUTER_API_KEY'],
-        };
-
-        // Apply fallbacks
-        const analyticalEnvKey = envKeyMap[trinityConfig.agents.analytical.provider];
-        if (!apiKeys.analytical && analyticalEnvKey) {
-          console.log(`Using env fallback for analytical agent (${trinityConfig.agents.analytical.provider})`);
-          apiKeys.analytical = analyticalEnvKey;
-        }
-        const creativeEnvKey = envKeyMap[trinityConfig.agents.creative.provider];
-        if (!apiKeys.creative && creativeEnvKey) {
-          console.log(`Using env fallback for creative agent (${trinityConfig.agents.creative.provider})`);
-          apiKeys.creative = creativeEnvKey;
-        }
-        const factualEnvKey = envKeyMap[trinityConfig.agents.factual.provider];
-        if (!apiKeys.factual && factualEnvKey) {
-          console.log(`Using env fallback for factual agent (${trinityConfig.agents.factual.provider})`);
-          apiKeys.factual = factualEnvKey;
-        }
+        const trinityManager = new TrinityExecutionManager({ signal: runSignal, orchestratorApiKey, embeddingApiKey });
 
-        // Debug: Log API key status
-        console.log('API Keys Status:', {
-          analytical: { 
-            provider: trinityConfig.agents.analytical.provider, 
-            hasKey: !!apiKeys.analytical,
-            keyLength: apiKeys.analytical?.length || 0
-          },
-          creative: { 
-            provider: trinityConfig.agents.creative.provider, 
-            hasKey: !!apiKeys.creative,
-            keyLength: apiKeys.creative?.length || 0
-          },
-          factual: { 
-            provider: trinityConfig.agents.factual.provider, 
-            hasKey: !!apiKeys.factual,
-            keyLength: apiKeys.factual?.length || 0
-          },
+        // Fit the newest turns into every agent's context window
+        const context = buildContextWindow({
+          targets: getTrinityContextTargets(trinityConfig),
+          history: await loadRecentThreadMessages(ctx.prisma, input.threadId),
         });
+        const llmMessages = context.messages;
 
-        // Check if all required API keys are available
-        // Only check unique providers that are actually being used
-        const uniqueProviders = new Set([
-          trinityConfig.agents.analytical.provider,
-          trinityConfig.agents.creative.provider,
-          trinityConfig.agents.factual.provider,
-        ]);
-        
-        const missingProviders: string[] = [];
-        for (const provider of uniqueProviders) {
-          // Check if any of the agents using this provider has a missing API key
-          if (
-            (trinityConfig.agents.analytical.provider === provider && !apiKeys.analytical) ||
-            (trinityConfig.agents.creative.provider === provider && !apiKeys.creative) ||
-            (trinityConfig.agents.factual.provider === provider && !apiKeys.factual)
-          ) {
-            missingProviders.push(provider);
-          }
-        }
-
-        if (missingProviders.length > 0) {
-          throw new TRPCError({
-            code: 'BAD_REQUEST',
-            message: `Missing API keys for providers: ${missingProviders.join(', ')}`,
-          });
-        }
+        // Check the caps against every agent call plus the orchestrator
+        await enforceSpendLimits(ctx.user.userId, ctx.prisma, getTrinityPlannedCalls(trinityConfig, context.tokenCount));
 
         // Execute Trinity Mode
         let trinityResponse;
@@ -274,11 +128,14 @@ export const trinityRouter = router({
           case 'hybrid':
             trinityResponse = await trinityManager.executeHybrid(llmMessages, trinityConfig, apiKeys);
             break;
+          case 'debate':
+            trinityResponse = await trinityManager.executeDebate(llmMessages, trinityConfig, apiKeys);
+            break;
           default:
             throw new Error(`Unknown execution mode: ${trinityConfig.executionMode}`);
         }
 
-        // Create assistant message with Trinity response
+        // Fill in the assistant message with the Trinity response
         console.log('Trinity Response Debug:', {
           finalResponseType: typeof trinityResponse.finalResponse,
           finalResponseLength: trinityResponse.finalResponse?.length,
@@ -291,15 +148,10 @@ export const trinityRouter = router({
           ? trinityResponse.finalResponse 
           : JSON.stringify(trinityResponse.finalResponse);
 
-        const assistantMessage = await ctx.prisma.message.create({
-          data: {
-            threadId: input.threadId,
-            userId: ctx.user.userId,
-            role: 'assistant',
-            content: messageContent,
-            model: 'trinity-mode',
-            provider: 'trinity',
-          },
+        settled = true;
+        assistantMessage = await ctx.prisma.message.update({
+          where: { id: assistantMessage.id },
+          data: { content: messageContent },
         });
 
         // Store Trinity data for the UI
@@ -314,17 +166,18 @@ export const trinityRouter = router({
           hasAttribution: !!trinityResponse.attribution
         });
 
-        const trinityData = {
-          ...trinityResponse,
-          messageId: assistantMessage.id
-        };
+        await storeTrinityResponse(ctx.prisma, assistantMessage.id, trinityResponse);
 
-        await ctx.prisma.$executeRaw`
-          INSERT INTO trinity_responses (message_id, data)
-          VALUES (${assistantMessage.id}, ${JSON.stringify(trinityData)}::jsonb)
-          ON CONFLICT (message_id) 
-          DO UPDATE SET data = EXCLUDED.data
-        `;
+        await recordUsage(ctx.prisma, trinityUsageEntries(
+          agentUsageFromResponses(trinityResponse.rounds?.flatMap(round => round.responses) ?? trinityResponse.agentResponses),
+          trinityResponse.orchestratorMetadata.orchestratorUsage,
+          {
+            userId: ctx.user.userId,
+            threadId: input.threadId,
+            messageId: assistantMessage.id,
+            preset: presetId,
+          }
+        ));
 
         return {
           userMessage,
@@ -333,16 +186,45 @@ export const trinityRouter = router({
             agentResponses: trinityResponse.agentResponses,
             attribution: trinityResponse.attribution,
             orchestratorMetadata: trinityResponse.orchestratorMetadata,
+            ...(trinityResponse.rounds && { rounds: trinityResponse.rounds }),
+            ...(trinityResponse.conflictAnalysis && { conflictAnalysis: trinityResponse.conflictAnalysis }),
+            ...(trinityResponse.scores && { scores: trinityResponse.scores }),
             finalResponse: trinityResponse.finalResponse,
           },
         };
 
       } catch (error) {
+        if (!settled && runSignal?.aborted) {
+          throw new TRPCError({
+            code: 'CLIENT_CLOSED_REQUEST',
+            message: 'Generation stopped',
+          });
+        }
         console.error('Trinity mode error:', error);
+        if (assistantMessage && !settled) {
+          settled = true;
+          await ctx.prisma.message.update({
+            where: { id: assistantMessage.id },
+            data: { content: `Error: ${error instanceof Error ? error.message : 'Trinity mode execution failed'}` },
+          });
+        }
+        if (error instanceof TRPCError && error.code === 'PAYMENT_REQUIRED') {
+          throw error;
+        }
         throw new TRPCError({
           code: 'INTERNAL_SERVER_ERROR',
           message: error instanceof Error ? error.message : 'Trinity mode execution failed',
         });
+      } finally {
+        if (assistantMessage) {
+          generationRegistry.finish(assistantMessage.id);
+
+          // Stopped through cancelGeneration, or the client aborted the request; nothing is blended
+          // until every agent is done, so there is no partial answer to keep
+          if (!settled && runSignal?.aborted) {
+            await persistStoppedGeneration(ctx.prisma, assistantMessage, '');
+          }
+        }
       }
     }),
 
@@ -353,19 +235,13 @@ export const trinityRouter = router({
       content: z.string(),
       trinityConfig: TrinityConfigSchema,
     }))
-    .subscription(async function* ({ input, ctx }) {
+    .subscription(async function* ({ input, ctx, signal }) {
       // Verify thread ownership
       const thread = await ctx.prisma.thread.findFirst({
         where: {
           id: input.threadId,
           userId: ctx.user.userId,
         },
-        include: {
-          messages: {
-            orderBy: { createdAt: 'asc' },
-            take: 50,
-          },
-        },
       });
 
       if (!thread) {
@@ -375,6 +251,19 @@ export const trinityRouter = router({
         });
       }
 
+      const { config: trinityConfig, presetId } = await resolveTrinityRunConfig(
+        ctx.prisma,
+        ctx.user.userId,
+        thread,
+        input.trinityConfig
+      );
+      const { agents: apiKeys, orchestrator: orchestratorApiKey, embedding: embeddingApiKey } = await resolveTrinityApiKeys(ctx.user.userId, trinityConfig, ctx.prisma);
+
+      let assistantMessage: any = null;
+      let runSignal: AbortSignal | undefined;
+      let synthesis = '';
+      let settled = false;
+
       try {
         // Create user message
         const userMessage = await ctx.prisma.message.create({
@@ -391,218 +280,42 @@ export const trinityRouter = router({
           message: userMessage,
         };
 
-        // Convert to LLM messages format
-        const llmMessages: LLMMessage[] = [
-          ...thread.messages.map(m => ({
-            role: m.role as 'user' | 'assistant' | 'system',
-            content: m.content,
-          })),
-          {
-            role: 'user',
-            content: input.content,
+        // Created before the agents start so cancelGeneration can stop the run by its ID
+        assistantMessage = await ctx.prisma.message.create({
+          data: {
+            threadId: input.threadId,
+            userId: ctx.user.userId,
+            role: 'assistant',
+            content: '',
+            model: 'trinity-mode',
+            provider: 'trinity',
           },
-        ];
+        });
+        runSignal = generationRegistry.start(assistantMessage.id, ctx.user.userId, signal);
+
+        yield {
+          type: 'assistant_message',
+          message: assistantMessage,
+        };
 
         // Import Trinity Mode components
         const { TrinityExecutionManager } = await import('../lib/trinity-manager.js');
-        const { DEFAULT_TRINITY_CONFIG, TRINITY_PRESETS } = await import('../lib/trinity-mode.js');
         
-        const trinityManager = new TrinityExecutionManager();
-
-        // Debug: Log the incoming configuration
-        console.log('Trinity Config Input:', JSON.stringify(input.trinityConfig, null, 2));
-
-        // Determine configuration
-        let trinityConfig = DEFAULT_TRINITY_CONFIG;
-        if (input.trinityConfig.preset && TRINITY_PRESETS[input.trinityConfig.preset]) {
-          trinityConfig = {
-            ...DEFAULT_TRINITY_CONFIG,
-            ...TRINITY_PRESETS[input.trinityConfig.preset],
-            executionMode: input.trinityConfig.executionMode,
-          };
-        } else if (input.trinityConfig.customConfig) {
-          // Handle custom agent models configuration
-          const customConfig = input.trinityConfig.customConfig;
-          
-          // First check if customConfig has the agents property directly (presets)
-          if (customConfig.agents) {
-            trinityConfig = {
-              ...DEFAULT_TRINITY_CONFIG,
-              ...customConfig,
-              executionMode: input.trinityConfig.executionMode,
-            };
-          } else {
-            // Otherwise build config from agentModels
-            trinityConfig = {
-              ...DEFAULT_TRINITY_CONFIG,
-              executionMode: input.trinityConfig.executionMode,
-            };
-            
-            // Update agent models if provided
-            if (customConfig.agentModels) {
-              if (customConfig.agentModels.analytical) {
-                trinityConfig.agents.analytical = {
-                  ...trinityConfig.agents.analytical,
-                  model: customConfig.agentModels.analytical.model,
-                  provider: customConfig.agentModels.analytical.provider,
-                };
-              }
-              if (customConfig.agentModels.creative) {
-                trinityConfig.agents.creative = {
-                  ...trinityConfig.agents.creative,
-                  model: customConfig.agentModels.creative.model,
-                  provider: customConfig.agentModels.creative.provider,
-                };
-              }
-              if (customConfig.agentModels.factual) {
-                trinityConfig.agents.factual = {
-                  ...trinityConfig.agents.factual,
-                  model: customConfig.agentModels.factual.model,
-                  provider: customConfig.agentModels.factual.provider,
-                };
-              }
-            }
-            
-            // Update weights if provided
-            if (customConfig.customWeights) {
-              trinityConfig.agents.analytical.weight = customConfig.customWeights.analytical;
-              trinityConfig.agents.creative.weight = customConfig.customWeights.creative;
-              trinityConfig.agents.factual.weight = customConfig.customWeights.factual;
-            }
-            
-            // Update advanced configuration if provided
-            if (customConfig.advanced) {
-              // Update temperatures if provided
-              if (customConfig.advanced.temperatures) {
-                if (customConfig.advanced.temperatures.analytical !== undefined) {
-                  trinityConfig.agents.analytical.temperature = customConfig.advanced.temperatures.analytical;
-                }
-                if (customConfig.advanced.temperatures.creative !== undefined) {
-                  trinityConfig.agents.creative.temperature = customConfig.advanced.temperatures.creative;
-                }
-                if (customConfig.advanced.temperatures.factual !== undefined) {
-                  trinityConfig.agents.factual.temperature = customConfig.advanced.temperatures.factual;
-                }
-              }
-              
-              // Update custom prompts if provided
-              if (customConfig.advanced.prompts) {
-                if (customConfig.advanced.prompts.analytical) {
-                  trinityConfig.agents.analytical.systemPrompt += `\n\nAdditional instructions: ${customConfig.advanced.prompts.analytical}`;
-                }
-                if (customConfig.advanced.prompts.creative) {
-                  trinityConfig.agents.creative.systemPrompt += `\n\nAdditional instructions: ${customConfig.advanced.prompts.creative}`;
-                }
-                if (customConfig.advanced.prompts.factual) {
-                  trinityConfig.agents.factual.systemPrompt += `\n\nAdditional instructions: ${customConfig.advanced.prompts.factual}`;
-                }
-              }
-            }
-            
-            // Update orchestrator model if provided
-            if (customConfig.orchestrator) {
-              trinityConfig.orchestrator = {
-                ...trinityConfig.orchestrator,
-                ...customConfig.orchestrator
-              };
-            }
-          }
-        } else {
-          trinityConfig = {
-            ...DEFAULT_TRINITY_CONFIG,
-            executionMode: input.trinityConfig.executionMode,
-          };
-        }
-
-        // Debug: Log the final configuration
-        console.log('Trinity Config Final:', JSON.stringify({
-          analytical: trinityConfig.agents.analytical.provider,
-          creative: trinityConfig.agents.creative.provider,
-          factual: trinityConfig.agents.factual.provider,
-        }, null, 2));
-
-        // Get API keys for each agent
-        const apiKeys = {
-          analytical: await getUserApiKey(ctx.user.userId, trinityConfig.agents.analytical.provider as any, ctx.prisma),
-          creative: await getUserApiKey(ctx.user.userId, trinityConfig.agents.creative.provider as any, ctx.prisma),
-          factual: await getUserApiKey(ctx.user.userId, trinityConfig.agents.factual.provider as any, ctx.prisma),
-        };
-
-        // Fallback to environment variables if database keys are not found
-        const envKeyMap: Record<string, string | undefined> = {
-          openai: process.env['OPENAI_API_KEY'],
-          anthropic: process.env['ANTHROPIC_API_KEY'],
-          google: process.env['GOOGLE_API_KEY'],
-          mistral: process.env['MISTRAL_API_KEY'],
-          openrouter: process.env['OPENROUTER_API_KEY'],
-        };
-
-        // Apply fallbacks
-        const analyticalEnvKey = envKeyMap[trinityConfig.agents.analytical.provider];
-        if (!apiKeys.analytical && analyticalEnvKey) {
-          console.log(`Using env fallback for analytical agent (${trinityConfig.agents.analytical.provider})`);
-          apiKeys.analytical = analyticalEnvKey;
-        }
-        const creativeEnvKey = envKeyMap[trinityConfig.agents.creative.provider];
-        if (!apiKeys.creative && creativeEnvKey) {
-          console.log(`Using env fallback for creative agent (${trinityConfig.agents.creative.provider})`);
-          apiKeys.creative = creativeEnvKey;
-        }
-        const factualEnvKey = envKeyMap[trinityConfig.agents.factual.provider];
-        if (!apiKeys.factual && factualEnvKey) {
-          console.log(`Using env fallback for factual agent (${trinityConfig.agents.factual.provider})`);
-          apiKeys.factual = factualEnvKey;
-        }
+        const trinityManager = new TrinityExecutionManager({ signal: runSignal, orchestratorApiKey, embeddingApiKey });
 
-        // Debug: Log API key status
-        console.log('API Keys Status:', {
-          analytical: { 
-            provider: trinityConfig.agents.analytical.provider, 
-            hasKey: !!apiKeys.analytical,
-            keyLength: apiKeys.analytical?.length || 0
-          },
-          creative: { 
-            provider: trinityConfig.agents.creative.provider, 
-            hasKey: !!apiKeys.creative,
-            keyLength: apiKeys.creative?.length || 0
-          },
-          factual: { 
-            provider: trinityConfig.agents.factual.provider, 
-            hasKey: !!apiKeys.factual,
-            keyLength: apiKeys.factual?.length || 0
-          },
+        // Fit the newest turns into every agent's context window
+        const context = buildContextWindow({
+          targets: getTrinityContextTargets(trinityConfig),
+          history: await loadRecentThreadMessages(ctx.prisma, input.threadId),
         });
+        const llmMessages = context.messages;
 
-        // Check if all required API keys are available
-        // Only check unique providers that are actually being used
-        const uniqueProviders = new Set([
-          trinityConfig.agents.analytical.provider,
-          trinityConfig.agents.creative.provider,
-          trinityConfig.agents.factual.provider,
-        ]);
-        
-        const missingProviders: string[] = [];
-        for (const provider of uniqueProviders) {
-          // Check if any of the agents using this provider has a missing API key
-          if (
-            (trinityConfig.agents.analytical.provider === provider && !apiKeys.analytical) ||
-            (trinityConfig.agents.creative.provider === provider && !apiKeys.creative) ||
-            (trinityConfig.agents.factual.provider === provider && !apiKeys.factual)
-          ) {
-            missingProviders.push(provider);
-          }
-        }
-
-        if (missingProviders.length > 0) {
-          throw new TRPCError({
-            code: 'BAD_REQUEST',
-            message: `Missing API keys for providers: ${missingProviders.join(', ')}`,
-          });
-        }
+        // Check the caps against every agent call plus the orchestrator
+        await enforceSpendLimits(ctx.user.userId, ctx.prisma, getTrinityPlannedCalls(trinityConfig, context.tokenCount));
 
         // Stream Trinity Mode execution
-        let assistantMessage: any = null;
         const agentResponses: any[] = [];
+        const agentUsage: AgentUsage[] = [];
         
         for await (const chunk of trinityManager.streamTrinityResponse(llmMessages, trinityConfig, apiKeys)) {
           // Handle agent updates
@@ -610,49 +323,46 @@ export const trinityRouter = router({
             yield {
               type: 'agent_start',
               agentType: chunk.agentType,
+              round: chunk.round,
               timestamp: chunk.timestamp,
             };
           } else if (chunk.type === 'agent_chunk') {
             yield {
               type: 'agent_chunk',
               agentType: chunk.agentType,
+              round: chunk.round,
               content: chunk.content,
               delta: chunk.delta,
               isComplete: chunk.isComplete,
             };
           } else if (chunk.type === 'agent_complete') {
-            agentResponses.push({
+            // In debate mode each round's answer replaces the agent's previous one
+            const response = {
               agentType: chunk.agentType,
               content: chunk.content,
               metadata: chunk.metadata,
-            });
+            };
+            const previousIndex = agentResponses.findIndex(previous => previous.agentType === chunk.agentType);
+            if (previousIndex === -1) {
+              agentResponses.push(response);
+            } else {
+              agentResponses[previousIndex] = response;
+            }
+            const usage = agentUsageFromStreamChunk(chunk);
+            if (usage) {
+              agentUsage.push(usage);
+            }
             
             yield {
               type: 'agent_complete',
               agentType: chunk.agentType,
+              round: chunk.round,
               content: chunk.content,
               metadata: chunk.metadata,
             };
           } else if (chunk.type === 'orchestrator_chunk') {
-            // Create assistant message if not exists
-            if (!assistantMessage) {
-              assistantMessage = await ctx.prisma.message.create({
-                data: {
-                  threadId: input.threadId,
-                  userId: ctx.user.userId,
-                  role: 'assistant',
-                  content: '',
-                  model: 'trinity-mode',
-                  provider: 'trinity',
-                },
-              });
-            }
-
-            // Update message content
-            await ctx.prisma.message.update({
-              where: { id: assistantMessage.id },
-              data: { content: chunk.content },
-            });
+            // Saved on trinity_complete, or by persistStoppedGeneration if stopped
+            synthesis = chunk.content;
 
             yield {
               type: 'orchestrator_chunk',
@@ -661,6 +371,7 @@ export const trinityRouter = router({
               delta: chunk.delta,
             };
           } else if (chunk.type === 'trinity_complete') {
+            settled = true;
             if (assistantMessage) {
               // Final update
               await ctx.prisma.message.update({
@@ -669,43 +380,156 @@ export const trinityRouter = router({
                   content: chunk.content,
                 },
               });
+
+              // Store Trinity data for the UI
+              await storeTrinityResponse(ctx.prisma, assistantMessage.id, {
+                finalResponse: chunk.content,
+                agentResponses,
+                ...(chunk.metadata?.rounds && { rounds: chunk.metadata.rounds }),
+                ...(chunk.metadata?.conflictAnalysis && { conflictAnalysis: chunk.metadata.conflictAnalysis }),
+                ...(chunk.metadata?.scores && { scores: chunk.metadata.scores }),
+              });
             }
 
+            await recordUsage(ctx.prisma, trinityUsageEntries(
+              agentUsage,
+              chunk.metadata?.orchestratorUsage,
+              {
+                userId: ctx.user.userId,
+                threadId: input.threadId,
+                ...(assistantMessage && { messageId: assistantMessage.id }),
+                preset: presetId,
+              }
+            ));
+
             yield {
               type: 'trinity_complete',
               messageId: assistantMessage?.id,
               content: chunk.content,
               agentResponses,
+              ...(chunk.metadata?.rounds && { rounds: chunk.metadata.rounds }),
+              ...(chunk.metadata?.conflictAnalysis && { conflictAnalysis: chunk.metadata.conflictAnalysis }),
+              ...(chunk.metadata?.scores && { scores: chunk.metadata.scores }),
             };
           }
         }
 
       } catch (error) {
+        if (runSignal?.aborted) {
+          yield {
+            type: 'generation_stopped',
+            messageId: assistantMessage?.id,
+            content: synthesis,
+          };
+          return;
+        }
+
         console.error('Trinity streaming error:', error);
+        if (assistantMessage) {
+          settled = true;
+          await ctx.prisma.message.update({
+            where: { id: assistantMessage.id },
+            data: { content: `Error: ${error instanceof Error ? error.message : 'Trinity streaming failed'}` },
+          });
+        }
         yield {
           type: 'error',
           error: error instanceof Error ? error.message : 'Trinity streaming failed',
+          ...(error instanceof TRPCError && { code: error.code }),
         };
+      } finally {
+        if (assistantMessage) {
+          generationRegistry.finish(assistantMessage.id);
+
+          // Stopped through cancelGeneration, or the client unsubscribed mid-run
+          if (!settled && runSignal?.aborted) {
+            await persistStoppedGeneration(ctx.prisma, assistantMessage, synthesis);
+          }
+        }
       }
     }),
 
-  // Get Trinity Mode presets
+  // Get Trinity Mode presets: built-ins plus the user's saved presets
   getPresets: authenticatedProcedure
     .query(async ({ ctx }) => {
-      const { TRINITY_PRESETS, DEFAULT_TRINITY_CONFIG } = await import('../lib/trinity-mode.js');
-      
+      const { DEFAULT_TRINITY_CONFIG } = await import('../lib/trinity-mode.js');
+      const { presets, defaultPresetId } = await listTrinityPresets(ctx.prisma, ctx.user.userId);
+
       return {
         defaultConfig: DEFAULT_TRINITY_CONFIG,
-        presets: Object.entries(TRINITY_PRESETS).map(([key, preset]) => ({
-          id: key,
-          name: key.split('-').map(word => 
-            word.charAt(0).toUpperCase() + word.slice(1)
-          ).join(' '),
-          config: preset,
-        })),
+        defaultPresetId,
+        presets,
       };
     }),
 
+  // Save settings as a preset; they are resolved and validated the same way as for a run
+  createPreset: authenticatedProcedure
+    .input(TrinityPresetFieldsSchema.extend({
+      trinityConfig: TrinityConfigSchema,
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const { trinityConfig, ...fields } = input;
+      return createTrinityPreset(ctx.prisma, ctx.user.userId, {
+        ...fields,
+        config: resolveTrinityConfig(trinityConfig),
+      });
+    }),
+
+  updatePreset: authenticatedProcedure
+    .input(TrinityPresetFieldsSchema.partial().extend({
+      id: z.string(),
+      trinityConfig: TrinityConfigSchema.optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const { id, trinityConfig, ...fields } = input;
+      return updateTrinityPreset(ctx.prisma, ctx.user.userId, id, {
+        ...fields,
+        ...(trinityConfig && { config: resolveTrinityConfig(trinityConfig) }),
+      });
+    }),
+
+  deletePreset: authenticatedProcedure
+    .input(z.object({ id: z.string() }))
+    .mutation(async ({ input, ctx }) => {
+      await deleteTrinityPreset(ctx.prisma, ctx.user.userId, input.id);
+      return { success: true };
+    }),
+
+  // Copy a built-in or saved preset so it can be edited
+  duplicatePreset: authenticatedProcedure
+    .input(z.object({
+      id: z.string(),
+      name: z.string().trim().min(1).max(100).optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      return duplicateTrinityPreset(ctx.prisma, ctx.user.userId, input.id, input.name);
+    }),
+
+  // Set the user's default preset, or a thread's when threadId is given; null clears it
+  setDefaultPreset: authenticatedProcedure
+    .input(z.object({
+      presetId: z.string().nullable(),
+      threadId: z.string().optional(),
+    }))
+    .mutation(async ({ input, ctx }) => {
+      await setDefaultTrinityPreset(ctx.prisma, ctx.user.userId, input.presetId, input.threadId);
+      return { success: true };
+    }),
+
+  exportPresets: authenticatedProcedure
+    .input(z.object({ ids: z.array(z.string()).min(1).optional() }).optional())
+    .query(async ({ input, ctx }) => {
+      return exportTrinityPresets(ctx.prisma, ctx.user.userId, input?.ids);
+    }),
+
+  // Validated against the export format in the lib so errors name the bad field
+  importPresets: authenticatedProcedure
+    .input(z.object({ data: z.unknown() }))
+    .mutation(async ({ input, ctx }) => {
+      const presets = await importTrinityPresets(ctx.prisma, ctx.user.userId, input.data);
+      return { presets };
+    }),
+
   // Validate Trinity Mode configuration
   validateConfig: authenticatedProcedure
     .input(z.any())
@@ -723,41 +547,38 @@ export const trinityRouter = router({
       }
     }),
 
-  // Get available models for Trinity Mode agents
+  // Get available models for Trinity Mode agents from the model registry
   getAvailableModels: authenticatedProcedure
-    .query(async ({ ctx }) => {
-      const { validateModelForProvider } = await import('../lib/llm.js');
-      
-      return {
-        openai: ['gpt-4o', 'gpt-4o-mini', 'gpt-4-turbo', 'gpt-3.5-turbo'],
-        anthropic: ['claude-3-5-sonnet-20241022', 'claude-3-5-haiku-20241022', 'claude-3-opus-20240229'],
-        openrouter: [
-          'openai/gpt-4o',
-          'anthropic/claude-3-5-sonnet',
-          'google/gemini-pro-1.5',
-          'meta-llama/llama-3-70b-instruct',
-          'mistralai/mixtral-8x7b-instruct',
-        ],
-      };
+    .query(async () => {
+      const { modelRegistry } = await import('../lib/model-registry.js');
+      await modelRegistry.refreshStale();
+
+      return Object.fromEntries(
+        modelRegistry.providers().map(provider => [
+          provider,
+          modelRegistry.list(provider).map(model => model.id),
+        ])
+      );
     }),
 
   // Test Trinity Mode with a simple query
   test: authenticatedProcedure
     .input(z.object({
       query: z.string(),
-      executionMode: z.enum(['parallel', 'sequential', 'hybrid']).default('parallel'),
+      executionMode: z.enum(['parallel', 'sequential', 'hybrid', 'debate']).default('parallel'),
     }))
     .mutation(async ({ input, ctx }) => {
+      const { DEFAULT_TRINITY_CONFIG } = await import('../lib/trinity-mode.js');
+      const testConfig = {
+        ...DEFAULT_TRINITY_CONFIG,
+        executionMode: input.executionMode,
+      };
+      const { agents: apiKeys, orchestrator: orchestratorApiKey, embedding: embeddingApiKey } = await resolveTrinityApiKeys(ctx.user.userId, testConfig, ctx.prisma);
+
       try {
         const { TrinityExecutionManager } = await import('../lib/trinity-manager.js');
-        const { DEFAULT_TRINITY_CONFIG } = await import('../lib/trinity-mode.js');
-        
-        const trinityManager = new TrinityExecutionManager();
         
-        const testConfig = {
-          ...DEFAULT_TRINITY_CONFIG,
-          executionMode: input.executionMode,
-        };
+        const trinityManager = new TrinityExecutionManager({ orchestratorApiKey, embeddingApiKey });
 
         const messages: LLMMessage[] = [
           { role: 'user', content: input.query },
@@ -766,13 +587,16 @@ export const trinityRouter = router({
         let trinityResponse;
         switch (input.executionMode) {
           case 'parallel':
-            trinityResponse = await trinityManager.executeParallel(messages, testConfig);
+            trinityResponse = await trinityManager.executeParallel(messages, testConfig, apiKeys);
             break;
           case 'sequential':
-            trinityResponse = await trinityManager.executeSequential(messages, testConfig);
+            trinityResponse = await trinityManager.executeSequential(messages, testConfig, apiKeys);
             break;
           case 'hybrid':
-            trinityResponse = await trinityManager.executeHybrid(messages, testConfig);
+            trinityResponse = await trinityManager.executeHybrid(messages, testConfig, apiKeys);
+            break;
+          case 'debate':
+            trinityResponse = await trinityManager.executeDebate(messages, testConfig, apiKeys);
             break;
         }
 
@@ -0,0 +1,89 @@
+import { z } from 'zod';
+import { router, authenticatedProcedure } from '../trpc/init.js';
+import { getUsageSummary } from '../lib/usage-ledger.js';
+import { SpendLimitsSchema, getMonthlyUsage, getUserSpendLimits } from '../lib/spend-limits.js';
+
+// Input validation schemas
+const UsagePeriodSchema = z.enum(['day', 'month']).default('day');
+const UsageGroupBySchema = z.enum(['provider', 'model', 'thread', 'preset', 'source']).default('provider');
+
+export const usageRouter = router({
+  // Daily or monthly token and cost totals, grouped by provider, model, thread, preset or source
+  summary: authenticatedProcedure
+    .input(z.object({
+      period: UsagePeriodSchema,
+      groupBy: UsageGroupBySchema,
+      from: z.date().optional(),
+      to: z.date().optional(),
+    }))
+    .query(async ({ input, ctx }) => {
+      const { user, prisma } = ctx;
+
+      const rows = await getUsageSummary(prisma, {
+        userId: user.userId,
+        period: input.period,
+        groupBy: input.groupBy,
+        ...(input.from && { from: input.from }),
+        ...(input.to && { to: input.to }),
+      });
+
+      const totals = rows.reduce(
+        (sum, row) => ({
+          calls: sum.calls + row.calls,
+          totalTokens: sum.totalTokens + row.totalTokens,
+          costUsd: sum.costUsd + row.costUsd,
+        }),
+        { calls: 0, totalTokens: 0, costUsd: 0 }
+      );
+
+      return { rows, totals };
+    }),
+
+  // Ledger entries for a single message (agent and orchestrator calls for Trinity)
+  byMessage: authenticatedProcedure
+    .input(z.object({
+      messageId: z.string(),
+    }))
+    .query(async ({ input, ctx }) => {
+      const { user, prisma } = ctx;
+
+      const records = await prisma.usageRecord.findMany({
+        where: {
+          messageId: input.messageId,
+          userId: user.userId,
+        },
+        orderBy: { createdAt: 'asc' },
+      });
+
+      return { records };
+    }),
+
+  // The user's monthly caps alongside this month's usage per provider
+  limits: authenticatedProcedure
+    .query(async ({ ctx }) => {
+      const { user, prisma } = ctx;
+
+      const [limits, usage] = await Promise.all([
+        getUserSpendLimits(user.userId, prisma),
+        getMonthlyUsage(user.userId, prisma),
+      ]);
+
+      return { limits, usage: Object.fromEntries(usage) };
+    }),
+
+  // Replace the user's monthly spend and token caps
+  updateLimits: authenticatedProcedure
+    .input(z.object({
+      limits: SpendLimitsSchema,
+    }))
+    .mutation(async ({ input, ctx }) => {
+      const { user, prisma } = ctx;
+
+      await prisma.user.update({
+        where: { id: user.userId },
+        data: { spendLimits: input.limits },
+      });
+
+      return { limits: input.limits };
+    }),
+});
@@ -0,0 +1,206 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { TRPCError } from '@trpc/server';
+import {
+  AttachmentUploadSchema,
+  createAttachmentUpload,
+  deleteUnsentAttachments,
+  forModelCapabilities,
+  linkAttachments,
+  toAttachmentPart,
+  withAttachmentParts,
+} from '../lib/attachments.js';
+import { buildContextWindow } from '../lib/context-builder.js';
+import { generateLLMStreamResponse, type LLMConfig, type LLMContentPart } from '../lib/llm.js';
+import { fakeTable } from './fake-prisma.js';
+
+// Local stand-ins for the object store (path-style GETs) and a chat-completions endpoint
+let server: ReturnType<typeof Bun.serve>;
+const objects = new Map<string, Uint8Array>([
+  ['/trichat-attachments/user-1/a/screenshot.png', new Uint8Array([137, 80, 78, 71])],
+  ['/trichat-attachments/user-1/b/notes.md', new TextEncoder().encode('# Notes\nBuy milk')],
+]);
+const completions: any[] = [];
+const deletedObjects: string[] = [];
+
+interface AttachmentRow {
+  id: string;
+  userId: string;
+  key: string;
+  messageId: string | null;
+  filename: string;
+  mimeType: string;
+  size: number;
+  createdAt: Date;
+}
+
+const attachments: AttachmentRow[] = [
+  { id: 'att-2', userId: 'user-1', key: 'user-1/b/notes.md', messageId: 'msg-3', filename: 'notes.md', mimeType: 'text/markdown', size: 16, createdAt: new Date('2024-01-02') },
+  { id: 'att-1', userId: 'user-1', key: 'user-1/a/screenshot.png', messageId: 'msg-1', filename: 'screenshot.png', mimeType: 'image/png', size: 4, createdAt: new Date('2024-01-01') },
+];
+
+function attachmentPrisma(rows = attachments) {
+  return {
+    attachment: fakeTable<AttachmentRow>(rows.map(row => ({ ...row })), data => ({
+      id: 'att-new', userId: '', key: '', messageId: null, filename: '', mimeType: '', size: 0, createdAt: new Date(), ...data,
+    })),
+  };
+}
+
+describe('Attachments', () => {
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        const { pathname } = new URL(req.url);
+        if (pathname === '/v1/chat/completions') {
+          completions.push(await req.json());
+          const body = `data: ${JSON.stringify({ choices: [{ index: 0, delta: { content: 'A screenshot.' }, finish_reason: 'stop' }] })}\n\ndata: [DONE]\n\n`;
+          return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+        }
+
+        if (req.method === 'DELETE') {
+          deletedObjects.push(pathname);
+          return new Response(null, { status: 204 });
+        }
+
+        const object = objects.get(pathname);
+        return object ? new Response(object) : new Response('<Error><Code>NoSuchKey</Code></Error>', { status: 404, headers: { 'Content-Type': 'application/xml' } });
+      },
+    });
+    process.env['S3_ENDPOINT'] = `http://localhost:${server.port}`;
+    process.env['S3_ACCESS_KEY_ID'] = 'minio';
+    process.env['S3_SECRET_ACCESS_KEY'] = 'minio-secret';
+  });
+
+  afterAll(() => {
+    server.stop(true);
+    delete process.env['S3_ENDPOINT'];
+    delete process.env['S3_ACCESS_KEY_ID'];
+    delete process.env['S3_SECRET_ACCESS_KEY'];
+  });
+
+  it('should validate uploads by type and size', () => {
+    expect(AttachmentUploadSchema.safeParse({ filename: 'a.png', mimeType: 'image/png', size: 1024 }).success).toBe(true);
+    expect(AttachmentUploadSchema.safeParse({ filename: 'a.exe', mimeType: 'application/x-msdownload', size: 1024 }).success).toBe(false);
+    expect(AttachmentUploadSchema.safeParse({ filename: 'a.png', mimeType: 'image/png', size: 1024 * 1024 * 1024 }).success).toBe(false);
+  });
+
+  it('should presign a path-style upload under the user\'s prefix', async () => {
+    const { attachment, uploadUrl } = await createAttachmentUpload(attachmentPrisma(), 'user-1', {
+      filename: 'my photo.png',
+      mimeType: 'image/png',
+      size: 2048,
+    });
+
+    const url = new URL(uploadUrl);
+    expect(attachment).toEqual({ id: 'att-new', filename: 'my photo.png', mimeType: 'image/png', size: 2048 });
+    expect(url.pathname).toMatch(/^\/trichat-attachments\/user-1\/[\w-]+\/my_photo\.png$/);
+    expect(url.searchParams.get('X-Amz-Signature')).toBeTruthy();
+  });
+
+  it('should only link the user\'s unsent attachments', async () => {
+    const unsent = (id: string, userId: string) => ({ ...attachments[1]!, id, userId, messageId: null });
+    const prisma = attachmentPrisma([unsent('att-3', 'user-1'), unsent('someone-elses', 'user-2')]);
+    await expect(linkAttachments(prisma, 'user-1', 'msg-4', ['att-3'])).resolves.toBeUndefined();
+    expect(prisma.attachment.byId('att-3')!.messageId).toBe('msg-4');
+
+    const error = await linkAttachments(attachmentPrisma(), 'user-1', 'msg-4', ['att-1', 'someone-elses']).catch(e => e);
+    expect(error).toBeInstanceOf(TRPCError);
+    expect(error.code).toBe('BAD_REQUEST');
+  });
+
+  it('should turn attachments into parts the model can read', () => {
+    const png = new Uint8Array([137, 80, 78, 71]);
+
+    expect(toAttachmentPart({ filename: 'a.png', mimeType: 'image/png' }, png, { vision: true }))
+      .toEqual({ type: 'image', mimeType: 'image/png', data: 'iVBORw==', filename: 'a.png' });
+    expect(toAttachmentPart({ filename: 'a.png', mimeType: 'image/png' }, png, { vision: false }))
+      .toEqual({ type: 'text', text: '[Attachment a.png omitted: this model cannot read it]' });
+    expect(toAttachmentPart({ filename: 'a.csv', mimeType: 'text/csv' }, new TextEncoder().encode('a,b'), { vision: false }))
+      .toEqual({ type: 'text', text: 'Attached file a.csv:\n\na,b' });
+  });
+
+  it('should load attachment contents into the history', async () => {
+    const history = await withAttachmentParts(attachmentPrisma(), [
+      { id: 'msg-1', role: 'user', content: 'What is this?' },
+      { id: 'msg-2', role: 'assistant', content: 'A logo.' },
+      { id: 'msg-3', role: 'user', content: 'And these notes?' },
+    ], { vision: true });
+
+    expect(history[0]!.parts).toEqual([{ type: 'image', mimeType: 'image/png', data: 'iVBORw==', filename: 'screenshot.png' }]);
+    expect(history[1]!.parts).toBeUndefined();
+    expect(history[2]!.parts).toEqual([{ type: 'text', text: 'Attached file notes.md:\n\n# Notes\nBuy milk' }]);
+
+    const missing = await withAttachmentParts(
+      attachmentPrisma([{ ...attachments[1]!, key: 'user-1/gone.png' }]),
+      [{ id: 'msg-1', role: 'user', content: 'What is this?' }],
+      { vision: true }
+    );
+    expect(missing[0]!.parts).toEqual([{ type: 'text', text: '[Attachment screenshot.png omitted: unavailable]' }]);
+  });
+
+  it('should send parts in the chat-completions format', async () => {
+    const parts: LLMContentPart[] = [{ type: 'image', mimeType: 'image/png', data: 'iVBORw==', filename: 'screenshot.png' }];
+    const context = buildContextWindow({
+      targets: [{ provider: 'custom', model: 'vision-model' }],
+      history: [{ id: 'msg-1', role: 'user', content: 'What is this?', parts }],
+    });
+    const config: LLMConfig = {
+      model: 'vision-model',
+      provider: 'custom',
+      apiKey: '',
+      baseUrl: `http://localhost:${server.port}/v1`,
+      maxTokens: 64,
+      temperature: 0,
+      stream: true,
+    };
+
+    let reply = '';
+    for await (const chunk of generateLLMStreamResponse(context.messages, config)) {
+      reply = chunk.content;
+    }
+
+    expect(reply).toBe('A screenshot.');
+    expect(completions.at(-1).messages[0].content).toEqual([
+      { type: 'text', text: 'What is this?' },
+      { type: 'image_url', image_url: { url: 'data:image/png;base64,iVBORw==' } },
+    ]);
+  });
+
+  it('should send attachments as notes to fallback models without vision', () => {
+    const messages = forModelCapabilities([
+      { role: 'system', content: 'Be brief.' },
+      { role: 'user', content: [{ type: 'text', text: 'What is this?' }, { type: 'image', mimeType: 'image/png', data: 'iVBORw==', filename: 'screenshot.png' }] },
+    ], { vision: false });
+
+    expect(messages[1]!.content).toEqual([
+      { type: 'text', text: 'What is this?' },
+      { type: 'text', text: '[Attachment screenshot.png omitted: this model cannot read it]' },
+    ]);
+  });
+
+  it('should delete expired uploads never sent with a message', async () => {
+    const upload = (id: string, key: string, createdAt: string) =>
+      ({ ...attachments[1]!, id, key, messageId: null, createdAt: new Date(createdAt) });
+    const { attachment } = attachmentPrisma([
+      upload('att-old', 'user-1/c/old.png', '2024-01-01T11:00:00Z'),
+      upload('att-claimed', 'user-1/d/claimed.png', '2024-01-01T11:00:00Z'),
+      upload('att-recent', 'user-1/e/recent.png', '2024-01-02T11:00:00Z'),
+    ]);
+    const prisma = {
+      attachment: {
+        ...attachment,
+        findMany: async (args: Parameters<typeof attachment.findMany>[0]) => {
+          const found = await attachment.findMany(args);
+          // A message claims att-claimed after the lookup
+          attachment.byId('att-claimed')!.messageId = 'msg-4';
+          return found;
+        },
+      },
+    };
+
+    expect(await deleteUnsentAttachments(prisma, new Date('2024-01-02T12:00:00Z'))).toBe(1);
+    expect(attachment.rows.map(row => row.id)).toEqual(['att-claimed', 'att-recent']);
+    expect(deletedObjects).toEqual(['/trichat-attachments/user-1/c/old.png']);
+  });
+});
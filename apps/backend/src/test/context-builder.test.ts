@@ -0,0 +1,97 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  buildContextWindow,
+  estimateTokens,
+  getContextBudget,
+  getTrinityContextTargets,
+  type ContextMessage,
+} from '../lib/context-builder.js';
+import { DEFAULT_TRINITY_CONFIG } from '../lib/trinity-mode.js';
+
+// 40 alternating turns of ~400 characters (~100 OpenAI tokens each)
+function longThread(count = 40): ContextMessage[] {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `msg-${i}`,
+    role: i % 2 === 0 ? 'user' : 'assistant',
+    content: `Turn ${i}: ${'lorem ipsum '.repeat(33)}`,
+  }));
+}
+
+const target = { provider: 'openai' as const, model: 'gpt-4o-mini', maxTokens: 500 };
+
+describe('Context builder', () => {
+  it('should estimate tokens per provider', () => {
+    const text = 'a'.repeat(400);
+    expect(estimateTokens(text, 'openai')).toBe(100);
+    expect(estimateTokens(text, 'mistral')).toBeGreaterThan(estimateTokens(text, 'openai'));
+  });
+
+  it('should derive the budget from the registry and reserve output tokens', () => {
+    const budget = getContextBudget([target]);
+    expect(budget).toBeLessThan(128000 - 500);
+    expect(budget).toBeGreaterThan(100000);
+
+    // Unknown models fall back to a conservative default window
+    expect(getContextBudget([{ provider: 'custom', model: 'llama3' }])).toBeLessThanOrEqual(8192);
+  });
+
+  it('should keep everything when the thread fits', () => {
+    const history = longThread(6);
+    const result = buildContextWindow({ targets: [target], history, systemPrompt: 'Be helpful.' });
+
+    expect(result.messages).toHaveLength(7);
+    expect(result.messages[0]).toEqual({ role: 'system', content: 'Be helpful.' });
+    expect(result.includedMessageIds).toEqual(history.map(m => m.id!));
+    expect(result.droppedMessageIds).toEqual([]);
+    expect(result.summarized).toBe(false);
+  });
+
+  it('should keep the newest turns and summarize the oldest', () => {
+    const history = longThread();
+    const result = buildContextWindow({
+      targets: [target],
+      history,
+      systemPrompt: 'Memories: the user likes tea.',
+      contextWindow: 2500,
+    });
+
+    expect(result.includedMessageIds.at(-1)).toBe('msg-39');
+    expect(result.droppedMessageIds[0]).toBe('msg-0');
+    expect(result.includedMessageIds.length + result.droppedMessageIds.length).toBe(40);
+    expect(result.tokenCount).toBeLessThanOrEqual(result.budget);
+
+    // A single system message carries both the memories and the summary
+    const systemMessages = result.messages.filter(m => m.role === 'system');
+    expect(systemMessages).toHaveLength(1);
+    expect(systemMessages[0]!.content).toStartWith('Memories: the user likes tea.');
+    expect(systemMessages[0]!.content).toContain('Summary of earlier messages');
+    expect(result.summarized).toBe(true);
+  });
+
+  it('should start the kept window on a user turn', () => {
+    const result = buildContextWindow({ targets: [target], history: longThread(), contextWindow: 1800 });
+    const firstTurn = result.messages.find(m => m.role !== 'system');
+
+    expect(firstTurn?.role).toBe('user');
+  });
+
+  it('should truncate the latest turn rather than drop it', () => {
+    const history: ContextMessage[] = [{ id: 'huge', role: 'user', content: 'x'.repeat(20000) }];
+    const result = buildContextWindow({ targets: [target], history, contextWindow: 1500 });
+
+    expect(result.includedMessageIds).toEqual(['huge']);
+    expect(result.truncated).toBe(true);
+    expect(result.messages[0]!.content.length).toBeLessThan(20000);
+    expect(result.tokenCount).toBeLessThanOrEqual(result.budget);
+  });
+
+  it('should fit the smallest window across Trinity agents', () => {
+    const targets = getTrinityContextTargets(DEFAULT_TRINITY_CONFIG);
+    expect(targets.length).toBeGreaterThan(0);
+
+    const budget = getContextBudget(targets);
+    for (const agentTarget of targets) {
+      expect(budget).toBeLessThanOrEqual(getContextBudget([agentTarget]));
+    }
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import {
+  CustomEndpointService,
+  LLMServiceFactory,
+  listCustomEndpointModels,
+  type LLMConfig,
+} from '../lib/llm.js';
+import { customEndpointRejection } from '../lib/custom-endpoint-policy.js';
+
+// Local stand-in for a self-hosted OpenAI-compatible server (Ollama, vLLM, ...)
+let server: ReturnType<typeof Bun.serve>;
+let lastHeaders: Headers | null = null;
+let modelListings = 0;
+const savedEnv = {
+  hosts: process.env['CUSTOM_ENDPOINT_ALLOWED_HOSTS'],
+  allowPrivate: process.env['CUSTOM_ENDPOINT_ALLOW_PRIVATE'],
+};
+
+function config(overrides: Partial<LLMConfig> = {}): LLMConfig {
+  return {
+    model: 'llama3.1:8b',
+    provider: 'custom',
+    apiKey: '',
+    maxTokens: 128,
+    temperature: 0.7,
+    stream: false,
+    baseUrl: `http://localhost:${server.port}/v1/`,
+    ...overrides,
+  };
+}
+
+describe('CustomEndpointService', () => {
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        const url = new URL(req.url);
+        lastHeaders = req.headers;
+
+        if (url.pathname === '/v1/models') {
+          modelListings++;
+          return Response.json({
+            object: 'list',
+            data: [{ id: 'llama3.1:8b' }, { id: 'qwen/qwen2.5-coder' }],
+          });
+        }
+
+        if (url.pathname === '/broken/chat/completions') {
+          return new Response('{"error":"internal details: db at 10.0.0.5"}', { status: 500 });
+        }
+
+        if (url.pathname !== '/v1/chat/completions') {
+          return new Response('Not found', { status: 404 });
+        }
+
+        const body = await req.json();
+        // Token log probabilities only when asked for, as OpenAI does
+        const logprobs = (...values: number[]) =>
+          body.logprobs ? { logprobs: { content: values.map(logprob => ({ token: 'x', logprob })) } } : {};
+
+        if (!body.stream) {
+          return Response.json({
+            model: body.model,
+            choices: [{ index: 0, message: { role: 'assistant', content: 'Hello from local' }, finish_reason: 'stop', ...logprobs(-0.1, -0.2) }],
+          });
+        }
+
+        const events = [
+          { choices: [{ index: 0, delta: { content: 'Hel' }, finish_reason: null, ...logprobs(-0.1) }] },
+          { choices: [{ index: 0, delta: { content: 'lo' }, finish_reason: 'stop', ...logprobs(-0.3) }] },
+        ];
+        return new Response(
+          events.map(event => `data: ${JSON.stringify(event)}\n\n`).join('') + 'data: [DONE]\n\n',
+          { headers: { 'Content-Type': 'text/event-stream' } }
+        );
+      },
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+    for (const [name, value] of [
+      ['CUSTOM_ENDPOINT_ALLOWED_HOSTS', savedEnv.hosts],
+      ['CUSTOM_ENDPOINT_ALLOW_PRIVATE', savedEnv.allowPrivate],
+    ] as const) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  });
+
+  it('should be registered for the custom provider', () => {
+    expect(LLMServiceFactory.getService('custom')).toBeInstanceOf(CustomEndpointService);
+  });
+
+  it('should call the configured base URL without auth when no key is set', async () => {
+    const response = await new CustomEndpointService().generateResponse(
+      [{ role: 'user', content: 'Hi' }],
+      config()
+    );
+
+    expect(response.content).toBe('Hello from local');
+    expect(response.provider).toBe('custom');
+    expect(response.finishReason).toBe('stop');
+    expect(lastHeaders?.get('authorization')).toBeNull();
+  });
+
+  it('should send the key as a bearer token when one is set', async () => {
+    await new CustomEndpointService().generateResponse(
+      [{ role: 'user', content: 'Hi' }],
+      config({ apiKey: 'local-secret' })
+    );
+
+    expect(lastHeaders?.get('authorization')).toBe('Bearer local-secret');
+  });
+
+  it('should reject configs without a base URL', async () => {
+    const withoutBaseUrl = config();
+    delete withoutBaseUrl.baseUrl;
+
+    await expect(
+      new CustomEndpointService().generateResponse([{ role: 'user', content: 'Hi' }], withoutBaseUrl)
+    ).rejects.toThrow('Custom endpoint requires a base URL');
+  });
+
+  it('should stream deltas', async () => {
+    const chunks = [];
+    for await (const chunk of new CustomEndpointService().generateStreamResponse(
+      [{ role: 'user', content: 'Hi' }],
+      config({ stream: true })
+    )) {
+      chunks.push(chunk);
+    }
+
+    const last = chunks[chunks.length - 1];
+    expect(last?.isComplete).toBe(true);
+    expect(last?.content).toBe('Hello');
+    expect(last?.finishReason).toBe('stop');
+    expect(last?.logprobs).toBeUndefined();
+  });
+
+  it('should return token logprobs when asked for them', async () => {
+    const service = new CustomEndpointService();
+    const response = await service.generateResponse([{ role: 'user', content: 'Hi' }], config({ logprobs: true }));
+    expect(response.logprobs).toEqual([-0.1, -0.2]);
+
+    const chunks = [];
+    for await (const chunk of service.generateStreamResponse([{ role: 'user', content: 'Hi' }], config({ stream: true, logprobs: true }))) {
+      chunks.push(chunk);
+    }
+    expect(chunks[chunks.length - 1]?.logprobs).toEqual([-0.1, -0.3]);
+  });
+
+  it('should list the models the endpoint serves, once a minute per key', async () => {
+    modelListings = 0;
+    const models = await listCustomEndpointModels(`http://localhost:${server.port}/v1`);
+    await listCustomEndpointModels(`http://localhost:${server.port}/v1/`);
+    await listCustomEndpointModels(`http://localhost:${server.port}/v1`, 'other-key');
+
+    expect(models).toEqual(['llama3.1:8b', 'qwen/qwen2.5-coder']);
+    expect(modelListings).toBe(2);
+  });
+
+  it('should not pass the endpoint\'s error body on', async () => {
+    const error = await new CustomEndpointService()
+      .generateResponse([{ role: 'user', content: 'Hi' }], config({ baseUrl: `http://localhost:${server.port}/broken` }))
+      .catch(e => e);
+
+    expect(error.message).toBe('Custom endpoint error: 500 Internal Server Error');
+  });
+
+  it('should only allow private addresses the operator opted into', async () => {
+    delete process.env['CUSTOM_ENDPOINT_ALLOWED_HOSTS'];
+    delete process.env['CUSTOM_ENDPOINT_ALLOW_PRIVATE'];
+
+    expect(await customEndpointRejection('https://93.184.216.34/v1')).toBeNull();
+    expect(await customEndpointRejection('http://localhost:11434/v1')).toContain('localhost');
+    expect(await customEndpointRejection('http://[::ffff:10.0.0.5]/v1')).toContain("doesn't allow");
+    expect(await customEndpointRejection('file:///etc/passwd')).toBe('Custom endpoints must use http or https');
+
+    process.env['CUSTOM_ENDPOINT_ALLOW_PRIVATE'] = 'true';
+    expect(await customEndpointRejection('http://localhost:11434/v1')).toBeNull();
+    expect(await customEndpointRejection('http://192.168.1.20:8000/v1')).toBeNull();
+    // Metadata services stay out of reach unless listed by name
+    expect(await customEndpointRejection('http://169.254.169.254/latest')).toContain("doesn't allow");
+
+    process.env['CUSTOM_ENDPOINT_ALLOWED_HOSTS'] = 'gpu-box.internal, 169.254.169.254';
+    expect(await customEndpointRejection('http://169.254.169.254/latest')).toBeNull();
+  });
+});
@@ -0,0 +1,219 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach, mock } from 'bun:test';
+import { LocalEmbeddingProvider } from '../lib/embedding-providers.js';
+import { cosineSimilarity, parseVectorFromPg } from '../lib/embeddings.js';
+import type { EmbeddingMigrationProgress } from '../lib/embedding-migration.js';
+import { fakeTable, matchesWhere, type Where } from './fake-prisma.js';
+
+const OLD_MODEL = 'mistral:mistral-embed';
+const NEW_MODEL = 'local:test-minilm';
+
+// Old-space query embeddings come from a local stand-in for the Mistral API
+let server: ReturnType<typeof Bun.serve>;
+const savedEnv = {
+  key: process.env['MISTRAL_API_KEY'],
+  baseUrl: process.env['MISTRAL_BASE_URL'],
+  provider: process.env['EMBEDDING_PROVIDER'],
+};
+
+interface CardRow {
+  id: string;
+  userId: string;
+  content: string;
+  summary: string | null;
+  embedding: number[];
+  embeddingModel: string;
+  embeddingDimensions: number;
+}
+
+interface MigrationRow {
+  id: string;
+  userId: string;
+  targetModel: string;
+  targetDimensions: number;
+  status: string;
+  cursor: string | null;
+  total: number;
+  processed: number;
+  failed: number;
+  lastError: string | null;
+  createdAt: Date;
+}
+
+const cards = fakeTable<CardRow>([]);
+const migrations = fakeTable<MigrationRow>([], (data, count) => ({
+  id: `migration-${count}`, userId: '', targetModel: '', targetDimensions: 0, status: 'running', cursor: null, total: 0, processed: 0, failed: 0, lastError: null, createdAt: new Date(), ...data,
+}));
+const searchedModels: string[] = [];
+
+function resetCards() {
+  const card = (id: string, userId: string, content: string): CardRow =>
+    ({ id, userId, content, summary: null, embedding: [1, 0], embeddingModel: OLD_MODEL, embeddingDimensions: 2 });
+  cards.rows.splice(0, cards.rows.length,
+    ...['Takes coffee black', 'Prefers green tea', 'Walks the dog daily', 'Reads sci-fi', 'Plays chess on Sundays']
+      .map((content, index) => card(`card-${index + 1}`, 'user-1', content)),
+    // Someone else's card is never touched
+    card('card-9', 'user-2', 'Not mine'));
+}
+
+const fakePrisma = {
+  $transaction: (operations: Promise<unknown>[]) => Promise.all(operations),
+  $executeRawUnsafe: mock((sql: string, vector: string, embeddingModel: string, embeddingDimensions: number, id: string) => {
+    // Search settings
+    if (sql.startsWith('SET LOCAL')) return Promise.resolve(0);
+    Object.assign(cards.byId(id)!, { embedding: parseVectorFromPg(vector), embeddingModel, embeddingDimensions });
+    return Promise.resolve(1);
+  }),
+  $queryRawUnsafe: (sql: string, vector: string, limit: number, userId: string, embeddingModel: string) => {
+    searchedModels.push(embeddingModel);
+    const dimensions = Number(sql.match(/"embeddingDimensions" = (\d+)/)![1]);
+    const query = parseVectorFromPg(vector);
+    return Promise.resolve(
+      cards.rows
+        .filter(card => card.userId === userId && card.embeddingModel === embeddingModel && card.embeddingDimensions === dimensions)
+        .map(card => ({ ...card, similarity: String(cosineSimilarity(query, card.embedding)), createdAt: new Date(), updatedAt: new Date() }))
+        .slice(0, limit)
+    );
+  },
+  // No user keys: the server's Mistral key embeds old-space queries
+  userApiKey: fakeTable<{ id: string }>([]),
+  memoryCard: {
+    ...cards,
+    groupBy: ({ where }: { where: Where }) => {
+      const groups = new Map<string, { embeddingModel: string; embeddingDimensions: number; _count: { _all: number } }>();
+      for (const card of cards.rows.filter(card => matchesWhere(card, where))) {
+        const key = `${card.embeddingModel}/${card.embeddingDimensions}`;
+        const group = groups.get(key) ?? { embeddingModel: card.embeddingModel, embeddingDimensions: card.embeddingDimensions, _count: { _all: 0 } };
+        group._count._all++;
+        groups.set(key, group);
+      }
+      return Promise.resolve([...groups.values()]);
+    },
+  },
+  embeddingMigration: migrations,
+};
+
+mock.module('../lib/database', () => ({ prisma: fakePrisma }));
+
+const { EmbeddingMigrationRunner } = await import('../lib/embedding-migration.js');
+const { searchMemoryCards } = await import('../lib/memory-search.js');
+
+// The new model: every text lands on [1, 0, 0]; `gate` holds back one batch
+const embedded: string[][] = [];
+let gate: { call: number; started: () => void; release: Promise<void> } | null = null;
+const local = new LocalEmbeddingProvider('test-minilm', async () => async texts => {
+  embedded.push(texts);
+  if (gate && embedded.length === gate.call) {
+    gate.started();
+    await gate.release;
+  }
+  return texts.map(() => [1, 0, 0]);
+});
+
+function createRunner(progress: EmbeddingMigrationProgress[]) {
+  return new EmbeddingMigrationRunner({
+    batchSize: 2,
+    provider: async () => local,
+    notify: (_userId, update) => progress.push(update),
+  });
+}
+
+describe('Embedding migration', () => {
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        const body = await req.json();
+        return Response.json({
+          data: body.input.map((_: string, index: number) => ({ index, embedding: [1, 0] })),
+          usage: { total_tokens: 1 },
+        });
+      },
+    });
+    // The server's key, used as Mistral is the pinned provider
+    process.env['EMBEDDING_PROVIDER'] = 'mistral';
+    process.env['MISTRAL_API_KEY'] = 'mistral-key';
+    process.env['MISTRAL_BASE_URL'] = `http://localhost:${server.port}/v1`;
+  });
+
+  afterAll(() => {
+    server.stop(true);
+    for (const [name, value] of [
+      ['MISTRAL_API_KEY', savedEnv.key],
+      ['MISTRAL_BASE_URL', savedEnv.baseUrl],
+      ['EMBEDDING_PROVIDER', savedEnv.provider],
+    ] as const) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  });
+
+  beforeEach(() => {
+    resetCards();
+    migrations.rows.length = 0;
+    embedded.length = 0;
+    searchedModels.length = 0;
+    gate = null;
+  });
+
+  it('should re-embed stale cards in batches and report progress', async () => {
+    const progress: EmbeddingMigrationProgress[] = [];
+    const runner = createRunner(progress);
+
+    const started = await runner.start('user-1', fakePrisma);
+    expect(started).toMatchObject({ status: 'running', targetModel: NEW_MODEL, targetDimensions: 3, total: 5, processed: 0 });
+
+    await runner.wait(started.migrationId);
+
+    // A probe for the length, then batches of two
+    expect(embedded.map(texts => texts.length)).toEqual([1, 2, 2, 1]);
+    expect(progress.map(update => [update.status, update.processed])).toEqual([
+      ['running', 2],
+      ['running', 4],
+      ['running', 5],
+      ['completed', 5],
+    ]);
+    expect(cards.rows.filter(card => card.userId === 'user-1').every(card =>
+      card.embeddingModel === NEW_MODEL && card.embeddingDimensions === 3
+    )).toBe(true);
+    expect(cards.byId('card-9')!.embeddingModel).toBe(OLD_MODEL);
+
+    // Nothing left to move
+    expect(await runner.start('user-1', fakePrisma)).toMatchObject({ status: 'completed', total: 0 });
+  });
+
+  it('should keep search working while paused and resume after the last card handled', async () => {
+    const progress: EmbeddingMigrationProgress[] = [];
+    const runner = createRunner(progress);
+
+    // Pause while the second batch is in flight
+    let release = () => {};
+    const secondBatch = new Promise<void>(resolve => {
+      gate = { call: 3, started: resolve, release: new Promise<void>(done => { release = done; }) };
+    });
+    const { migrationId } = await runner.start('user-1', fakePrisma);
+    await secondBatch;
+    expect(await runner.pause(migrationId, 'user-1', fakePrisma)).toMatchObject({ status: 'paused' });
+    release();
+    await runner.wait(migrationId);
+
+    expect(migrations.byId(migrationId)).toMatchObject({ status: 'paused', cursor: 'card-4', processed: 4 });
+    expect(cards.byId('card-5')!.embeddingModel).toBe(OLD_MODEL);
+
+    // Cards in both spaces are found
+    const results = await searchMemoryCards('hot drinks', { userId: 'user-1', limit: 10, threshold: 0, embeddingProvider: local }, fakePrisma);
+    expect(searchedModels.sort()).toEqual([NEW_MODEL, OLD_MODEL]);
+    expect(results.map(result => result.id).sort()).toEqual(['card-1', 'card-2', 'card-3', 'card-4', 'card-5']);
+
+    embedded.length = 0;
+    expect(await runner.resume(migrationId, 'someone-else', fakePrisma)).toBeNull();
+    expect(await runner.resume(migrationId, 'user-1', fakePrisma)).toMatchObject({ status: 'running', processed: 4 });
+    await runner.wait(migrationId);
+
+    expect(embedded).toEqual([['Plays chess on Sundays']]);
+    expect(migrations.byId(migrationId)).toMatchObject({ status: 'completed', processed: 5, failed: 0 });
+    expect(progress.at(-1)).toMatchObject({ status: 'completed', processed: 5 });
+  });
+});
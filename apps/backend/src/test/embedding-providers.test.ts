@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeAll, afterAll, afterEach } from 'bun:test';
+import {
+  GoogleEmbeddingProvider,
+  LocalEmbeddingProvider,
+  OpenAICompatibleEmbeddingProvider,
+  OpenAIEmbeddingProvider,
+  embeddingModelId,
+  resolveEmbeddingProvider,
+} from '../lib/embedding-providers.js';
+import { generateEmbeddingsBatch } from '../lib/embeddings.js';
+
+const ENV_KEYS = ['OPENAI_API_KEY', 'GOOGLE_API_KEY', 'MISTRAL_API_KEY', 'EMBEDDING_PROVIDER'] as const;
+const savedEnv = Object.fromEntries(ENV_KEYS.map(name => [name, process.env[name]]));
+
+// A user with no stored keys or endpoints
+const noKeysPrisma = {
+  userApiKey: {
+    findFirst: () => Promise.resolve(null),
+  },
+};
+
+// Local stand-in for an OpenAI-compatible /embeddings endpoint
+let server: ReturnType<typeof Bun.serve>;
+let lastRequest: { body: any; authorization: string | null } | null = null;
+
+describe('Embedding providers', () => {
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        const body = await req.json();
+        lastRequest = { body, authorization: req.headers.get('authorization') };
+        // Out of order, as the spec allows
+        return Response.json({
+          data: body.input.map((text: string, index: number) => ({ index, embedding: [text.length, index] })).reverse(),
+          usage: { total_tokens: body.input.length * 3 },
+        });
+      },
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  afterEach(() => {
+    for (const name of ENV_KEYS) {
+      if (savedEnv[name] === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = savedEnv[name];
+      }
+    }
+  });
+
+  it('should embed through an OpenAI-compatible endpoint in input order', async () => {
+    const provider = new OpenAICompatibleEmbeddingProvider('custom', `http://localhost:${server.port}/v1/`, '', 'nomic-embed-text');
+
+    const result = await generateEmbeddingsBatch(['one', 'three'], provider);
+
+    expect(lastRequest).toEqual({ body: { model: 'nomic-embed-text', input: ['one', 'three'] }, authorization: null });
+    expect(result.results.map(item => item.embedding)).toEqual([[3, 0], [5, 1]]);
+    expect(result.totalTokens).toBe(6);
+    expect(result.embeddingModel).toBe('custom:nomic-embed-text');
+  });
+
+  it('should embed on the CPU with a local model', async () => {
+    const loaded: string[] = [];
+    const provider = new LocalEmbeddingProvider('Xenova/bge-small-en-v1.5', async model => {
+      loaded.push(model);
+      return async texts => texts.map(() => new Array(384).fill(0.05));
+    });
+
+    const result = await generateEmbeddingsBatch(['a', 'b', 'c'], provider);
+
+    expect(loaded).toEqual(['Xenova/bge-small-en-v1.5']);
+    expect(result.results.map(item => item.embedding.length)).toEqual([384, 384, 384]);
+    expect(result.embeddingModel).toBe('local:Xenova/bge-small-en-v1.5');
+  });
+
+  it('should fall back to the local model rather than the server\'s keys', async () => {
+    delete process.env['EMBEDDING_PROVIDER'];
+    process.env['OPENAI_API_KEY'] = 'sk-server';
+    process.env['GOOGLE_API_KEY'] = 'google-key';
+
+    // Anthropic-only users still get embeddings, without spending the server's quota
+    const local = await resolveEmbeddingProvider('user-1', noKeysPrisma);
+    expect(local).toBeInstanceOf(LocalEmbeddingProvider);
+    expect(embeddingModelId(local)).toBe('local:Xenova/all-MiniLM-L6-v2');
+  });
+
+  it('should honour a pinned provider with the server\'s key and fail without one', async () => {
+    process.env['OPENAI_API_KEY'] = 'sk-server';
+    process.env['GOOGLE_API_KEY'] = 'google-key';
+
+    process.env['EMBEDDING_PROVIDER'] = 'google';
+    const google = await resolveEmbeddingProvider('user-1', noKeysPrisma);
+    expect(google).toBeInstanceOf(GoogleEmbeddingProvider);
+    expect(embeddingModelId(google)).toBe('google:text-embedding-004');
+
+    process.env['EMBEDDING_PROVIDER'] = 'openai';
+    expect(await resolveEmbeddingProvider('user-1', noKeysPrisma)).toBeInstanceOf(OpenAIEmbeddingProvider);
+
+    process.env['EMBEDDING_PROVIDER'] = 'local';
+    expect(await resolveEmbeddingProvider('user-1', noKeysPrisma)).toBeInstanceOf(LocalEmbeddingProvider);
+
+    process.env['EMBEDDING_PROVIDER'] = 'mistral';
+    delete process.env['MISTRAL_API_KEY'];
+    await expect(resolveEmbeddingProvider('user-1', noKeysPrisma))
+      .rejects.toThrow('No API key or endpoint for embedding provider mistral');
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, beforeEach, mock } from 'bun:test';
+import { LocalEmbeddingProvider } from '../lib/embedding-providers.js';
+import { parseVectorFromPg } from '../lib/embeddings.js';
+import type { EmbeddingStatus } from '../lib/embedding-queue.js';
+import { fakeTable } from './fake-prisma.js';
+
+interface CardRow {
+  id: string;
+  content: string;
+  summary: string | null;
+  embedding: number[] | null;
+  embeddingModel?: string;
+  embeddingDimensions?: number;
+  embeddingStatus: EmbeddingStatus | null;
+}
+
+interface JobRow {
+  id: string;
+  memoryCardId: string;
+  userId: string;
+  attempts: number;
+  runAt: Date;
+  lockedAt: Date | null;
+  failedAt: Date | null;
+  lastError: string | null;
+}
+
+const cards = fakeTable<CardRow>([], (data, count) => ({
+  id: `card-${count}`, content: '', summary: null, embedding: null, embeddingStatus: null, ...data,
+}));
+const jobs = fakeTable<JobRow>([], (data, count) => ({
+  id: `job-${count}`, memoryCardId: '', userId: '', attempts: 0, runAt: new Date(), lockedAt: null, failedAt: null, lastError: null, ...data,
+}));
+
+const fakePrisma = {
+  $executeRawUnsafe: mock((_sql: string, vector: string, embeddingModel: string, embeddingDimensions: number, id: string) => {
+    Object.assign(cards.byId(id)!, { embedding: parseVectorFromPg(vector), embeddingModel, embeddingDimensions, embeddingStatus: 'ready' });
+    return Promise.resolve(1);
+  }),
+  memoryCard: cards,
+  embeddingJob: jobs,
+};
+
+mock.module('../lib/database', () => ({ prisma: fakePrisma }));
+
+const { EmbeddingQueue } = await import('../lib/embedding-queue.js');
+const { createMemoryFromConversation } = await import('../lib/memory-integration.js');
+
+// `during` runs while a text is being embedded
+let during: (() => Promise<void>) | null = null;
+const local = new LocalEmbeddingProvider('test-minilm', async () => async texts => {
+  await during?.();
+  return texts.map(() => [0.6, 0.8]);
+});
+const down = new LocalEmbeddingProvider('test-minilm', async () => {
+  throw new Error('Provider down');
+});
+
+function createQueue(provider: LocalEmbeddingProvider, notified: Array<[string, EmbeddingStatus]>) {
+  return new EmbeddingQueue({
+    maxAttempts: 2,
+    backoffMs: 60_000,
+    provider: async () => provider,
+    notify: (_userId, memoryCardId, status) => notified.push([memoryCardId, status]),
+  });
+}
+
+const analysis = { memoryTitle: 'Coffee', memoryContent: 'Takes coffee black', confidence: 0.9 };
+
+describe('Embedding queue', () => {
+  beforeEach(() => {
+    cards.rows.length = 0;
+    jobs.rows.length = 0;
+    during = null;
+  });
+
+  it('should store the embedding of an auto-created memory', async () => {
+    const notified: Array<[string, EmbeddingStatus]> = [];
+    const queue = createQueue(local, notified);
+
+    const memoryCardId = await createMemoryFromConversation('user-1', analysis, 'thread-1');
+    expect(cards.byId(memoryCardId!)!.embeddingStatus).toBe('pending');
+    expect(jobs.rows.map(job => job.memoryCardId)).toEqual([memoryCardId!]);
+
+    expect(await queue.drain(fakePrisma)).toBe(1);
+
+    expect(cards.byId(memoryCardId!)).toMatchObject({
+      embedding: [0.6, 0.8],
+      embeddingModel: 'local:test-minilm',
+      embeddingStatus: 'ready',
+    });
+    expect(jobs.rows.length).toBe(0);
+    expect(notified).toEqual([[memoryCardId!, 'ready']]);
+  });
+
+  it('should back off between attempts and mark the card failed after the last one', async () => {
+    const notified: Array<[string, EmbeddingStatus]> = [];
+    const queue = createQueue(down, notified);
+    const memoryCardId = (await createMemoryFromConversation('user-1', analysis, 'thread-1'))!;
+    const job = jobs.rows[0]!;
+
+    const before = Date.now();
+    expect(await queue.drain(fakePrisma)).toBe(1);
+    expect(job).toMatchObject({ attempts: 1, lockedAt: null, failedAt: null });
+    expect(job.lastError).toContain('Provider down');
+    expect(job.runAt.getTime()).toBeGreaterThanOrEqual(before + 60_000);
+    expect(cards.byId(memoryCardId)!.embeddingStatus).toBe('pending');
+
+    // Not due yet
+    expect(await queue.drain(fakePrisma)).toBe(0);
+
+    job.runAt = new Date(Date.now() - 1);
+    expect(await queue.drain(fakePrisma)).toBe(1);
+    expect(job.attempts).toBe(2);
+    expect(job.failedAt).toBeInstanceOf(Date);
+    expect(cards.byId(memoryCardId)!.embeddingStatus).toBe('failed');
+    expect(notified).toEqual([[memoryCardId, 'failed']]);
+
+    // The next edit starts over
+    await queue.enqueue(memoryCardId, 'user-1', fakePrisma);
+    expect(job).toMatchObject({ attempts: 0, failedAt: null, lastError: null });
+    expect(cards.byId(memoryCardId)!.embeddingStatus).toBe('pending');
+  });
+
+  it('should keep a card edited mid-embedding queued for another run', async () => {
+    const notified: Array<[string, EmbeddingStatus]> = [];
+    const queue = createQueue(local, notified);
+    const memoryCardId = (await createMemoryFromConversation('user-1', analysis, 'thread-1'))!;
+
+    during = async () => {
+      during = null;
+      cards.byId(memoryCardId)!.content = 'Switched to tea';
+      await queue.enqueue(memoryCardId, 'user-1', fakePrisma);
+    };
+
+    // Both runs happen in one drain: the edit's job is due right away
+    expect(await queue.drain(fakePrisma)).toBe(2);
+    expect(jobs.rows.length).toBe(0);
+    expect(cards.byId(memoryCardId)!.embeddingStatus).toBe('ready');
+    expect(notified).toEqual([[memoryCardId, 'ready']]);
+  });
+});
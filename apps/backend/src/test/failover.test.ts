@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { TRPCError } from '@trpc/server';
+import {
+  generateLLMStreamWithFailover,
+  FallbackChainSchema,
+  type FailoverEvent,
+  type FailoverTarget,
+  type LLMConfig,
+} from '../lib/llm.js';
+
+// Local OpenAI-compatible server whose behaviour depends on the requested model
+let server: ReturnType<typeof Bun.serve>;
+const requestedModels: string[] = [];
+const requestBodies: any[] = [];
+
+function resolveConfig(target: FailoverTarget): Promise<LLMConfig> {
+  return Promise.resolve({
+    model: target.model,
+    provider: target.provider,
+    apiKey: '',
+    baseUrl: `http://localhost:${server.port}/v1`,
+    maxTokens: 64,
+    temperature: 0.7,
+    stream: true,
+  });
+}
+
+async function collect(targets: FailoverTarget[], events: FailoverEvent[] = []) {
+  const chunks = [];
+  for await (const chunk of generateLLMStreamWithFailover(
+    [{ role: 'user', content: 'Hi' }],
+    targets,
+    resolveConfig,
+    event => events.push(event)
+  )) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+describe('Provider failover', () => {
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        const body = await req.json();
+        requestedModels.push(body.model);
+        requestBodies.push(body);
+
+        if (body.model === 'rate-limited') {
+          return new Response('{"error":"Too many requests"}', { status: 429 });
+        }
+        if (body.model === 'overloaded') {
+          return new Response('{"error":"Overloaded"}', { status: 503 });
+        }
+
+        const encoder = new TextEncoder();
+        const event = (content: string) =>
+          encoder.encode(`data: ${JSON.stringify({ choices: [{ index: 0, delta: { content } }] })}\n\n`);
+
+        return new Response(
+          new ReadableStream({
+            async start(controller) {
+              controller.enqueue(event('Hello'));
+              if (body.model === 'drops-mid-stream') {
+                // Let the first event reach the client before the connection drops
+                await Bun.sleep(20);
+                controller.error(new Error('Connection reset'));
+                return;
+              }
+              controller.enqueue(encoder.encode('data: [DONE]\n\n'));
+              controller.close();
+            },
+          }),
+          { headers: { 'Content-Type': 'text/event-stream' } }
+        );
+      },
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  it('should stream from the primary when it succeeds', async () => {
+    const events: FailoverEvent[] = [];
+    const chunks = await collect([{ provider: 'custom', model: 'healthy' }], events);
+
+    expect(chunks.at(-1)?.content).toBe('Hello');
+    expect(chunks.at(-1)?.model).toBe('healthy');
+    expect(events).toHaveLength(0);
+  });
+
+  it('should fall back in order until a provider answers', async () => {
+    requestedModels.length = 0;
+    const events: FailoverEvent[] = [];
+    const chunks = await collect([
+      { provider: 'custom', model: 'rate-limited' },
+      { provider: 'custom', model: 'overloaded' },
+      { provider: 'custom', model: 'healthy' },
+    ], events);
+
+    expect(requestedModels).toEqual(['rate-limited', 'overloaded', 'healthy']);
+    expect(chunks.every(chunk => chunk.model === 'healthy')).toBe(true);
+    expect(events.map(e => [e.from.model, e.to.model])).toEqual([
+      ['rate-limited', 'overloaded'],
+      ['overloaded', 'healthy'],
+    ]);
+    expect(events[0]?.error).toContain('429');
+  });
+
+  it('should report every failure when the whole chain fails', async () => {
+    await expect(collect([
+      { provider: 'custom', model: 'rate-limited' },
+      { provider: 'custom', model: 'overloaded' },
+    ])).rejects.toThrow(/All providers failed: custom\/rate-limited: .*429.*custom\/overloaded: .*503/);
+  });
+
+  it('should rethrow the original error for a single target', async () => {
+    await expect(collect([{ provider: 'custom', model: 'overloaded' }])).rejects.toThrow('Custom endpoint error: 503');
+  });
+
+  it('should keep the spend limit error when every target is over its cap', async () => {
+    const overCap = (target: FailoverTarget) => new TRPCError({
+      code: 'PAYMENT_REQUIRED',
+      message: `Monthly ${target.provider} limit reached`,
+    });
+    const stream = generateLLMStreamWithFailover(
+      [{ role: 'user', content: 'Hi' }],
+      [{ provider: 'openai', model: 'gpt-4o' }, { provider: 'anthropic', model: 'claude-3-5-haiku-20241022' }],
+      async target => { throw overCap(target); }
+    );
+
+    const error = await stream.next().catch(e => e);
+    expect(error).toBeInstanceOf(TRPCError);
+    expect(error.code).toBe('PAYMENT_REQUIRED');
+    expect(error.message).toBe('Monthly openai limit reached');
+  });
+
+  it('should not fail over once tokens have streamed', async () => {
+    requestedModels.length = 0;
+
+    await expect(collect([
+      { provider: 'custom', model: 'drops-mid-stream' },
+      { provider: 'custom', model: 'healthy' },
+    ])).rejects.toThrow();
+    expect(requestedModels).toEqual(['drops-mid-stream']);
+  });
+
+  it('should not fail over a stopped generation', async () => {
+    requestedModels.length = 0;
+    const controller = new AbortController();
+    controller.abort();
+    const stream = generateLLMStreamWithFailover(
+      [{ role: 'user', content: 'Hi' }],
+      [{ provider: 'custom', model: 'healthy' }, { provider: 'custom', model: 'overloaded' }],
+      async target => ({ ...(await resolveConfig(target)), signal: controller.signal })
+    );
+
+    await expect(stream.next()).rejects.toThrow();
+    expect(requestedModels).toEqual([]);
+  });
+
+  it('should build the messages for each target it tries', async () => {
+    requestBodies.length = 0;
+    const stream = generateLLMStreamWithFailover(
+      target => [{ role: 'user', content: `Hi ${target.model}` }],
+      [{ provider: 'custom', model: 'overloaded' }, { provider: 'custom', model: 'healthy' }],
+      resolveConfig
+    );
+    const chunks = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.at(-1)?.model).toBe('healthy');
+    expect(requestBodies.map(body => body.messages[0].content)).toEqual(['Hi overloaded', 'Hi healthy']);
+  });
+
+  it('should validate fallback chains', () => {
+    expect(FallbackChainSchema.safeParse([{ provider: 'anthropic', model: 'claude-3-5-sonnet-20241022' }]).success).toBe(true);
+    expect(FallbackChainSchema.safeParse([{ provider: 'unknown', model: 'x' }]).success).toBe(false);
+  });
+});
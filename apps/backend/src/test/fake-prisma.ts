@@ -0,0 +1,144 @@
+// In-memory stand-ins for Prisma tables, so library code can be tested without a
+// database. They cover the parts of the query API the code under test uses.
+
+export type Where = Record<string, unknown>;
+
+type SortOrder = 'asc' | 'desc';
+
+interface FindArgs {
+  where?: Where;
+  orderBy?: Record<string, SortOrder>;
+  take?: number;
+  select?: Record<string, boolean>;
+}
+
+export interface FakeTable<Row extends { id: string }> {
+  rows: Row[];
+  byId(id: string): Row | undefined;
+  findMany(args?: FindArgs): Promise<Row[]>;
+  findFirst(args?: FindArgs): Promise<Row | null>;
+  findUnique(args: FindArgs & { where: Where }): Promise<Row | null>;
+  count(args?: { where?: Where }): Promise<number>;
+  create(args: { data: Partial<Row>; select?: Record<string, boolean> }): Promise<Row>;
+  createMany(args: { data: Partial<Row>[] }): Promise<{ count: number }>;
+  update(args: { where: Where; data: Record<string, unknown>; select?: Record<string, boolean> }): Promise<Row>;
+  updateMany(args: { where: Where; data: Record<string, unknown> }): Promise<{ count: number }>;
+  upsert(args: { where: Where; create: Partial<Row>; update: Record<string, unknown> }): Promise<Row>;
+  delete(args: { where: Where }): Promise<Row>;
+  deleteMany(args: { where: Where }): Promise<{ count: number }>;
+}
+
+function isDate(value: unknown): value is Date {
+  return value instanceof Date;
+}
+
+function same(a: unknown, b: unknown): boolean {
+  return isDate(a) && isDate(b) ? a.getTime() === b.getTime() : a === b;
+}
+
+function compare(a: unknown, b: unknown): number {
+  const [x, y] = [isDate(a) ? a.getTime() : a, isDate(b) ? b.getTime() : b] as [number | string, number | string];
+  return x < y ? -1 : x > y ? 1 : 0;
+}
+
+function matchesFilter(value: unknown, operator: string, operand: unknown): boolean {
+  const present = value !== null && value !== undefined;
+  switch (operator) {
+    // Like SQL, a comparison with a null column is false
+    case 'not': return operand === null ? present : present && !same(value, operand);
+    case 'in': return (operand as unknown[]).some(candidate => same(value, candidate));
+    case 'gt': return present && compare(value, operand) > 0;
+    case 'gte': return present && compare(value, operand) >= 0;
+    case 'lt': return present && compare(value, operand) < 0;
+    case 'lte': return present && compare(value, operand) <= 0;
+    case 'startsWith': return typeof value === 'string' && value.startsWith(String(operand));
+    default: throw new Error(`Fake Prisma has no ${operator} filter`);
+  }
+}
+
+/**
+ * Whether a row passes a Prisma `where` clause: equality, OR, and the
+ * not/in/gt/gte/lt/lte/startsWith filters
+ */
+export function matchesWhere(row: object, where: Where): boolean {
+  const record = row as Record<string, unknown>;
+  return Object.entries(where).every(([field, condition]) => {
+    if (field === 'OR') return (condition as Where[]).some(clause => matchesWhere(row, clause));
+    const value = record[field];
+    if (condition === null || typeof condition !== 'object' || isDate(condition)) return same(value, condition);
+    return Object.entries(condition).every(([operator, operand]) => matchesFilter(value, operator, operand));
+  });
+}
+
+function applyData<Row extends object>(row: Row, data: Record<string, unknown>): Row {
+  const record = row as Record<string, unknown>;
+  for (const [field, value] of Object.entries(data)) {
+    record[field] = value !== null && typeof value === 'object' && 'increment' in value
+      ? (record[field] as number) + (value.increment as number)
+      : value;
+  }
+  return row;
+}
+
+// A copy of the row, narrowed to the selected fields if there are any
+function output<Row extends object>(row: Row, select?: Record<string, boolean>): Row {
+  if (!select) return { ...row };
+  return Object.fromEntries(Object.entries(row).filter(([field]) => select[field])) as Row;
+}
+
+/**
+ * A table over `rows`, which tests can inspect and change directly. `newRow`
+ * fills in what the database would for a created row, its id above all;
+ * `count` is the row's position in the table, from 1.
+ */
+export function fakeTable<Row extends { id: string }>(
+  rows: Row[],
+  newRow: (data: Partial<Row>, count: number) => Row = (data, count) => ({ id: `row-${count}`, ...data }) as Row
+): FakeTable<Row> {
+  const matching = (where: Where = {}) => rows.filter(row => matchesWhere(row, where));
+  const find = ({ where, orderBy = {}, take, select }: FindArgs = {}) => {
+    const found = matching(where);
+    for (const [field, order] of Object.entries(orderBy).reverse()) {
+      const sign = order === 'asc' ? 1 : -1;
+      found.sort((a, b) => sign * compare((a as Record<string, unknown>)[field], (b as Record<string, unknown>)[field]));
+    }
+    return found.slice(0, take).map(row => output(row, select));
+  };
+  const insert = (data: Partial<Row>) => {
+    const row = newRow(data, rows.length + 1);
+    rows.push(row);
+    return row;
+  };
+  const only = (where: Where) => {
+    const row = matching(where)[0];
+    if (!row) throw new Error('Record not found');
+    return row;
+  };
+  const remove = (removed: Row[]) => {
+    for (const row of removed) rows.splice(rows.indexOf(row), 1);
+    return { count: removed.length };
+  };
+
+  return {
+    rows,
+    byId: id => rows.find(row => row.id === id),
+    findMany: async args => find(args),
+    findFirst: async args => find({ ...args, take: 1 })[0] ?? null,
+    findUnique: async args => find({ ...args, take: 1 })[0] ?? null,
+    count: async ({ where } = {}) => matching(where).length,
+    create: async ({ data, select }) => output(insert(data), select),
+    createMany: async ({ data }) => ({ count: data.map(insert).length }),
+    update: async ({ where, data, select }) => output(applyData(only(where), data), select),
+    updateMany: async ({ where, data }) => ({ count: matching(where).map(row => applyData(row, data)).length }),
+    upsert: async ({ where, create, update }) => {
+      const existing = matching(where)[0];
+      return output(existing ? applyData(existing, update) : insert(create));
+    },
+    delete: async ({ where }) => {
+      const row = only(where);
+      remove([row]);
+      return output(row);
+    },
+    deleteMany: async ({ where }) => remove(matching(where)),
+  };
+}
@@ -0,0 +1,111 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { GenerationRegistry, GenerationStoppedError } from '../lib/generations.js';
+import { generateLLMResponse, generateLLMStreamWithFailover, type FailoverEvent, type LLMConfig } from '../lib/llm.js';
+
+// Local OpenAI-compatible server that holds every request open until the client drops it
+let server: ReturnType<typeof Bun.serve>;
+const received: string[] = [];
+const dropped: string[] = [];
+let onRequest: () => void = () => undefined;
+
+function providerConfig(model: string, signal: AbortSignal): LLMConfig {
+  return {
+    model,
+    provider: 'custom',
+    apiKey: '',
+    baseUrl: `http://localhost:${server.port}/v1`,
+    maxTokens: 64,
+    temperature: 0.7,
+    stream: false,
+    signal,
+  };
+}
+
+describe('Generation registry', () => {
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        const { model } = await req.json();
+        received.push(model);
+        onRequest();
+        await new Promise(resolve => req.signal.addEventListener('abort', resolve, { once: true }));
+        dropped.push(model);
+        return new Response('{"error":"Client closed request"}', { status: 499 });
+      },
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  it('should abort a generation its owner stops', () => {
+    const registry = new GenerationRegistry();
+    const signal = registry.start('message-1', 'user-1');
+
+    expect(registry.cancel('message-1', 'user-2')).toBe(false);
+    expect(signal.aborted).toBe(false);
+
+    expect(registry.cancel('message-1', 'user-1')).toBe(true);
+    expect(signal.aborted).toBe(true);
+    expect(signal.reason).toBeInstanceOf(GenerationStoppedError);
+    expect(registry.isRunning('message-1')).toBe(false);
+  });
+
+  it('should not stop a generation that already finished', () => {
+    const registry = new GenerationRegistry();
+    const signal = registry.start('message-1', 'user-1');
+    registry.finish('message-1');
+
+    expect(registry.cancel('message-1', 'user-1')).toBe(false);
+    expect(signal.aborted).toBe(false);
+  });
+
+  it('should stop when the linked request is aborted', () => {
+    const registry = new GenerationRegistry();
+    const request = new AbortController();
+    const signal = registry.start('message-1', 'user-1', request.signal);
+
+    request.abort();
+    expect(signal.aborted).toBe(true);
+
+    const alreadyAborted = registry.start('message-2', 'user-1', request.signal);
+    expect(alreadyAborted.aborted).toBe(true);
+  });
+
+  it('should abort the provider request when the generation is stopped', async () => {
+    received.length = 0;
+    dropped.length = 0;
+    const registry = new GenerationRegistry();
+    const signal = registry.start('message-1', 'user-1');
+    onRequest = () => registry.cancel('message-1', 'user-1');
+
+    await expect(generateLLMResponse([{ role: 'user', content: 'Hi' }], providerConfig('slow', signal)))
+      .rejects.toThrow();
+
+    // The provider sees the connection close instead of writing out the reply
+    await Bun.sleep(20);
+    expect(received).toEqual(['slow']);
+    expect(dropped).toEqual(['slow']);
+  });
+
+  it('should not fail over once the generation is stopped', async () => {
+    received.length = 0;
+    const registry = new GenerationRegistry();
+    const signal = registry.start('message-1', 'user-1');
+    onRequest = () => registry.cancel('message-1', 'user-1');
+    const events: FailoverEvent[] = [];
+
+    const stream = generateLLMStreamWithFailover(
+      [{ role: 'user', content: 'Hi' }],
+      [{ provider: 'custom', model: 'primary' }, { provider: 'custom', model: 'fallback' }],
+      async target => ({ ...providerConfig(target.model, signal), stream: true }),
+      event => events.push(event)
+    );
+
+    await expect(stream.next()).rejects.toThrow();
+    expect(received).toEqual(['primary']);
+    expect(events).toEqual([]);
+  });
+});
@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach, mock } from 'bun:test';
+import { LocalEmbeddingProvider } from '../lib/embedding-providers.js';
+import { cosineSimilarity, parseVectorFromPg } from '../lib/embeddings.js';
+import { LLMServiceFactory, type LLMResponse, type LLMService } from '../lib/llm.js';
+import { LLMReranker, parseRerankScores, type MemoryReranker } from '../lib/memory-rerank.js';
+
+// Stand-in embedding: one axis per topic word
+const TOPICS = ['coffee', 'tea', 'release', 'dog'];
+const embed = (text: string) => TOPICS.map(topic => (text.toLowerCase().includes(topic) ? 1 : 0.01));
+
+const cards = [
+  { id: 'card-1', title: 'TRI-1234', content: 'The release is blocked by TRI-1234', topic: 'release' },
+  { id: 'card-2', title: 'Shipping', content: 'Next release ships on Friday', topic: 'release' },
+  { id: 'card-3', title: 'Drinks', content: 'Takes coffee black', topic: 'coffee' },
+  { id: 'card-4', title: 'Pets', content: 'Walks the dog daily', topic: 'dog' },
+].map(card => ({ ...card, userId: 'user-1', summary: null, embedding: embed(card.topic), createdAt: new Date(), updatedAt: new Date() }));
+
+let keywordSearch: 'ok' | 'down' = 'ok';
+const keywordQueries: any[][] = [];
+
+const fakePrisma = {
+  $transaction: (operations: Promise<unknown>[]) => Promise.all(operations),
+  $executeRawUnsafe: () => Promise.resolve(0),
+  $queryRawUnsafe: (sql: string, ...params: any[]) => {
+    if (sql.includes('websearch_to_tsquery')) {
+      keywordQueries.push(params);
+      if (keywordSearch === 'down') return Promise.reject(new Error('column "searchVector" does not exist'));
+      const [query, limit] = params;
+      const terms = String(query).toLowerCase().split(/[^\w-]+/).filter(Boolean);
+      return Promise.resolve(cards
+        .filter(card => terms.some(term => card.content.toLowerCase().includes(term)))
+        .map(card => ({
+          ...card,
+          rank: String(terms.filter(term => card.title.toLowerCase().includes(term)).length + 0.1),
+          snippet: card.content.replace(new RegExp(terms.join('|'), 'gi'), word => `«${word}»`),
+        }))
+        .sort((a, b) => parseFloat(b.rank) - parseFloat(a.rank))
+        .slice(0, limit));
+    }
+    const [vector, limit] = params;
+    const query = parseVectorFromPg(vector);
+    const threshold = params.at(-1);
+    return Promise.resolve(cards
+      .map(card => ({ ...card, similarity: String(cosineSimilarity(query, card.embedding)) }))
+      .filter(card => parseFloat(card.similarity) >= threshold)
+      .sort((a, b) => parseFloat(b.similarity) - parseFloat(a.similarity))
+      .slice(0, limit));
+  },
+  memoryCard: {
+    groupBy: () => Promise.resolve([]),
+  },
+};
+
+mock.module('../lib/database', () => ({ prisma: fakePrisma }));
+
+const { hybridSearchMemoryCards } = await import('../lib/memory-search.js');
+const { retrieveContextualMemories } = await import('../lib/memory-integration.js');
+
+const local = new LocalEmbeddingProvider('test-minilm', async () => async texts => texts.map(embed));
+const down = new LocalEmbeddingProvider('test-minilm', async () => {
+  throw new Error('Provider down');
+});
+
+describe('Hybrid memory search', () => {
+  beforeEach(() => {
+    keywordSearch = 'ok';
+    keywordQueries.length = 0;
+  });
+
+  it('should fuse keyword and semantic matches and say why each card matched', async () => {
+    const results = await hybridSearchMemoryCards('TRI-1234 release', {
+      userId: 'user-1',
+      limit: 3,
+      threshold: 0.5,
+      embeddingProvider: local,
+    }, fakePrisma);
+
+    // card-1 and card-2 are in both lists; nothing else is in either
+    expect(results.map(result => result.id)).toEqual(['card-1', 'card-2']);
+    expect(keywordQueries[0]).toEqual(['TRI-1234 release', 20, 'user-1']);
+
+    const [first] = results;
+    expect(first!.match.keyword).toMatchObject({ rank: 1 });
+    expect(first!.match.semantic?.rank).toBeGreaterThan(0);
+    expect(first!.match.fusedScore).toBeCloseTo(1 / 61 + 1 / (60 + first!.match.semantic!.rank));
+    expect(first!.relevance).toBe('high');
+    expect(first!.explanation).toStartWith('Keyword match (#1): The «release» is blocked by «TRI-1234»; Semantic match (#');
+    expect(first!.explanation).toContain('100% similar)');
+  });
+
+  it('should keep keyword-only matches, with no similarity, when no embedding can be made', async () => {
+    const results = await hybridSearchMemoryCards('coffee', {
+      userId: 'user-1',
+      embeddingProvider: down,
+    }, fakePrisma);
+
+    expect(results).toHaveLength(1);
+    expect(results[0]).toMatchObject({ id: 'card-3', similarity: 0, relevance: 'medium' });
+    expect(results[0]!.match.semantic).toBeUndefined();
+    expect(results[0]!.explanation).toBe('Keyword match (#1): Takes «coffee» black');
+  });
+
+  it('should fall back to semantic matches when keyword search fails', async () => {
+    keywordSearch = 'down';
+    const results = await hybridSearchMemoryCards('my dog', {
+      userId: 'user-1',
+      limit: 1,
+      embeddingProvider: local,
+    }, fakePrisma);
+
+    expect(results.map(result => result.id)).toEqual(['card-4']);
+    expect(results[0]!.explanation).toBe('Semantic match (#1, 100% similar)');
+
+    await expect(hybridSearchMemoryCards('my dog', { userId: 'user-1', embeddingProvider: down }, fakePrisma))
+      .rejects.toThrow('Provider down');
+  });
+
+  it('should reorder by the reranker and keep the fused order if it fails', async () => {
+    const reranked: string[][] = [];
+    const preferShipping: MemoryReranker = {
+      name: 'fake',
+      rerank: async (_query, candidates) => {
+        reranked.push(candidates.map(candidate => candidate.id));
+        return candidates.map(candidate => (candidate.id === 'card-2' ? 0.9 : 0.2));
+      },
+    };
+    const options = { userId: 'user-1', threshold: 0.5, embeddingProvider: local };
+
+    const results = await hybridSearchMemoryCards('TRI-1234 release', { ...options, reranker: preferShipping }, fakePrisma);
+    expect(reranked).toEqual([['card-1', 'card-2']]);
+    expect(results.map(result => [result.id, result.score, result.relevance])).toEqual([
+      ['card-2', 0.9, 'high'],
+      ['card-1', 0.2, 'low'],
+    ]);
+    expect(results[0]!.explanation).toEndWith('; Reranked (90% relevant)');
+
+    const broken: MemoryReranker = { name: 'broken', rerank: () => Promise.reject(new Error('Rate limited')) };
+    const fallback = await hybridSearchMemoryCards('TRI-1234 release', { ...options, reranker: broken }, fakePrisma);
+    expect(fallback.map(result => result.id)).toEqual(['card-1', 'card-2']);
+    expect(fallback[0]!.match.rerank).toBeUndefined();
+  });
+
+  it('should give chat context the cards only a keyword finds', async () => {
+    const { memories, contextPrompt } = await retrieveContextualMemories({
+      userId: 'user-1',
+      query: 'What blocks TRI-1234?',
+      embeddingProvider: local,
+    });
+
+    expect(memories.map(memory => memory.id)).toEqual(['card-1']);
+    expect(memories[0]!.explanation).toBe('Keyword match (#1): The release is blocked by «TRI-1234»');
+    expect(contextPrompt).toContain('Memory 1: TRI-1234');
+    expect(contextPrompt).toContain('Relevance: medium (keyword match)');
+  });
+
+  it('should meter the LLM reranker\'s calls, including ones it cannot read', async () => {
+    const replies = ['{"scores": [{"memory": 1, "score": 4}, {"memory": 2, "score": 9}]}', 'No idea'];
+    const service = {
+      generateResponse: async (): Promise<LLMResponse> => ({
+        content: replies.shift()!,
+        model: 'gemini-1.5-flash',
+        provider: 'google',
+        usage: { promptTokens: 120, completionTokens: 20, totalTokens: 140 },
+      }),
+    } as unknown as LLMService;
+    const reranker = new LLMReranker({ model: 'gemini-1.5-flash', provider: 'google', apiKey: 'test-key' });
+
+    expect(reranker.plannedCall(10)).toMatchObject({ provider: 'google', model: 'gemini-1.5-flash', maxTokens: 200 });
+    await LLMServiceFactory.runWith(service, async () => {
+      expect(await reranker.rerank('release', cards.slice(0, 2))).toEqual([0.4, 0.9]);
+      await expect(reranker.rerank('release', cards.slice(0, 2))).rejects.toThrow('did not score every memory');
+    });
+
+    expect(reranker.usageEntries('user-1')).toEqual([1, 2].map(() => ({
+      userId: 'user-1',
+      source: 'memory_rerank',
+      provider: 'google',
+      model: 'gemini-1.5-flash',
+      promptTokens: 120,
+      completionTokens: 20,
+      estimated: false,
+    })));
+  });
+
+  it('should read rerank scores only when every candidate got one', () => {
+    expect(parseRerankScores('```json\n{"scores": [{"memory": 2, "score": 3}, {"memory": 1, "score": 10}]}\n```', 2))
+      .toEqual([1, 0.3]);
+    expect(parseRerankScores('{"scores": [{"memory": 1, "score": 10}]}', 2)).toBeNull();
+    expect(parseRerankScores('{"scores": [{"memory": 1, "score": 11}]}', 1)).toBeNull();
+    expect(parseRerankScores('No idea', 1)).toBeNull();
+  });
+});
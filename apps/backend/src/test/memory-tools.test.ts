@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeAll, afterAll, mock } from 'bun:test';
+import { ToolRegistry, type ToolContext } from '../lib/tools.js';
+
+// Embeddings come from a local OpenAI-compatible server
+let server: ReturnType<typeof Bun.serve>;
+const embedded: string[] = [];
+
+// One store backs both the shared client used by vector-search and the context client
+const links: any[] = [];
+const cards = new Map<string, any>([
+  ['card-1', { id: 'card-1', userId: 'user-1', title: 'Coffee', content: 'Takes coffee black', summary: null }],
+  ['card-2', { id: 'card-2', userId: 'user-2', title: 'Tea', content: 'Prefers green tea', summary: null }],
+]);
+
+const fakePrisma = {
+  $transaction: (operations: Promise<unknown>[]) => Promise.all(operations),
+  $queryRawUnsafe: mock((_sql: string, _vector: string, _limit: number, userId: string) => Promise.resolve(
+    [...cards.values()]
+      .filter(card => card.userId === userId)
+      .map(card => ({ ...card, similarity: '0.82', createdAt: new Date(), updatedAt: new Date() }))
+  )),
+  $executeRawUnsafe: mock(() => Promise.resolve(1)),
+  userApiKey: {
+    findFirst: () => Promise.resolve(null),
+  },
+  memoryCard: {
+    groupBy: () => Promise.resolve([]),
+    create: mock(({ data }: any) => {
+      const card = { id: `card-${cards.size + 1}`, ...data };
+      cards.set(card.id, card);
+      return Promise.resolve(card);
+    }),
+    findFirst: ({ where }: any) => {
+      const card = cards.get(where.id);
+      return Promise.resolve(card?.userId === where.userId ? card : null);
+    },
+    update: mock(({ where, data }: any) => {
+      const card = Object.assign(cards.get(where.id), data);
+      return Promise.resolve({ id: card.id, title: card.title });
+    }),
+  },
+  embeddingJob: {
+    upsert: mock(() => Promise.resolve({})),
+  },
+  messageMemoryCard: {
+    upsert: mock(({ create }: any) => {
+      links.push(create);
+      return Promise.resolve(create);
+    }),
+  },
+};
+
+mock.module('../lib/database', () => ({ prisma: fakePrisma }));
+
+const { memoryTools, memoryToolsPrompt } = await import('../lib/memory-tools.js');
+
+const registry = new ToolRegistry();
+for (const tool of memoryTools) {
+  registry.register(tool);
+}
+
+const context: ToolContext = { userId: 'user-1', prisma: fakePrisma, threadId: 'thread-1', messageId: 'message-1' };
+
+describe('Memory tools', () => {
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        const body = await req.json();
+        embedded.push(...[body.input].flat());
+        return Response.json({
+          object: 'list',
+          model: body.model,
+          data: [{ object: 'embedding', index: 0, embedding: new Array(body.dimensions).fill(0.01) }],
+          usage: { prompt_tokens: 4, total_tokens: 4 },
+        });
+      },
+    });
+    process.env['OPENAI_BASE_URL'] = `http://localhost:${server.port}/v1`;
+    process.env['OPENAI_API_KEY'] = 'test-key';
+    process.env['EMBEDDING_PROVIDER'] = 'openai';
+  });
+
+  afterAll(() => {
+    server.stop(true);
+    delete process.env['OPENAI_BASE_URL'];
+    delete process.env['OPENAI_API_KEY'];
+    delete process.env['EMBEDDING_PROVIDER'];
+  });
+
+  it('should search only the user\'s cards and link them to the message', async () => {
+    const result = await registry.execute(
+      { id: 'call_1', name: 'search_memories', arguments: { query: 'how do I take my coffee?' } },
+      context
+    );
+
+    expect(result.isError).toBe(false);
+    expect(embedded.at(-1)).toBe('how do I take my coffee?');
+    expect((result.output as any).memories).toEqual([
+      expect.objectContaining({ id: 'card-1', title: 'Coffee', similarity: 0.82 }),
+    ]);
+    expect(links.at(-1)).toEqual({ messageId: 'message-1', memoryCardId: 'card-1', relevance: 0.82, toolName: 'search_memories' });
+  });
+
+  it('should create a card attributed to the assistant and queue its embedding', async () => {
+    const result = await registry.execute(
+      { id: 'call_2', name: 'create_memory', arguments: { title: 'Dog', content: 'Has a dog called Biscuit' } },
+      context
+    );
+
+    expect(result).toMatchObject({ isError: false, output: { id: 'card-3', title: 'Dog' } });
+    expect(cards.get('card-3').metadata).toEqual({ createdBy: 'assistant', threadId: 'thread-1', messageId: 'message-1' });
+    expect(cards.get('card-3').embeddingStatus).toBe('pending');
+    expect(fakePrisma.embeddingJob.upsert).toHaveBeenCalledWith(expect.objectContaining({
+      create: { memoryCardId: 'card-3', userId: 'user-1' },
+    }));
+    expect(links.at(-1)).toMatchObject({ memoryCardId: 'card-3', relevance: 1, toolName: 'create_memory' });
+  });
+
+  it('should update a card the user owns and queue its re-embedding', async () => {
+    fakePrisma.embeddingJob.upsert.mockClear();
+    const result = await registry.execute(
+      { id: 'call_3', name: 'update_memory', arguments: { id: 'card-1', content: 'Takes coffee with oat milk' } },
+      context
+    );
+
+    expect(result.isError).toBe(false);
+    expect(cards.get('card-1').content).toBe('Takes coffee with oat milk');
+    expect(fakePrisma.embeddingJob.upsert).toHaveBeenCalledWith(expect.objectContaining({ where: { memoryCardId: 'card-1' } }));
+    expect(links.at(-1)).toMatchObject({ memoryCardId: 'card-1', toolName: 'update_memory' });
+  });
+
+  it('should refuse to update another user\'s card', async () => {
+    const result = await registry.execute(
+      { id: 'call_4', name: 'update_memory', arguments: { id: 'card-2', title: 'Coffee' } },
+      context
+    );
+
+    expect(result).toMatchObject({ isError: true, output: { error: 'Memory card not found: card-2' } });
+    expect(cards.get('card-2').title).toBe('Tea');
+  });
+
+  it('should only mention write tools when auto-memory is on', () => {
+    expect(memoryToolsPrompt(true)).toContain('create_memory');
+    expect(memoryToolsPrompt(false)).not.toContain('create_memory');
+    expect(memoryToolsPrompt(false)).toContain('search_memories');
+  });
+});
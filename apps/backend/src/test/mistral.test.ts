@@ -0,0 +1,138 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { MistralService, LLMServiceFactory, type LLMConfig } from '../lib/llm.js';
+
+// Local stand-in for the Mistral chat completions API
+let server: ReturnType<typeof Bun.serve>;
+let lastRequest: { headers: Headers; body: any } | null = null;
+
+const config: LLMConfig = {
+  model: 'mistral-small-latest',
+  provider: 'mistral',
+  apiKey: 'test-mistral-key',
+  maxTokens: 256,
+  temperature: 0.2,
+  stream: false,
+};
+
+function sse(events: unknown[]): string {
+  return events.map(event => `data: ${JSON.stringify(event)}\n\n`).join('') + 'data: [DONE]\n\n';
+}
+
+describe('MistralService', () => {
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        const body = await req.json();
+        lastRequest = { headers: req.headers, body };
+
+        if (body.model === 'unknown-model') {
+          return new Response('{"message":"Invalid model"}', { status: 400 });
+        }
+
+        if (!body.stream) {
+          return Response.json({
+            id: 'cmpl-1',
+            model: body.model,
+            choices: [
+              {
+                index: 0,
+                message: { role: 'assistant', content: 'Bonjour from Mistral' },
+                finish_reason: body.max_tokens < 10 ? 'model_length' : 'stop',
+              },
+            ],
+            usage: { prompt_tokens: 12, completion_tokens: 4, total_tokens: 16 },
+          });
+        }
+
+        const stream = sse([
+          { choices: [{ index: 0, delta: { role: 'assistant', content: '' }, finish_reason: null }] },
+          { choices: [{ index: 0, delta: { content: 'Bon' }, finish_reason: null }] },
+          { choices: [{ index: 0, delta: { content: 'jour' }, finish_reason: null }] },
+          {
+            choices: [{ index: 0, delta: { content: '!' }, finish_reason: 'length' }],
+            usage: { prompt_tokens: 8, completion_tokens: 3, total_tokens: 11 },
+          },
+        ]);
+
+        // Split the payload mid-event to exercise partial line buffering
+        const encoder = new TextEncoder();
+        const middle = Math.floor(stream.length / 2);
+        return new Response(
+          new ReadableStream({
+            start(controller) {
+              controller.enqueue(encoder.encode(stream.slice(0, middle)));
+              controller.enqueue(encoder.encode(stream.slice(middle)));
+              controller.close();
+            },
+          }),
+          { headers: { 'Content-Type': 'text/event-stream' } }
+        );
+      },
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  it('should be registered for the mistral provider', () => {
+    expect(LLMServiceFactory.getService('mistral')).toBeInstanceOf(MistralService);
+  });
+
+  it('should generate a response and map usage', async () => {
+    const service = new MistralService(`http://localhost:${server.port}`);
+    const response = await service.generateResponse(
+      [{ role: 'user', content: 'Say hello in French' }],
+      config
+    );
+
+    expect(response.content).toBe('Bonjour from Mistral');
+    expect(response.provider).toBe('mistral');
+    expect(response.model).toBe('mistral-small-latest');
+    expect(response.finishReason).toBe('stop');
+    expect(response.usage).toEqual({ promptTokens: 12, completionTokens: 4, totalTokens: 16 });
+
+    expect(lastRequest?.headers.get('authorization')).toBe('Bearer test-mistral-key');
+    expect(lastRequest?.body.stream).toBe(false);
+    expect(lastRequest?.body.max_tokens).toBe(256);
+  });
+
+  it('should map model_length to length', async () => {
+    const service = new MistralService(`http://localhost:${server.port}`);
+    const response = await service.generateResponse(
+      [{ role: 'user', content: 'Hi' }],
+      { ...config, maxTokens: 5 }
+    );
+
+    expect(response.finishReason).toBe('length');
+  });
+
+  it('should surface API errors', async () => {
+    const service = new MistralService(`http://localhost:${server.port}`);
+
+    await expect(
+      service.generateResponse([{ role: 'user', content: 'Hi' }], { ...config, model: 'unknown-model' })
+    ).rejects.toThrow('Mistral API error: 400');
+  });
+
+  it('should stream deltas and report final usage', async () => {
+    const service = new MistralService(`http://localhost:${server.port}`);
+    const chunks = [];
+
+    for await (const chunk of service.generateStreamResponse(
+      [{ role: 'user', content: 'Say hello in French' }],
+      { ...config, stream: true }
+    )) {
+      chunks.push(chunk);
+    }
+
+    expect(chunks.map(c => c.delta)).toEqual(['Bon', 'jour', '!', '']);
+    const last = chunks[chunks.length - 1];
+    expect(last?.isComplete).toBe(true);
+    expect(last?.content).toBe('Bonjour!');
+    expect(last?.finishReason).toBe('length');
+    expect(last?.usage).toEqual({ promptTokens: 8, completionTokens: 3, totalTokens: 11 });
+    expect(lastRequest?.body.stream).toBe(true);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'bun:test';
+import { ModelRegistry, BUILTIN_MODELS, type DiscoveredModel } from '../lib/model-registry.js';
+import { validateModelForProvider } from '../lib/llm.js';
+
+function fetcherReturning(models: DiscoveredModel[]) {
+  let calls = 0;
+  const fetcher = async () => {
+    calls++;
+    return models;
+  };
+  return { fetcher, calls: () => calls };
+}
+
+describe('ModelRegistry', () => {
+  it('should serve built-in metadata before any refresh', () => {
+    const registry = new ModelRegistry(BUILTIN_MODELS, { fetchers: {} });
+    const model = registry.get('openai', 'gpt-4o');
+
+    expect(model?.contextWindow).toBe(128000);
+    expect(model?.pricing).toEqual({ input: 2.5, output: 10 });
+    expect(model?.capabilities.vision).toBe(true);
+    expect(registry.providers()).toContain('mistral');
+  });
+
+  it('should use canonical OpenRouter ids', () => {
+    expect(validateModelForProvider('openrouter', 'anthropic/claude-3.5-sonnet')).toBe(true);
+    expect(validateModelForProvider('openrouter', 'anthropic/claude-3-5-sonnet')).toBe(false);
+    expect(validateModelForProvider('custom', 'anything')).toBe(false);
+  });
+
+  it('should merge discovered models with built-in metadata', async () => {
+    const { fetcher } = fetcherReturning([
+      { id: 'gpt-4o', contextWindow: 256000 },
+      { id: 'gpt-5', name: 'GPT-5' },
+    ]);
+    const registry = new ModelRegistry(BUILTIN_MODELS, { fetchers: { openai: fetcher } });
+
+    await registry.refresh('openai', 'sk-test');
+
+    const existing = registry.get('openai', 'gpt-4o');
+    expect(existing?.contextWindow).toBe(256000);
+    expect(existing?.pricing).toEqual({ input: 2.5, output: 10 });
+
+    const discovered = registry.get('openai', 'gpt-5');
+    expect(discovered?.name).toBe('GPT-5');
+    expect(discovered?.capabilities.streaming).toBe(true);
+    expect(registry.has('openai', 'gpt-3.5-turbo')).toBe(true);
+    expect(registry.isStale('openai')).toBe(false);
+  });
+
+  it('should skip keyed providers when no key is available', async () => {
+    const openai = fetcherReturning([{ id: 'gpt-5' }]);
+    const openrouter = fetcherReturning([{ id: 'new/model' }]);
+    const registry = new ModelRegistry(BUILTIN_MODELS, {
+      fetchers: { openai: openai.fetcher, openrouter: openrouter.fetcher },
+    });
+
+    await registry.refreshStale({});
+
+    expect(openai.calls()).toBe(0);
+    expect(openrouter.calls()).toBe(1);
+    expect(registry.has('openrouter', 'new/model')).toBe(true);
+  });
+
+  it('should resolve a newly released model by refreshing once', async () => {
+    const { fetcher, calls } = fetcherReturning([{ id: 'new/model' }]);
+    const registry = new ModelRegistry(BUILTIN_MODELS, { fetchers: { openrouter: fetcher } });
+
+    expect(await registry.resolve('openrouter', 'new/model')).toBeDefined();
+    expect(await registry.resolve('openrouter', 'missing/model')).toBeUndefined();
+    expect(calls()).toBe(1);
+  });
+
+  it('should keep models only a user key can see to that key', async () => {
+    const keys: Array<string | undefined> = [];
+    const registry = new ModelRegistry(BUILTIN_MODELS, {
+      fetchers: {
+        openai: async apiKey => {
+          keys.push(apiKey);
+          return apiKey === 'acme-key' ? [{ id: 'ft:gpt-4o:acme' }] : [];
+        },
+      },
+    });
+
+    expect(await registry.resolve('openai', 'ft:gpt-4o:acme', 'acme-key')).toMatchObject({ id: 'ft:gpt-4o:acme' });
+    expect(registry.has('openai', 'ft:gpt-4o:acme')).toBe(false);
+    expect(await registry.resolve('openai', 'ft:gpt-4o:acme', 'other-key')).toBeUndefined();
+    expect(keys.filter(key => key === 'acme-key' || key === 'other-key')).toEqual(['acme-key', 'other-key']);
+  });
+
+  it('should wait a minute before retrying a refresh that failed', async () => {
+    let calls = 0;
+    const registry = new ModelRegistry(BUILTIN_MODELS, {
+      fetchers: {
+        openrouter: async () => {
+          calls++;
+          throw new Error('Model list request failed: 503');
+        },
+      },
+    });
+
+    await registry.resolve('openrouter', 'new/model');
+    await registry.resolve('openrouter', 'other/model');
+    await registry.refreshStale();
+
+    expect(calls).toBe(1);
+    expect(registry.isStale('openrouter')).toBe(true);
+  });
+
+  it('should keep existing models when a refresh fails', async () => {
+    const registry = new ModelRegistry(BUILTIN_MODELS, {
+      fetchers: {
+        google: async () => {
+          throw new Error('Model list request failed: 503');
+        },
+      },
+    });
+
+    const models = await registry.refresh('google', 'key');
+
+    expect(models.map(m => m.id)).toContain('gemini-1.5-pro');
+    expect(registry.isStale('google')).toBe(true);
+  });
+
+  it('should treat entries older than the TTL as stale', async () => {
+    const { fetcher } = fetcherReturning([]);
+    const registry = new ModelRegistry(BUILTIN_MODELS, { ttlMs: 0, fetchers: { mistral: fetcher } });
+
+    await registry.refresh('mistral', 'key');
+    await new Promise(resolve => setTimeout(resolve, 5));
+
+    expect(registry.isStale('mistral')).toBe(true);
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'bun:test';
+import { TRPCError } from '@trpc/server';
+import {
+  enforceSpendLimits,
+  findExceededLimit,
+  getTrinityPlannedCalls,
+  SpendLimitError,
+  SpendLimitsSchema,
+  type PlannedCall,
+} from '../lib/spend-limits.js';
+import { DEFAULT_TRINITY_CONFIG } from '../lib/trinity-mode.js';
+import { fakeTable } from './fake-prisma.js';
+
+const call: PlannedCall = { provider: 'openai', model: 'gpt-4o-mini', promptTokens: 1000, maxTokens: 1000 };
+
+// Serves stored limits and this month's ledger totals without a database
+function limitsPrisma(spendLimits: unknown, usage: Array<{ provider: string; totalTokens: number; costUsd: number }>) {
+  return {
+    user: fakeTable([{ id: 'user-1', spendLimits }]),
+    usageRecord: {
+      groupBy: () => Promise.resolve(usage.map(row => ({
+        provider: row.provider,
+        _sum: { totalTokens: row.totalTokens, costUsd: row.costUsd },
+      }))),
+    },
+  };
+}
+
+describe('Spend limits', () => {
+  it('should validate limits', () => {
+    expect(SpendLimitsSchema.parse({ monthlyCostUsd: 10 })).toEqual({ monthlyCostUsd: 10, providers: {} });
+    expect(SpendLimitsSchema.safeParse({ providers: { openai: { monthlyTokens: 1000 } } }).success).toBe(true);
+    expect(SpendLimitsSchema.safeParse({ providers: { unknown: { monthlyTokens: 1000 } } }).success).toBe(false);
+    expect(SpendLimitsSchema.safeParse({ monthlyCostUsd: -1 }).success).toBe(false);
+  });
+
+  it('should count planned calls against the cap', () => {
+    const limits = SpendLimitsSchema.parse({ monthlyTokens: 10_000 });
+
+    expect(findExceededLimit(limits, new Map([['openai', { costUsd: 0, tokens: 7000 }]]), [call])).toBeNull();
+    expect(findExceededLimit(limits, new Map([['openai', { costUsd: 0, tokens: 8500 }]]), [call])).toMatchObject({
+      scope: 'global',
+      metric: 'tokens',
+      used: 8500,
+      projected: 2000,
+    });
+  });
+
+  it('should only apply provider caps to that provider', () => {
+    const limits = SpendLimitsSchema.parse({ providers: { anthropic: { monthlyCostUsd: 1 } } });
+    const usage = new Map([['anthropic', { costUsd: 5, tokens: 0 }]]);
+
+    expect(findExceededLimit(limits, usage, [call])).toBeNull();
+    expect(findExceededLimit(limits, usage, [{ ...call, provider: 'anthropic', model: 'claude-3-5-sonnet-20241022' }]))
+      .toMatchObject({ scope: 'anthropic', metric: 'cost', limit: 1 });
+  });
+
+  it('should plan every Trinity agent plus the orchestrator calls', () => {
+    const calls = getTrinityPlannedCalls(DEFAULT_TRINITY_CONFIG, 500);
+    const agents = DEFAULT_TRINITY_CONFIG.agents.filter(agent => agent.enabled);
+
+    expect(calls).toHaveLength(agents.length + 2);
+    expect(calls.at(-1)?.promptTokens).toBeGreaterThan(500);
+
+    const picking = getTrinityPlannedCalls({
+      ...DEFAULT_TRINITY_CONFIG,
+      orchestrator: { ...DEFAULT_TRINITY_CONFIG.orchestrator, blendingStrategy: 'best_of_three' },
+    }, 500);
+    expect(picking).toHaveLength(agents.length + 1);
+
+    const debate = getTrinityPlannedCalls({ ...DEFAULT_TRINITY_CONFIG, executionMode: 'debate', debateRounds: 2 }, 500);
+    expect(debate).toHaveLength(agents.length * 3 + 2);
+  });
+
+  it('should throw a PAYMENT_REQUIRED error over the limit', async () => {
+    const prisma = limitsPrisma({ monthlyTokens: 2500 }, [{ provider: 'openai', totalTokens: 1000, costUsd: 0.01 }]);
+
+    const error = await enforceSpendLimits('user-1', prisma, [call]).catch(e => e);
+    expect(error).toBeInstanceOf(TRPCError);
+    expect(error.code).toBe('PAYMENT_REQUIRED');
+    expect(error.cause).toBeInstanceOf(SpendLimitError);
+    expect(error.message).toContain('usage limit');
+  });
+
+  it('should allow calls without limits or under them', async () => {
+    await expect(enforceSpendLimits('user-1', limitsPrisma(null, []), [call])).resolves.toBeUndefined();
+    await expect(enforceSpendLimits('user-1', limitsPrisma({ monthlyTokens: 1_000_000 }, []), [call])).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,201 @@
+import { describe, it, expect, beforeAll, afterAll } from 'bun:test';
+import { z } from 'zod';
+import {
+  generateLLMResponse,
+  generateLLMStreamResponse,
+  type LLMConfig,
+  type LLMMessage,
+} from '../lib/llm.js';
+import { ToolRegistry, runToolLoop, type ToolResult } from '../lib/tools.js';
+
+// Local OpenAI-compatible server: asks for the weather tool until it sees a tool result
+let server: ReturnType<typeof Bun.serve>;
+const requests: any[] = [];
+
+const weatherTool = {
+  name: 'get_weather',
+  description: 'Current weather for a city',
+  parameters: {
+    type: 'object',
+    properties: { city: { type: 'string' } },
+    required: ['city'],
+  },
+  input: z.object({ city: z.string() }),
+  execute: async ({ city }: { city: string }) => ({ city, forecast: 'sunny', celsius: 21 }),
+};
+
+function config(): LLMConfig {
+  return {
+    model: 'tool-model',
+    provider: 'custom',
+    apiKey: '',
+    baseUrl: `http://localhost:${server.port}/v1`,
+    maxTokens: 128,
+    temperature: 0,
+    stream: true,
+    tools: [{ name: weatherTool.name, description: weatherTool.description, parameters: weatherTool.parameters }],
+  };
+}
+
+async function collect<T>(stream: AsyncGenerator<T>): Promise<T[]> {
+  const chunks: T[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk);
+  }
+  return chunks;
+}
+
+function sse(events: unknown[]): Response {
+  const body = events.map(event => `data: ${JSON.stringify(event)}\n\n`).join('') + 'data: [DONE]\n\n';
+  return new Response(body, { headers: { 'Content-Type': 'text/event-stream' } });
+}
+
+describe('Tool calling', () => {
+  beforeAll(() => {
+    server = Bun.serve({
+      port: 0,
+      async fetch(req) {
+        const body = await req.json();
+        requests.push(body);
+        const answered = body.messages.some((m: any) => m.role === 'tool');
+
+        if (!body.stream) {
+          return Response.json({
+            model: body.model,
+            choices: [{
+              index: 0,
+              message: {
+                role: 'assistant',
+                content: null,
+                tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }],
+              },
+              finish_reason: 'tool_calls',
+            }],
+          });
+        }
+
+        if (answered) {
+          return sse([
+            { choices: [{ index: 0, delta: { content: 'It is sunny in Paris.' } }] },
+            { choices: [{ index: 0, delta: {}, finish_reason: 'stop' }], usage: { prompt_tokens: 40, completion_tokens: 6, total_tokens: 46 } },
+          ]);
+        }
+
+        // Tool call split across deltas, as providers stream it
+        return sse([
+          { choices: [{ index: 0, delta: { content: 'Let me check.' } }] },
+          { choices: [{ index: 0, delta: { tool_calls: [{ index: 0, id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '' } }] } }] },
+          { choices: [{ index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: '{"city":' } }] } }] },
+          { choices: [{ index: 0, delta: { tool_calls: [{ index: 0, function: { arguments: '"Paris"}' } }] } }] },
+          { choices: [{ index: 0, delta: {}, finish_reason: 'tool_calls' }], usage: { prompt_tokens: 30, completion_tokens: 10, total_tokens: 40 } },
+        ]);
+      },
+    });
+  });
+
+  afterAll(() => {
+    server.stop(true);
+  });
+
+  it('should send tool definitions and parse tool calls', async () => {
+    const response = await generateLLMResponse([{ role: 'user', content: 'Weather in Paris?' }], config());
+
+    expect(requests.at(-1).tools[0]).toEqual({
+      type: 'function',
+      function: { name: 'get_weather', description: weatherTool.description, parameters: weatherTool.parameters },
+    });
+    expect(response.finishReason).toBe('tool_calls');
+    expect(response.toolCalls).toEqual([{ id: 'call_1', name: 'get_weather', arguments: { city: 'Paris' } }]);
+  });
+
+  it('should assemble streamed tool-call deltas', async () => {
+    const chunks = await collect(generateLLMStreamResponse([{ role: 'user', content: 'Weather in Paris?' }], config()));
+
+    const final = chunks.at(-1)!;
+    expect(final.isComplete).toBe(true);
+    expect(final.finishReason).toBe('tool_calls');
+    expect(final.toolCalls).toEqual([{ id: 'call_1', name: 'get_weather', arguments: { city: 'Paris' } }]);
+  });
+
+  it('should translate tool messages to the wire format', async () => {
+    const messages: LLMMessage[] = [
+      { role: 'user', content: 'Weather in Paris?' },
+      { role: 'assistant', content: '', toolCalls: [{ id: 'call_1', name: 'get_weather', arguments: { city: 'Paris' } }] },
+      { role: 'tool', toolCallId: 'call_1', name: 'get_weather', content: '{"forecast":"sunny"}' },
+    ];
+    await collect(generateLLMStreamResponse(messages, config()));
+
+    const sent = requests.at(-1).messages;
+    expect(sent[1]).toEqual({
+      role: 'assistant',
+      content: null,
+      tool_calls: [{ id: 'call_1', type: 'function', function: { name: 'get_weather', arguments: '{"city":"Paris"}' } }],
+    });
+    expect(sent[2]).toEqual({ role: 'tool', tool_call_id: 'call_1', name: 'get_weather', content: '{"forecast":"sunny"}' });
+  });
+
+  it('should validate arguments and report tool failures', async () => {
+    const registry = new ToolRegistry().register(weatherTool).register({
+      ...weatherTool,
+      name: 'broken',
+      execute: () => Promise.reject(new Error('Upstream down')),
+    });
+    const context = { userId: 'user-1', prisma: null };
+
+    expect(registry.definitions(['get_weather'])).toHaveLength(1);
+    expect(() => registry.register(weatherTool)).toThrow('already registered');
+
+    const ok = await registry.execute({ id: '1', name: 'get_weather', arguments: { city: 'Oslo' } }, context);
+    expect(ok).toMatchObject({ isError: false, output: { city: 'Oslo' } });
+
+    const invalid = await registry.execute({ id: '2', name: 'get_weather', arguments: {} }, context);
+    expect(invalid.isError).toBe(true);
+
+    const unknown = await registry.execute({ id: '3', name: 'nope', arguments: {} }, context);
+    expect(unknown.output).toEqual({ error: 'Unknown tool: nope' });
+
+    const failed = await registry.execute({ id: '4', name: 'broken', arguments: { city: 'Oslo' } }, context);
+    expect(failed).toMatchObject({ isError: true, output: { error: 'Upstream down' } });
+  });
+
+  it('should run the call, execute, respond cycle', async () => {
+    const registry = new ToolRegistry().register(weatherTool);
+    const results: ToolResult[] = [];
+
+    const chunks = await collect(runToolLoop(
+      [{ role: 'user', content: 'Weather in Paris?' }],
+      messages => generateLLMStreamResponse(messages, config()),
+      { registry, context: { userId: 'user-1', prisma: null }, onToolResult: result => results.push(result) }
+    ));
+
+    expect(results).toHaveLength(1);
+    expect(results[0]!.output).toEqual({ city: 'Paris', forecast: 'sunny', celsius: 21 });
+
+    // Only one completion reaches the caller, carrying both rounds
+    const completions = chunks.filter(chunk => chunk.isComplete);
+    expect(completions).toHaveLength(1);
+    expect(completions[0]!.content).toBe('Let me check.\n\nIt is sunny in Paris.');
+    expect(completions[0]!.usage).toEqual({ promptTokens: 70, completionTokens: 16, totalTokens: 86 });
+  });
+
+  it('should stop after the maximum number of rounds', async () => {
+    const registry = new ToolRegistry().register(weatherTool);
+    let calls = 0;
+
+    await collect(runToolLoop(
+      [{ role: 'user', content: 'Weather in Paris?' }],
+      async function* () {
+        calls++;
+        yield {
+          content: '',
+          delta: '',
+          isComplete: true,
+          toolCalls: [{ id: `call_${calls}`, name: 'get_weather', arguments: { city: 'Paris' } }],
+        };
+      },
+      { registry, context: { userId: 'user-1', prisma: null }, maxRounds: 2 }
+    ));
+
+    expect(calls).toBe(3);
+  });
+});
@@ -0,0 +1,265 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  LLMServiceFactory,
+  RecordedLLMService,
+  type LLMConfig,
+  type LLMMessage,
+  type LLMService,
+} from '../lib/llm.js';
+import { HeuristicJudge } from '../lib/trinity-judge.js';
+import { fakeTable } from './fake-prisma.js';
+import { DEFAULT_TRINITY_CONFIG } from '../lib/trinity-mode.js';
+import {
+  RecordedEmbedder,
+  replayTrinityEvaluation,
+  runTrinityEvaluation,
+  startEvalRun,
+  type EvalConfig,
+  type EvalRunProgress,
+} from '../lib/trinity-eval.js';
+
+const prompts = [
+  { id: 'cache', content: 'When should I add a cache?' },
+  { id: 'queue', content: 'Do I need a message queue?' },
+];
+
+// Sequential, since parallel mode staggers agent starts
+const sequential = { ...DEFAULT_TRINITY_CONFIG, executionMode: 'sequential' as const };
+const configs: EvalConfig[] = [
+  { label: 'synthesis', config: sequential },
+  {
+    label: 'best-of-three',
+    config: { ...sequential, orchestrator: { ...sequential.orchestrator, blendingStrategy: 'best_of_three' } },
+  },
+];
+
+// Attribution without the embeddings API
+const embed = async (texts: string[]) => texts.map(text => [text.length, 1]);
+
+const apiKeys = configs.map(() => ({
+  agents: { analytical: 'key', factual: 'key', creative: 'key' },
+  orchestrator: 'key',
+}));
+
+// The mock service, counting the requests that reach it
+function countingFallback() {
+  const mock = LLMServiceFactory.getMockService();
+  const fallback = Object.assign((): LLMService => mock, { calls: 0 });
+  const generateResponse = mock.generateResponse.bind(mock);
+  mock.generateResponse = (messages: LLMMessage[], config: LLMConfig) => {
+    fallback.calls++;
+    return generateResponse(messages, config);
+  };
+  return fallback;
+}
+
+// In-memory stand-in for the evaluation run table
+interface RunRow {
+  id: string;
+  promptSetId: string;
+  replayOfId: string | null;
+  status: string;
+  total: number;
+  processed: number;
+  lastError: string | null;
+  configs: unknown;
+  summary: unknown;
+  results?: unknown[];
+  recording?: unknown;
+  embeddings?: unknown;
+  createdAt: Date;
+  completedAt: Date | null;
+}
+
+function evalRunPrisma() {
+  return {
+    trinityEvalRun: fakeTable<RunRow>([], (data, count) => ({
+      id: `run-${count}`, promptSetId: '', replayOfId: null, status: 'running', total: 0, processed: 0, lastError: null,
+      configs: [], summary: [], createdAt: new Date(), completedAt: null, ...data,
+    })),
+  };
+}
+
+// Resolves with the first progress event that isn't `running`
+function progressListener() {
+  const events: EvalRunProgress[] = [];
+  let finish: (progress: EvalRunProgress) => void = () => {};
+  const finished = new Promise<EvalRunProgress>(resolve => {
+    finish = resolve;
+  });
+  const notify = (_userId: string, progress: EvalRunProgress) => {
+    events.push(progress);
+    if (progress.status !== 'running') finish(progress);
+  };
+  return { events, finished, notify };
+}
+
+const request: LLMConfig = {
+  provider: 'openai',
+  model: 'gpt-4o-mini',
+  apiKey: 'key',
+  maxTokens: 100,
+  temperature: 0,
+  stream: true,
+};
+
+describe('Recorded LLM service', () => {
+  it('should replay recorded responses without a provider', async () => {
+    const fallback = countingFallback();
+    const recorder = new RecordedLLMService({}, fallback);
+    const messages: LLMMessage[] = [{ role: 'user', content: 'Hello' }];
+
+    const live = await recorder.generateResponse(messages, request);
+    await recorder.generateResponse(messages, request);
+    expect(fallback.calls).toBe(1);
+    expect(recorder.liveCalls).toHaveLength(1);
+
+    const replayer = new RecordedLLMService(recorder.recording);
+    const chunks = [];
+    for await (const chunk of replayer.generateStreamResponse(messages, request)) {
+      chunks.push(chunk);
+    }
+    expect(chunks).toEqual([{ content: live.content, delta: live.content, isComplete: true, usage: live.usage!, finishReason: 'stop' }]);
+
+    await expect(replayer.generateResponse([{ role: 'user', content: 'Something new' }], request))
+      .rejects.toThrow('No recorded response for openai/gpt-4o-mini');
+  });
+
+  it('should only route calls inside runWith', async () => {
+    const service = new RecordedLLMService();
+
+    expect(LLMServiceFactory.runWith(service, () => LLMServiceFactory.getService('openai'))).toBe(service);
+    expect(await LLMServiceFactory.runWith(service, async () => {
+      await Promise.resolve();
+      return LLMServiceFactory.getService('anthropic');
+    })).toBe(service);
+    expect(LLMServiceFactory.getService('openai')).toBe(LLMServiceFactory.getProviderService('openai'));
+  });
+});
+
+describe('Trinity evaluation', () => {
+  it('should compare configs and replay the run offline', async () => {
+    const fallback = countingFallback();
+    const recorder = new RecordedLLMService({}, fallback);
+
+    const result = await runTrinityEvaluation(prompts, configs, { service: recorder, apiKeys, judge: new HeuristicJudge(), embed });
+
+    expect(result.cells.map(cell => [cell.label, cell.promptId])).toEqual([
+      ['synthesis', 'cache'],
+      ['synthesis', 'queue'],
+      ['best-of-three', 'cache'],
+      ['best-of-three', 'queue'],
+    ]);
+    expect(result.cells.every(cell => cell.response && !cell.error && cell.score)).toBe(true);
+    expect(result.cells[2]!.score!.agentType).toBe('best-of-three');
+    expect(result.summary.map(summary => summary.label)).toEqual(['synthesis', 'best-of-three']);
+    expect(result.summary[0]!.totalTokens).toBeGreaterThan(0);
+    expect(result.summary[0]!.failures).toBe(0);
+    expect(fallback.calls).toBeGreaterThan(0);
+
+    // Same configs, no provider at all: every answer comes from the recording
+    const replay = await runTrinityEvaluation(prompts, configs, {
+      service: new RecordedLLMService(recorder.recording),
+      apiKeys,
+      judge: new HeuristicJudge(),
+      embed,
+    });
+    expect(replay.cells.map(cell => cell.response?.finalResponse)).toEqual(result.cells.map(cell => cell.response?.finalResponse));
+  });
+
+  it('should re-blend recorded agent answers under other strategies', async () => {
+    const recorder = new RecordedLLMService({}, countingFallback());
+    await runTrinityEvaluation(prompts, [configs[0]!], { service: recorder, apiKeys, judge: new HeuristicJudge(), embed });
+
+    const replayer = new RecordedLLMService(recorder.recording);
+    const result = await replayTrinityEvaluation(prompts, [configs[0]!], ['best_of_three'], {
+      service: replayer,
+      apiKeys,
+      judge: new HeuristicJudge(),
+      embed,
+    });
+
+    expect(result.summary.map(summary => summary.label)).toEqual(['synthesis · best_of_three']);
+    expect(result.cells.every(cell => cell.response?.orchestratorMetadata.blendingStrategy === 'best_of_three')).toBe(true);
+    expect(replayer.liveCalls).toHaveLength(0);
+  });
+
+  it('should replay attribution embeddings without embedding anything', async () => {
+    const embedded: string[][] = [];
+    const recorder = new RecordedLLMService({}, countingFallback());
+    const embedder = new RecordedEmbedder({}, async texts => {
+      embedded.push(texts);
+      return embed(texts);
+    });
+    const first = await runTrinityEvaluation(prompts, [configs[0]!], {
+      service: recorder,
+      apiKeys,
+      judge: new HeuristicJudge(),
+      embed: embedder.embed,
+    });
+    expect(embedded.length).toBeGreaterThan(0);
+
+    // No fallback: a sentence missing from the recording would fail and fall back to word overlap
+    const replay = await runTrinityEvaluation(prompts, [configs[0]!], {
+      service: new RecordedLLMService(recorder.recording),
+      apiKeys,
+      judge: new HeuristicJudge(),
+      embed: new RecordedEmbedder(embedder.recording).embed,
+    });
+    const attribution = (result: typeof first) => result.cells.map(cell => cell.response?.attribution);
+    expect(attribution(replay)).toEqual(attribution(first));
+    expect(replay.cells.every(cell => Object.values(cell.response!.attribution).every(agent => agent.method === 'embedding'))).toBe(true);
+  });
+
+  it('should judge on the orchestrator its key was resolved for', async () => {
+    const judged: Array<{ provider: string; apiKey: string }> = [];
+    const mock = LLMServiceFactory.getMockService();
+    const generateResponse = mock.generateResponse.bind(mock);
+    mock.generateResponse = (messages: LLMMessage[], config: LLMConfig) => {
+      if (messages.some(message => typeof message.content === 'string' && message.content.includes('impartial judge'))) {
+        judged.push({ provider: config.provider, apiKey: config.apiKey });
+      }
+      return generateResponse(messages, config);
+    };
+    const anthropic: EvalConfig = {
+      label: 'anthropic',
+      config: { ...sequential, orchestrator: { ...sequential.orchestrator, provider: 'anthropic', model: 'claude-3-5-haiku-20241022' } },
+    };
+
+    await runTrinityEvaluation([prompts[0]!], [configs[0]!, anthropic], {
+      service: new RecordedLLMService({}, () => mock),
+      apiKeys: [undefined, { agents: apiKeys[0]!.agents, orchestrator: 'anthropic-key' }],
+      embed,
+    });
+
+    expect(judged).toEqual([{ provider: 'anthropic', apiKey: 'anthropic-key' }]);
+  });
+
+  it('should run in the background and save its progress after each cell', async () => {
+    const prisma = evalRunPrisma();
+    const { events, finished, notify } = progressListener();
+    const recorder = new RecordedLLMService({}, countingFallback());
+    const embedder = new RecordedEmbedder({}, embed);
+
+    const run = await startEvalRun(prisma, 'user-1', { promptSetId: 'set-1', configs, total: 4 }, async onProgress => {
+      const result = await runTrinityEvaluation(prompts, configs, {
+        service: recorder,
+        apiKeys,
+        judge: new HeuristicJudge(),
+        embed: embedder.embed,
+        onProgress,
+      });
+      return { result, recording: recorder.recording, embeddings: embedder.recording };
+    }, notify);
+    expect(run).toMatchObject({ status: 'running', total: 4, processed: 0, summary: [] });
+
+    expect(await finished).toMatchObject({ runId: run.id, status: 'completed', processed: 4 });
+    expect(events.map(event => event.processed)).toEqual([1, 2, 3, 4, 4]);
+    expect(prisma.trinityEvalRun.rows[0]).toMatchObject({ status: 'completed', recording: recorder.recording, embeddings: embedder.recording });
+    expect(prisma.trinityEvalRun.rows[0]!.results).toHaveLength(4);
+
+    const failing = progressListener();
+    await startEvalRun(prisma, 'user-1', { promptSetId: 'set-1', configs, total: 4 }, () => Promise.reject(new Error('Provider down')), failing.notify);
+    expect(await failing.finished).toMatchObject({ status: 'failed', processed: 0, lastError: 'Provider down' });
+  });
+});
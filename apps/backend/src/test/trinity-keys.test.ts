@@ -0,0 +1,105 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import { TRPCError } from '@trpc/server';
+import { MissingApiKeyError, resolveTrinityApiKeys } from '../lib/trinity-keys.js';
+import { BUILTIN_AGENT_PERSONAS, DEFAULT_TRINITY_CONFIG, type TrinityConfig } from '../lib/trinity-mode.js';
+import { fakeTable, type Where } from './fake-prisma.js';
+
+const ENV_KEYS = ['OPENAI_API_KEY', 'ANTHROPIC_API_KEY'] as const;
+const savedEnv = Object.fromEntries(ENV_KEYS.map(name => [name, process.env[name]]));
+
+// Stores no keys for the user and records every lookup
+function keysPrisma() {
+  const lookups: Where[] = [];
+  const keys = fakeTable<{ id: string }>([]);
+  return {
+    lookups,
+    userApiKey: {
+      ...keys,
+      findFirst: (args: { where: Where }) => {
+        lookups.push(args.where);
+        return keys.findFirst(args);
+      },
+    },
+  };
+}
+
+const mixedConfig: TrinityConfig = {
+  ...DEFAULT_TRINITY_CONFIG,
+  agents: [
+    BUILTIN_AGENT_PERSONAS.analytical,
+    { ...BUILTIN_AGENT_PERSONAS.factual, provider: 'anthropic', model: 'claude-3-5-haiku-20241022' },
+    { ...BUILTIN_AGENT_PERSONAS.creative, keyName: 'Work' },
+  ],
+};
+
+async function missingKeys(config: TrinityConfig): Promise<MissingApiKeyError> {
+  try {
+    await resolveTrinityApiKeys('user-1', config, keysPrisma());
+  } catch (error) {
+    expect(error).toBeInstanceOf(TRPCError);
+    expect((error as TRPCError).code).toBe('BAD_REQUEST');
+    return (error as TRPCError).cause as MissingApiKeyError;
+  }
+  throw new Error('Expected missing keys');
+}
+
+describe('Trinity API key resolution', () => {
+  afterEach(() => {
+    for (const name of ENV_KEYS) {
+      if (savedEnv[name] === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = savedEnv[name];
+      }
+    }
+  });
+
+  it('should fall back to server keys and look each provider up once', async () => {
+    process.env['OPENAI_API_KEY'] = 'sk-server';
+    process.env['ANTHROPIC_API_KEY'] = 'sk-ant-server';
+    const prisma = keysPrisma();
+
+    const keys = await resolveTrinityApiKeys('user-1', {
+      ...mixedConfig,
+      agents: [...mixedConfig.agents.slice(0, 2), BUILTIN_AGENT_PERSONAS.creative],
+    }, prisma);
+
+    // No embedding key: attribution never embeds on the server's key
+    expect(keys).toEqual({
+      agents: { analytical: 'sk-server', factual: 'sk-ant-server', creative: 'sk-server' },
+      orchestrator: 'sk-server',
+    });
+    expect(prisma.lookups).toEqual([
+      { userId: 'user-1', provider: 'openai' },
+      { userId: 'user-1', provider: 'anthropic' },
+    ]);
+  });
+
+  it('should name every agent left without a key before anything runs', async () => {
+    process.env['OPENAI_API_KEY'] = 'sk-server';
+    delete process.env['ANTHROPIC_API_KEY'];
+
+    const error = await missingKeys(mixedConfig);
+
+    // A named key is never swapped for the server's
+    expect(error.missing).toEqual([
+      { agentType: 'factual', agentName: 'Factual', provider: 'anthropic' },
+      { agentType: 'creative', agentName: 'Creative', provider: 'openai', keyName: 'Work' },
+    ]);
+    expect(error.message).toBe(
+      'Missing API key for agent Factual on provider anthropic; Missing API key "Work" for agent Creative on provider openai'
+    );
+  });
+
+  it('should skip disabled agents and check the orchestrator', async () => {
+    delete process.env['OPENAI_API_KEY'];
+    process.env['ANTHROPIC_API_KEY'] = 'sk-ant-server';
+
+    const error = await missingKeys({
+      ...mixedConfig,
+      agents: mixedConfig.agents.map(agent => ({ ...agent, enabled: agent.provider === 'anthropic' })),
+    });
+
+    expect(error.missing).toEqual([{ agentName: 'the orchestrator', provider: 'openai' }]);
+  });
+});
@@ -0,0 +1,564 @@
+import { describe, it, expect } from 'bun:test';
+import { TRPCError } from '@trpc/server';
+import {
+  BUILTIN_AGENT_PERSONAS,
+  DEFAULT_TRINITY_CONFIG,
+  TRINITY_PRESETS,
+  resolveTrinityConfig,
+  type Agent,
+  type AgentConfig,
+  type AgentResponse,
+  type DebateContext,
+  type Orchestrator,
+  type TrinityConflict,
+  type TrinityStreamChunk,
+} from '../lib/trinity-mode.js';
+import { AgentFactory, AnalyticalAgent, BaseAgent, confidenceFromLogprobs, splitDebateResponse } from '../lib/trinity-agents.js';
+import { TrinityExecutionManager } from '../lib/trinity-manager.js';
+import { TrinityOrchestrator, parseConflictAnalysis } from '../lib/trinity-orchestrator.js';
+import { HeuristicJudge, parseJudgeScores } from '../lib/trinity-judge.js';
+
+const securityReviewer = {
+  type: 'security-reviewer',
+  name: 'Security Reviewer',
+  description: 'Threat modelling and insecure defaults',
+  systemPrompt: 'You review every answer for security problems.',
+};
+
+function agentResponse(agentType: string, agentName: string, content: string): AgentResponse {
+  return {
+    agentType,
+    agentName,
+    content,
+    confidence: 0.8,
+    executionTime: 1200,
+    tokenUsage: { promptTokens: 100, completionTokens: 50, totalTokens: 150 },
+    metadata: { model: 'gpt-4o', provider: 'openai', temperature: 0.2, finishReason: 'stop' },
+  };
+}
+
+// Answers without an LLM: "<name> v<round>", revising only when it has seen the others
+class DebatingAgent extends BaseAgent {
+  debates: DebateContext[] = [];
+
+  constructor(config: AgentConfig, private readonly failFromRound = Infinity) {
+    super(config);
+  }
+
+  private reply(debate: DebateContext): string {
+    const answer = `${this.config.name} v${debate.round}`;
+    return debate.ownResponse
+      ? `Critique: ${debate.peerResponses.map(peer => peer.content).join(', ')} missed something.\n\nRevised answer: ${answer}`
+      : answer;
+  }
+
+  override async generateResponse(_messages: unknown, context?: any): Promise<AgentResponse> {
+    const debate: DebateContext = context.debate;
+    this.debates.push(debate);
+    if (debate.round >= this.failFromRound) {
+      throw new Error('rate limited');
+    }
+    return {
+      ...agentResponse(this.type, this.config.name, ''),
+      ...splitDebateResponse(this.reply(debate)),
+      round: debate.round,
+      confidence: debate.round / 10,
+    };
+  }
+
+  override async* generateStreamResponse(_messages: unknown, context?: any): AsyncGenerator<TrinityStreamChunk, void, unknown> {
+    const debate: DebateContext = context.debate;
+    this.debates.push(debate);
+    const { critique, content } = splitDebateResponse(this.reply(debate));
+    yield { type: 'agent_start', agentType: this.type, round: debate.round, content: '', delta: '', isComplete: false, timestamp: 0 };
+    yield {
+      type: 'agent_complete',
+      agentType: this.type,
+      round: debate.round,
+      content,
+      delta: '',
+      isComplete: true,
+      timestamp: 0,
+      metadata: { confidence: debate.round / 10, ...(critique && { critique }) },
+    };
+  }
+}
+
+// Judges offline so best_of_three runs make no LLM calls
+function debateManager(agents: Agent[], orchestrator?: Orchestrator): TrinityExecutionManager {
+  return new TrinityExecutionManager({
+    agentFactory: config => agents.find(agent => agent.type === config.type)!,
+    orchestratorFactory: settings => orchestrator ?? new TrinityOrchestrator({ ...settings, judge: new HeuristicJudge() }),
+  });
+}
+
+const debateConfig = {
+  ...DEFAULT_TRINITY_CONFIG,
+  executionMode: 'debate' as const,
+  debateRounds: 2,
+  orchestrator: { ...DEFAULT_TRINITY_CONFIG.orchestrator, blendingStrategy: 'best_of_three' as const },
+};
+const debateApiKeys = { analytical: 'key', factual: 'key', creative: 'key' };
+
+describe('Trinity agents', () => {
+  it('should use the built-in personas by default', () => {
+    const config = resolveTrinityConfig({ executionMode: 'hybrid' });
+
+    expect(config.executionMode).toBe('hybrid');
+    expect(config.agents.map(agent => agent.type)).toEqual(['analytical', 'factual', 'creative']);
+    expect(resolveTrinityConfig({ executionMode: 'parallel', preset: 'brainstorming' }).agents)
+      .toEqual(TRINITY_PRESETS['brainstorming']!.agents!);
+  });
+
+  it('should fill custom agents from their persona defaults', () => {
+    const config = resolveTrinityConfig({
+      executionMode: 'parallel',
+      preset: 'research-analysis',
+      customConfig: {
+        agents: [
+          { type: 'factual', model: 'claude-3-5-haiku-20241022', provider: 'anthropic' },
+          securityReviewer,
+          { ...securityReviewer, type: 'devils-advocate', name: "Devil's Advocate", weight: 0.1 },
+        ],
+      },
+    });
+
+    expect(config.agents).toHaveLength(3);
+    expect(config.agents[0]).toEqual({
+      ...BUILTIN_AGENT_PERSONAS.factual,
+      model: 'claude-3-5-haiku-20241022',
+      provider: 'anthropic',
+    });
+    expect(config.agents[1]).toMatchObject({ ...securityReviewer, provider: 'openai', enabled: true });
+    expect(config.agents[2]!.weight).toBe(0.1);
+    expect(config.orchestrator.blendingStrategy).toBe('hierarchical');
+  });
+
+  it('should reject too few, too many, duplicate or incomplete agents', () => {
+    const invalid = [
+      [securityReviewer],
+      Array.from({ length: 7 }, (_, i) => ({ ...securityReviewer, type: `reviewer-${i}` })),
+      [securityReviewer, securityReviewer],
+      [{ type: 'analytical' }, { type: 'tax-law', name: 'Tax Law Expert' }],
+    ];
+
+    for (const agents of invalid) {
+      const error = (() => {
+        try {
+          return resolveTrinityConfig({ executionMode: 'parallel', customConfig: { agents } });
+        } catch (e) {
+          return e;
+        }
+      })();
+      expect(error).toBeInstanceOf(TRPCError);
+      expect((error as TRPCError).code).toBe('BAD_REQUEST');
+    }
+  });
+
+  it('should create specialized agents for built-in personas only', () => {
+    expect(AgentFactory.createAgent(BUILTIN_AGENT_PERSONAS.analytical)).toBeInstanceOf(AnalyticalAgent);
+
+    const [custom] = AgentFactory.createMultipleAgents(
+      resolveTrinityConfig({
+        executionMode: 'parallel',
+        customConfig: { agents: [securityReviewer, DEFAULT_TRINITY_CONFIG.agents[0]] },
+      }).agents
+    );
+    expect(custom!.constructor).toBe(BaseAgent);
+    expect(custom!.type).toBe('security-reviewer');
+  });
+
+  it('should attribute final-answer sentences to the agents they came from', async () => {
+    const responses = [
+      { ...agentResponse('security-reviewer', 'Security Reviewer', 'Tokens that never expire are the main risk here. Rotate them often.'), confidenceSource: 'logprobs' as const },
+      agentResponse('devils-advocate', "Devil's Advocate", 'Expiring tokens add friction for users on slow networks.'),
+      agentResponse('analytical', 'Analytical', 'Unrelated musings about database indexes and query plans.'),
+    ];
+    const finalResponse = [
+      '## Recommendation',
+      '- Rotate tokens every hour, since tokens that never expire are a serious risk.',
+      '- Refresh them in the background so slow networks see no extra friction.',
+      'Monitor how often refreshes fail after rollout.',
+    ].join('\n');
+
+    // One dimension per topic, so sentences on the same topic embed identically
+    const topics = ['expire', 'friction', 'index', 'monitor'];
+    const embedded: string[][] = [];
+    const embed = async (texts: string[]) => {
+      embedded.push(texts);
+      return texts.map(text => topics.map(topic => (text.toLowerCase().includes(topic) ? 1 : 0)));
+    };
+    const orchestrator = new TrinityOrchestrator({ ...DEFAULT_TRINITY_CONFIG.orchestrator, embed });
+
+    const attribution = await orchestrator.generateAttribution(responses, finalResponse);
+
+    expect(embedded[0]!.slice(0, 3)).toEqual([
+      'Rotate tokens every hour, since tokens that never expire are a serious risk.',
+      'Refresh them in the background so slow networks see no extra friction.',
+      'Monitor how often refreshes fail after rollout.',
+    ]);
+    expect(attribution['security-reviewer']).toMatchObject({
+      keyInsights: ['Tokens that never expire are the main risk here.'],
+      sentences: ['Rotate tokens every hour, since tokens that never expire are a serious risk.'],
+      method: 'embedding',
+      confidence: 0.8,
+      confidenceSource: 'logprobs',
+    });
+    expect(attribution['devils-advocate']!.sentences).toHaveLength(1);
+    expect(attribution['devils-advocate']!.confidenceSource).toBe('heuristic');
+    expect(attribution['analytical']!.contributionPercentage).toBe(0);
+    const total = Object.values(attribution).reduce((sum, agent) => sum + agent.contributionPercentage, 0);
+    expect(total).toBeGreaterThan(0.6);
+    expect(total).toBeLessThan(1);
+
+    // A response used verbatim is traced without embeddings
+    const picked = await orchestrator.generateAttribution(responses, responses[0]!.content);
+    expect(embedded).toHaveLength(1);
+    expect(picked['security-reviewer']).toMatchObject({ contributionPercentage: 1, method: 'lexical' });
+
+    expect(orchestrator.selectBestResponse(responses).agentType).toBe('analytical');
+  });
+
+  it('should fall back to word overlap when embeddings fail', async () => {
+    const responses = [
+      agentResponse('factual', 'Factual', 'The Eiffel Tower was completed in 1889 for the World Fair.'),
+      agentResponse('creative', 'Creative', 'Imagine Paris at night with lights sparkling everywhere.'),
+    ];
+    const embed = () => Promise.reject(new Error('OpenAI API key not provided'));
+    const orchestrator = new TrinityOrchestrator({ ...DEFAULT_TRINITY_CONFIG.orchestrator, embed });
+
+    const attribution = await orchestrator.generateAttribution(responses, 'Completed in 1889 for the World Fair, the Eiffel Tower still draws crowds.');
+
+    expect(attribution['factual']).toMatchObject({ contributionPercentage: 1, method: 'lexical' });
+    expect(attribution['creative']!.contributionPercentage).toBe(0);
+  });
+
+  it('should not embed on the server\'s key when the user has no OpenAI key', async () => {
+    const responses = [
+      agentResponse('factual', 'Factual', 'The Eiffel Tower was completed in 1889 for the World Fair.'),
+      agentResponse('creative', 'Creative', 'Imagine Paris at night with lights sparkling everywhere.'),
+    ];
+    const realFetch = globalThis.fetch;
+    const savedKey = process.env['OPENAI_API_KEY'];
+    let requests = 0;
+    globalThis.fetch = (async () => {
+      requests++;
+      throw new Error('No network in tests');
+    }) as unknown as typeof fetch;
+    process.env['OPENAI_API_KEY'] = 'sk-server';
+
+    try {
+      const orchestrator = new TrinityOrchestrator(DEFAULT_TRINITY_CONFIG.orchestrator);
+      const attribution = await orchestrator.generateAttribution(responses, 'Completed in 1889 for the World Fair, the Eiffel Tower still draws crowds.');
+
+      expect(attribution['factual']).toMatchObject({ contributionPercentage: 1, method: 'lexical' });
+      expect(requests).toBe(0);
+    } finally {
+      globalThis.fetch = realFetch;
+      if (savedKey === undefined) {
+        delete process.env['OPENAI_API_KEY'];
+      } else {
+        process.env['OPENAI_API_KEY'] = savedKey;
+      }
+    }
+  });
+
+  it('should derive confidence from token logprobs', () => {
+    expect(confidenceFromLogprobs([Math.log(0.9), Math.log(0.9)])).toBeCloseTo(0.9);
+    expect(confidenceFromLogprobs([0, Math.log(0.25)])).toBeCloseTo(0.5);
+    expect(confidenceFromLogprobs([])).toBeUndefined();
+    expect(confidenceFromLogprobs(undefined)).toBeUndefined();
+  });
+
+  it('should revise answers over every debate round before blending', async () => {
+    const agents = debateConfig.agents.map(config => new DebatingAgent(config));
+    const response = await debateManager(agents).executeDebate([{ role: 'user', content: 'Monolith or services?' }], debateConfig, debateApiKeys);
+
+    expect(response.rounds!.map(round => round.round)).toEqual([0, 1, 2]);
+    expect(response.rounds![0]!.responses.map(r => r.content)).toEqual(['Analytical v0', 'Factual v0', 'Creative v0']);
+    expect(response.agentResponses.map(r => r.content)).toEqual(['Analytical v2', 'Factual v2', 'Creative v2']);
+    expect(response.agentResponses[0]!.critique).toBe('Factual v1, Creative v1 missed something.');
+    expect(response.finalResponse).toMatch(/ v2$/);
+    expect(response.orchestratorMetadata.executionMode).toBe('debate');
+    expect(response.orchestratorMetadata.tokenUsage.totalTokens).toBe(150 * 9);
+
+    // Each round shows an agent its own latest answer and the others'
+    expect(agents[1]!.debates[2]!.ownResponse!.content).toBe('Factual v1');
+    expect(agents[1]!.debates[2]!.peerResponses.map(r => r.content)).toEqual(['Analytical v1', 'Creative v1']);
+  });
+
+  it('should keep an agent\'s last answer when its revision fails', async () => {
+    const agents = debateConfig.agents.map((config, i) => new DebatingAgent(config, i === 2 ? 2 : Infinity));
+    const response = await debateManager(agents).executeDebate([{ role: 'user', content: 'Monolith or services?' }], debateConfig, debateApiKeys);
+
+    expect(response.rounds![2]!.responses).toHaveLength(2);
+    expect(response.agentResponses.map(r => r.content)).toEqual(['Analytical v2', 'Factual v2', 'Creative v1']);
+  });
+
+  it('should stream every debate round with its index', async () => {
+    const agents = debateConfig.agents.map(config => new DebatingAgent(config));
+    const chunks: TrinityStreamChunk[] = [];
+    for await (const chunk of debateManager(agents).streamTrinityResponse([{ role: 'user', content: 'Monolith or services?' }], debateConfig, debateApiKeys)) {
+      chunks.push(chunk);
+    }
+
+    const completed = chunks.filter(chunk => chunk.type === 'agent_complete');
+    expect(completed.map(chunk => chunk.round)).toEqual([0, 0, 0, 1, 1, 1, 2, 2, 2]);
+    expect(completed[3]!.metadata!.critique).toBe('Factual v0, Creative v0 missed something.');
+
+    const complete = chunks.at(-1)!;
+    expect(complete.type).toBe('trinity_complete');
+    expect(complete.metadata!.rounds!.map(round => round.responses.length)).toEqual([3, 3, 3]);
+  });
+
+  it('should interleave agent tokens and stream the synthesis', async () => {
+    // Streams "<name> 0 1 2" a word at a time, yielding to the other agents between words
+    class TokenAgent extends BaseAgent {
+      override async* generateStreamResponse(): AsyncGenerator<TrinityStreamChunk, void, unknown> {
+        yield { type: 'agent_start', agentType: this.type, content: '', delta: '', isComplete: false, timestamp: 0 };
+        let content = this.config.name;
+        for (const word of ['0', '1', '2']) {
+          await new Promise(resolve => setTimeout(resolve, 1));
+          content += ` ${word}`;
+          yield { type: 'agent_chunk', agentType: this.type, content, delta: ` ${word}`, isComplete: false, timestamp: 0 };
+        }
+        yield { type: 'agent_complete', agentType: this.type, content, delta: '', isComplete: true, timestamp: 0, metadata: { confidence: 0.8 } };
+      }
+    }
+    const config = { ...DEFAULT_TRINITY_CONFIG, orchestrator: { ...DEFAULT_TRINITY_CONFIG.orchestrator, blendingStrategy: 'synthesis' as const } };
+    const blended: string[][] = [];
+    const orchestrator = new TrinityOrchestrator(DEFAULT_TRINITY_CONFIG.orchestrator);
+    orchestrator.analyzeConflicts = async () => ({ claims: [], conflicts: [] });
+    orchestrator.streamBlendResponses = async function* (responses) {
+      blended.push(responses.map(response => response.content));
+      yield { content: 'All', delta: 'All', isComplete: false };
+      yield { content: 'All three', delta: ' three', isComplete: true, usage: { model: 'gpt-4o', provider: 'openai', promptTokens: 10, completionTokens: 2, totalTokens: 12 } };
+    };
+    const manager = debateManager(config.agents.map(agent => new TokenAgent(agent)), orchestrator);
+
+    const chunks: TrinityStreamChunk[] = [];
+    for await (const chunk of manager.streamTrinityResponse([{ role: 'user', content: 'Count' }], config, debateApiKeys)) {
+      chunks.push(chunk);
+    }
+
+    // Every agent is mid-answer before any of them finishes
+    const firstComplete = chunks.findIndex(chunk => chunk.type === 'agent_complete');
+    const streamingBefore = new Set(chunks.slice(0, firstComplete).filter(chunk => chunk.type === 'agent_chunk').map(chunk => chunk.agentType));
+    expect(streamingBefore).toEqual(new Set(['analytical', 'factual', 'creative']));
+
+    expect(blended).toEqual([['Analytical 0 1 2', 'Factual 0 1 2', 'Creative 0 1 2']]);
+    expect(chunks.filter(chunk => chunk.type === 'orchestrator_chunk').map(chunk => chunk.delta)).toEqual(['All', ' three']);
+
+    const complete = chunks.at(-1)!;
+    expect(complete.type).toBe('trinity_complete');
+    expect(complete.content).toBe('All three');
+    expect(complete.metadata!.orchestratorUsage!.totalTokens).toBe(12);
+  });
+
+  it('should neither blend nor fall back once the run is stopped', async () => {
+    const controller = new AbortController();
+    const config = { ...debateConfig, executionMode: 'parallel' as const, fallbackToSingleAgent: true };
+    const agents = config.agents.map(agent => new DebatingAgent(agent));
+    let blended = false;
+    const orchestrator = new TrinityOrchestrator(DEFAULT_TRINITY_CONFIG.orchestrator);
+    orchestrator.blendResponsesWithUsage = async () => {
+      blended = true;
+      return { content: 'Blended' };
+    };
+    const manager = new TrinityExecutionManager({
+      signal: controller.signal,
+      agentFactory: config => agents.find(agent => agent.type === config.type)!,
+      orchestratorFactory: () => orchestrator,
+    });
+
+    // Agents see the run's signal, so stop as soon as the first one is asked
+    agents[0]!.generateResponse = async (_messages, context) => {
+      controller.abort();
+      expect(context.signal.aborted).toBe(true);
+      throw new Error('aborted');
+    };
+
+    await expect(manager.executeParallel([{ role: 'user', content: 'Which version?' }], config, debateApiKeys)).rejects.toThrow();
+    expect(blended).toBe(false);
+  });
+
+  it('should run the orchestrator on the provider its key was resolved for', async () => {
+    const config = {
+      ...debateConfig,
+      orchestrator: { ...debateConfig.orchestrator, model: 'claude-3-5-haiku-20241022', provider: 'anthropic' },
+    };
+    const manager = new TrinityExecutionManager({
+      orchestratorApiKey: 'anthropic-key',
+      embed: async sentences => sentences.map(() => [1]),
+      agentFactory: agent => new DebatingAgent(agent),
+    });
+
+    // The LLM judge is the only orchestrator call a best_of_three debate makes
+    const requests: Array<{ url: string; apiKey: string | undefined; model: string }> = [];
+    const realFetch = globalThis.fetch;
+    globalThis.fetch = (async (url: string, init: { headers: Record<string, string>; body: string }) => {
+      requests.push({
+        url: String(url),
+        apiKey: init.headers['x-api-key'],
+        model: JSON.parse(init.body).model,
+      });
+      return Response.json({ content: [{ type: 'text', text: 'No scores' }], usage: { input_tokens: 10, output_tokens: 2 } });
+    }) as unknown as typeof fetch;
+
+    try {
+      await manager.executeDebate([{ role: 'user', content: 'Monolith or services?' }], config, debateApiKeys);
+    } finally {
+      globalThis.fetch = realFetch;
+    }
+
+    expect(requests).toEqual([
+      { url: 'https://api.anthropic.com/v1/messages', apiKey: 'anthropic-key', model: 'claude-3-5-haiku-20241022' },
+    ]);
+  });
+
+  it('should take replies that ignore the debate format as the answer', () => {
+    expect(splitDebateResponse('**Critique:** Too slow.\n**Revised answer:** Use a queue.'))
+      .toEqual({ critique: 'Too slow.', content: 'Use a queue.' });
+    expect(splitDebateResponse('Use a queue.')).toEqual({ content: 'Use a queue.' });
+  });
+
+  it('should read the agents\' claims and contradictions from the analysis reply', () => {
+    const responses = [
+      agentResponse('security-reviewer', 'Security Reviewer', 'Expire tokens hourly.'),
+      agentResponse('analytical', 'Analytical', 'Tokens can live for a week.'),
+    ];
+    const reply = `Here you go:
+\`\`\`json
+{
+  "claims": [
+    {"agent": "security-reviewer", "claim": "Tokens should expire hourly"},
+    {"agent": "Analytical", "claim": "Week-long tokens are fine"},
+    {"agent": "creative", "claim": "Not in this run"}
+  ],
+  "conflicts": [
+    {"topic": "Token lifetime", "severity": "major", "positions": [
+      {"agent": "security-reviewer", "position": "One hour"},
+      {"agent": "analytical", "position": "One week"}
+    ]},
+    {"topic": "Only one side", "severity": "catastrophic", "positions": [
+      {"agent": "analytical", "position": "Anything"},
+      {"agent": "creative", "position": "Unknown agent"}
+    ]}
+  ]
+}
+\`\`\``;
+
+    const analysis = parseConflictAnalysis(reply, responses);
+
+    expect(analysis.claims.map(claim => claim.agentType)).toEqual(['security-reviewer', 'analytical']);
+    expect(analysis.conflicts).toEqual([{
+      topic: 'Token lifetime',
+      severity: 'major',
+      positions: [
+        { agentType: 'security-reviewer', position: 'One hour' },
+        { agentType: 'analytical', position: 'One week' },
+      ],
+    }]);
+    expect(parseConflictAnalysis('The agents broadly agree.', responses)).toEqual({ claims: [], conflicts: [] });
+  });
+
+  it('should weigh down agents in major conflicts without dropping them', () => {
+    const orchestrator = new TrinityOrchestrator(DEFAULT_TRINITY_CONFIG.orchestrator);
+    const responses = [
+      { ...agentResponse('analytical', 'Analytical', 'A'), confidence: 0.25 },
+      agentResponse('factual', 'Factual', 'B'),
+      agentResponse('creative', 'Creative', 'C'),
+    ];
+    const conflicts: TrinityConflict[] = [
+      { topic: 'Lifetime', severity: 'major', positions: [{ agentType: 'analytical', position: 'x' }, { agentType: 'factual', position: 'y' }] },
+      { topic: 'Naming', severity: 'minor', positions: [{ agentType: 'factual', position: 'x' }, { agentType: 'creative', position: 'y' }] },
+    ];
+
+    const resolved = orchestrator.resolveConflicts(responses, conflicts);
+
+    expect(resolved[0]!.confidence).toBe(0.2);
+    expect(resolved[1]!.confidence).toBeCloseTo(0.7);
+    expect(resolved[2]!.confidence).toBe(0.8);
+    expect(orchestrator.resolveConflicts(responses, [])).toEqual(responses);
+  });
+
+  it('should blend with the points of disagreement and return them', async () => {
+    const config = { ...debateConfig, debateRounds: 1, orchestrator: DEFAULT_TRINITY_CONFIG.orchestrator };
+    const conflicts: TrinityConflict[] = [
+      { topic: 'Which version', severity: 'minor', positions: [{ agentType: 'analytical', position: 'v0' }, { agentType: 'creative', position: 'v0' }] },
+    ];
+    const usage = { model: 'gpt-4o', provider: 'openai', promptTokens: 100, completionTokens: 20, totalTokens: 120 };
+    const blended: unknown[] = [];
+    const orchestrator = new TrinityOrchestrator(DEFAULT_TRINITY_CONFIG.orchestrator);
+    orchestrator.analyzeConflicts = async () => ({ claims: [{ agentType: 'analytical', claim: 'v0' }], conflicts, usage });
+    orchestrator.blendResponsesWithUsage = async (_responses, _strategy, _messages, _apiKey, blendConflicts) => {
+      blended.push(blendConflicts);
+      return { content: 'Blended', usage };
+    };
+    const manager = debateManager(config.agents.map(agent => new DebatingAgent(agent)), orchestrator);
+
+    const response = await manager.executeDebate([{ role: 'user', content: 'Which version?' }], config, debateApiKeys);
+
+    expect(blended).toEqual([conflicts]);
+    expect(response.conflictAnalysis).toEqual({ claims: [{ agentType: 'analytical', claim: 'v0' }], conflicts });
+    expect(response.orchestratorMetadata.orchestratorUsage!.totalTokens).toBe(240);
+  });
+
+  it('should pick the answer the judge scores highest and keep every score', async () => {
+    const responses = [
+      agentResponse('analytical', 'Analytical', 'A long analysis full of data that misses the question entirely. '.repeat(10)),
+      agentResponse('factual', 'Factual', 'Use a queue.'),
+    ];
+    const judge = {
+      name: 'test',
+      judge: async () => ({
+        scores: [
+          { agentType: 'factual', judge: 'test', score: 0.9, criteria: { relevance: 9, correctness: 9, completeness: 9 }, rationale: 'Direct.' },
+          { agentType: 'analytical', judge: 'test', score: 0.3, criteria: { relevance: 2, correctness: 4, completeness: 3 }, rationale: 'Off topic.' },
+        ],
+      }),
+    };
+    const messages = [{ role: 'user' as const, content: 'How do I smooth out load spikes?' }];
+
+    const judged = await new TrinityOrchestrator({ ...DEFAULT_TRINITY_CONFIG.orchestrator, judge })
+      .blendResponsesWithUsage(responses, 'best_of_three', messages, 'key');
+    expect(judged.content).toBe('Use a queue.');
+    expect(judged.scores!.map(score => score.rationale)).toEqual(['Direct.', 'Off topic.']);
+
+    // Without a key the LLM judge can't run, so the heuristic picks the longer answer
+    const offline = await new TrinityOrchestrator(DEFAULT_TRINITY_CONFIG.orchestrator)
+      .blendResponsesWithUsage(responses, 'best_of_three', messages);
+    expect(offline.content).toBe(responses[0]!.content);
+    expect(offline.scores!.map(score => score.judge)).toEqual(['heuristic', 'heuristic']);
+    expect(offline.scores![0]!.criteria).toBeUndefined();
+  });
+
+  it('should read rubric scores for every response from the judge reply', () => {
+    const responses = [
+      agentResponse('analytical', 'Analytical', 'A'),
+      agentResponse('security-reviewer', 'Security Reviewer', 'B'),
+    ];
+    const reply = `\`\`\`json
+{"scores": [
+  {"agent": "security-reviewer", "relevance": 9, "correctness": 6, "completeness": 6, "rationale": "Relevant but thin."},
+  {"agent": "analytical", "relevance": 3, "correctness": 3, "completeness": 3}
+]}
+\`\`\``;
+
+    const scores = parseJudgeScores(reply, responses, 'llm')!;
+
+    expect(scores.map(score => score.agentType)).toEqual(['analytical', 'security-reviewer']);
+    expect(scores[0]!.score).toBeCloseTo(0.3);
+    expect(scores[1]).toEqual({
+      agentType: 'security-reviewer',
+      judge: 'llm',
+      score: 0.7,
+      criteria: { relevance: 9, correctness: 6, completeness: 6 },
+      rationale: 'Relevant but thin.',
+    });
+    expect(parseJudgeScores('{"scores": [{"agent": "analytical", "relevance": 3, "correctness": 3, "completeness": 3}]}', responses, 'llm'))
+      .toBeNull();
+    expect(parseJudgeScores('{"scores": [{"agent": "analytical", "relevance": 11, "correctness": 3, "completeness": 3}]}', responses.slice(0, 1), 'llm'))
+      .toBeNull();
+  });
+});
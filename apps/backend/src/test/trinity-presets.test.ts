@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'bun:test';
+import { TRPCError } from '@trpc/server';
+import { DEFAULT_TRINITY_CONFIG, TRINITY_PRESETS } from '../lib/trinity-mode.js';
+import {
+  createTrinityPreset,
+  deleteTrinityPreset,
+  duplicateTrinityPreset,
+  exportTrinityPresets,
+  importTrinityPresets,
+  listTrinityPresets,
+  resolveTrinityRunConfig,
+  setDefaultTrinityPreset,
+} from '../lib/trinity-presets.js';
+import { fakeTable } from './fake-prisma.js';
+
+const reviewConfig = {
+  ...DEFAULT_TRINITY_CONFIG,
+  executionMode: 'sequential' as const,
+  agents: [
+    { ...DEFAULT_TRINITY_CONFIG.agents[0]!, model: 'claude-3-5-haiku-20241022', provider: 'anthropic' },
+    {
+      ...DEFAULT_TRINITY_CONFIG.agents[1]!,
+      type: 'security-reviewer',
+      name: 'Security Reviewer',
+      systemPrompt: 'You review every answer for security problems.',
+    },
+  ],
+};
+
+interface PresetRow {
+  id: string;
+  userId: string;
+  name: string;
+  description: string | null;
+  config: unknown;
+  updatedAt: Date;
+}
+
+// In-memory stand-in for the preset, user and thread tables
+function presetPrisma() {
+  const presets: PresetRow[] = [];
+  const users = [{ id: 'user-1', defaultTrinityPreset: null as string | null }];
+  const threads = [{ id: 'thread-1', userId: 'user-1', defaultTrinityPreset: null as string | null }];
+
+  const client = {
+    presets,
+    users,
+    threads,
+    trinityPreset: fakeTable(presets, (data, count) => ({
+      id: `preset-${count}`, userId: '', name: '', description: null, config: null, ...data, updatedAt: new Date(),
+    })),
+    user: fakeTable(users),
+    thread: fakeTable(threads),
+  };
+
+  return {
+    ...client,
+    // Rolls back the presets created when the callback fails
+    $transaction: async <T>(fn: (tx: typeof client) => Promise<T>): Promise<T> => {
+      const saved = presets.length;
+      try {
+        return await fn(client);
+      } catch (error) {
+        presets.splice(saved);
+        throw error;
+      }
+    },
+  };
+}
+
+async function errorCode(promise: Promise<unknown>): Promise<string | undefined> {
+  const error = await promise.catch(e => e);
+  expect(error).toBeInstanceOf(TRPCError);
+  return (error as TRPCError).code;
+}
+
+describe('Trinity presets', () => {
+  it('should list built-in presets followed by the user\'s own', async () => {
+    const prisma = presetPrisma();
+    await createTrinityPreset(prisma, 'user-1', { name: 'Code Review', config: reviewConfig });
+
+    const { presets, defaultPresetId } = await listTrinityPresets(prisma, 'user-1');
+
+    expect(presets.map(preset => preset.name)).toEqual([
+      'Creative Writing',
+      'Research Analysis',
+      'Problem Solving',
+      'Brainstorming',
+      'Code Review',
+    ]);
+    expect(presets[3]!.config.agents).toEqual(TRINITY_PRESETS['brainstorming']!.agents!);
+    expect(presets.map(preset => preset.builtIn)).toEqual([true, true, true, true, false]);
+    expect(defaultPresetId).toBeNull();
+  });
+
+  it('should reject duplicate names and other users\' presets', async () => {
+    const prisma = presetPrisma();
+    const preset = await createTrinityPreset(prisma, 'user-1', { name: 'Code Review', config: reviewConfig });
+
+    expect(await errorCode(createTrinityPreset(prisma, 'user-1', { name: 'Code Review', config: reviewConfig })))
+      .toBe('CONFLICT');
+    expect(await errorCode(deleteTrinityPreset(prisma, 'user-2', preset.id))).toBe('NOT_FOUND');
+    expect(await errorCode(setDefaultTrinityPreset(prisma, 'user-1', preset.id, 'thread-2'))).toBe('NOT_FOUND');
+  });
+
+  it('should duplicate built-in presets under a free name', async () => {
+    const prisma = presetPrisma();
+
+    const first = await duplicateTrinityPreset(prisma, 'user-1', 'brainstorming');
+    const second = await duplicateTrinityPreset(prisma, 'user-1', 'brainstorming');
+
+    expect(first.name).toBe('Brainstorming (copy)');
+    expect(second.name).toBe('Brainstorming (copy) (2)');
+    expect(second.builtIn).toBe(false);
+    expect(second.config.orchestrator.blendingStrategy).toBe('best_of_three');
+  });
+
+  it('should run with the request\'s preset, else the thread\'s, else the user\'s', async () => {
+    const prisma = presetPrisma();
+    const preset = await createTrinityPreset(prisma, 'user-1', { name: 'Code Review', config: reviewConfig });
+    const thread = prisma.threads[0]!;
+
+    const none = await resolveTrinityRunConfig(prisma, 'user-1', thread, { executionMode: 'parallel' });
+    expect(none.presetId).toBeUndefined();
+    expect(none.config.agents).toEqual(DEFAULT_TRINITY_CONFIG.agents);
+
+    await setDefaultTrinityPreset(prisma, 'user-1', preset.id);
+    const userDefault = await resolveTrinityRunConfig(prisma, 'user-1', thread, {});
+    expect(userDefault.presetId).toBe(preset.id);
+    expect(userDefault.config.agents[1]!.name).toBe('Security Reviewer');
+    expect(userDefault.config.executionMode).toBe('sequential');
+
+    // A mode the request sets explicitly wins over the preset's
+    const overridden = await resolveTrinityRunConfig(prisma, 'user-1', thread, { executionMode: 'parallel' });
+    expect(overridden.config.executionMode).toBe('parallel');
+
+    await setDefaultTrinityPreset(prisma, 'user-1', 'brainstorming', 'thread-1');
+    const threadDefault = await resolveTrinityRunConfig(prisma, 'user-1', thread, { executionMode: 'parallel' });
+    expect(threadDefault.presetId).toBe('brainstorming');
+
+    const requested = await resolveTrinityRunConfig(prisma, 'user-1', thread, {
+      executionMode: 'parallel',
+      preset: 'research-analysis',
+    });
+    expect(requested.presetId).toBe('research-analysis');
+
+    await deleteTrinityPreset(prisma, 'user-1', preset.id);
+    expect(prisma.users[0]!.defaultTrinityPreset).toBeNull();
+  });
+
+  it('should round-trip presets through export and import', async () => {
+    const prisma = presetPrisma();
+    await createTrinityPreset(prisma, 'user-1', { name: 'Code Review', description: 'Two reviewers', config: reviewConfig });
+
+    const exported = JSON.parse(JSON.stringify(await exportTrinityPresets(prisma, 'user-1')));
+    const imported = await importTrinityPresets(prisma, 'user-1', exported);
+
+    expect(imported).toHaveLength(1);
+    expect(imported[0]).toMatchObject({ name: 'Code Review (2)', description: 'Two reviewers', config: reviewConfig });
+
+    const invalid = { ...exported, presets: [{ ...exported.presets[0], config: { ...reviewConfig, agents: [] } }] };
+    expect(await errorCode(importTrinityPresets(prisma, 'user-1', invalid))).toBe('BAD_REQUEST');
+    expect(await errorCode(importTrinityPresets(prisma, 'user-1', { version: 2, presets: [] }))).toBe('BAD_REQUEST');
+  });
+
+  it('should import all presets or none', async () => {
+    const prisma = presetPrisma();
+    const create = prisma.trinityPreset.create;
+    prisma.trinityPreset.create = (args: Parameters<typeof create>[0]) => (prisma.presets.length === 1 ? Promise.reject(new Error('Connection lost')) : create(args));
+
+    const document = {
+      version: 1,
+      presets: [{ name: 'First', config: reviewConfig }, { name: 'Second', config: reviewConfig }],
+    };
+    await expect(importTrinityPresets(prisma, 'user-1', document)).rejects.toThrow('Connection lost');
+    expect(prisma.presets).toEqual([]);
+  });
+
+  it('should leave out saved presets whose config no longer validates', async () => {
+    const prisma = presetPrisma();
+    const preset = await createTrinityPreset(prisma, 'user-1', { name: 'Code Review', config: reviewConfig });
+    prisma.presets[0]!.config = { ...reviewConfig, agents: [] };
+
+    const { presets } = await listTrinityPresets(prisma, 'user-1');
+    expect(presets.map(preset => preset.name)).not.toContain('Code Review');
+    expect(await errorCode(exportTrinityPresets(prisma, 'user-1', [preset.id]))).toBe('PRECONDITION_FAILED');
+
+    // A run that names it gets the defaults instead
+    const run = await resolveTrinityRunConfig(prisma, 'user-1', prisma.threads[0]!, { preset: preset.id });
+    expect(run.presetId).toBeUndefined();
+    expect(run.config.agents).toEqual(DEFAULT_TRINITY_CONFIG.agents);
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect } from 'bun:test';
+import {
+  agentUsageFromResponses,
+  agentUsageFromStreamChunk,
+  estimateCost,
+  recordUsage,
+  resolveUsage,
+  trinityUsageEntries,
+  type UsageEntry,
+} from '../lib/usage-ledger.js';
+import { fakeTable } from './fake-prisma.js';
+import type { AgentResponse, AgentType } from '../lib/trinity-mode.js';
+
+function agentResponse(agentType: AgentType, promptTokens: number, completionTokens: number): AgentResponse {
+  return {
+    agentType,
+    content: 'Answer',
+    confidence: 0.8,
+    executionTime: 100,
+    tokenUsage: { promptTokens, completionTokens, totalTokens: promptTokens + completionTokens },
+    metadata: { model: 'gpt-4o-mini', provider: 'openai', temperature: 0.7 },
+  };
+}
+
+// Keeps records in memory, or fails like a database without the ledger table
+function recordingPrisma(fail = false) {
+  const usageRecord = fakeTable<{ id: string } & Record<string, unknown>>([]);
+  if (fail) {
+    usageRecord.createMany = () => Promise.reject(new Error('relation "usage_records" does not exist'));
+  }
+  return { usageRecord };
+}
+
+describe('Usage ledger', () => {
+  it('should price calls from the model registry', () => {
+    const cost = estimateCost('openai', 'gpt-4o-mini', 1_000_000, 1_000_000);
+    expect(cost).toBeGreaterThan(0);
+    expect(estimateCost('openai', 'gpt-4o-mini', 2_000_000, 2_000_000)).toBeCloseTo(cost * 2);
+
+    // Unknown models have no pricing
+    expect(estimateCost('custom', 'llama3', 1000, 1000)).toBe(0);
+  });
+
+  it('should prefer reported usage and estimate otherwise', () => {
+    const reported = resolveUsage(
+      { promptTokens: 12, completionTokens: 30, totalTokens: 42 },
+      { provider: 'openai', promptTokens: 999, content: 'ignored' }
+    );
+    expect(reported).toEqual({ promptTokens: 12, completionTokens: 30, estimated: false });
+
+    const estimated = resolveUsage(undefined, { provider: 'openai', promptTokens: 50, content: 'a'.repeat(400) });
+    expect(estimated).toEqual({ promptTokens: 50, completionTokens: 100, estimated: true });
+  });
+
+  it('should build one entry per agent plus the orchestrator', () => {
+    const entries = trinityUsageEntries(
+      agentUsageFromResponses([agentResponse('analytical', 100, 50), agentResponse('creative', 0, 0)]),
+      { model: 'gpt-4o', provider: 'openai', promptTokens: 300, completionTokens: 80, totalTokens: 380 },
+      { userId: 'user-1', threadId: 'thread-1', messageId: 'msg-1', preset: 'balanced' }
+    );
+
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toMatchObject({
+      source: 'trinity_agent',
+      agentType: 'analytical',
+      preset: 'balanced',
+      promptTokens: 100,
+      completionTokens: 50,
+    });
+    expect(entries[1]).toMatchObject({ source: 'trinity_orchestrator', model: 'gpt-4o', promptTokens: 300 });
+  });
+
+  it('should read agent usage from stream chunks', () => {
+    const usage = agentUsageFromStreamChunk({
+      type: 'agent_complete',
+      agentType: 'factual',
+      content: 'Answer',
+      delta: '',
+      isComplete: true,
+      timestamp: Date.now(),
+      metadata: {
+        model: 'claude-3-5-sonnet-20241022',
+        provider: 'anthropic',
+        tokenUsage: { promptTokens: 20, completionTokens: 10, totalTokens: 30 },
+      },
+    });
+    expect(usage).toEqual({
+      agentType: 'factual',
+      provider: 'anthropic',
+      model: 'claude-3-5-sonnet-20241022',
+      promptTokens: 20,
+      completionTokens: 10,
+    });
+
+    expect(agentUsageFromStreamChunk({
+      type: 'agent_complete',
+      agentType: 'factual',
+      content: 'Error: timeout',
+      delta: '',
+      isComplete: true,
+      timestamp: Date.now(),
+    })).toBeNull();
+  });
+
+  it('should store totals and cost with each record', async () => {
+    const prisma = recordingPrisma();
+    const entry: UsageEntry = {
+      userId: 'user-1',
+      source: 'chat',
+      provider: 'openai',
+      model: 'gpt-4o-mini',
+      promptTokens: 1000,
+      completionTokens: 500,
+      estimated: true,
+    };
+
+    await recordUsage(prisma, [entry]);
+
+    expect(prisma.usageRecord.rows).toHaveLength(1);
+    expect(prisma.usageRecord.rows[0]).toMatchObject({
+      threadId: null,
+      totalTokens: 1500,
+      estimated: true,
+      costUsd: estimateCost('openai', 'gpt-4o-mini', 1000, 500),
+    });
+  });
+
+  it('should never throw when recording fails', async () => {
+    const prisma = recordingPrisma(true);
+    const entry: UsageEntry = {
+      userId: 'user-1',
+      source: 'chat',
+      provider: 'openai',
+      model: 'gpt-4o-mini',
+      promptTokens: 1,
+      completionTokens: 1,
+    };
+
+    await expect(recordUsage(prisma, [entry])).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, it, expect, afterEach } from 'bun:test';
+import { ensureVectorIndexes, hnswSearchSettings, pgvectorVersion, vectorIndexName } from '../lib/vector-indexes.js';
+
+const savedEnv = { efSearch: process.env['HNSW_EF_SEARCH'], iterativeScan: process.env['HNSW_ITERATIVE_SCAN'] };
+
+function fakeDatabase(lengths: number[], indexes: Array<{ name: string; valid: boolean }>) {
+  const statements: string[] = [];
+  return {
+    statements,
+    prisma: {
+      $queryRawUnsafe: (sql: string) => Promise.resolve(
+        sql.includes('pg_index') ? indexes : lengths.map(embeddingDimensions => ({ embeddingDimensions }))
+      ),
+      $executeRawUnsafe: (sql: string) => {
+        statements.push(sql.replace(/\s+/g, ' ').trim());
+        return Promise.resolve(0);
+      },
+    },
+  };
+}
+
+describe('Vector indexes', () => {
+  afterEach(() => {
+    for (const [name, value] of [['HNSW_EF_SEARCH', savedEnv.efSearch], ['HNSW_ITERATIVE_SCAN', savedEnv.iterativeScan]] as const) {
+      if (value === undefined) {
+        delete process.env[name];
+      } else {
+        process.env[name] = value;
+      }
+    }
+  });
+
+  it('should build the missing indexes for each metric and rebuild invalid ones', async () => {
+    const { prisma, statements } = fakeDatabase([1536, 256, 3072], [
+      { name: vectorIndexName('cosine', 1536), valid: true },
+      { name: vectorIndexName('dotProduct', 1536), valid: true },
+      { name: vectorIndexName('l2', 1536), valid: true },
+      { name: vectorIndexName('cosine', 256), valid: false },
+      { name: 'memory_cards_userId_idx', valid: true },
+    ]);
+
+    const built = await ensureVectorIndexes(prisma);
+
+    // Nothing for 1536 (done) or 3072 (too long for HNSW)
+    expect(built).toEqual([
+      'memory_cards_embedding_256_cosine_idx',
+      'memory_cards_embedding_256_ip_idx',
+      'memory_cards_embedding_256_l2_idx',
+    ]);
+    expect(statements).toEqual([
+      'DROP INDEX CONCURRENTLY IF EXISTS "memory_cards_embedding_256_cosine_idx"',
+      'CREATE INDEX CONCURRENTLY IF NOT EXISTS "memory_cards_embedding_256_cosine_idx" ON "memory_cards" USING hnsw (("embedding"::vector(256)) vector_cosine_ops) WHERE "embeddingDimensions" = 256',
+      'CREATE INDEX CONCURRENTLY IF NOT EXISTS "memory_cards_embedding_256_ip_idx" ON "memory_cards" USING hnsw (("embedding"::vector(256)) vector_ip_ops) WHERE "embeddingDimensions" = 256',
+      'CREATE INDEX CONCURRENTLY IF NOT EXISTS "memory_cards_embedding_256_l2_idx" ON "memory_cards" USING hnsw (("embedding"::vector(256)) vector_l2_ops) WHERE "embeddingDimensions" = 256',
+    ]);
+  });
+
+  it('should keep ef_search between the limit and what pgvector accepts', () => {
+    delete process.env['HNSW_EF_SEARCH'];
+    delete process.env['HNSW_ITERATIVE_SCAN'];
+
+    expect(hnswSearchSettings(10, {}, '0.8.0')).toEqual([
+      'SET LOCAL hnsw.ef_search = 100',
+      'SET LOCAL hnsw.iterative_scan = strict_order',
+    ]);
+    expect(hnswSearchSettings(50, { efSearch: 20 })[0]).toBe('SET LOCAL hnsw.ef_search = 50');
+    expect(hnswSearchSettings(10, { efSearch: 5000 })[0]).toBe('SET LOCAL hnsw.ef_search = 1000');
+    expect(() => hnswSearchSettings(10, { efSearch: 1.5 })).toThrow('Invalid ef_search');
+  });
+
+  it('should take defaults from the environment and skip the index for exact searches', () => {
+    process.env['HNSW_EF_SEARCH'] = '64';
+    process.env['HNSW_ITERATIVE_SCAN'] = 'off';
+
+    expect(hnswSearchSettings(10, {}, '0.8.0')).toEqual(['SET LOCAL hnsw.ef_search = 64']);
+    expect(hnswSearchSettings(10, { exact: true })).toEqual(['SET LOCAL enable_indexscan = off']);
+  });
+
+  it('should only scan iteratively on pgvector 0.8 or later', async () => {
+    delete process.env['HNSW_ITERATIVE_SCAN'];
+
+    expect(hnswSearchSettings(10, {}, '0.7.4')).toEqual(['SET LOCAL hnsw.ef_search = 100']);
+    expect(hnswSearchSettings(10, {}, null)).toEqual(['SET LOCAL hnsw.ef_search = 100']);
+    expect(hnswSearchSettings(10, {}, '0.10.0')).toContain('SET LOCAL hnsw.iterative_scan = strict_order');
+
+    let lookups = 0;
+    const prisma = {
+      $queryRaw: () => {
+        lookups++;
+        return Promise.resolve([{ extversion: '0.7.4' }]);
+      },
+    };
+    expect(await pgvectorVersion(prisma)).toBe('0.7.4');
+    expect(await pgvectorVersion(prisma)).toBe('0.7.4');
+    expect(lookups).toBe(1);
+
+    const unreadable = { $queryRaw: () => Promise.reject(new Error('permission denied')) };
+    expect(await pgvectorVersion(unreadable)).toBeNull();
+  });
+});
@@ -3,6 +3,7 @@ import {
   searchSimilarMemoryCards,
   searchSimilarMemoryCardsDotProduct,
   searchSimilarMemoryCardsL2,
+  searchMemoryCardsFullText,
   createMemoryCard,
   updateMemoryCardEmbedding,
   getMemoryCardsWithoutEmbeddings,
@@ -14,6 +15,7 @@ import {
 // Mock Prisma client
 const mockPrisma = {
   $queryRawUnsafe: mock(() => Promise.resolve([])),
+  $queryRaw: mock(() => Promise.resolve([{ extversion: '0.8.0' }])),
   $executeRawUnsafe: mock(() => Promise.resolve({})),
   $transaction: mock((queries: any[]) => Promise.all(queries)),
   memoryCard: {
@@ -30,6 +32,7 @@ mock.module('../lib/database', () => ({
 describe('Vector Search Service', () => {
   const testEmbedding = new Array(1536).fill(0).map(() => Math.random());
   const testUserId = 'user-123';
+  const testModel = 'openai:text-embedding-3-small';
 
   beforeAll(() => {
     // Reset all mocks before tests
@@ -67,9 +70,10 @@ describe('Vector Search Service', () => {
       expect(results).toHaveLength(1);
       expect(results[0].similarity).toBe(0.9);
       expect(mockPrisma.$queryRawUnsafe).toHaveBeenCalledWith(
-        expect.stringContaining('1 - ("embedding" <=> $1::vector) as similarity'),
+        expect.stringContaining('1 - ("embedding"::vector(1536) <=> $1::vector) as similarity'),
         expect.stringContaining('['),
-        5
+        5,
+        0.7
       );
     });
 
@@ -91,7 +95,70 @@ describe('Vector Search Service', () => {
         10,
         testUserId,
         'exclude-1',
-        'exclude-2'
+        'exclude-2',
+        0.8
+      );
+    });
+
+    test('should only compare cards embedded in the query\'s space', async () => {
+      mockPrisma.$queryRawUnsafe.mockResolvedValueOnce([]);
+
+      await searchSimilarMemoryCards([0.1, 0.2, 0.3], { userId: testUserId, embeddingModel: 'local:Xenova/all-MiniLM-L6-v2' });
+
+      expect(mockPrisma.$queryRawUnsafe).toHaveBeenCalledWith(
+        expect.stringContaining('"userId" = $3 AND "embeddingDimensions" = 3 AND "embeddingModel" = $4'),
+        '[0.1,0.2,0.3]',
+        5,
+        testUserId,
+        'local:Xenova/all-MiniLM-L6-v2',
+        0.7
+      );
+    });
+
+    test('should bind the threshold instead of writing it into the SQL', async () => {
+      mockPrisma.$queryRawUnsafe.mockResolvedValueOnce([]);
+
+      await searchSimilarMemoryCards(testEmbedding, { threshold: 0.85 });
+
+      const [sql, ...params] = (mockPrisma.$queryRawUnsafe.mock.calls.at(-1) as unknown) as [string, ...any[]];
+      expect(sql).toContain('WHERE similarity >= $3::float8');
+      expect(sql).not.toContain('0.85');
+      expect(params.at(-1)).toBe(0.85);
+    });
+
+    test('should order through the HNSW index for the embedding length', async () => {
+      mockPrisma.$queryRawUnsafe.mockResolvedValueOnce([]);
+
+      await searchSimilarMemoryCards(testEmbedding);
+
+      expect(mockPrisma.$queryRawUnsafe).toHaveBeenCalledWith(
+        expect.stringMatching(/"embeddingDimensions" = 1536 AND "embedding" IS NOT NULL\s+ORDER BY "embedding"::vector\(1536\) <=> \$1::vector\s+LIMIT \$2/),
+        expect.any(String),
+        5,
+        0.7
+      );
+    });
+
+    test('should set ef_search for the search transaction', async () => {
+      mockPrisma.$executeRawUnsafe.mockClear();
+      mockPrisma.$queryRawUnsafe.mockResolvedValueOnce([]);
+
+      await searchSimilarMemoryCards(testEmbedding, { limit: 10, efSearch: 200 });
+
+      expect(mockPrisma.$executeRawUnsafe).toHaveBeenCalledWith('SET LOCAL hnsw.ef_search = 200');
+      expect(mockPrisma.$executeRawUnsafe).toHaveBeenCalledWith('SET LOCAL hnsw.iterative_scan = strict_order');
+    });
+
+    test('should search unindexable lengths without the cast', async () => {
+      mockPrisma.$queryRawUnsafe.mockResolvedValueOnce([]);
+
+      await searchSimilarMemoryCards(new Array(3072).fill(0.1));
+
+      expect(mockPrisma.$queryRawUnsafe).toHaveBeenCalledWith(
+        expect.stringContaining('ORDER BY "embedding" <=> $1::vector'),
+        expect.any(String),
+        5,
+        0.7
       );
     });
 
@@ -117,9 +184,10 @@ describe('Vector Search Service', () => {
       await searchSimilarMemoryCardsDotProduct(testEmbedding);
 
       expect(mockPrisma.$queryRawUnsafe).toHaveBeenCalledWith(
-        expect.stringContaining('("embedding" <#> $1::vector) * -1 as similarity'),
+        expect.stringContaining('("embedding"::vector(1536) <#> $1::vector) * -1 as similarity'),
         expect.any(String),
-        5
+        5,
+        0.7
       );
     });
 
@@ -128,10 +196,12 @@ describe('Vector Search Service', () => {
 
       await searchSimilarMemoryCardsDotProduct(testEmbedding);
 
+      // <#> is the negative inner product: ascending puts the largest dot product first
       expect(mockPrisma.$queryRawUnsafe).toHaveBeenCalledWith(
-        expect.stringContaining('ORDER BY "embedding" <#> $1::vector DESC'),
+        expect.stringMatching(/ORDER BY "embedding"::vector\(1536\) <#> \$1::vector\s+LIMIT \$2\s+\) nearest\s+WHERE similarity >= \$3::float8\s+ORDER BY similarity DESC/),
         expect.any(String),
-        5
+        5,
+        0.7
       );
     });
   });
@@ -143,9 +213,10 @@ describe('Vector Search Service', () => {
       await searchSimilarMemoryCardsL2(testEmbedding);
 
       expect(mockPrisma.$queryRawUnsafe).toHaveBeenCalledWith(
-        expect.stringContaining('("embedding" <-> $1::vector) as distance'),
+        expect.stringContaining('("embedding"::vector(1536) <-> $1::vector) as distance'),
         expect.any(String),
-        5
+        5,
+        1
       );
     });
 
@@ -159,10 +230,43 @@ describe('Vector Search Service', () => {
       await searchSimilarMemoryCardsL2(testEmbedding, options);
 
       expect(mockPrisma.$queryRawUnsafe).toHaveBeenCalledWith(
-        expect.stringContaining('("embedding" <-> $1::vector) <= 0.5'),
+        expect.stringContaining('WHERE distance <= $3::float8'),
         expect.any(String),
-        5
+        5,
+        0.5
+      );
+    });
+  });
+
+  describe('searchMemoryCardsFullText', () => {
+    test('should rank tsvector matches and bind the query text', async () => {
+      mockPrisma.$queryRawUnsafe.mockResolvedValueOnce([
+        {
+          id: 'card-1',
+          userId: testUserId,
+          title: 'TRI-1234',
+          content: 'The release is blocked by TRI-1234',
+          summary: null,
+          rank: '0.4',
+          snippet: 'The release is blocked by «TRI-1234»',
+          createdAt: '2024-01-01T00:00:00Z',
+          updatedAt: '2024-01-01T00:00:00Z',
+        },
+      ] as any);
+
+      const results = await searchMemoryCardsFullText('TRI-1234', {
+        userId: testUserId,
+        excludeIds: ['card-2'],
+      });
+
+      expect(mockPrisma.$queryRawUnsafe).toHaveBeenCalledWith(
+        expect.stringContaining(`"searchVector" @@ query AND "userId" = $3 AND "id" NOT IN ($4)`),
+        'TRI-1234',
+        5,
+        testUserId,
+        'card-2'
       );
+      expect(results[0]).toMatchObject({ id: 'card-1', rank: 0.4, snippet: 'The release is blocked by «TRI-1234»' });
     });
   });
 
@@ -174,6 +278,7 @@ describe('Vector Search Service', () => {
         content: 'Test content',
         summary: 'Test summary',
         embedding: testEmbedding,
+        embeddingModel: testModel,
         metadata: { tag: 'test' },
       };
 
@@ -193,8 +298,10 @@ describe('Vector Search Service', () => {
         },
       });
       expect(mockPrisma.$executeRawUnsafe).toHaveBeenCalledWith(
-        'UPDATE "memory_cards" SET "embedding" = $1::vector WHERE "id" = $2',
+        `UPDATE "memory_cards" SET "embedding" = $1::vector, "embeddingModel" = $2, "embeddingDimensions" = $3, "embeddingStatus" = 'ready' WHERE "id" = $4`,
         expect.stringContaining('['),
+        testModel,
+        1536,
         'new-card-id'
       );
     });
@@ -205,6 +312,7 @@ describe('Vector Search Service', () => {
         title: 'Test Card',
         content: 'Test content',
         embedding: testEmbedding,
+        embeddingModel: testModel,
       };
 
       mockPrisma.memoryCard.create.mockResolvedValueOnce({ id: 'new-card-id' });
@@ -230,11 +338,13 @@ describe('Vector Search Service', () => {
       const cardId = 'existing-card-id';
       mockPrisma.$executeRawUnsafe.mockResolvedValueOnce({});
 
-      await updateMemoryCardEmbedding(cardId, testEmbedding);
+      await updateMemoryCardEmbedding(cardId, testEmbedding, testModel);
 
       expect(mockPrisma.$executeRawUnsafe).toHaveBeenCalledWith(
-        'UPDATE "memory_cards" SET "embedding" = $1::vector, "updatedAt" = NOW() WHERE "id" = $2',
+        `UPDATE "memory_cards" SET "embedding" = $1::vector, "embeddingModel" = $2, "embeddingDimensions" = $3, "embeddingStatus" = 'ready', "updatedAt" = NOW() WHERE "id" = $4`,
         expect.stringContaining('['),
+        testModel,
+        1536,
         cardId
       );
     });
@@ -243,7 +353,7 @@ describe('Vector Search Service', () => {
       const cardId = 'existing-card-id';
       mockPrisma.$executeRawUnsafe.mockRejectedValueOnce(new Error('Update failed'));
 
-      await expect(updateMemoryCardEmbedding(cardId, testEmbedding)).rejects.toThrow('Update failed');
+      await expect(updateMemoryCardEmbedding(cardId, testEmbedding, testModel)).rejects.toThrow('Update failed');
     });
   });
 
@@ -282,9 +392,9 @@ describe('Vector Search Service', () => {
   describe('batchUpdateEmbeddings', () => {
     test('should batch update multiple embeddings', async () => {
       const updates = [
-        { id: 'card-1', embedding: testEmbedding },
-        { id: 'card-2', embedding: testEmbedding },
-        { id: 'card-3', embedding: testEmbedding },
+        { id: 'card-1', embedding: testEmbedding, embeddingModel: testModel },
+        { id: 'card-2', embedding: testEmbedding, embeddingModel: testModel },
+        { id: 'card-3', embedding: testEmbedding, embeddingModel: testModel },
       ];
 
       mockPrisma.$transaction.mockResolvedValueOnce([{}, {}, {}]);
@@ -309,7 +419,7 @@ describe('Vector Search Service', () => {
     });
 
     test('should handle batch update errors', async () => {
-      const updates = [{ id: 'card-1', embedding: testEmbedding }];
+      const updates = [{ id: 'card-1', embedding: testEmbedding, embeddingModel: testModel }];
       mockPrisma.$transaction.mockRejectedValueOnce(new Error('Transaction failed'));
 
       await expect(batchUpdateEmbeddings(updates)).rejects.toThrow('Transaction failed');
@@ -367,12 +477,15 @@ describe('Vector Search Service', () => {
         title: 'Test',
         content: 'Test',
         embedding: testVector,
+        embeddingModel: testModel,
       });
 
       // Check that the vector was formatted correctly for PostgreSQL
       expect(mockPrisma.$executeRawUnsafe).toHaveBeenCalledWith(
         expect.any(String),
         '[1.5,-2.3,0,4.7]',
+        testModel,
+        4,
         'test-id'
       );
     });
@@ -5,6 +5,8 @@ import superjson from 'superjson';
 import { ZodError } from 'zod';
 import { prisma } from '../lib/database.js';
 import { getUserFromAuth } from '../lib/auth.js';
+import { SpendLimitError } from '../lib/spend-limits.js';
+import { MissingApiKeyError } from '../lib/trinity-keys.js';
 
 // Create context for tRPC - updated for Hono adapter with authentication
 export const createContext = async (_opts: FetchCreateContextFnOptions, c: HonoContext) => {
@@ -37,6 +39,14 @@ const t = initTRPC.context<Context>().create({
           error.cause instanceof ZodError
             ? error.cause.flatten()
             : null,
+        spendLimit:
+          error.cause instanceof SpendLimitError
+            ? error.cause.details
+            : null,
+        missingApiKeys:
+          error.cause instanceof MissingApiKeyError
+            ? error.cause.missing
+            : null,
       },
     };
   },
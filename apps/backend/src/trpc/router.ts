@@ -5,6 +5,9 @@ import { authRouter } from '../routes/auth.js';
 import { memoryCardsRouter } from '../routes/memory-cards.js';
 import { conflictResolutionRouter } from '../routes/conflict-resolution.js';
 import { trinityRouter } from '../routes/trinity.js';
+import { trinityEvalRouter } from '../routes/trinity-eval.js';
+import { usageRouter } from '../routes/usage.js';
+import { attachmentsRouter } from '../routes/attachments.js';
 
 // Main app router combining all sub-routers
 export const appRouter = router({
@@ -14,6 +17,9 @@ export const appRouter = router({
   memoryCards: memoryCardsRouter,
   conflictResolution: conflictResolutionRouter,
   trinity: trinityRouter,
+  trinityEval: trinityEvalRouter,
+  usage: usageRouter,
+  attachments: attachmentsRouter,
 });
 
 // Export the router type for use in frontend
@@ -0,0 +1,87 @@
+import { trpc } from './trpc';
+
+// Mirrors the types and limits the backend accepts (apps/backend/src/lib/attachments.ts)
+export const ACCEPTED_ATTACHMENT_TYPES = [
+  'image/png',
+  'image/jpeg',
+  'image/gif',
+  'image/webp',
+  'application/pdf',
+  'text/plain',
+  'text/markdown',
+  'text/csv',
+  'application/json',
+] as const;
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024;
+export const MAX_ATTACHMENTS_PER_MESSAGE = 5;
+
+type AttachmentMimeType = (typeof ACCEPTED_ATTACHMENT_TYPES)[number];
+
+// Browsers often leave the type empty for these
+const TYPES_BY_EXTENSION: Record<string, AttachmentMimeType> = {
+  md: 'text/markdown',
+  markdown: 'text/markdown',
+  csv: 'text/csv',
+  json: 'application/json',
+  txt: 'text/plain',
+};
+
+// A file picked, pasted or dropped into the message input
+export interface PendingAttachment {
+  localId: string;
+  file: File;
+  mimeType: AttachmentMimeType;
+  previewUrl: string | null; // Object URL for image thumbnails
+  status: 'uploading' | 'ready' | 'error';
+  id?: string; // Backend attachment id once uploaded
+  error?: string;
+}
+
+export function attachmentMimeType(file: File): AttachmentMimeType | null {
+  const type = file.type || TYPES_BY_EXTENSION[file.name.split('.').pop()?.toLowerCase() ?? ''] || '';
+  return (ACCEPTED_ATTACHMENT_TYPES as readonly string[]).includes(type) ? (type as AttachmentMimeType) : null;
+}
+
+/**
+ * Why a file can't be attached, or null if it can
+ */
+export function validateAttachment(file: File): string | null {
+  if (!attachmentMimeType(file)) {
+    return `${file.name}: images, PDFs and text files only`;
+  }
+  if (file.size > MAX_ATTACHMENT_BYTES) {
+    return `${file.name}: larger than ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB`;
+  }
+  return null;
+}
+
+/**
+ * Upload a file straight to object storage through a presigned URL and
+ * return its attachment id
+ */
+export async function uploadAttachment(file: File, mimeType: AttachmentMimeType): Promise<string> {
+  const { attachment, uploadUrl } = await trpc.attachments.createUpload.mutate({
+    filename: file.name,
+    mimeType,
+    size: file.size,
+  });
+
+  const response = await fetch(uploadUrl, {
+    method: 'PUT',
+    body: file,
+    headers: { 'Content-Type': mimeType },
+  });
+
+  if (!response.ok) {
+    await trpc.attachments.discard.mutate({ id: attachment.id }).catch(() => undefined);
+    throw new Error(`Upload failed (${response.status})`);
+  }
+
+  return attachment.id;
+}
+
+export function formatFileSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+}
@@ -63,6 +63,12 @@ export class StreamingErrorHandler {
       userMessage = 'Unable to connect to the chat service. Please check your internet connection.';
       retryDelay = 2000;
       maxRetries = 5;
+    } else if (this.isQuotaError(message) || this.hasQuotaErrorCode(error, context)) {
+      // Checked before auth and rate limits: spend cap messages mention tokens and limits
+      errorType = StreamingErrorType.QUOTA_EXCEEDED;
+      code = 'QUOTA_EXCEEDED';
+      userMessage = 'Usage quota exceeded. Please check your account limits.';
+      retryable = false;
     } else if (this.isAuthenticationError(message)) {
       errorType = StreamingErrorType.AUTHENTICATION;
       code = 'AUTH_FAILED';
@@ -86,11 +92,6 @@ export class StreamingErrorHandler {
       userMessage = 'Too many requests. Please wait a moment before trying again.';
       retryDelay = 10000;
       maxRetries = 2;
-    } else if (this.isQuotaError(message)) {
-      errorType = StreamingErrorType.QUOTA_EXCEEDED;
-      code = 'QUOTA_EXCEEDED';
-      userMessage = 'Usage quota exceeded. Please check your account limits.';
-      retryable = false;
     } else if (this.isModelError(message)) {
       errorType = StreamingErrorType.MODEL_ERROR;
       code = 'MODEL_ERROR';
@@ -370,6 +371,12 @@ export class StreamingErrorHandler {
     );
   }
 
+  // Backend spend limits fail with tRPC's PAYMENT_REQUIRED code
+  private hasQuotaErrorCode(error: Error | string, context?: Record<string, any>): boolean {
+    const data = typeof error === 'string' ? undefined : (error as { data?: { code?: string } }).data;
+    return data?.code === 'PAYMENT_REQUIRED' || context?.['code'] === 'PAYMENT_REQUIRED';
+  }
+
   private isModelError(message: string): boolean {
     const modelKeywords = [
       'model', 'ai error', 'generation failed', 
@@ -1,6 +1,8 @@
-import { writable, derived, type Readable } from 'svelte/store';
+import { writable, derived, get, type Readable } from 'svelte/store';
 import { trpc } from '../trpc';
 import { isAuthenticated } from './auth';
+import { toTrinityPayload, type TrinitySettings } from '../trinity';
+import { streamingService } from '../streaming';
 
 // Thread interface matching backend data
 export interface Thread {
@@ -28,6 +30,7 @@ export interface Message {
   role: 'user' | 'assistant' | 'system';
   model?: string | null;
   provider?: string | null;
+  status?: 'complete' | 'stopped';
   createdAt: Date;
   updatedAt?: Date;
   user?: {
@@ -35,6 +38,12 @@ export interface Message {
     email: string;
     username: string | null;
   };
+  attachments?: Array<{
+    id: string;
+    filename: string;
+    mimeType: string;
+    size: number;
+  }>;
 }
 
 // Chat stores
@@ -47,6 +56,14 @@ export const threadsLoading = writable<boolean>(false);
 export const messagesLoading = writable<boolean>(false);
 export const sendingMessage = writable<boolean>(false);
 
+// The generation the stop button cancels: a single-model reply streaming into
+// its message, or a Trinity request still waiting on its agents. A Trinity
+// request learns its message from generation_started once the server creates it.
+export type ActiveGeneration =
+  | { kind: 'message'; messageId: string }
+  | { kind: 'trinity'; controller: AbortController; threadId: string; messageId?: string };
+export const activeGeneration = writable<ActiveGeneration | null>(null);
+
 // Error states
 export const threadsError = writable<string | null>(null);
 export const messagesError = writable<string | null>(null);
@@ -230,7 +247,13 @@ export const messageActions = {
   },
 
   // Send a message
-  async sendMessage(content: string, model: string, provider: string, autoMemoryEnabled = false): Promise<void> {
+  async sendMessage(
+    content: string,
+    model: string,
+    provider: string,
+    autoMemoryEnabled = false,
+    attachmentIds: string[] = []
+  ): Promise<void> {
     const $currentThread = currentThread;
     let threadId: string | null = null;
     $currentThread.subscribe(value => { threadId = value?.id || null; })();
@@ -247,8 +270,9 @@ export const messageActions = {
         threadId,
         content,
         model,
-        provider: provider as 'openai' | 'anthropic' | 'google' | 'mistral' | 'openrouter',
+        provider: provider as 'openai' | 'anthropic' | 'google' | 'mistral' | 'openrouter' | 'custom',
         autoMemoryEnabled,
+        attachmentIds,
       });
       
       // Add both user and assistant messages to the current messages
@@ -257,6 +281,9 @@ export const messageActions = {
         result.userMessage,
         result.assistantMessage,
       ]);
+
+      // The reply keeps streaming over the WebSocket until it completes or is stopped
+      activeGeneration.set({ kind: 'message', messageId: result.assistantMessage.id });
       
       // Update the thread's last activity
       threads.update(current => 
@@ -278,25 +305,7 @@ export const messageActions = {
   // Send a Trinity mode message
   async sendTrinityMessage(
     content: string, 
-    config: {
-      executionMode: 'parallel' | 'sequential' | 'hybrid',
-      preset: string,
-      customWeights: {
-        analytical: number,
-        creative: number,
-        factual: number
-      },
-      agents: {
-        analytical: { model: string, provider: string },
-        creative: { model: string, provider: string },
-        factual: { model: string, provider: string }
-      },
-      orchestrator: {
-        model: string,
-        provider: string
-      },
-      advanced: any
-    },
+    config: TrinitySettings,
     autoMemoryEnabled = false
   ): Promise<void> {
     const $currentThread = currentThread;
@@ -307,23 +316,19 @@ export const messageActions = {
       throw new Error('No thread selected');
     }
 
+    const controller = new AbortController();
+
     try {
       sendingMessage.set(true);
       messagesError.set(null);
+      activeGeneration.set({ kind: 'trinity', controller, threadId });
       
       // Call Trinity API
       const result = await trpc.trinity.sendMessage.mutate({
         threadId,
         content,
-        trinityConfig: {
-          executionMode: config.executionMode,
-          preset: config.preset,
-          customConfig: {
-            ...config,
-            agentModels: config.agents
-          }
-        }
-      });
+        trinityConfig: toTrinityPayload(config)
+      }, { signal: controller.signal });
       
       console.log('Trinity API Result:', result);
       console.log('Assistant Message Type:', typeof result.assistantMessage);
@@ -356,11 +361,38 @@ export const messageActions = {
         )
       );
     } catch (error: any) {
+      if (controller.signal.aborted || error?.data?.code === 'CLIENT_CLOSED_REQUEST') {
+        // Stopped by the user: show the question that was saved before the agents started
+        await messageActions.loadMessages(threadId);
+        return;
+      }
       messagesError.set(error.message || 'Failed to send Trinity message');
       console.error('Error sending Trinity message:', error);
       throw error;
     } finally {
       sendingMessage.set(false);
+      activeGeneration.update(active => active?.kind === 'trinity' && active.controller === controller ? null : active);
+    }
+  },
+
+  // Stop the generation in progress, keeping what it wrote so far
+  async stopGeneration(): Promise<void> {
+    const generation = get(activeGeneration);
+    if (!generation) {
+      return;
+    }
+
+    activeGeneration.set(null);
+    if (generation.kind === 'trinity' && !generation.messageId) {
+      // Stopped before the server created the message: dropping the request stops the run
+      generation.controller.abort();
+      return;
+    }
+
+    try {
+      await trpc.chat.cancelGeneration.mutate({ messageId: generation.messageId! });
+    } catch (error) {
+      console.error('Failed to stop generation:', error);
     }
   },
 
@@ -372,9 +404,33 @@ export const messageActions = {
     messagesError.set(null);
     messagesLoading.set(false);
     sendingMessage.set(false);
+    activeGeneration.set(null);
   },
 };
 
+// A single-model reply is no longer stoppable once it completes, fails or is stopped
+function settleGeneration(messageId: unknown) {
+  activeGeneration.update(active => active?.kind === 'message' && active.messageId === messageId ? null : active);
+}
+streamingService.on('generation_started', message => {
+  activeGeneration.update(active =>
+    active?.kind === 'trinity' && !active.messageId && active.threadId === message.threadId
+      ? { ...active, messageId: String(message.data['messageId']) }
+      : active
+  );
+});
+streamingService.on('chat_complete', message => settleGeneration(message.data['messageId']));
+streamingService.on('error', message => settleGeneration(message.data['messageId']));
+streamingService.on('generation_stopped', message => {
+  const messageId = message.data['messageId'];
+  settleGeneration(messageId);
+  currentMessages.update(messages => messages.map(item =>
+    item.id === messageId
+      ? { ...item, content: String(message.data['content'] ?? item.content), status: 'stopped' as const }
+      : item
+  ));
+});
+
 // Auto-load threads when user becomes authenticated
 isAuthenticated.subscribe(async ($isAuthenticated) => {
   console.log('Authentication state changed:', $isAuthenticated);
@@ -234,50 +234,91 @@ export function createStreamingMessage(config: StreamingMessageConfig = {}) {
   };
 }
 
+// One agent's answer as it streams in
+export interface TrinityAgentStream {
+  agentType: string;
+  content: string;
+  isComplete: boolean;
+  round?: number; // Debate mode only
+  confidence?: number;
+  metadata?: any;
+}
+
 // Helper function for Trinity Mode streaming
 export function createTrinityStreamingMessage(config: StreamingMessageConfig = {}) {
   const baseManager = createStreamingMessage(config);
   
   // Trinity-specific state
   const trinityState = writable({
-    agentResponses: [] as Array<{
-      agentType: 'analytical' | 'creative' | 'factual';
-      content: string;
-      confidence: number;
-      metadata?: any;
-    }>,
+    agentResponses: [] as TrinityAgentStream[],
     orchestratorActive: false,
-    executionMode: 'parallel' as 'parallel' | 'sequential' | 'hybrid',
+    executionMode: 'parallel' as 'parallel' | 'sequential' | 'hybrid' | 'debate',
   });
 
+  // Agents stream side by side, so each event updates its own agent's entry
+  const updateAgent = (agentType: string, update: (agent: TrinityAgentStream) => TrinityAgentStream) => {
+    trinityState.update(state => {
+      const existing = state.agentResponses.find(agent => agent.agentType === agentType);
+      const updated = update(existing ?? { agentType, content: '', isComplete: false });
+      return {
+        ...state,
+        agentResponses: existing
+          ? state.agentResponses.map(agent => agent === existing ? updated : agent)
+          : [...state.agentResponses, updated],
+      };
+    });
+  };
+
   // Handle Trinity-specific events
   const handleTrinityEvents = () => {
+    const isOurs = (message: StreamMessage) => message.threadId === baseManager.getCurrentState().threadId;
+
+    // A new answer, or in debate mode a revision that replaces the last one
+    const unsubStart = streamingService.on('agent_start', (message: StreamMessage) => {
+      if (!isOurs(message)) return;
+
+      const data = message.data as { agentType: string; round?: number };
+      updateAgent(data.agentType, () => ({
+        agentType: data.agentType,
+        content: '',
+        isComplete: false,
+        ...(data.round !== undefined && { round: data.round }),
+      }));
+    });
+
+    // Agent tokens as they are generated
+    const unsubChunk = streamingService.on('agent_chunk', (message: StreamMessage) => {
+      if (!isOurs(message)) return;
+
+      const data = message.data as { agentType: string; content?: string; delta?: string };
+      updateAgent(data.agentType, agent => ({
+        ...agent,
+        content: typeof data.content === 'string' ? data.content : agent.content + (data.delta ?? ''),
+      }));
+    });
+
     // Handle agent responses
     const unsubAgent = streamingService.on('agent_complete', (message: StreamMessage) => {
-      const currentState = baseManager.getCurrentState();
-      if (message.threadId !== currentState.threadId) return;
+      if (!isOurs(message)) return;
 
       const agentData = message.data as {
-        agentType: 'analytical' | 'creative' | 'factual';
+        agentType: string;
         content: string;
         metadata?: any;
       };
 
-      trinityState.update(state => ({
-        ...state,
-        agentResponses: [...state.agentResponses, {
-          agentType: agentData.agentType,
-          content: agentData.content,
-          confidence: agentData.metadata?.confidence || 0.8,
-          metadata: agentData.metadata,
-        }],
+      updateAgent(agentData.agentType, agent => ({
+        ...agent,
+        content: agentData.content,
+        isComplete: true,
+        confidence: agentData.metadata?.confidence || 0.8,
+        metadata: agentData.metadata,
       }));
     });
 
-    // Handle orchestrator start
+    // Synthesis tokens, which begin once every agent has finished
     const unsubOrchestrator = streamingService.on('orchestrator_chunk', (message: StreamMessage) => {
-      const currentState = baseManager.getCurrentState();
-      if (message.threadId !== currentState.threadId) return;
+      if (!isOurs(message)) return;
 
       trinityState.update(state => ({
         ...state,
@@ -290,7 +331,14 @@ export function createTrinityStreamingMessage(config: StreamingMessageConfig = {
       }
     });
 
-    return [unsubAgent, unsubOrchestrator];
+    const unsubComplete = streamingService.on('trinity_complete', (message: StreamMessage) => {
+      if (!isOurs(message)) return;
+
+      const data = message.data as { content?: string };
+      baseManager.setComplete(data.content);
+    });
+
+    return [unsubStart, unsubChunk, unsubAgent, unsubOrchestrator, unsubComplete];
   };
 
   const trinityUnsubscribers = handleTrinityEvents();
@@ -18,7 +18,12 @@ export type StreamMessageType =
   | 'agent_chunk'
   | 'agent_complete'
   | 'orchestrator_chunk'
-  | 'trinity_complete';
+  | 'trinity_complete'
+  | 'generation_started'
+  | 'generation_stopped'
+  | 'embedding_migration_progress'
+  | 'trinity_eval_progress'
+  | 'memory_embedding_status';
 
 export interface StreamMessage {
   type: StreamMessageType;
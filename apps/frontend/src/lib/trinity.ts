@@ -0,0 +1,187 @@
+// Mirrors the agent personas the backend accepts (apps/backend/src/lib/trinity-mode.ts)
+export const MIN_TRINITY_AGENTS = 2;
+export const MAX_TRINITY_AGENTS = 6;
+export const MAX_DEBATE_ROUNDS = 3;
+
+export type TrinityExecutionMode = 'parallel' | 'sequential' | 'hybrid' | 'debate';
+export type BuiltinAgentType = 'analytical' | 'creative' | 'factual';
+
+// One agent in a Trinity run: a built-in persona or one the user defined
+export interface TrinityAgent {
+  type: string; // Unique within a run
+  name: string;
+  description?: string;
+  systemPrompt?: string; // Built-in personas keep their own prompt when this is empty
+  model: string;
+  provider: string;
+  temperature: number;
+  weight: number;
+  enabled: boolean;
+}
+
+export interface TrinitySettings {
+  executionMode: TrinityExecutionMode;
+  preset: string;
+  agents: TrinityAgent[];
+  orchestrator: {
+    model: string;
+    provider: string;
+  };
+  debateRounds: number; // Critique-and-revise rounds after the first answers, debate mode only
+}
+
+export const BUILTIN_AGENTS: Record<BuiltinAgentType, TrinityAgent> = {
+  analytical: {
+    type: 'analytical',
+    name: 'Analytical',
+    description: 'Logic, reasoning, data analysis',
+    model: 'gpt-4o',
+    provider: 'openai',
+    temperature: 0.1,
+    weight: 0.4,
+    enabled: true,
+  },
+  factual: {
+    type: 'factual',
+    name: 'Factual',
+    description: 'Accuracy, verification, sources',
+    model: 'gpt-4o-mini',
+    provider: 'openai',
+    temperature: 0,
+    weight: 0.3,
+    enabled: true,
+  },
+  creative: {
+    type: 'creative',
+    name: 'Creative',
+    description: 'Novel ideas, alternative perspectives',
+    model: 'gpt-4o',
+    provider: 'openai',
+    temperature: 0.8,
+    weight: 0.3,
+    enabled: true,
+  },
+};
+
+export const DEFAULT_TRINITY_SETTINGS: TrinitySettings = {
+  executionMode: 'parallel',
+  preset: 'problem-solving',
+  agents: [BUILTIN_AGENTS.analytical, BUILTIN_AGENTS.factual, BUILTIN_AGENTS.creative],
+  orchestrator: {
+    model: 'gpt-4o',
+    provider: 'openai',
+  },
+  debateRounds: 1,
+};
+
+const AGENT_ICONS: Record<string, string> = {
+  analytical: '🔍',
+  creative: '🎨',
+  factual: '📊',
+};
+
+export function isBuiltinAgent(agent: Pick<TrinityAgent, 'type'>): boolean {
+  return agent.type in BUILTIN_AGENTS;
+}
+
+export function agentIcon(type: string): string {
+  return AGENT_ICONS[type] ?? '🧩';
+}
+
+/**
+ * A blank persona for the user to fill in, with a type no other agent uses
+ */
+export function createCustomAgent(): TrinityAgent {
+  return {
+    type: `custom-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+    name: '',
+    description: '',
+    systemPrompt: '',
+    model: 'gpt-4o-mini',
+    provider: 'openai',
+    temperature: 0.7,
+    weight: 0.3,
+    enabled: true,
+  };
+}
+
+/**
+ * Why these agents can't be used for a run, or null if they can
+ */
+export function validateAgents(agents: TrinityAgent[]): string | null {
+  if (agents.length < MIN_TRINITY_AGENTS || agents.length > MAX_TRINITY_AGENTS) {
+    return `Use between ${MIN_TRINITY_AGENTS} and ${MAX_TRINITY_AGENTS} agents`;
+  }
+  if (!agents.some(agent => agent.enabled)) {
+    return 'Enable at least one agent';
+  }
+  const incomplete = agents.find(agent => !isBuiltinAgent(agent) && (!agent.name.trim() || !agent.systemPrompt?.trim()));
+  if (incomplete) {
+    return 'Every custom persona needs a name and a system prompt';
+  }
+  return null;
+}
+
+// The agent as sent to the backend, leaving out empty optional fields
+export function toAgentPayload(agent: TrinityAgent): TrinityAgent {
+  const { description, systemPrompt, ...rest } = agent;
+  return {
+    ...rest,
+    name: agent.name.trim(),
+    ...(description?.trim() && { description: description.trim() }),
+    ...(systemPrompt?.trim() && { systemPrompt: systemPrompt.trim() }),
+  };
+}
+
+// A built-in or saved preset as returned by trinity.getPresets
+export interface TrinityPresetSummary {
+  id: string;
+  name: string;
+  description: string | null;
+  builtIn: boolean;
+  config: {
+    executionMode: TrinityExecutionMode;
+    agents: TrinityAgent[];
+    orchestrator: { model: string; provider: string };
+    debateRounds?: number; // Missing from presets saved before debate mode
+  };
+}
+
+/**
+ * Settings for the configuration panel from a preset's full config
+ */
+export function settingsFromPreset(preset: TrinityPresetSummary): TrinitySettings {
+  return {
+    executionMode: preset.config.executionMode,
+    preset: preset.id,
+    agents: preset.config.agents.map(agent => ({
+      type: agent.type,
+      name: agent.name,
+      ...(agent.description && { description: agent.description }),
+      systemPrompt: agent.systemPrompt ?? '',
+      model: agent.model,
+      provider: agent.provider,
+      temperature: agent.temperature,
+      weight: agent.weight,
+      enabled: agent.enabled,
+    })),
+    orchestrator: {
+      model: preset.config.orchestrator.model,
+      provider: preset.config.orchestrator.provider,
+    },
+    debateRounds: preset.config.debateRounds ?? DEFAULT_TRINITY_SETTINGS.debateRounds,
+  };
+}
+
+// The settings as sent to the backend for a run or a saved preset
+export function toTrinityPayload(config: TrinitySettings) {
+  return {
+    executionMode: config.executionMode,
+    preset: config.preset,
+    customConfig: {
+      agents: config.agents.map(toAgentPayload),
+      orchestrator: config.orchestrator,
+      debateRounds: config.debateRounds,
+    },
+  };
+}
@@ -39,10 +39,31 @@ export const ThreadSchema = z.object({
 export type Thread = z.infer<typeof ThreadSchema>;
 
 // LLM Provider types
-export const LLMProviderSchema = z.enum(['openai', 'anthropic', 'google', 'mistral', 'openrouter']);
+export const LLMProviderSchema = z.enum(['openai', 'anthropic', 'google', 'mistral', 'openrouter', 'custom']);
 
 export type LLMProvider = z.infer<typeof LLMProviderSchema>;
 
+// Model metadata as served by the backend model registry (`chat.models`)
+export const ModelInfoSchema = z.object({
+  id: z.string(),
+  provider: LLMProviderSchema,
+  name: z.string(),
+  contextWindow: z.number().int().positive(),
+  maxOutputTokens: z.number().int().positive(),
+  // USD per million tokens
+  pricing: z.object({
+    input: z.number().nonnegative(),
+    output: z.number().nonnegative(),
+  }).optional(),
+  capabilities: z.object({
+    streaming: z.boolean(),
+    vision: z.boolean(),
+    tools: z.boolean(),
+  }),
+});
+
+export type ModelInfo = z.infer<typeof ModelInfoSchema>;
+
 // Chat completion request
 export const ChatCompletionRequestSchema = z.object({
   messages: z.array(MessageSchema),